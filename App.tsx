@@ -1,17 +1,21 @@
 
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatView } from './components/ChatView';
-import { UserRole, Chat, Message, PreCodedGpt, DoctorProfile, ClinicalProtocol } from './types';
+import { UserRole, Chat, Message, PreCodedGpt, DoctorProfile, ClinicalProtocol, LicenseVerification, StorageEstimate, Patient, Encounter } from './types';
 import { PRE_CODED_GPTS } from './constants';
 import { Icon } from './components/Icon';
 import { LicenseVerificationModal } from './components/LicenseVerificationModal';
 import { ScribeSessionView } from './components/VedaSessionView';
+import { PatientView } from './components/PatientView';
 import { CLINICAL_PROTOCOLS } from './knowledgeBase';
 import { PrintViewModal } from './components/PrintViewModal';
 import { AboutModal } from './components/AboutModal';
+import { AuditLogModal } from './components/AuditLogModal';
 import { generateCaseSummary } from './services/geminiService';
 import { CaseSummaryModal } from './components/CaseSummaryModal';
+import { loadLicenseVerification, saveLicenseVerification, isVerificationCurrent } from './services/licenseVerification';
+import { loadChats, queueChatSave, getStorageEstimate, onStorageWrite, loadPatients, loadEncounters, savePatient, saveEncounter, deleteEncounter } from './services/storage';
 
 const App: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -19,8 +23,16 @@ const App: React.FC = () => {
   const [language, setLanguage] = useState('English');
   const [chats, setChats] = useState<Chat[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  // The last version of each chat handed to the store, so only changed chats are written.
+  const persistedChatsRef = useRef(new Map<string, Chat>());
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [encounters, setEncounters] = useState<Encounter[]>([]);
+  // The patient open in the patient view; not yet in `patients` while it is being registered.
+  const [activePatient, setActivePatient] = useState<Patient | null>(null);
+  const [scribePatientId, setScribePatientId] = useState<string | undefined>(undefined);
 
-  const [isDoctorVerified, setIsDoctorVerified] = useState(false);
+  const [licenseVerification, setLicenseVerification] = useState<LicenseVerification | null>(() => loadLicenseVerification());
   const [showVerificationModal, setShowVerificationModal] = useState(false);
   const [pendingVerificationMessage, setPendingVerificationMessage] = useState<string | null>(null);
   const [pendingFirstMessage, setPendingFirstMessage] = useState<string | null>(null);
@@ -30,7 +42,10 @@ const App: React.FC = () => {
       canPrescribeAllopathic: 'no'
   });
   
-  type View = 'chat' | 'scribe';
+  // A verification only counts for the qualification it was made for, and lapses at expiry.
+  const isDoctorVerified = isVerificationCurrent(licenseVerification, doctorProfile);
+
+  type View = 'chat' | 'scribe' | 'patient';
   const [activeView, setActiveView] = useState<View>('chat');
 
   const [isInsightsPanelOpen, setIsInsightsPanelOpen] = useState(false);
@@ -38,27 +53,72 @@ const App: React.FC = () => {
 
   const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
   const [isAboutModalOpen, setIsAboutModalOpen] = useState(false);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
   const [isSummaryModalOpen, setIsSummaryModalOpen] = useState(false);
   const [summaryContent, setSummaryContent] = useState<string | null>(null);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
 
 
+  // Chats saved in earlier sessions. Chats started before the load finishes are kept in front.
+  useEffect(() => {
+    loadChats()
+      .then(stored => {
+        stored.forEach(chat => persistedChatsRef.current.set(chat.id, chat));
+        setChats(prev => [...prev, ...stored.filter(chat => !prev.some(c => c.id === chat.id))]);
+      })
+      .catch(error => console.error('[STORAGE] Failed to load saved chats:', error));
+  }, []);
+
+  // Writes are debounced in the store, so a streamed answer is queued chunk by chunk but written once.
+  // A chat whose write fails is forgotten, so the next change to any chat queues it again.
+  useEffect(() => {
+    for (const chat of chats) {
+      if (persistedChatsRef.current.get(chat.id) === chat) continue;
+      persistedChatsRef.current.set(chat.id, chat);
+      queueChatSave(chat).catch(() => {
+        if (persistedChatsRef.current.get(chat.id) === chat) persistedChatsRef.current.delete(chat.id);
+      });
+    }
+  }, [chats]);
+
+  // Scribe sessions register their patient and encounter, so the registry is reloaded after every write.
+  useEffect(() => {
+    const refresh = () => {
+      getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+      Promise.all([loadPatients(), loadEncounters()])
+        .then(([storedPatients, storedEncounters]) => {
+          setPatients(storedPatients);
+          setEncounters(storedEncounters);
+        })
+        .catch(error => console.error('[STORAGE] Failed to load the patient registry:', error));
+    };
+    refresh();
+    return onStorageWrite(refresh);
+  }, []);
+
   const activeChat = useMemo(() => {
     return chats.find(chat => chat.id === activeChatId) || null;
   }, [chats, activeChatId]);
 
+  const activeChatEncounter = useMemo(() => {
+    return encounters.find(e => e.kind === 'chat' && e.chatId === activeChatId) || null;
+  }, [encounters, activeChatId]);
+
   const handleNewChat = useCallback((gpt?: PreCodedGpt) => {
+    const now = Date.now();
     const newChat: Chat = {
-      id: `chat-${Date.now()}`,
+      id: `chat-${now}`,
       title: gpt ? gpt.title : `New Conversation`,
       messages: gpt ? [{
-        id: `msg-${Date.now()}`,
+        id: `msg-${now}`,
         sender: 'AI',
         text: `You've started a new session with ${gpt.title}. ${gpt.description} How can I help you today?`,
         action_type: 'Informational',
       }] : [],
       userRole: userRole,
       gptId: gpt?.id,
+      createdAt: now,
+      updatedAt: now,
     };
     setChats(prev => [newChat, ...prev]);
     setActiveChatId(newChat.id);
@@ -69,11 +129,12 @@ const App: React.FC = () => {
     if(window.innerWidth < 768) {
       setSidebarOpen(false);
     }
+    return newChat;
   }, [userRole]);
 
-  const updateChat = useCallback((chatId: string, messages: Message[]) => {
+  const updateChat = useCallback((chatId: string, messages: Message[], updates?: Partial<Omit<Chat, 'id' | 'messages'>>) => {
     setChats(prev => prev.map(chat =>
-      chat.id === chatId ? { ...chat, messages } : chat
+      chat.id === chatId ? { ...chat, ...updates, messages, updatedAt: Date.now() } : chat
     ));
   }, []);
 
@@ -89,18 +150,76 @@ const App: React.FC = () => {
   
   const relevantGpts = useMemo(() => PRE_CODED_GPTS, []);
 
-  const handleVerifyLicense = () => {
-    setIsDoctorVerified(true);
+  const handleVerifyLicense = (verification: LicenseVerification) => {
+    saveLicenseVerification(verification);
+    setLicenseVerification(verification);
     setShowVerificationModal(false);
   };
   
-  const handleStartScribeSession = () => {
+  const handleStartScribeSession = (patientId?: string) => {
+      setScribePatientId(patientId);
       setActiveView('scribe');
       if(window.innerWidth < 768) {
         setSidebarOpen(false);
       }
   };
 
+  const openPatient = (patient: Patient) => {
+      setActivePatient(patient);
+      setActiveView('patient');
+      if(window.innerWidth < 768) {
+        setSidebarOpen(false);
+      }
+  };
+
+  const handleSelectPatient = (patientId: string) => {
+      const patient = patients.find(p => p.id === patientId);
+      if (patient) openPatient(patient);
+  };
+
+  const handleNewPatient = () => {
+      const now = Date.now();
+      openPatient({ id: `patient-${now}`, name: '', sex: '', mobile: '', allergies: [], chronicConditions: [], createdAt: now, updatedAt: now });
+  };
+
+  // Shown straight away; the store write then reloads the registry.
+  const handleSavePatient = (patient: Patient) => {
+      setActivePatient(patient);
+      setPatients(prev => [...prev.filter(p => p.id !== patient.id), patient].sort((a, b) => a.name.localeCompare(b.name)));
+      savePatient(patient).catch(error => console.error('[STORAGE] Failed to save patient:', error));
+  };
+
+  // A chat belongs to at most one patient: linking replaces its encounter, unlinking removes it.
+  const handleLinkChatToPatient = useCallback((chatId: string, patientId: string | null) => {
+      const chat = chats.find(c => c.id === chatId);
+      const existing = encounters.find(e => e.kind === 'chat' && e.chatId === chatId);
+      if (!chat) return;
+      if (!patientId) {
+          if (!existing) return;
+          setEncounters(prev => prev.filter(e => e.id !== existing.id));
+          deleteEncounter(existing.id).catch(error => console.error('[STORAGE] Failed to unlink chat:', error));
+          return;
+      }
+      const encounter: Encounter = {
+          id: existing?.id || `encounter-${chatId}`,
+          patientId,
+          kind: 'chat',
+          chatId,
+          title: chat.title,
+          startedAt: chat.createdAt,
+          updatedAt: Date.now(),
+      };
+      setEncounters(prev => [encounter, ...prev.filter(e => e.id !== encounter.id)].sort((a, b) => b.startedAt - a.startedAt));
+      saveEncounter(encounter).catch(error => console.error('[STORAGE] Failed to link chat:', error));
+  }, [chats, encounters]);
+
+  const handleNewChatForPatient = (patientId: string) => {
+      const chat = handleNewChat();
+      const encounter: Encounter = { id: `encounter-${chat.id}`, patientId, kind: 'chat', chatId: chat.id, title: chat.title, startedAt: chat.createdAt, updatedAt: chat.createdAt };
+      setEncounters(prev => [encounter, ...prev]);
+      saveEncounter(encounter).catch(error => console.error('[STORAGE] Failed to link chat:', error));
+  };
+
   const handleGenerateCaseSummary = useCallback(async () => {
     if (!activeChat || activeChat.messages.length === 0) return;
     setIsGeneratingSummary(true);
@@ -124,6 +243,22 @@ const App: React.FC = () => {
                 onEndSession={() => setActiveView('chat')}
                 doctorProfile={doctorProfile}
                 language={language}
+                patients={patients}
+                initialPatientId={scribePatientId}
+            />;
+        case 'patient':
+            if (!activePatient) return null;
+            return <PatientView
+                key={activePatient.id}
+                patient={activePatient}
+                isNew={!patients.some(p => p.id === activePatient.id)}
+                encounters={encounters.filter(e => e.patientId === activePatient.id)}
+                chats={chats}
+                onSave={handleSavePatient}
+                onOpenChat={handleSelectChat}
+                onNewChat={() => handleNewChatForPatient(activePatient.id)}
+                onStartScribeSession={() => handleStartScribeSession(activePatient.id)}
+                onClose={() => setActiveView('chat')}
             />;
         case 'chat':
         default:
@@ -168,6 +303,9 @@ const App: React.FC = () => {
                       isInsightsPanelOpen={isInsightsPanelOpen}
                       setIsInsightsPanelOpen={setIsInsightsPanelOpen}
                       knowledgeBaseProtocols={knowledgeBaseProtocols}
+                      patients={patients}
+                      linkedPatientId={activeChatEncounter?.patientId || null}
+                      onLinkPatient={handleLinkChatToPatient}
                     />
                 </>
             );
@@ -190,11 +328,17 @@ const App: React.FC = () => {
         setLanguage={setLanguage}
         doctorProfile={doctorProfile}
         setDoctorProfile={setDoctorProfile}
-        onStartScribeSession={handleStartScribeSession}
+        onStartScribeSession={() => handleStartScribeSession()}
         activeView={activeView}
         onShowPrintModal={() => setIsPrintModalOpen(true)}
         onShowAboutModal={() => setIsAboutModalOpen(true)}
+        onShowAuditLog={() => setIsAuditLogOpen(true)}
         onGenerateCaseSummary={handleGenerateCaseSummary}
+        storageEstimate={storageEstimate}
+        patients={patients}
+        activePatientId={activePatient?.id || null}
+        onSelectPatient={handleSelectPatient}
+        onNewPatient={handleNewPatient}
       />
       <main className="flex-1 flex flex-col bg-aivana-dark relative">
         {renderActiveView()}
@@ -203,6 +347,7 @@ const App: React.FC = () => {
         isOpen={showVerificationModal}
         onClose={() => setShowVerificationModal(false)}
         onVerify={handleVerifyLicense}
+        doctorProfile={doctorProfile}
       />
       <PrintViewModal
         isOpen={isPrintModalOpen}
@@ -213,6 +358,10 @@ const App: React.FC = () => {
         isOpen={isAboutModalOpen}
         onClose={() => setIsAboutModalOpen(false)}
       />
+      <AuditLogModal
+        isOpen={isAuditLogOpen}
+        onClose={() => setIsAuditLogOpen(false)}
+      />
       <CaseSummaryModal
         isOpen={isSummaryModalOpen}
         onClose={() => setIsSummaryModalOpen(false)}
@@ -0,0 +1,117 @@
+import { OntologyConcept } from './types';
+
+// Bundled, offline terminology table used by the Ontology Mapper (Layer 04).
+// Symptom concept names match the canonical symptom terms of the Input Normalizer so that
+// regional phrasing ("bukhaar", "chakkar") resolves to the same finding.
+
+export const CLINICAL_ONTOLOGY: OntologyConcept[] = [
+  // --- Symptoms ---
+  { id: 'SYM-CHEST-PAIN', name: 'Chest pain', category: 'symptom', icd10: 'R07.4', snomedCt: '29857009', synonyms: ['chest pain', 'chest discomfort', 'chest tightness', 'seene mein dard', 'seene me dard', 'chhati mein dard', 'chhati me dard', 'chhati dard', 'chaati dukhna'] },
+  { id: 'SYM-DYSPNEA', name: 'Shortness of breath', category: 'symptom', icd10: 'R06.0', snomedCt: '267036007', synonyms: ['shortness of breath', 'breathlessness', 'dyspnea', 'dyspnoea', 'saans phoolna', 'saans phulna', 'saans lene mein taklif', 'saans ki takleef', 'dam phoolna', 'dhaap lagna'] },
+  { id: 'SYM-FEVER', name: 'Fever', category: 'symptom', icd10: 'R50.9', snomedCt: '386661006', synonyms: ['fever', 'pyrexia', 'bukhaar', 'bukhar', 'bukhār', 'jwar', 'jvar', 'taap', 'kaichal'] },
+  { id: 'SYM-COUGH', name: 'Cough', category: 'symptom', icd10: 'R05', snomedCt: '49727002', synonyms: ['cough', 'khansi', 'khaansi', 'khasi', 'khokla', 'irumal', 'kashi'] },
+  { id: 'SYM-HEMOPTYSIS', name: 'Hemoptysis', category: 'symptom', icd10: 'R04.2', snomedCt: '66857006', synonyms: ['hemoptysis', 'haemoptysis', 'khansi mein khoon', 'khoon ki khansi'] },
+  { id: 'SYM-HEADACHE', name: 'Headache', category: 'symptom', icd10: 'R51', snomedCt: '25064002', synonyms: ['headache', 'sar dard', 'sir dard', 'sardard', 'sirdard', 'dokedukhi', 'thalaivali', 'matha byatha'] },
+  { id: 'SYM-DIZZINESS', name: 'Dizziness', category: 'symptom', icd10: 'R42', snomedCt: '404640003', synonyms: ['dizziness', 'giddiness', 'vertigo', 'chakkar', 'chakkar aana', 'chakkar aa raha', 'chakar', 'ghumri'] },
+  { id: 'SYM-SYNCOPE', name: 'Syncope', category: 'symptom', icd10: 'R55', snomedCt: '271594007', synonyms: ['syncope', 'fainting', 'behoshi', 'behosh', 'behosh hona'] },
+  { id: 'SYM-PALPITATIONS', name: 'Palpitations', category: 'symptom', icd10: 'R00.2', snomedCt: '80313002', synonyms: ['palpitations', 'palpitation', 'ghabrahat', 'dhadkan tez', 'dil ki dhadkan tez', 'dhak dhak'] },
+  { id: 'SYM-SWEATING', name: 'Sweating', category: 'symptom', icd10: 'R61.9', snomedCt: '415690000', synonyms: ['sweating', 'diaphoresis', 'pasina', 'paseena', 'thanda pasina'] },
+  { id: 'SYM-NAUSEA', name: 'Nausea', category: 'symptom', icd10: 'R11', snomedCt: '422587007', synonyms: ['nausea', 'jee machalna', 'ji machlana', 'ji michlana', 'ubkai'] },
+  { id: 'SYM-VOMITING', name: 'Vomiting', category: 'symptom', icd10: 'R11', snomedCt: '422400008', synonyms: ['vomiting', 'emesis', 'ulti', 'ultee', 'ultiyan', 'vanti'] },
+  { id: 'SYM-DIARRHEA', name: 'Diarrhea', category: 'symptom', icd10: 'A09.9', snomedCt: '62315008', synonyms: ['diarrhea', 'diarrhoea', 'loose motion', 'loose motions', 'loose stools', 'dast', 'julab', 'pet kharab'] },
+  { id: 'SYM-ABD-PAIN', name: 'Abdominal pain', category: 'symptom', icd10: 'R10.4', snomedCt: '21522001', synonyms: ['abdominal pain', 'pain abdomen', 'stomach pain', 'pet dard', 'pet mein dard', 'pet me dard', 'potdukhi', 'vayiru vali'] },
+  { id: 'SYM-BACK-PAIN', name: 'Back pain', category: 'symptom', icd10: 'M54.9', snomedCt: '161891005', synonyms: ['back pain', 'kamar dard', 'kamar mein dard', 'peeth dard'] },
+  { id: 'SYM-JOINT-PAIN', name: 'Joint pain', category: 'symptom', icd10: 'M25.5', snomedCt: '57676002', synonyms: ['joint pain', 'arthralgia', 'jodon mein dard', 'jodo ka dard', 'gathiya'] },
+  { id: 'SYM-FATIGUE', name: 'Fatigue', category: 'symptom', icd10: 'R53', snomedCt: '84229001', synonyms: ['fatigue', 'tiredness', 'malaise', 'thakaan', 'thakan', 'thakawat'] },
+  { id: 'SYM-WEAKNESS', name: 'Weakness', category: 'symptom', icd10: 'R53', snomedCt: '13791008', synonyms: ['weakness', 'kamzori', 'kamjori', 'ashakti'] },
+  { id: 'SYM-CONFUSION', name: 'Confusion', category: 'symptom', icd10: 'R41.0', snomedCt: '286933003', synonyms: ['confusion', 'altered sensorium', 'disoriented', 'bhram'] },
+  { id: 'SYM-SEIZURE', name: 'Seizure', category: 'symptom', icd10: 'R56.8', snomedCt: '91175000', synonyms: ['seizure', 'convulsion', 'fits', 'daura', 'daure', 'mirgi ka daura', 'jhatke'] },
+  { id: 'SYM-SLURRED', name: 'Slurred speech', category: 'symptom', icd10: 'R47.1', snomedCt: '289195008', synonyms: ['slurred speech', 'dysarthria', 'bolne mein dikkat', 'zubaan ladkhadana'] },
+  { id: 'SYM-FACIAL-DROOP', name: 'Facial droop', category: 'symptom', icd10: 'R29.8', snomedCt: '95666008', synonyms: ['facial droop', 'facial deviation', 'munh tedha', 'muh tedha'] },
+  { id: 'SYM-RASH', name: 'Rash', category: 'symptom', icd10: 'R21', snomedCt: '271807003', synonyms: ['rash', 'hives', 'urticaria', 'daane', 'chakatte', 'pitti'] },
+  { id: 'SYM-ITCHING', name: 'Itching', category: 'symptom', icd10: 'L29.9', snomedCt: '418290006', synonyms: ['itching', 'pruritus', 'khujli', 'kharish', 'khaj'] },
+  { id: 'SYM-SWELLING', name: 'Swelling', category: 'symptom', icd10: 'R60.9', snomedCt: '267038008', synonyms: ['swelling', 'edema', 'oedema', 'sujan', 'soojan', 'sooj'] },
+  { id: 'SYM-WHEEZE', name: 'Wheeze', category: 'symptom', icd10: 'R06.2', snomedCt: '56018004', synonyms: ['wheeze', 'wheezing', 'seeti ki awaz', 'saans mein seeti'] },
+  { id: 'SYM-STRIDOR', name: 'Stridor', category: 'symptom', icd10: 'R06.1', snomedCt: '70407001', synonyms: ['stridor'] },
+  { id: 'SYM-DYSURIA', name: 'Dysuria', category: 'symptom', icd10: 'R30.0', snomedCt: '49650001', synonyms: ['dysuria', 'burning micturition', 'peshab mein jalan', 'pishab mein jalan', 'urine mein jalan'] },
+  { id: 'SYM-JAUNDICE', name: 'Jaundice', category: 'symptom', icd10: 'R17', snomedCt: '18165001', synonyms: ['jaundice', 'icterus', 'peeliya', 'piliya', 'kamla', 'kavil'] },
+  { id: 'SYM-BLEEDING', name: 'Bleeding', category: 'symptom', icd10: 'R58', snomedCt: '131148009', synonyms: ['bleeding', 'hemorrhage', 'haemorrhage', 'khoon behna', 'khoon aana'] },
+  { id: 'SYM-WEIGHT-LOSS', name: 'Weight loss', category: 'symptom', icd10: 'R63.4', snomedCt: '89362005', synonyms: ['weight loss', 'wajan kam hona', 'vajan ghatna', 'wazan kam'] },
+
+  // --- Diagnoses ---
+  { id: 'DX-ACS', name: 'Acute coronary syndrome', category: 'diagnosis', icd10: 'I24.9', snomedCt: '394659003', synonyms: ['acute coronary syndrome', 'acs', 'heart attack', 'dil ka daura', 'myocardial infarction', 'mi'] },
+  { id: 'DX-STEMI', name: 'ST elevation myocardial infarction', category: 'diagnosis', icd10: 'I21.3', snomedCt: '401303003', synonyms: ['stemi', 'st elevation mi', 'st elevation myocardial infarction'] },
+  { id: 'DX-NSTEMI', name: 'Non-ST elevation myocardial infarction', category: 'diagnosis', icd10: 'I21.4', snomedCt: '401314000', synonyms: ['nstemi', 'non st elevation mi', 'nste-acs'] },
+  { id: 'DX-UA', name: 'Unstable angina', category: 'diagnosis', icd10: 'I20.0', snomedCt: '4557003', synonyms: ['unstable angina'] },
+  { id: 'DX-AORTIC-DISSECTION', name: 'Aortic dissection', category: 'diagnosis', icd10: 'I71.0', snomedCt: '308546005', synonyms: ['aortic dissection', 'dissection of aorta'] },
+  { id: 'DX-PE', name: 'Pulmonary embolism', category: 'diagnosis', icd10: 'I26.9', snomedCt: '59282003', synonyms: ['pulmonary embolism', 'pulmonary thromboembolism'] },
+  { id: 'DX-HF', name: 'Heart failure', category: 'diagnosis', icd10: 'I50.9', snomedCt: '84114007', synonyms: ['heart failure', 'chf', 'congestive cardiac failure', 'ccf'] },
+  { id: 'DX-HTN', name: 'Essential hypertension', category: 'diagnosis', icd10: 'I10', snomedCt: '38341003', synonyms: ['hypertension', 'htn', 'high bp', 'high blood pressure', 'bp ki bimari', 'uchch raktchaap'] },
+  { id: 'DX-SEPSIS', name: 'Sepsis', category: 'diagnosis', icd10: 'A41.9', snomedCt: '91302008', synonyms: ['sepsis', 'septicemia', 'septicaemia'] },
+  { id: 'DX-SEPTIC-SHOCK', name: 'Septic shock', category: 'diagnosis', icd10: 'R57.2', snomedCt: '76571007', synonyms: ['septic shock'] },
+  { id: 'DX-ANAPHYLAXIS', name: 'Anaphylaxis', category: 'diagnosis', icd10: 'T78.2', snomedCt: '39579001', synonyms: ['anaphylaxis', 'anaphylactic shock', 'anaphylactic reaction'] },
+  { id: 'DX-ISCH-STROKE', name: 'Ischaemic stroke', category: 'diagnosis', icd10: 'I63.9', snomedCt: '422504002', synonyms: ['ischemic stroke', 'ischaemic stroke', 'stroke', 'cva', 'lakwa', 'paralysis attack', 'brain attack'] },
+  { id: 'DX-HEM-STROKE', name: 'Intracerebral haemorrhage', category: 'diagnosis', icd10: 'I61.9', snomedCt: '274100004', synonyms: ['hemorrhagic stroke', 'haemorrhagic stroke', 'intracerebral hemorrhage', 'ich', 'brain bleed'] },
+  { id: 'DX-TIA', name: 'Transient ischaemic attack', category: 'diagnosis', icd10: 'G45.9', snomedCt: '266257000', synonyms: ['transient ischemic attack', 'transient ischaemic attack', 'tia'] },
+  { id: 'DX-PNEUMONIA', name: 'Pneumonia', category: 'diagnosis', icd10: 'J18.9', snomedCt: '233604007', synonyms: ['pneumonia', 'lrti', 'chest infection', 'nimoniya'] },
+  { id: 'DX-ASTHMA', name: 'Asthma', category: 'diagnosis', icd10: 'J45.9', snomedCt: '195967001', synonyms: ['asthma', 'bronchial asthma', 'dama', 'dameh'] },
+  { id: 'DX-COPD', name: 'Chronic obstructive pulmonary disease', category: 'diagnosis', icd10: 'J44.9', snomedCt: '13645005', synonyms: ['copd', 'chronic obstructive pulmonary disease', 'chronic bronchitis', 'emphysema'] },
+  { id: 'DX-PNEUMOTHORAX', name: 'Pneumothorax', category: 'diagnosis', icd10: 'J93.9', snomedCt: '36118008', synonyms: ['pneumothorax'] },
+  { id: 'DX-T2DM', name: 'Type 2 diabetes mellitus', category: 'diagnosis', icd10: 'E11.9', snomedCt: '44054006', synonyms: ['type 2 diabetes', 't2dm', 'diabetes', 'dm', 'diabetes mellitus', 'madhumeh', 'sugar ki bimari'] },
+  { id: 'DX-DKA', name: 'Diabetic ketoacidosis', category: 'diagnosis', icd10: 'E11.1', snomedCt: '420422005', synonyms: ['diabetic ketoacidosis', 'dka'] },
+  { id: 'DX-HYPOGLYCEMIA', name: 'Hypoglycaemia', category: 'diagnosis', icd10: 'E16.2', snomedCt: '302866003', synonyms: ['hypoglycemia', 'hypoglycaemia', 'low sugar', 'sugar kam'] },
+  { id: 'DX-HYPOTHYROID', name: 'Hypothyroidism', category: 'diagnosis', icd10: 'E03.9', snomedCt: '40930008', synonyms: ['hypothyroidism', 'hypothyroid', 'low thyroid'] },
+  { id: 'DX-DENGUE', name: 'Dengue fever', category: 'diagnosis', icd10: 'A90', snomedCt: '38362002', synonyms: ['dengue', 'dengue fever', 'dengu'] },
+  { id: 'DX-MALARIA', name: 'Malaria', category: 'diagnosis', icd10: 'B54', snomedCt: '61462000', synonyms: ['malaria', 'maleria', 'thandi bukhaar'] },
+  { id: 'DX-TYPHOID', name: 'Typhoid fever', category: 'diagnosis', icd10: 'A01.0', snomedCt: '4834000', synonyms: ['typhoid', 'enteric fever', 'motijhara'] },
+  { id: 'DX-CHIKUNGUNYA', name: 'Chikungunya', category: 'diagnosis', icd10: 'A92.0', snomedCt: '111864006', synonyms: ['chikungunya', 'chikungunia'] },
+  { id: 'DX-TB', name: 'Tuberculosis', category: 'diagnosis', icd10: 'A16.9', snomedCt: '56717001', synonyms: ['tuberculosis', 'tb', 'pulmonary tb', 'kshay rog', 'tibi'] },
+  { id: 'DX-INFLUENZA', name: 'Influenza', category: 'diagnosis', icd10: 'J11.1', snomedCt: '6142004', synonyms: ['influenza', 'flu', 'viral fever'] },
+  { id: 'DX-UTI', name: 'Urinary tract infection', category: 'diagnosis', icd10: 'N39.0', snomedCt: '68566005', synonyms: ['urinary tract infection', 'uti'] },
+  { id: 'DX-GASTROENTERITIS', name: 'Gastroenteritis', category: 'diagnosis', icd10: 'A09.9', snomedCt: '25374005', synonyms: ['gastroenteritis', 'acute gastroenteritis', 'food poisoning'] },
+  { id: 'DX-GERD', name: 'Gastro-oesophageal reflux disease', category: 'diagnosis', icd10: 'K21.9', snomedCt: '235595009', synonyms: ['gerd', 'acid reflux', 'acidity', 'khatta dakar'] },
+  { id: 'DX-PUD', name: 'Peptic ulcer disease', category: 'diagnosis', icd10: 'K27.9', snomedCt: '13200003', synonyms: ['peptic ulcer', 'peptic ulcer disease', 'pud'] },
+  { id: 'DX-PANCREATITIS', name: 'Acute pancreatitis', category: 'diagnosis', icd10: 'K85.9', snomedCt: '197456007', synonyms: ['acute pancreatitis', 'pancreatitis'] },
+  { id: 'DX-APPENDICITIS', name: 'Acute appendicitis', category: 'diagnosis', icd10: 'K35.8', snomedCt: '85189001', synonyms: ['appendicitis', 'acute appendicitis'] },
+  { id: 'DX-MIGRAINE', name: 'Migraine', category: 'diagnosis', icd10: 'G43.9', snomedCt: '37796009', synonyms: ['migraine', 'aadha sheesha', 'adhasisi'] },
+  { id: 'DX-AKI', name: 'Acute kidney injury', category: 'diagnosis', icd10: 'N17.9', snomedCt: '14669001', synonyms: ['acute kidney injury', 'aki', 'acute renal failure'] },
+  { id: 'DX-CKD', name: 'Chronic kidney disease', category: 'diagnosis', icd10: 'N18.9', snomedCt: '709044004', synonyms: ['chronic kidney disease', 'ckd', 'kidney failure', 'esrd'] },
+  { id: 'DX-ANEMIA', name: 'Anaemia', category: 'diagnosis', icd10: 'D64.9', snomedCt: '271737000', synonyms: ['anemia', 'anaemia', 'khoon ki kami', 'low hb'] },
+  { id: 'DX-CELLULITIS', name: 'Cellulitis', category: 'diagnosis', icd10: 'L03.9', snomedCt: '128045006', synonyms: ['cellulitis'] },
+
+  // --- Drugs ---
+  { id: 'DRUG-ASPIRIN', name: 'Aspirin', category: 'drug', atc: 'B01AC06', synonyms: ['aspirin', 'ecosprin', 'disprin', 'acetylsalicylic acid'] },
+  { id: 'DRUG-CLOPIDOGREL', name: 'Clopidogrel', category: 'drug', atc: 'B01AC04', synonyms: ['clopidogrel', 'clopilet', 'plavix', 'deplatt'] },
+  { id: 'DRUG-TICAGRELOR', name: 'Ticagrelor', category: 'drug', atc: 'B01AC24', synonyms: ['ticagrelor', 'brilinta', 'axcer'] },
+  { id: 'DRUG-NTG', name: 'Nitroglycerin', category: 'drug', atc: 'C01DA02', synonyms: ['nitroglycerin', 'glyceryl trinitrate', 'gtn', 'ntg', 'nitrocontin'] },
+  { id: 'DRUG-ISDN', name: 'Isosorbide dinitrate', category: 'drug', atc: 'C01DA08', synonyms: ['isosorbide dinitrate', 'sorbitrate', 'isordil'] },
+  { id: 'DRUG-ATORVASTATIN', name: 'Atorvastatin', category: 'drug', atc: 'C10AA05', synonyms: ['atorvastatin', 'atorva', 'storvas', 'lipitor'] },
+  { id: 'DRUG-METOPROLOL', name: 'Metoprolol', category: 'drug', atc: 'C07AB02', synonyms: ['metoprolol', 'metolar', 'met xl', 'betaloc'] },
+  { id: 'DRUG-ENOXAPARIN', name: 'Enoxaparin', category: 'drug', atc: 'B01AB05', synonyms: ['enoxaparin', 'clexane', 'lmwh'] },
+  { id: 'DRUG-HEPARIN', name: 'Heparin', category: 'drug', atc: 'B01AB01', synonyms: ['heparin', 'unfractionated heparin', 'ufh'] },
+  { id: 'DRUG-NOREPINEPHRINE', name: 'Norepinephrine', category: 'drug', atc: 'C01CA03', synonyms: ['norepinephrine', 'noradrenaline', 'norad', 'adrenor'] },
+  { id: 'DRUG-ADRENALINE', name: 'Adrenaline', category: 'drug', atc: 'C01CA24', synonyms: ['adrenaline', 'epinephrine'] },
+  { id: 'DRUG-PIPTAZ', name: 'Piperacillin-Tazobactam', category: 'drug', atc: 'J01CR05', synonyms: ['piperacillin-tazobactam', 'piperacillin tazobactam', 'pip-taz', 'piptaz', 'pipzo', 'tazar'] },
+  { id: 'DRUG-HYDROCORTISONE', name: 'Hydrocortisone', category: 'drug', atc: 'H02AB09', synonyms: ['hydrocortisone', 'primacort', 'efcorlin'] },
+  { id: 'DRUG-ALTEPLASE', name: 'Alteplase', category: 'drug', atc: 'B01AD02', synonyms: ['alteplase', 'tpa', 'actilyse'] },
+  { id: 'DRUG-TENECTEPLASE', name: 'Tenecteplase', category: 'drug', atc: 'B01AD11', synonyms: ['tenecteplase', 'tnk', 'elaxim'] },
+  { id: 'DRUG-LABETALOL', name: 'Labetalol', category: 'drug', atc: 'C07AG01', synonyms: ['labetalol', 'labebet'] },
+  { id: 'DRUG-PARACETAMOL', name: 'Paracetamol', category: 'drug', atc: 'N02BE01', synonyms: ['paracetamol', 'acetaminophen', 'crocin', 'dolo', 'calpol', 'pcm'] },
+  { id: 'DRUG-IBUPROFEN', name: 'Ibuprofen', category: 'drug', atc: 'M01AE01', synonyms: ['ibuprofen', 'brufen', 'combiflam'] },
+  { id: 'DRUG-DICLOFENAC', name: 'Diclofenac', category: 'drug', atc: 'M01AB05', synonyms: ['diclofenac', 'voveran', 'voltaren'] },
+  { id: 'DRUG-OMEPRAZOLE', name: 'Omeprazole', category: 'drug', atc: 'A02BC01', synonyms: ['omeprazole', 'omez'] },
+  { id: 'DRUG-PANTOPRAZOLE', name: 'Pantoprazole', category: 'drug', atc: 'A02BC02', synonyms: ['pantoprazole', 'pan 40', 'pantocid'] },
+  { id: 'DRUG-ONDANSETRON', name: 'Ondansetron', category: 'drug', atc: 'A04AA01', synonyms: ['ondansetron', 'emeset', 'ondem'] },
+  { id: 'DRUG-AMOXICILLIN', name: 'Amoxicillin', category: 'drug', atc: 'J01CA04', synonyms: ['amoxicillin', 'amoxycillin', 'mox', 'novamox'] },
+  { id: 'DRUG-AZITHROMYCIN', name: 'Azithromycin', category: 'drug', atc: 'J01FA10', synonyms: ['azithromycin', 'azithral', 'azee'] },
+  { id: 'DRUG-CEFTRIAXONE', name: 'Ceftriaxone', category: 'drug', atc: 'J01DD04', synonyms: ['ceftriaxone', 'monocef', 'intacef'] },
+  { id: 'DRUG-METFORMIN', name: 'Metformin', category: 'drug', atc: 'A10BA02', synonyms: ['metformin', 'glycomet', 'glucophage'] },
+  { id: 'DRUG-INSULIN', name: 'Insulin', category: 'drug', atc: 'A10A', synonyms: ['insulin', 'actrapid', 'human mixtard', 'lantus'] },
+  { id: 'DRUG-AMLODIPINE', name: 'Amlodipine', category: 'drug', atc: 'C08CA01', synonyms: ['amlodipine', 'amlong', 'stamlo'] },
+  { id: 'DRUG-SALBUTAMOL', name: 'Salbutamol', category: 'drug', atc: 'R03AC02', synonyms: ['salbutamol', 'albuterol', 'asthalin', 'ventolin'] },
+  { id: 'DRUG-WARFARIN', name: 'Warfarin', category: 'drug', atc: 'B01AA03', synonyms: ['warfarin', 'warf'] },
+  { id: 'DRUG-ACENOCOUMAROL', name: 'Acenocoumarol', category: 'drug', atc: 'B01AA07', synonyms: ['acenocoumarol', 'acitrom'] },
+  { id: 'DRUG-SILDENAFIL', name: 'Sildenafil', category: 'drug', atc: 'G04BE03', synonyms: ['sildenafil', 'viagra', 'penegra'] },
+  { id: 'DRUG-FUROSEMIDE', name: 'Furosemide', category: 'drug', atc: 'C03CA01', synonyms: ['furosemide', 'frusemide', 'lasix'] },
+  { id: 'DRUG-MORPHINE', name: 'Morphine', category: 'drug', atc: 'N02AA01', synonyms: ['morphine'] },
+];
@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Icon } from './Icon';
+import { AuditRecord, AuditChainVerification, AuditExportBundle } from '../types';
+import { listAuditRecords, auditRecordsToCsv, AuditLogFilter, verifyAuditLog, exportSignedAuditBundle } from '../services/auditLog';
+import { verifySignedBundle, BundleVerification } from '../services/auditIntegrity';
+
+interface AuditLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ACTION_TYPES: AuditRecord['actionType'][] = ['Informational', 'Requires Clinician Confirmation', 'Error'];
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const actionClass = (actionType: AuditRecord['actionType']) => {
+  switch (actionType) {
+    case 'Requires Clinician Confirmation': return 'text-yellow-300';
+    case 'Error': return 'text-red-400';
+    default: return 'text-blue-300';
+  }
+};
+
+export const AuditLogModal: React.FC<AuditLogModalProps> = ({ isOpen, onClose }) => {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [allProtocolIds, setAllProtocolIds] = useState<string[]>([]);
+  const [filter, setFilter] = useState<AuditLogFilter>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [chainResult, setChainResult] = useState<AuditChainVerification | null>(null);
+  const [bundleResult, setBundleResult] = useState<(BundleVerification & { fileName: string }) | null>(null);
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listAuditRecords().then(all => {
+      setAllProtocolIds([...new Set(all.flatMap(r => r.protocolIds))].sort());
+    });
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    listAuditRecords(filter)
+      .then(setRecords)
+      .catch(error => console.error('Failed to load audit log:', error))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, filter]);
+
+  const totals = useMemo(() => ({
+    confirmations: records.filter(r => r.actionType === 'Requires Clinician Confirmation').length,
+    errors: records.filter(r => r.actionType === 'Error').length,
+  }), [records]);
+
+  if (!isOpen) return null;
+
+  const today = () => new Date().toISOString().slice(0, 10);
+
+  const handleExportCsv = () => {
+    downloadFile(auditRecordsToCsv(records), `nexus_audit_log_${today()}.csv`, 'text/csv');
+  };
+
+  const handleVerifyChain = async () => {
+    setIntegrityError(null);
+    try {
+      setChainResult(await verifyAuditLog());
+    } catch (error: any) {
+      setIntegrityError(`Chain verification failed to run: ${error?.message || error}`);
+    }
+  };
+
+  // Always exports the full chain: a filtered view has gaps and would not verify.
+  const handleExportBundle = async () => {
+    setIntegrityError(null);
+    try {
+      const bundle = await exportSignedAuditBundle();
+      downloadFile(JSON.stringify(bundle, null, 2), `nexus_audit_bundle_${today()}.json`, 'application/json');
+    } catch (error: any) {
+      setIntegrityError(`Signed export failed: ${error?.message || error}`);
+    }
+  };
+
+  const handleVerifyBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIntegrityError(null);
+    try {
+      const bundle = JSON.parse(await file.text()) as AuditExportBundle;
+      setBundleResult({ ...(await verifySignedBundle(bundle)), fileName: file.name });
+    } catch (error: any) {
+      setIntegrityError(`${file.name} could not be read as an audit bundle: ${error?.message || error}`);
+    }
+  };
+
+  const inputClass = 'bg-aivana-dark p-1.5 rounded-md border border-aivana-light-grey/80 text-xs text-gray-200';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 z-50 flex justify-center items-center transition-opacity"
+      aria-modal="true"
+      role="dialog"
+    >
+      <div className="bg-aivana-grey rounded-2xl shadow-xl w-full max-w-5xl m-4 transform transition-all text-white border border-aivana-light-grey">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <Icon name="shieldCheck" className="w-6 h-6 text-aivana-accent" />
+              <h2 className="text-xl font-bold">Audit Log</h2>
+            </div>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-aivana-light-grey">
+              <Icon name="close" className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-end gap-3 mb-4 p-3 bg-aivana-dark/60 rounded-lg">
+            <label className="text-xs text-gray-400 flex flex-col gap-1">
+              From
+              <input type="date" className={inputClass} value={filter.from || ''} onChange={e => setFilter({ ...filter, from: e.target.value || undefined })} />
+            </label>
+            <label className="text-xs text-gray-400 flex flex-col gap-1">
+              To
+              <input type="date" className={inputClass} value={filter.to || ''} onChange={e => setFilter({ ...filter, to: e.target.value || undefined })} />
+            </label>
+            <label className="text-xs text-gray-400 flex flex-col gap-1">
+              Protocol
+              <select className={inputClass} value={filter.protocolId || ''} onChange={e => setFilter({ ...filter, protocolId: e.target.value || undefined })}>
+                <option value="">All</option>
+                {allProtocolIds.map(id => <option key={id} value={id}>{id}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400 flex flex-col gap-1">
+              Action type
+              <select className={inputClass} value={filter.actionType || ''} onChange={e => setFilter({ ...filter, actionType: (e.target.value || undefined) as AuditLogFilter['actionType'] })}>
+                <option value="">All</option>
+                {ACTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <button
+              onClick={handleExportCsv}
+              disabled={records.length === 0}
+              className="ml-auto flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-aivana-accent hover:bg-purple-700 disabled:opacity-50"
+            >
+              <Icon name="download" className="w-4 h-4" />
+              Export CSV
+            </button>
+          </div>
+
+          {/* Integrity */}
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <button onClick={handleVerifyChain} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-aivana-light-grey hover:bg-aivana-light-grey/70">
+              <Icon name="shieldCheck" className="w-4 h-4" />
+              Verify chain
+            </button>
+            <button onClick={handleExportBundle} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-aivana-light-grey hover:bg-aivana-light-grey/70">
+              <Icon name="download" className="w-4 h-4" />
+              Export signed bundle
+            </button>
+            <button onClick={() => bundleInputRef.current?.click()} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-aivana-light-grey hover:bg-aivana-light-grey/70">
+              Verify bundle…
+            </button>
+            <input ref={bundleInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleVerifyBundle} />
+          </div>
+          {(chainResult || bundleResult || integrityError) && (
+            <div className="mb-4 p-3 bg-aivana-dark/60 rounded-lg text-xs space-y-1">
+              {chainResult && (chainResult.valid ? (
+                <p className="text-green-400">Local chain intact: {chainResult.checked} record(s) verified.</p>
+              ) : (
+                <p className="text-red-400">
+                  Local chain broken at record #{chainResult.brokenAt?.sequence} (<span className="font-mono">{chainResult.brokenAt?.requestId}</span>): {chainResult.brokenAt?.reason} {chainResult.checked} earlier record(s) verified.
+                </p>
+              ))}
+              {bundleResult && (
+                <p className={bundleResult.valid && bundleResult.signatureValid ? 'text-green-400' : 'text-red-400'}>
+                  {bundleResult.fileName}: signature {bundleResult.signatureValid ? 'valid' : 'INVALID'} · chain {bundleResult.valid ? `intact (${bundleResult.checked} record(s))` : `broken${bundleResult.brokenAt ? ` at record #${bundleResult.brokenAt.sequence}` : ''}`}
+                  {bundleResult.reason && ` · ${bundleResult.reason}`}
+                  <span className="block text-gray-400">Key fingerprint: <span className="font-mono">{bundleResult.keyFingerprint}</span></span>
+                </p>
+              )}
+              {integrityError && <p className="text-red-400">{integrityError}</p>}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400 mb-2">
+            {records.length} record(s) · {totals.confirmations} requiring confirmation · {totals.errors} error(s)
+          </p>
+
+          {/* Records */}
+          <div className="max-h-[55vh] overflow-y-auto border border-aivana-light-grey/50 rounded-lg">
+            {isLoading ? (
+              <p className="p-4 text-sm text-gray-400">Loading…</p>
+            ) : records.length === 0 ? (
+              <p className="p-4 text-sm text-gray-400">No audit records match these filters.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="bg-aivana-dark text-gray-400 sticky top-0">
+                  <tr>
+                    <th className="p-2 text-left">Time</th>
+                    <th className="p-2 text-left">Clinician</th>
+                    <th className="p-2 text-left">GPT</th>
+                    <th className="p-2 text-left">Protocols</th>
+                    <th className="p-2 text-left">Action</th>
+                    <th className="p-2 text-left">PHI</th>
+                    <th className="p-2 text-right">Latency</th>
+                    <th className="p-2 text-right">Tokens</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {records.map(record => (
+                    <React.Fragment key={record.requestId}>
+                      <tr
+                        onClick={() => setExpandedId(expandedId === record.requestId ? null : record.requestId)}
+                        className="border-t border-aivana-light-grey/40 hover:bg-aivana-light-grey/30 cursor-pointer"
+                      >
+                        <td className="p-2 whitespace-nowrap">{new Date(record.timestamp).toLocaleString()}</td>
+                        <td className="p-2">{record.doctorProfile.qualification}{record.isDoctorVerified ? ' ✓' : ''}</td>
+                        <td className="p-2">{record.gptId || '—'}</td>
+                        <td className="p-2 font-mono">{record.protocolIds.join(', ') || '—'}</td>
+                        <td className={`p-2 font-semibold ${actionClass(record.actionType)}`}>{record.actionType}</td>
+                        <td className="p-2">{Object.entries(record.redactionCounts).map(([type, n]) => `${type}×${n}`).join(' ') || '—'}</td>
+                        <td className="p-2 text-right">{(record.latencyMs / 1000).toFixed(1)} s</td>
+                        <td className="p-2 text-right">{record.tokens.total ?? '—'}</td>
+                      </tr>
+                      {expandedId === record.requestId && (
+                        <tr className="bg-aivana-dark/70">
+                          <td colSpan={8} className="p-3">
+                            <p className="text-gray-400 mb-2">
+                              <span className="font-mono">{record.requestId}</span> · {record.model || 'no model call'}
+                              {record.error && <span className="text-red-400"> · {record.error}</span>}
+                            </p>
+                            <p className="text-gray-500 mb-2 font-mono text-[10px] break-all">
+                              #{record.sequence} · hash {record.hash} · prev {record.previousHash}
+                            </p>
+                            <pre className="whitespace-pre-wrap text-[11px] text-gray-300 max-h-60 overflow-y-auto">{record.trail.join('\n')}</pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
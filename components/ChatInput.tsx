@@ -10,6 +10,9 @@ interface ChatInputProps {
     onPlayLastMessage?: () => void;
     isTtsPlaying?: boolean;
     canPlayTts?: boolean;
+    // Text placed in the box for the clinician to complete, e.g. a follow-up question to answer.
+    // Each new id replaces what is in the box.
+    draft?: { text: string; id: number } | null;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
@@ -19,6 +22,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     onPlayLastMessage,
     isTtsPlaying,
     canPlayTts,
+    draft,
 }) => {
     const [manualInput, setManualInput] = useState('');
     const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -44,6 +48,16 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         }
     }, [transcript, resetTranscript]);
 
+    useEffect(() => {
+        if (!draft) return;
+        setManualInput(draft.text);
+        const textarea = textareaRef.current;
+        if (textarea) {
+            textarea.focus();
+            textarea.setSelectionRange(draft.text.length, draft.text.length);
+        }
+    }, [draft]);
+
     // Adjust textarea height
     useEffect(() => {
         if (textareaRef.current) {
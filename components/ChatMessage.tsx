@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
-import { Message, LabResultAnalysis, MedicalCodeResult, PatientHandout, LabParameter, RiskAssessmentResult, DdxItem } from '../types';
+import { Message, LabResultAnalysis, MedicalCodeResult, PatientHandout, LabParameter, RiskAssessmentResult, ClinicalScoreResult, DdxItem, GuardrailViolation, PrescriberScopeResult, StructuredDataError } from '../types';
 import { Icon } from './Icon';
 import { TypingIndicator } from './TypingIndicator';
 import { renderMarkdownToHTML } from '../utils/markdownRenderer';
+import { InteractionWarningList } from './InteractionWarningList';
 
 interface ChatMessageProps {
   message: Message;
   onToggleTts: (message: Message) => void;
   playingMessageId: string | null;
   onUpdateMessage: (messageId: string, updates: Partial<Message>) => void;
+  onFollowUpQuestion?: (question: string) => void;
 }
 
 const Citations: React.FC<{ citations: NonNullable<Message['citations']> }> = ({ citations }) => {
@@ -64,9 +66,12 @@ const RenderDdx: React.FC<{ items: DdxItem[] }> = ({ items }) => {
                 {items.map((item, i) => (
                     <div key={i} className="bg-[#18181b] border border-white/10 rounded-lg p-3">
                         <div className="flex justify-between items-start mb-1.5 gap-3">
-                            <span className="font-bold text-gray-200 text-sm">{item.diagnosis}</span>
+                            <span className="font-bold text-gray-200 text-sm">
+                                {item.diagnosis}
+                                {item.mustNotMiss && <span className="ml-2 text-[10px] font-bold text-red-400 uppercase">Must not miss</span>}
+                            </span>
                             <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${badgeClass} uppercase whitespace-nowrap`}>
-                                {normalizeConfidence(item.confidence)}
+                                {item.probability !== undefined ? `${(item.probability * 100).toFixed(1)}%` : normalizeConfidence(item.confidence)}
                             </span>
                         </div>
                         <p className="text-xs text-gray-400 leading-relaxed">
@@ -96,6 +101,67 @@ const RenderDdx: React.FC<{ items: DdxItem[] }> = ({ items }) => {
     );
 };
 
+// Shows the local engine's ranking next to the model's, or on its own when the model gave prose.
+const DdxComparison: React.FC<{ message: Message }> = ({ message }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const engineItems = message.engineDdx;
+    if (!engineItems || engineItems.length === 0) return null;
+
+    const modelItems = message.structuredData?.type === 'ddx' ? message.structuredData.data : null;
+    const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+    const engineNames = engineItems.map(i => normalizeName(i.diagnosis));
+    const inEngine = (name: string) => engineNames.some(n => n.includes(normalizeName(name)) || normalizeName(name).includes(n));
+
+    const engineColumn = (
+        <ol className="space-y-1.5">
+            {engineItems.map((item, i) => (
+                <li key={i} className="flex justify-between gap-2 text-xs">
+                    <span className="text-gray-200">
+                        {i + 1}. {item.diagnosis}
+                        {item.mustNotMiss && <span className="ml-1 text-red-400 font-bold">*</span>}
+                    </span>
+                    <span className="font-mono text-gray-400">{((item.probability || 0) * 100).toFixed(1)}%</span>
+                </li>
+            ))}
+        </ol>
+    );
+
+    if (!modelItems) {
+        return (
+            <div className="mt-4 pt-3 border-t border-white/10">
+                <button onClick={() => setIsExpanded(!isExpanded)} className="text-xs font-semibold text-gray-300 hover:text-white">
+                    {isExpanded ? '▾' : '▸'} Engine Differential (Bayesian, {engineItems.length})
+                </button>
+                {isExpanded && <div className="mt-2">{engineColumn}</div>}
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-4 pt-3 border-t border-white/10">
+            <h4 className="text-xs font-semibold text-gray-300 mb-2">Ranking Comparison</h4>
+            <div className="grid grid-cols-2 gap-3">
+                <div className="bg-[#18181b] border border-white/10 rounded-lg p-3">
+                    <h5 className="text-[10px] font-bold text-aivana-accent uppercase tracking-wider mb-2">NEXUS Engine</h5>
+                    {engineColumn}
+                </div>
+                <div className="bg-[#18181b] border border-white/10 rounded-lg p-3">
+                    <h5 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Model</h5>
+                    <ol className="space-y-1.5">
+                        {modelItems.map((item, i) => (
+                            <li key={i} className="flex justify-between gap-2 text-xs">
+                                <span className={inEngine(item.diagnosis) ? 'text-gray-200' : 'text-yellow-300'}>{i + 1}. {item.diagnosis}</span>
+                                <span className="text-gray-400">{item.confidence}</span>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            </div>
+            <p className="mt-2 text-[10px] text-gray-500">* must not miss. Model items in yellow are not in the engine's list.</p>
+        </div>
+    );
+};
+
 const RenderLabAnalysis: React.FC<{ analysis: LabResultAnalysis }> = ({ analysis }) => {
     const getUrgencyClass = (urgency: LabParameter['urgency']) => {
         switch (urgency) {
@@ -160,6 +226,11 @@ const RenderPatientHandout: React.FC<{ handout: PatientHandout }> = ({ handout }
     </div>
 );
 
+const RISK_ORDER: Record<RiskAssessmentResult['riskLevel'], number> = { Low: 0, Medium: 1, High: 2 };
+
+const highestScoreRisk = (scores: ClinicalScoreResult[]): RiskAssessmentResult['riskLevel'] =>
+    scores.reduce<RiskAssessmentResult['riskLevel']>((highest, s) => (RISK_ORDER[s.risk] > RISK_ORDER[highest] ? s.risk : highest), 'Low');
+
 const RenderRiskAssessment: React.FC<{ assessment: RiskAssessmentResult }> = ({ assessment }) => {
     const getRiskLevelClass = (level: RiskAssessmentResult['riskLevel']) => {
         switch (level) {
@@ -176,6 +247,31 @@ const RenderRiskAssessment: React.FC<{ assessment: RiskAssessmentResult }> = ({
                 <p className="text-xs font-medium uppercase tracking-wider">Risk Level</p>
                 <p className="text-2xl font-bold text-white">{assessment.riskLevel}</p>
             </div>
+
+            {assessment.scores && assessment.scores.length > 0 && (
+                <div className="mt-4">
+                    <h5 className="font-semibold text-white mb-2 text-sm">Clinical Scores <span className="text-gray-400 font-normal text-xs">(calculated locally)</span></h5>
+                    {RISK_ORDER[highestScoreRisk(assessment.scores)] > RISK_ORDER[assessment.riskLevel] && (
+                        <p className="mb-2 p-2 rounded bg-red-500/20 text-red-300 text-xs">The scores below indicate {highestScoreRisk(assessment.scores)} risk, higher than the AI risk level.</p>
+                    )}
+                    <div className="space-y-2">
+                        {assessment.scores.map(score => (
+                            <details key={score.id} className={`p-2 rounded-lg border-l-4 ${getRiskLevelClass(score.risk)}`}>
+                                <summary className="cursor-pointer text-xs flex flex-wrap justify-between gap-2">
+                                    <span className="font-semibold text-white">{score.name}</span>
+                                    <span className="font-mono">{score.points}/{score.maxPoints} · {score.band}{score.missing.length > 0 ? ' (incomplete)' : ''}</span>
+                                </summary>
+                                <p className="mt-1.5 text-xs text-gray-300">{score.interpretation}</p>
+                                <ul className="mt-1 text-[11px] text-gray-400">
+                                    {score.components.map((c, i) => (
+                                        <li key={i} className="flex justify-between"><span>{c.label}</span><span className="font-mono">+{c.points}</span></li>
+                                    ))}
+                                </ul>
+                            </details>
+                        ))}
+                    </div>
+                </div>
+            )}
             
             <div className="mt-4">
                 <h5 className="font-semibold text-white mb-2 text-sm">Contributing Risk Factors</h5>
@@ -199,12 +295,59 @@ const RenderRiskAssessment: React.FC<{ assessment: RiskAssessmentResult }> = ({
 };
 
 
-const StructuredContent: React.FC<{ message: Message }> = ({ message }) => {
-    if (!message.structuredData) return null;
+// A structured block the engine rejected; the raw answer is left in the message text.
+const StructuredDataNotice: React.FC<{ error: StructuredDataError }> = ({ error }) => (
+    <details className="mt-3 p-2 rounded-lg bg-yellow-900/30 border border-yellow-500/30 text-xs text-yellow-200">
+        <summary className="cursor-pointer font-semibold">
+            The {error.type || 'structured'} result could not be displayed ({error.stage === 'json' ? 'unreadable JSON' : 'invalid fields'})
+        </summary>
+        <ul className="mt-1.5 list-disc list-inside space-y-0.5 text-gray-300">
+            {error.issues.map((issue, index) => (
+                <li key={index}>{issue.path && <code className="text-yellow-100">{issue.path}</code>} {issue.message}</li>
+            ))}
+        </ul>
+    </details>
+);
+
+// Questions that would best separate the leading diagnoses; choosing one puts it in the chat
+// input for the clinician to answer.
+const DdxFollowUps: React.FC<{ questions: string[]; onSelect?: (question: string) => void }> = ({ questions, onSelect }) => {
+    if (questions.length === 0) return null;
+
+    return (
+        <div className="mt-4 pt-3 border-t border-white/10">
+            <h4 className="text-xs font-semibold text-gray-300 mb-2">Follow-up Questions</h4>
+            <div className="flex flex-col gap-1.5">
+                {questions.map((question, index) => (
+                    <button
+                        key={index}
+                        onClick={() => onSelect?.(question)}
+                        disabled={!onSelect}
+                        className="text-left text-xs text-gray-300 px-3 py-2 bg-[#18181b] border border-white/10 rounded-lg flex gap-2 enabled:hover:border-aivana-accent/50 enabled:hover:text-white transition-colors"
+                        title="Answer this question in the chat"
+                    >
+                        <span className="text-aivana-accent font-bold">?</span>
+                        {question}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const StructuredContent: React.FC<{ message: Message; onFollowUpQuestion?: (question: string) => void }> = ({ message, onFollowUpQuestion }) => {
+    if (!message.structuredData) {
+        return message.structuredDataError ? <StructuredDataNotice error={message.structuredDataError} /> : null;
+    }
 
     switch (message.structuredData.type) {
         case 'ddx':
-            return <RenderDdx items={message.structuredData.data} />;
+            return (
+                <>
+                    <RenderDdx items={message.structuredData.data} />
+                    <DdxFollowUps questions={message.structuredData.questions || []} onSelect={onFollowUpQuestion} />
+                </>
+            );
         case 'lab':
             return <RenderLabAnalysis analysis={message.structuredData.data} />;
         case 'billing':
@@ -218,22 +361,122 @@ const StructuredContent: React.FC<{ message: Message }> = ({ message }) => {
     }
 };
 
+const VIOLATION_LABELS: Record<GuardrailViolation['kind'], string> = {
+  'overdose': 'Overdose',
+  'wrong-route': 'Wrong route',
+  'unit-mismatch': 'Unit mismatch',
+};
+
+const SCOPE_LABELS: Record<PrescriberScopeResult['enforcement'], string> = {
+  'suppress': 'Withheld',
+  'annotate': 'Out of scope',
+  'referral': 'Referral',
+};
+
 const SafetyHeader: React.FC<{ message: Message }> = ({ message }) => {
   if (!message.action_type) return null;
 
   const isConfirmationRequired = message.action_type === 'Requires Clinician Confirmation';
-  const colorClass = isConfirmationRequired ? 'bg-yellow-500/20 text-yellow-300' : 'bg-blue-500/20 text-blue-300';
+  const violations = message.guardrailViolations || [];
+  const warnings = message.contraindicationWarnings || [];
+  const scope = message.prescriberScope;
+  const verification = message.verificationRequired;
+  const interactions = message.interactionWarnings || [];
+  const colorClass = violations.length > 0 || warnings.some(w => w.severity === 'contraindicated') || interactions.some(w => w.severity !== 'moderate') || scope
+    ? 'bg-red-500/20 text-red-300'
+    : isConfirmationRequired ? 'bg-yellow-500/20 text-yellow-300' : 'bg-blue-500/20 text-blue-300';
 
   return (
-    <div className={`text-xs px-3 py-1.5 border-b border-aivana-light-grey/50 flex flex-wrap items-center justify-between gap-x-4 gap-y-1 ${colorClass}`}>
-        <div className="flex items-center gap-2">
-            <span className="font-semibold">SOURCE:</span>
-            <span className="font-mono text-xs bg-black/20 px-1.5 py-0.5 rounded">{message.source_protocol_id || 'General AI Knowledge'}</span>
-            {message.source_protocol_last_reviewed && (
-                 <span className="font-semibold">(Reviewed: {message.source_protocol_last_reviewed})</span>
-            )}
+    <div className={`text-xs px-3 py-1.5 border-b border-aivana-light-grey/50 ${colorClass}`}>
+        <div className="flex flex-wrap items-center justify-between gap-x-4 gap-y-1">
+            <div className="flex items-center gap-2">
+                <span className="font-semibold">SOURCE:</span>
+                <span className="font-mono text-xs bg-black/20 px-1.5 py-0.5 rounded">{message.source_protocol_id || 'General AI Knowledge'}</span>
+                {message.source_protocol_last_reviewed && (
+                     <span className="font-semibold">(Reviewed: {message.source_protocol_last_reviewed})</span>
+                )}
+            </div>
+            <span className="font-semibold">{message.action_type}</span>
         </div>
-        <span className="font-semibold">{message.action_type}</span>
+        {violations.length > 0 && (
+            <ul className="mt-1.5 pt-1.5 border-t border-red-400/30 space-y-1">
+                {violations.map((v, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                        <span className="font-semibold uppercase whitespace-nowrap bg-black/20 px-1.5 py-0.5 rounded text-[10px]">{VIOLATION_LABELS[v.kind]}</span>
+                        <span>
+                            {v.message}
+                            <span className="block text-gray-400">Protocol {v.protocolId}: {v.expected}</span>
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        )}
+        {warnings.length > 0 && (
+            <ul className="mt-1.5 pt-1.5 border-t border-red-400/30 space-y-1">
+                {warnings.map((w, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                        <span className={`font-semibold uppercase whitespace-nowrap px-1.5 py-0.5 rounded text-[10px] ${w.severity === 'contraindicated' ? 'bg-black/20' : 'bg-yellow-500/20 text-yellow-300'}`}>
+                            {w.severity === 'contraindicated' ? 'Contraindicated' : 'Caution'}
+                        </span>
+                        <span>
+                            {w.drug ? `${w.drug}: ` : ''}{w.patientFact} <span className="text-gray-400">(“{w.evidence}”)</span>
+                            <span className="block text-gray-400">{w.protocolId ? `Protocol ${w.protocolId}${w.source === 'drug' ? ' dosing table' : ''}` : 'Patient record'}: “{w.contraindication}”</span>
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        )}
+        {interactions.length > 0 && (
+            <InteractionWarningList warnings={interactions} className="mt-1.5 pt-1.5 border-t border-red-400/30" />
+        )}
+        {scope && (
+            <div className="mt-1.5 pt-1.5 border-t border-red-400/30">
+                <div className="flex items-start gap-2">
+                    <span className="font-semibold uppercase whitespace-nowrap bg-black/20 px-1.5 py-0.5 rounded text-[10px]">{SCOPE_LABELS[scope.enforcement]}</span>
+                    <span>
+                        Outside {scope.qualification} prescribing scope ({scope.practiceState}{scope.scope === 'limited' ? ', limited' : ''}): {scope.outOfScopeDrugs.join(', ')}
+                        <span className="block text-gray-400">{scope.basis}</span>
+                    </span>
+                </div>
+                {scope.referralNote && (
+                    <p className="mt-1.5 p-2 rounded bg-black/20 text-gray-200">{scope.referralNote}</p>
+                )}
+            </div>
+        )}
+        {verification && (
+            <div className="mt-1.5 pt-1.5 border-t border-yellow-400/30 flex items-start gap-2">
+                <span className="font-semibold uppercase whitespace-nowrap bg-black/20 px-1.5 py-0.5 rounded text-[10px]">Verification required</span>
+                <span>
+                    {verification.withheldDoses} dose(s) withheld for {verification.drugs.map(d => `${d.drug} (${d.schedule === 'NDPS' ? 'NDPS' : `Sch. ${d.schedule}`})`).join(', ')}
+                    <span className="block text-gray-400">Verify your medical license to view doses for controlled substances; the question is answered again once verified.</span>
+                </span>
+            </div>
+        )}
+    </div>
+  );
+};
+
+// Protocol red flags met by the documented vitals and labs, shown above the answer
+// whether or not the answer itself mentions them.
+const EscalationBanner: React.FC<{ message: Message }> = ({ message }) => {
+  const alerts = message.escalationAlerts || [];
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="px-3 py-2 bg-red-600 text-white text-xs" role="alert">
+        <div className="flex items-center gap-2 font-bold uppercase tracking-wide">
+            <Icon name="siren" className="w-4 h-4" />
+            <span>Urgent: {alerts.length === 1 ? 'protocol alert' : `${alerts.length} protocol alerts`}</span>
+        </div>
+        <ul className="mt-1.5 space-y-1.5">
+            {alerts.map((a, i) => (
+                <li key={i}>
+                    <span className="font-semibold">{a.condition}</span> <span className="text-red-100">({a.evidence})</span>
+                    <span className="block">→ {a.action}</span>
+                    <span className="block text-red-200 text-[10px]">{a.protocolId} {a.source === 'escalation' ? 'escalation trigger' : 'monitoring alert'}</span>
+                </li>
+            ))}
+        </ul>
     </div>
   );
 };
@@ -260,7 +503,7 @@ const ConfirmationFooter: React.FC<{ message: Message, onConfirm: () => void }>
 };
 
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onToggleTts, playingMessageId, onUpdateMessage }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onToggleTts, playingMessageId, onUpdateMessage, onFollowUpQuestion }) => {
   const isUser = message.sender === 'USER';
   const isPlaying = playingMessageId === message.id;
   const [feedback, setFeedback] = useState<Message['feedback']>(message.feedback || null);
@@ -293,6 +536,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onToggleTts,
             ? 'bg-aivana-accent text-white rounded-t-2xl rounded-bl-2xl' 
             : 'bg-aivana-light-grey rounded-t-2xl rounded-br-2xl'
         }`}>
+          {!isUser && <EscalationBanner message={message} />}
           {!isUser && <SafetyHeader message={message} />}
           <div className="px-4 py-3">
               {message.text === '...' ? (
@@ -305,7 +549,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onToggleTts,
                   dangerouslySetInnerHTML={{ __html: renderMarkdownToHTML(message.text) }}
                 />
               )}
-              <StructuredContent message={message} />
+              <StructuredContent message={message} onFollowUpQuestion={onFollowUpQuestion} />
+              {!isUser && <DdxComparison message={message} />}
               {message.citations && <Citations citations={message.citations} />}
           </div>
           {!isUser && <ConfirmationFooter message={message} onConfirm={handleConfirm} />}
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Chat, Message, UserRole, PreCodedGpt, DoctorProfile, PromptInsight, LabParameterInput, ClinicalProtocol } from '../types';
+import { Chat, Message, UserRole, PreCodedGpt, DoctorProfile, PromptInsight, LabParameterInput, ClinicalProtocol, ClinicalScoreResult, Patient } from '../types';
 import { ChatInput } from './ChatInput';
 import { ChatMessage } from './ChatMessage';
 import { Icon } from './Icon';
@@ -8,12 +8,17 @@ import { PRE_CODED_GPTS } from '../constants';
 import { streamChatResponse, getPromptInsights } from '../services/geminiService';
 import { synthesizeSpeech } from '../services/googleTtsService';
 import { PromptInsightsPanel } from './PromptInsightsPanel';
-import { GeneralTriageForm } from './PregnancyRiskAssessmentForm'; // Re-using file, but content is GeneralTriage
+import { GeneralTriageForm, GeneralTriageFormData } from './PregnancyRiskAssessmentForm'; // Re-using file, but content is GeneralTriage
+import { DdxIntakeForm, DdxIntakeFormData } from './DifferentialDiagnosisForm';
+import { normalizeLabParameter } from '../utils/unitConversion';
+import { describeScore } from '../utils/clinicalScores';
+import { describePatient } from '../utils/patients';
+import { loadPatientContext } from '../services/patientContext';
 
 interface ChatViewProps {
   chat: Chat | null;
   onNewChat: (gpt?: PreCodedGpt) => void;
-  updateChat: (chatId: string, messages: Message[]) => void;
+  updateChat: (chatId: string, messages: Message[], updates?: Partial<Omit<Chat, 'id' | 'messages'>>) => void;
   userRole: UserRole;
   language: string;
   isDoctorVerified: boolean;
@@ -26,6 +31,9 @@ interface ChatViewProps {
   isInsightsPanelOpen: boolean;
   setIsInsightsPanelOpen: (isOpen: boolean) => void;
   knowledgeBaseProtocols: ClinicalProtocol[];
+  patients: Patient[];
+  linkedPatientId: string | null;
+  onLinkPatient: (chatId: string, patientId: string | null) => void;
 }
 
 const languageToCodeMap: Record<string, string> = {
@@ -47,7 +55,7 @@ const LabResultForm: React.FC<{ onSubmit: (params: LabParameterInput[]) => void
 
     const handleAddParam = () => {
         if (currentParam.name.trim() && currentParam.value.trim()) {
-            setParams([...params, currentParam]);
+            setParams([...params, normalizeLabParameter(currentParam)]);
             setCurrentParam({ name: '', value: '', units: '', referenceRange: '' });
         }
     };
@@ -64,7 +72,7 @@ const LabResultForm: React.FC<{ onSubmit: (params: LabParameterInput[]) => void
         let finalParams = [...params];
         // Add the currently entered param if it's valid, even if "Add" wasn't clicked
         if (currentParam.name.trim() && currentParam.value.trim()) {
-            finalParams.push(currentParam);
+            finalParams.push(normalizeLabParameter(currentParam));
         }
         if (finalParams.length > 0) {
             onSubmit(finalParams);
@@ -108,8 +116,16 @@ const LabResultForm: React.FC<{ onSubmit: (params: LabParameterInput[]) => void
                             {params.map((param, index) => (
                                 <div key={index} className="flex items-center justify-between p-2 bg-aivana-dark rounded-md text-sm">
                                     <span className="font-semibold text-white">{param.name}:</span>
-                                    <span className="text-gray-300">{param.value} {param.units}</span>
-                                    <span className="text-gray-400 text-xs">(Ref: {param.referenceRange || 'N/A'})</span>
+                                    <span className="text-gray-300">
+                                        {param.value} {param.units || param.normalized?.originalUnit}
+                                        {param.normalized && param.normalized.originalUnit !== param.normalized.siUnit && (
+                                            <span className="text-gray-400"> → {param.normalized.siValue} {param.normalized.siUnit}</span>
+                                        )}
+                                    </span>
+                                    {param.normalized?.flag && (
+                                        <span className={`text-xs font-semibold ${param.normalized.flag === 'Normal' ? 'text-green-400' : 'text-red-400'}`}>{param.normalized.flag}</span>
+                                    )}
+                                    <span className="text-gray-400 text-xs">(Ref: {param.referenceRange || param.normalized?.siReferenceRange || 'N/A'})</span>
                                     <button onClick={() => handleRemoveParam(index)} className="p-1 text-red-400 hover:text-red-300"><Icon name="close" className="w-4 h-4"/></button>
                                 </div>
                             ))}
@@ -143,6 +159,9 @@ export const ChatView: React.FC<ChatViewProps> = ({
   isInsightsPanelOpen,
   setIsInsightsPanelOpen,
   knowledgeBaseProtocols: knowledgeBaseProtocols,
+  patients,
+  linkedPatientId,
+  onLinkPatient,
 }) => {
   const [isSending, setIsSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -152,11 +171,14 @@ export const ChatView: React.FC<ChatViewProps> = ({
   // State for Prompt Insights
   const [insights, setInsights] = useState<PromptInsight | null>(null);
   const [isFetchingInsights, setIsFetchingInsights] = useState(false);
+  // A follow-up question placed in the chat input for the clinician to answer.
+  const [inputDraft, setInputDraft] = useState<{ text: string; id: number } | null>(null);
 
 
   const activeGpt = chat?.gptId ? PRE_CODED_GPTS.find(g => g.id === chat.gptId) : undefined;
   const shouldShowRiskAssessmentForm = chat && activeGpt?.customComponentId === 'PregnancyRiskAssessment' && chat.messages.filter(m => m.sender === 'USER').length === 0;
   const shouldShowLabResultForm = chat && activeGpt?.customComponentId === 'LabResultAnalysis' && chat.messages.filter(m => m.sender === 'USER').length === 0;
+  const shouldShowDdxForm = chat && activeGpt?.customComponentId === 'DifferentialDiagnosis' && chat.messages.filter(m => m.sender === 'USER').length === 0;
 
 
   const scrollToBottom = () => {
@@ -228,7 +250,8 @@ export const ChatView: React.FC<ChatViewProps> = ({
   };
 
 
-  const handleSendMessage = useCallback(async (message: string) => {
+  // `scores` are computed locally (e.g. by the triage form) and attached to a risk assessment.
+  const handleSendMessage = useCallback(async (message: string, scores?: ClinicalScoreResult[]) => {
     if (!chat) return;
     
     setIsSending(true);
@@ -249,6 +272,14 @@ export const ChatView: React.FC<ChatViewProps> = ({
     const currentMessages = chat.messages ? [...chat.messages, userMessage] : [userMessage];
     updateChat(chat.id, [...currentMessages, aiMessagePlaceholder]);
 
+    // The linked patient's earlier encounters; this chat's own history is already in the request.
+    const patientContext = linkedPatientId
+        ? await loadPatientContext(linkedPatientId, { chatId: chat.id }).catch(error => {
+            console.error('[STORAGE] Failed to load the patient record:', error);
+            return null;
+        })
+        : null;
+
     const stream = streamChatResponse({
         message,
         history: currentMessages,
@@ -258,6 +289,8 @@ export const ChatView: React.FC<ChatViewProps> = ({
         isDoctorVerified,
         doctorProfile,
         knowledgeBaseProtocols: knowledgeBaseProtocols,
+        previousProtocols: chat.activeProtocols,
+        patientContext: patientContext || undefined,
     });
 
     let finalMessage: Message = { ...aiMessagePlaceholder, text: '...' };
@@ -307,13 +340,30 @@ export const ChatView: React.FC<ChatViewProps> = ({
             if (chunk.source_protocol_last_reviewed) finalMessage.source_protocol_last_reviewed = chunk.source_protocol_last_reviewed;
             if (chunk.action_type) finalMessage.action_type = chunk.action_type;
             if (chunk.citations) finalMessage.citations = chunk.citations;
+            if (chunk.engineDdx) finalMessage.engineDdx = chunk.engineDdx;
+            if (chunk.guardrailViolations) finalMessage.guardrailViolations = chunk.guardrailViolations;
+            if (chunk.contraindicationWarnings) finalMessage.contraindicationWarnings = chunk.contraindicationWarnings;
+            if (chunk.prescriberScope) finalMessage.prescriberScope = chunk.prescriberScope;
+            if (chunk.escalationAlerts) finalMessage.escalationAlerts = chunk.escalationAlerts;
+            if (chunk.interactionWarnings) finalMessage.interactionWarnings = chunk.interactionWarnings;
+            if (chunk.structuredDataError) finalMessage.structuredDataError = chunk.structuredDataError;
+            if (chunk.replacementText) finalMessage.text = chunk.replacementText;
+            if (chunk.verificationRequired) {
+                // Doses were withheld; the message is sent again once the license is verified.
+                finalMessage.verificationRequired = chunk.verificationRequired;
+                setPendingVerificationMessage(message);
+                setShowVerificationModal(true);
+            }
             if (chunk.structuredData) {
-                finalMessage.structuredData = chunk.structuredData;
+                finalMessage.structuredData = chunk.structuredData.type === 'risk-assessment' && scores
+                    ? { ...chunk.structuredData, data: { ...chunk.structuredData.data, scores } }
+                    : chunk.structuredData;
                 // Once structured data arrives, we replace the text (which might be '...' or JSON) with the summary.
                 finalMessage.text = chunk.structuredData.summary; 
             }
             
-            updateChat(chat.id, [...currentMessages, { ...finalMessage }]);
+            // Protocols kept active for the next turn are persisted on the chat itself.
+            updateChat(chat.id, [...currentMessages, { ...finalMessage }], chunk.protocolState ? { activeProtocols: chunk.protocolState } : undefined);
         }
     } catch (error) {
         console.error("Error handling stream:", error);
@@ -322,48 +372,72 @@ export const ChatView: React.FC<ChatViewProps> = ({
     } finally {
         setIsSending(false);
     }
-  }, [chat, language, updateChat, userRole, activeGpt, isDoctorVerified, doctorProfile, setPendingVerificationMessage, setShowVerificationModal, fetchInsightsForPrompt, knowledgeBaseProtocols]);
+  }, [chat, language, updateChat, userRole, activeGpt, isDoctorVerified, doctorProfile, setPendingVerificationMessage, setShowVerificationModal, fetchInsightsForPrompt, knowledgeBaseProtocols, linkedPatientId]);
   
-  const handleRiskAssessmentSubmit = (formData: {
-    age: string;
-    sex: string;
-    systolicBP: string;
-    diastolicBP: string;
-    hr: string;
-    temp: string;
-    spo2: string;
-    respiratoryRate: string;
-    chiefComplaint: string;
-    history: string[];
-  }) => {
+  const handleRiskAssessmentSubmit = (formData: GeneralTriageFormData) => {
       const prompt = `
           Perform a clinical risk assessment and triage for this patient.
           - Patient: ${formData.age} year old ${formData.sex}
           - Chief Complaint: ${formData.chiefComplaint}
           - Vitals: BP ${formData.systolicBP}/${formData.diastolicBP}, HR ${formData.hr}, RR ${formData.respiratoryRate}, Temp ${formData.temp}°C, SpO2 ${formData.spo2}%
           - PMH: ${formData.history.length > 0 ? formData.history.join(', ') : 'None reported'}
+          - Allergies: ${formData.allergies.trim() ? formData.allergies.split(',').map(a => `${a.trim()} allergy`).join(', ') : 'NKDA'}
           
-          Calculate relevant risk scores (e.g., NEWS2, qSOFA, ASCVD, HEART score) based on the presentation.
+          ${formData.scores.length > 0 ? `Clinical scores (computed deterministically from the form; use them as-is and do not recalculate):
+          ${formData.scores.map(score => `- ${describeScore(score)}`).join('\n          ')}
+          Interpret these scores in your risk stratification. Calculate any other relevant score only if the data supports it.` : 'Calculate relevant risk scores (e.g., NEWS2, qSOFA, HEART score) based on the presentation.'}
           Provide a differential diagnosis, risk stratification (Low/Medium/High), and suggested management plan/disposition.
           Your response must be in structured JSON format.
       `;
-      handleSendMessage(prompt);
+      handleSendMessage(prompt, formData.scores);
   };
   
   const handleLabResultSubmit = (labParams: LabParameterInput[]) => {
-      const paramStrings = labParams.map(p => 
-          `- Parameter: ${p.name}, Value: ${p.value} ${p.units}, Reference Range: ${p.referenceRange || 'N/A'}`
-      );
+      const paramStrings = labParams.map(p => {
+          const n = p.normalized;
+          if (!n) return `- Parameter: ${p.name}, Value: ${p.value} ${p.units}, Reference Range: ${p.referenceRange || 'N/A'}`;
+          // SI value and flag are computed locally; the model must not re-derive them.
+          return `- Parameter: ${n.analyte} (entered as "${p.name}"), Value: ${n.originalValue} ${n.originalUnit}${n.unitAssumed ? ' (unit not entered, assumed)' : ''} = ${n.siValue} ${n.siUnit} (SI), Reference Range: ${p.referenceRange || 'N/A'}${n.siReferenceRange ? ` [SI: ${n.siReferenceRange}]` : ''}${n.flag ? `, Flag: ${n.flag}` : ''}`;
+      });
       
       const prompt = `
           Analyze the following lab results for a general medical patient.
           ${paramStrings.join('\n')}
           
+          Where an SI value and Flag are given, they were computed deterministically from the reference range; use them as-is.
           Provide a detailed interpretation for each parameter, an overall clinical summary, and flag any critical or abnormal values with recommended next steps. Your response must be in structured JSON format.
       `;
       handleSendMessage(prompt);
   };
 
+  const handleDdxIntakeSubmit = (formData: DdxIntakeFormData) => {
+      const vitals = [
+          formData.systolicBP && formData.diastolicBP && `BP ${formData.systolicBP}/${formData.diastolicBP}`,
+          formData.hr && `HR ${formData.hr}`,
+          formData.respiratoryRate && `RR ${formData.respiratoryRate}`,
+          formData.temp && `Temp ${formData.temp}°C`,
+          formData.spo2 && `SpO2 ${formData.spo2}%`,
+      ].filter(Boolean);
+      const prompt = `
+          Build a differential diagnosis for this patient.
+          - Patient: ${formData.age} year old ${formData.sex}
+          - Presenting Complaint: ${formData.presentingComplaint}
+          - Duration: ${formData.duration}${formData.onset ? ` (${formData.onset.toLowerCase()} onset)` : ''}
+          - Vitals: ${vitals.length > 0 ? vitals.join(', ') : 'Not recorded'}
+          - Examination: ${formData.examination.trim() || 'Not recorded'}
+          - Relevant History: ${formData.history.trim() || 'None reported'}
+
+          Rank the differential from most to least likely, flag life-threatening diagnoses in the rationale, and list the questions (history, examination or bedside tests) that would best separate the leading diagnoses.
+          Your response must be in structured JSON format.
+      `;
+      handleSendMessage(prompt);
+  };
+
+  // The question goes into the chat input with room for the answer, which the next turn uses to refine the differential.
+  const handleFollowUpQuestion = (question: string) => {
+      setInputDraft({ text: `${question}\nAnswer: `, id: Date.now() });
+  };
+
 
   useEffect(() => {
     if (isDoctorVerified && pendingVerificationMessage && chat) {
@@ -437,6 +511,10 @@ export const ChatView: React.FC<ChatViewProps> = ({
       return <LabResultForm onSubmit={handleLabResultSubmit} />;
   }
 
+  if (shouldShowDdxForm) {
+      return <DdxIntakeForm onSubmit={handleDdxIntakeSubmit} />;
+  }
+
 
   return (
     <div className="flex-1 flex h-full overflow-hidden">
@@ -448,14 +526,28 @@ export const ChatView: React.FC<ChatViewProps> = ({
             <h2 className="text-lg font-semibold truncate">
                 {chat.title}
             </h2>
-            <button
-              onClick={() => setIsInsightsPanelOpen(!isInsightsPanelOpen)}
-              className={`p-2 rounded-md transition-colors ${isInsightsPanelOpen ? 'bg-aivana-accent text-white' : 'text-gray-400 hover:bg-aivana-grey hover:text-white'}`}
-              aria-label="Toggle prompt insights"
-              title="Toggle prompt insights"
-            >
-              <Icon name="lightbulb" />
-            </button>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {patients.length > 0 && (
+                <select
+                  value={linkedPatientId || ''}
+                  onChange={(e) => onLinkPatient(chat.id, e.target.value || null)}
+                  className="max-w-[14rem] bg-aivana-grey text-white text-xs rounded-lg border border-transparent px-3 py-2 focus:ring-1 focus:ring-aivana-accent outline-none cursor-pointer"
+                  aria-label="Patient for this chat"
+                  title="Add this chat to a patient's timeline"
+                >
+                  <option value="">No patient linked</option>
+                  {patients.map(p => <option key={p.id} value={p.id}>{describePatient(p)}</option>)}
+                </select>
+              )}
+              <button
+                onClick={() => setIsInsightsPanelOpen(!isInsightsPanelOpen)}
+                className={`p-2 rounded-md transition-colors ${isInsightsPanelOpen ? 'bg-aivana-accent text-white' : 'text-gray-400 hover:bg-aivana-grey hover:text-white'}`}
+                aria-label="Toggle prompt insights"
+                title="Toggle prompt insights"
+              >
+                <Icon name="lightbulb" />
+              </button>
+            </div>
         </header>
 
         <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-2">
@@ -466,6 +558,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
                   onToggleTts={handleToggleTts}
                   playingMessageId={playingMessageId}
                   onUpdateMessage={handleUpdateMessage}
+                  onFollowUpQuestion={handleFollowUpQuestion}
               />
           ))}
           <div ref={messagesEndRef} />
@@ -478,6 +571,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
               isTtsPlaying={!!lastAiMessage && playingMessageId === lastAiMessage.id}
               canPlayTts={!!lastAiMessage}
               language={language}
+              draft={inputDraft}
           />
         </div>
       </div>
@@ -495,6 +589,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
         isLoading={isFetchingInsights}
         currentDdx={latestDdxData?.type === 'ddx' ? latestDdxData.data : null}
         currentQuestions={latestDdxData?.type === 'ddx' ? latestDdxData.questions : null}
+        onSelectQuestion={handleFollowUpQuestion}
       />
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Icon } from './Icon';
+
+export interface DdxIntakeFormData {
+    age: string;
+    sex: string;
+    presentingComplaint: string;
+    duration: string;               // Free text, e.g. "3 days"
+    onset: string;                  // '' | 'Sudden' | 'Gradual'
+    systolicBP: string;
+    diastolicBP: string;
+    hr: string;
+    respiratoryRate: string;
+    temp: string;
+    spo2: string;
+    examination: string;
+    history: string;                // Relevant PMH, medications, exposures
+}
+
+interface DdxIntakeFormProps {
+  onSubmit: (formData: DdxIntakeFormData) => void;
+}
+
+// Vitals are optional here: a differential is often built before a full set is taken.
+const VITAL_FIELDS: { name: keyof DdxIntakeFormData; label: string; step?: string }[] = [
+    { name: 'hr', label: 'HR (bpm)' },
+    { name: 'respiratoryRate', label: 'RR (min)' },
+    { name: 'temp', label: 'Temp (°C)', step: '0.1' },
+    { name: 'spo2', label: 'SpO2 (%)' },
+];
+
+export const DdxIntakeForm: React.FC<DdxIntakeFormProps> = ({ onSubmit }) => {
+    const [formData, setFormData] = useState<DdxIntakeFormData>({
+        age: '',
+        sex: 'Male',
+        presentingComplaint: '',
+        duration: '',
+        onset: '',
+        systolicBP: '',
+        diastolicBP: '',
+        hr: '',
+        respiratoryRate: '',
+        temp: '',
+        spo2: '',
+        examination: '',
+        history: '',
+    });
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSubmit(formData);
+    };
+
+    return (
+        <div className="flex-1 flex flex-col items-center justify-center p-4 animate-fadeInUp">
+            <div className="w-full max-w-3xl bg-aivana-light-grey rounded-xl p-6 md:p-8 border border-aivana-light-grey/50 shadow-2xl">
+                <div className="flex items-center gap-3 mb-4">
+                    <Icon name="diagnosis" className="w-8 h-8 text-aivana-accent" />
+                    <h2 className="text-2xl font-bold text-white">Differential Diagnosis</h2>
+                </div>
+                <p className="text-gray-400 mb-6 text-sm">Describe the presentation to build a ranked differential with the questions that best separate the leading diagnoses.</p>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {/* Demographics & Presentation */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="age" className="block text-xs font-medium text-gray-300 mb-1">Age</label>
+                            <input type="number" name="age" id="age" value={formData.age} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent" required />
+                        </div>
+                        <div>
+                            <label htmlFor="sex" className="block text-xs font-medium text-gray-300 mb-1">Sex</label>
+                            <select name="sex" id="sex" value={formData.sex} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent">
+                                <option value="Male">Male</option>
+                                <option value="Female">Female</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="onset" className="block text-xs font-medium text-gray-300 mb-1">Onset</label>
+                            <select name="onset" id="onset" value={formData.onset} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent">
+                                <option value="">Not recorded</option>
+                                <option value="Sudden">Sudden</option>
+                                <option value="Gradual">Gradual</option>
+                            </select>
+                        </div>
+                        <div className="md:col-span-2">
+                            <label htmlFor="presentingComplaint" className="block text-xs font-medium text-gray-300 mb-1">Presenting Complaint</label>
+                            <textarea name="presentingComplaint" id="presentingComplaint" rows={2} value={formData.presentingComplaint} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent" placeholder="e.g., fever with right upper quadrant pain and vomiting" required />
+                        </div>
+                        <div>
+                            <label htmlFor="duration" className="block text-xs font-medium text-gray-300 mb-1">Duration</label>
+                            <input type="text" name="duration" id="duration" value={formData.duration} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent" placeholder="e.g., 3 days" required />
+                        </div>
+                    </div>
+
+                    {/* Vitals */}
+                    <div className="bg-aivana-dark p-4 rounded-lg border border-aivana-grey">
+                        <h3 className="text-sm font-semibold text-aivana-accent mb-3">Vital Signs <span className="text-gray-500 font-normal">(optional)</span></h3>
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-400 mb-1">BP (mmHg)</label>
+                                <div className="flex gap-1">
+                                    <input type="number" name="systolicBP" placeholder="Sys" value={formData.systolicBP} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent" />
+                                    <input type="number" name="diastolicBP" placeholder="Dia" value={formData.diastolicBP} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent" />
+                                </div>
+                            </div>
+                            {VITAL_FIELDS.map(field => (
+                                <div key={field.name}>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">{field.label}</label>
+                                    <input type="number" step={field.step} name={field.name} value={formData[field.name]} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent" />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label htmlFor="examination" className="block text-xs font-medium text-gray-300 mb-1">Examination Findings</label>
+                        <textarea name="examination" id="examination" rows={3} value={formData.examination} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent" placeholder="e.g., icteric, tender RUQ with positive Murphy's sign, no guarding" />
+                    </div>
+                    <div>
+                        <label htmlFor="history" className="block text-xs font-medium text-gray-300 mb-1">Relevant History & Medications</label>
+                        <input type="text" name="history" id="history" value={formData.history} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent" placeholder="e.g., type 2 diabetes on metformin, travel to Goa last week" />
+                    </div>
+                    <button type="submit" className="w-full !mt-6 bg-aivana-accent hover:bg-purple-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
+                        <Icon name="diagnosis" className="w-5 h-5"/>
+                        Build Differential
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { InteractionWarning } from '../types';
+import { INTERACTION_SEVERITY_LABELS } from '../services/drugInteractions';
+
+// Drug–drug interactions, most severe first: the pair, its mechanism and what to do about it.
+// Shown in the chat safety header and the scribe's prescription preview.
+export const InteractionWarningList: React.FC<{ warnings: InteractionWarning[]; className?: string }> = ({ warnings, className = '' }) => (
+    <ul className={`space-y-1 ${className}`}>
+        {warnings.map((w, i) => (
+            <li key={i} className="flex items-start gap-2">
+                <span className={`font-semibold uppercase whitespace-nowrap px-1.5 py-0.5 rounded text-[10px] ${w.severity === 'moderate' ? 'bg-yellow-500/20 text-yellow-300' : 'bg-black/20'}`}>
+                    {INTERACTION_SEVERITY_LABELS[w.severity]}
+                </span>
+                <span>
+                    <span className="font-semibold">{w.drugs.join(' + ')}</span>: {w.mechanism}
+                    <span className="block text-gray-400">→ {w.management}</span>
+                    {w.onRecord && <span className="block text-gray-400">Active medication on record: {w.onRecord}</span>}
+                </span>
+            </li>
+        ))}
+    </ul>
+);
@@ -1,28 +1,54 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Icon } from './Icon';
+import { DoctorProfile, LicenseVerification, LicenseVerificationFailure } from '../types';
+import { verifyLicense, councilsForQualification, getCouncil, getRegistryAdapter, VERIFICATION_TTL_DAYS } from '../services/licenseVerification';
 
 interface LicenseVerificationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onVerify: () => void;
+  onVerify: (verification: LicenseVerification) => void;
+  doctorProfile: DoctorProfile;
 }
 
-export const LicenseVerificationModal: React.FC<LicenseVerificationModalProps> = ({ isOpen, onClose, onVerify }) => {
+const FAILURE_TITLES: Record<LicenseVerificationFailure, string> = {
+  'invalid-format': 'Invalid registration number',
+  'qualification-mismatch': 'Qualification does not match',
+  'not-found': 'Registration not found',
+  'inactive': 'Registration not active',
+  'registry-unavailable': 'Registry unavailable',
+};
+
+export const LicenseVerificationModal: React.FC<LicenseVerificationModalProps> = ({ isOpen, onClose, onVerify, doctorProfile }) => {
+  const councils = councilsForQualification(doctorProfile.qualification);
+  const [councilId, setCouncilId] = useState(councils[0]?.id || '');
   const [licenseNumber, setLicenseNumber] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
+  const [failure, setFailure] = useState<{ failure: LicenseVerificationFailure; message: string } | null>(null);
+
+  // The councils on offer depend on the profile's qualification.
+  useEffect(() => {
+    if (!councils.some(c => c.id === councilId)) setCouncilId(councils[0]?.id || '');
+    setFailure(null);
+  }, [doctorProfile.qualification]);
 
   if (!isOpen) return null;
-  
-  const handleVerify = (e: React.FormEvent) => {
+
+  const council = getCouncil(councilId);
+
+  const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!licenseNumber.trim()) return;
+    if (!licenseNumber.trim() || !council) return;
 
     setIsVerifying(true);
-    // Simulate API call for verification
-    setTimeout(() => {
-      setIsVerifying(false);
-      onVerify();
-    }, 1500);
+    setFailure(null);
+    const result = await verifyLicense(council.id, licenseNumber, doctorProfile.qualification);
+    setIsVerifying(false);
+    if (result.status === 'verified') {
+      setLicenseNumber('');
+      onVerify(result.verification);
+    } else {
+      setFailure({ failure: result.failure, message: result.message });
+    }
   };
 
   return (
@@ -44,22 +70,39 @@ export const LicenseVerificationModal: React.FC<LicenseVerificationModalProps> =
             </div>
           
             <p className="text-sm text-gray-400 mb-6">
-                To access information about controlled substances, please verify your medical license. This is a one-time step for this session.
+                To access information about controlled substances, please verify your medical license. Your registration is checked with your council's register and remembered on this device until it expires.
             </p>
 
             <form onSubmit={handleVerify}>
+                <label htmlFor="council" className="block text-xs font-medium text-gray-300 mb-2">
+                    Registering Council ({doctorProfile.qualification})
+                </label>
+                <select
+                    id="council"
+                    value={councilId}
+                    onChange={(e) => { setCouncilId(e.target.value); setFailure(null); }}
+                    className="w-full bg-aivana-dark border border-aivana-light-grey text-white text-sm rounded-lg focus:ring-aivana-accent focus:border-aivana-accent block p-3 mb-4"
+                >
+                    {councils.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
                 <label htmlFor="licenseNumber" className="block text-xs font-medium text-gray-300 mb-2">
-                    Medical License Number (e.g., MCI/12/34567)
+                    Registration Number{council ? ` (e.g., ${council.example})` : ''}
                 </label>
                 <input
                     id="licenseNumber"
                     type="text"
                     value={licenseNumber}
-                    onChange={(e) => setLicenseNumber(e.target.value)}
+                    onChange={(e) => { setLicenseNumber(e.target.value); setFailure(null); }}
                     placeholder="Enter your license number"
                     className="w-full bg-aivana-dark border border-aivana-light-grey text-white text-sm rounded-lg focus:ring-aivana-accent focus:border-aivana-accent block p-3"
                     required
                 />
+                {failure && (
+                    <div className="mt-3 p-3 rounded-lg bg-red-500/20 text-red-300 text-xs" role="alert">
+                        <p className="font-semibold">{FAILURE_TITLES[failure.failure]}</p>
+                        <p className="mt-1">{failure.message}</p>
+                    </div>
+                )}
                 <button
                     type="submit"
                     disabled={isVerifying || !licenseNumber.trim()}
@@ -76,7 +119,7 @@ export const LicenseVerificationModal: React.FC<LicenseVerificationModalProps> =
                 </button>
             </form>
             <p className="text-xs text-center text-gray-500 mt-4">
-                This is a simulated verification for demonstration purposes.
+                Checked against: {getRegistryAdapter().name}. Verification lasts up to {VERIFICATION_TTL_DAYS} days.
             </p>
         </div>
       </div>
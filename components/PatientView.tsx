@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Patient, Encounter, Chat, ScribeSession } from '../types';
+import { Icon } from './Icon';
+import { loadScribeSessions } from '../services/storage';
+import { renderMarkdownToHTML } from '../utils/markdownRenderer';
+import { patientAge, formatAbhaId, isValidAbhaId, parseList } from '../utils/patients';
+
+interface PatientViewProps {
+    patient: Patient;
+    isNew: boolean;                 // Not registered yet; opens in edit mode
+    encounters: Encounter[];        // This patient's, newest first
+    chats: Chat[];
+    onSave: (patient: Patient) => void;
+    onOpenChat: (chatId: string) => void;
+    onNewChat: () => void;
+    onStartScribeSession: () => void;
+    onClose: () => void;
+}
+
+type PatientForm = Omit<Patient, 'allergies' | 'chronicConditions'> & { allergies: string; chronicConditions: string };
+
+const toForm = (patient: Patient): PatientForm => ({
+    ...patient,
+    allergies: patient.allergies.join(', '),
+    chronicConditions: patient.chronicConditions.join(', '),
+});
+
+// The scribe note is the SOAP note followed by the "## Plan" prescription.
+const splitClinicalNote = (note: string): { soap: string; plan: string } => {
+    const index = note.search(/^##\s*Plan\b/m);
+    return index === -1 ? { soap: note, plan: '' } : { soap: note.slice(0, index).trim(), plan: note.slice(index).trim() };
+};
+
+const formatDate = (epochMs: number) => new Date(epochMs).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+const inputClass = 'w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent text-sm';
+
+const PatientDetailsForm: React.FC<{ patient: Patient; onSave: (patient: Patient) => void; onCancel?: () => void }> = ({ patient, onSave, onCancel }) => {
+    const [form, setForm] = useState<PatientForm>(() => toForm(patient));
+    const abhaError = form.abhaId && !isValidAbhaId(form.abhaId) ? 'An ABHA number has 14 digits.' : null;
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: name === 'abhaId' ? formatAbhaId(value) : value }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.name.trim() || abhaError) return;
+        onSave({
+            ...form,
+            name: form.name.trim(),
+            // The age is only kept when there is no date of birth to compute it from.
+            age: form.dateOfBirth ? undefined : form.age?.trim() || undefined,
+            dateOfBirth: form.dateOfBirth || undefined,
+            abhaId: form.abhaId || undefined,
+            allergies: parseList(form.allergies),
+            chronicConditions: parseList(form.chronicConditions),
+            updatedAt: Date.now(),
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+                <label htmlFor="name" className="block text-xs font-medium text-gray-300 mb-1">Full Name</label>
+                <input type="text" name="name" id="name" value={form.name} onChange={handleChange} className={inputClass} required />
+            </div>
+            <div>
+                <label htmlFor="dateOfBirth" className="block text-xs font-medium text-gray-300 mb-1">Date of Birth</label>
+                <input type="date" name="dateOfBirth" id="dateOfBirth" value={form.dateOfBirth || ''} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+                <label htmlFor="age" className="block text-xs font-medium text-gray-300 mb-1">Age (if DOB unknown)</label>
+                <input type="number" name="age" id="age" value={form.dateOfBirth ? '' : form.age || ''} onChange={handleChange} disabled={!!form.dateOfBirth} className={`${inputClass} disabled:opacity-40`} />
+            </div>
+            <div>
+                <label htmlFor="sex" className="block text-xs font-medium text-gray-300 mb-1">Sex</label>
+                <select name="sex" id="sex" value={form.sex} onChange={handleChange} className={inputClass}>
+                    <option value="">Not recorded</option>
+                    <option value="Male">Male</option>
+                    <option value="Female">Female</option>
+                    <option value="Other">Other</option>
+                </select>
+            </div>
+            <div>
+                <label htmlFor="mobile" className="block text-xs font-medium text-gray-300 mb-1">Mobile</label>
+                <input type="tel" name="mobile" id="mobile" value={form.mobile} onChange={handleChange} className={inputClass} placeholder="e.g., 98200 12345" />
+            </div>
+            <div className="md:col-span-2">
+                <label htmlFor="abhaId" className="block text-xs font-medium text-gray-300 mb-1">ABHA Number</label>
+                <input type="text" name="abhaId" id="abhaId" value={form.abhaId || ''} onChange={handleChange} className={inputClass} placeholder="12-3456-7890-1234" />
+                {abhaError && <p className="mt-1 text-xs text-red-400">{abhaError}</p>}
+            </div>
+            <div className="md:col-span-2">
+                <label htmlFor="allergies" className="block text-xs font-medium text-gray-300 mb-1">Drug Allergies</label>
+                <input type="text" name="allergies" id="allergies" value={form.allergies} onChange={handleChange} className={inputClass} placeholder="e.g., penicillin, sulfa (comma separated)" />
+            </div>
+            <div className="md:col-span-2">
+                <label htmlFor="chronicConditions" className="block text-xs font-medium text-gray-300 mb-1">Chronic Conditions</label>
+                <input type="text" name="chronicConditions" id="chronicConditions" value={form.chronicConditions} onChange={handleChange} className={inputClass} placeholder="e.g., type 2 diabetes, hypertension" />
+            </div>
+            <div className="md:col-span-4 flex justify-end gap-2 mt-2">
+                {onCancel && (
+                    <button type="button" onClick={onCancel} className="px-4 py-2 text-sm text-gray-300 hover:text-white rounded-lg">Cancel</button>
+                )}
+                <button type="submit" disabled={!form.name.trim() || !!abhaError} className="px-4 py-2 bg-aivana-accent hover:bg-purple-700 text-white text-sm font-semibold rounded-lg disabled:opacity-50">
+                    Save Patient
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const ChatEncounter: React.FC<{ chat?: Chat; onOpen: () => void }> = ({ chat, onOpen }) => {
+    if (!chat) return <p className="text-xs text-gray-500 italic">This conversation is no longer stored.</p>;
+    const firstQuestion = chat.messages.find(m => m.sender === 'USER')?.text.trim();
+
+    return (
+        <div className="text-xs text-gray-400 space-y-2">
+            {firstQuestion && <p className="line-clamp-2">"{firstQuestion}"</p>}
+            <div className="flex items-center justify-between">
+                <span>{chat.messages.length} messages</span>
+                <button onClick={onOpen} className="text-aivana-accent hover:text-white font-semibold">Open chat →</button>
+            </div>
+        </div>
+    );
+};
+
+const ScribeEncounter: React.FC<{ session?: ScribeSession }> = ({ session }) => {
+    if (!session) return <p className="text-xs text-gray-500 italic">This session is no longer stored.</p>;
+    const { soap, plan } = splitClinicalNote(session.clinicalNote);
+    const { weight, height, bmi } = session.measurements;
+    const measurements = [weight && `Weight ${weight}`, height && `Height ${height}`, bmi && `BMI ${bmi}`].filter(Boolean).join(' · ');
+
+    return (
+        <div className="text-xs text-gray-400 space-y-2">
+            <div>{session.transcript.length} transcript lines{measurements ? ` · ${measurements}` : ''}</div>
+            {soap && (
+                <details>
+                    <summary className="cursor-pointer text-gray-300 font-semibold">Clinical note</summary>
+                    <div className="mt-2 prose prose-sm prose-invert max-w-none text-xs" dangerouslySetInnerHTML={{ __html: renderMarkdownToHTML(soap) }} />
+                </details>
+            )}
+            {plan && (
+                <details open>
+                    <summary className="cursor-pointer text-gray-300 font-semibold">Prescription</summary>
+                    <div className="mt-2 prose prose-sm prose-invert max-w-none text-xs" dangerouslySetInnerHTML={{ __html: renderMarkdownToHTML(plan) }} />
+                </details>
+            )}
+            {session.transcript.length > 0 && (
+                <details>
+                    <summary className="cursor-pointer text-gray-300 font-semibold">Transcript</summary>
+                    <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+                        {session.transcript.map(entry => (
+                            <li key={entry.id}><span className="font-semibold text-gray-300">{entry.speaker}:</span> {entry.text}</li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
+
+export const PatientView: React.FC<PatientViewProps> = ({
+    patient, isNew, encounters, chats, onSave, onOpenChat, onNewChat, onStartScribeSession, onClose,
+}) => {
+    const [isEditing, setIsEditing] = useState(isNew);
+    const [sessions, setSessions] = useState<ScribeSession[]>([]);
+
+    // Reloaded with the encounters, which change whenever a session is saved.
+    useEffect(() => {
+        loadScribeSessions()
+            .then(setSessions)
+            .catch(error => console.error('[STORAGE] Failed to load scribe sessions:', error));
+    }, [encounters]);
+
+    const chatsById = useMemo(() => new Map(chats.map(c => [c.id, c])), [chats]);
+    const sessionsById = useMemo(() => new Map(sessions.map(s => [s.id, s])), [sessions]);
+    const age = patientAge(patient);
+
+    const handleSave = (updated: Patient) => {
+        onSave(updated);
+        setIsEditing(false);
+    };
+
+    return (
+        <div className="flex-1 overflow-y-auto p-4 md:p-8 animate-fadeInUp">
+            <div className="max-w-3xl mx-auto space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h2 className="text-2xl font-bold text-white">{isNew ? 'Register Patient' : patient.name}</h2>
+                        {!isNew && (
+                            <p className="text-sm text-gray-400 mt-1">
+                                {[age && `${age} years`, patient.sex, patient.mobile, patient.abhaId && `ABHA ${patient.abhaId}`].filter(Boolean).join(' · ')}
+                            </p>
+                        )}
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-aivana-grey" aria-label="Close patient">
+                        <Icon name="close" className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="bg-aivana-light-grey rounded-xl p-5 border border-aivana-light-grey/50">
+                    {isEditing ? (
+                        <PatientDetailsForm patient={patient} onSave={handleSave} onCancel={isNew ? onClose : () => setIsEditing(false)} />
+                    ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                            <div>
+                                <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Allergies</h3>
+                                <p className={patient.allergies.length > 0 ? 'text-red-300' : 'text-gray-500'}>{patient.allergies.join(', ') || 'None recorded'}</p>
+                            </div>
+                            <div>
+                                <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Chronic Conditions</h3>
+                                <p className={patient.chronicConditions.length > 0 ? 'text-gray-200' : 'text-gray-500'}>{patient.chronicConditions.join(', ') || 'None recorded'}</p>
+                            </div>
+                            <div className="md:col-span-2 flex flex-wrap gap-2 pt-2 border-t border-white/10">
+                                <button onClick={() => setIsEditing(true)} className="px-3 py-1.5 text-xs text-gray-300 hover:text-white bg-aivana-grey rounded-lg">Edit details</button>
+                                <button onClick={onNewChat} className="px-3 py-1.5 text-xs text-white bg-aivana-accent hover:bg-purple-700 rounded-lg flex items-center gap-1.5">
+                                    <Icon name="newChat" className="w-4 h-4" /> New chat
+                                </button>
+                                <button onClick={onStartScribeSession} className="px-3 py-1.5 text-xs text-gray-200 bg-aivana-grey hover:bg-gray-700 rounded-lg flex items-center gap-1.5">
+                                    <Icon name="sparkles" className="w-4 h-4 text-aivana-accent" /> Start Veda session
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {!isNew && (
+                    <div>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">Timeline</h3>
+                        {encounters.length === 0 ? (
+                            <p className="text-sm text-gray-500">No encounters yet. Link a chat to this patient or start a Veda session.</p>
+                        ) : (
+                            <ol className="relative border-l border-aivana-light-grey ml-2 space-y-4">
+                                {encounters.map(encounter => (
+                                    <li key={encounter.id} className="ml-5">
+                                        <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-aivana-accent"></span>
+                                        <div className="bg-aivana-light-grey rounded-lg p-4 border border-aivana-light-grey/50">
+                                            <div className="flex items-center justify-between gap-2 mb-2">
+                                                <span className="text-sm font-semibold text-white flex items-center gap-2">
+                                                    <Icon name={encounter.kind === 'chat' ? 'chatHistory' : 'sparkles'} className="w-4 h-4 text-aivana-accent" />
+                                                    {encounter.kind === 'chat' ? chatsById.get(encounter.chatId!)?.title || encounter.title : encounter.title}
+                                                </span>
+                                                <span className="text-xs text-gray-500 whitespace-nowrap">{formatDate(encounter.startedAt)}</span>
+                                            </div>
+                                            {encounter.kind === 'chat'
+                                                ? <ChatEncounter chat={chatsById.get(encounter.chatId!)} onOpen={() => onOpenChat(encounter.chatId!)} />
+                                                : <ScribeEncounter session={sessionsById.get(encounter.scribeSessionId!)} />}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
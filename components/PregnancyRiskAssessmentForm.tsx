@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Icon } from './Icon';
+import { ClinicalScoreId, ClinicalScoreResult } from '../types';
+import { CLINICAL_SCORES, computeScores, ScoreInputs, Consciousness } from '../utils/clinicalScores';
 
-interface FormData {
+// Checkbox inputs of the scores, beyond those taken from the PMH.
+type ScoreFlag = 'supplementalOxygen' | 'aspirinLast7Days' | 'severeAngina24h' | 'cardiacArrestAtAdmission' | 'dvtSigns' | 'peMostLikely' | 'previousVte' | 'hemoptysis' | 'malignancy';
+
+export interface GeneralTriageFormData {
     age: string;
     sex: string;
     systolicBP: string;
@@ -12,10 +17,21 @@ interface FormData {
     respiratoryRate: string;
     chiefComplaint: string;
     history: string[];
+    allergies: string;
+    selectedScores: ClinicalScoreId[];
+    consciousness: Consciousness;
+    urea: string;                   // mmol/L
+    creatinine: string;             // mg/dL
+    troponin: string;               // '' or TroponinResult
+    ecg: string;                    // '' or EcgFinding
+    historySuspicion: string;       // '' or HistorySuspicion
+    killipClass: string;
+    flags: ScoreFlag[];
+    scores: ClinicalScoreResult[];  // Computed on submit
 }
 
 interface GeneralTriageFormProps {
-  onSubmit: (formData: FormData) => void;
+  onSubmit: (formData: GeneralTriageFormData) => void;
 }
 
 const commonConditions = [
@@ -26,10 +42,70 @@ const commonConditions = [
     'Chronic Kidney Disease',
     'Immunosuppressed',
     'Recent Surgery',
+    'Pregnancy',
+    'Active GI Bleed',
+    'Chronic Liver Disease',
+    'PDE5 Inhibitor (last 24h)',
+    'Hyperlipidaemia',
+    'Smoker',
+    'Family History of CAD',
+    'Obesity',
 ];
 
+const CAD_RISK_FACTORS = ['Hypertension', 'Diabetes', 'Hyperlipidaemia', 'Smoker', 'Family History of CAD', 'Obesity'];
+
+// Which score inputs to ask for, by score.
+const CARDIAC_SCORES: ClinicalScoreId[] = ['heart', 'timi', 'grace'];
+
+const FLAG_LABELS: Record<ScoreFlag, string> = {
+    supplementalOxygen: 'On supplemental O2',
+    aspirinLast7Days: 'Aspirin in last 7 days',
+    severeAngina24h: '≥ 2 angina episodes in 24h',
+    cardiacArrestAtAdmission: 'Cardiac arrest at admission',
+    dvtSigns: 'Clinical signs of DVT',
+    peMostLikely: 'PE most likely diagnosis',
+    previousVte: 'Previous DVT/PE',
+    hemoptysis: 'Haemoptysis',
+    malignancy: 'Active malignancy',
+};
+
+const SCORE_FLAGS: { flag: ScoreFlag; scores: ClinicalScoreId[] }[] = [
+    { flag: 'supplementalOxygen', scores: ['news2'] },
+    { flag: 'aspirinLast7Days', scores: ['timi'] },
+    { flag: 'severeAngina24h', scores: ['timi'] },
+    { flag: 'cardiacArrestAtAdmission', scores: ['grace'] },
+    { flag: 'dvtSigns', scores: ['wells-pe'] },
+    { flag: 'peMostLikely', scores: ['wells-pe'] },
+    { flag: 'previousVte', scores: ['wells-pe'] },
+    { flag: 'hemoptysis', scores: ['wells-pe'] },
+    { flag: 'malignancy', scores: ['wells-pe'] },
+];
+
+const toNumber = (value: string): number | undefined => (value.trim() === '' ? undefined : parseFloat(value));
+
+export const toScoreInputs = (data: GeneralTriageFormData): ScoreInputs => ({
+    age: toNumber(data.age),
+    sbp: toNumber(data.systolicBP),
+    dbp: toNumber(data.diastolicBP),
+    hr: toNumber(data.hr),
+    rr: toNumber(data.respiratoryRate),
+    temp: toNumber(data.temp),
+    spo2: toNumber(data.spo2),
+    consciousness: data.consciousness,
+    ureaMmolL: toNumber(data.urea),
+    creatinineMgDl: toNumber(data.creatinine),
+    troponin: (data.troponin || undefined) as ScoreInputs['troponin'],
+    ecg: (data.ecg || undefined) as ScoreInputs['ecg'],
+    historySuspicion: (data.historySuspicion || undefined) as ScoreInputs['historySuspicion'],
+    killipClass: data.killipClass ? (parseInt(data.killipClass, 10) as ScoreInputs['killipClass']) : undefined,
+    cadRiskFactors: data.history.filter(h => CAD_RISK_FACTORS.includes(h)).length,
+    knownAtherosclerosis: data.history.includes('Ischemic Heart Disease'),
+    immobilizationOrSurgery: data.history.includes('Recent Surgery'),
+    ...Object.fromEntries(data.flags.map(f => [f, true])),
+});
+
 export const GeneralTriageForm: React.FC<GeneralTriageFormProps> = ({ onSubmit }) => {
-    const [formData, setFormData] = useState<FormData>({
+    const [formData, setFormData] = useState<GeneralTriageFormData>({
         age: '',
         sex: 'Male',
         systolicBP: '',
@@ -40,8 +116,22 @@ export const GeneralTriageForm: React.FC<GeneralTriageFormProps> = ({ onSubmit }
         respiratoryRate: '',
         chiefComplaint: '',
         history: [],
+        allergies: '',
+        selectedScores: ['news2', 'qsofa'],
+        consciousness: 'Alert',
+        urea: '',
+        creatinine: '',
+        troponin: '',
+        ecg: '',
+        historySuspicion: '',
+        killipClass: '1',
+        flags: [],
+        scores: [],
     });
 
+    const scores = useMemo(() => computeScores(formData.selectedScores, toScoreInputs(formData)), [formData]);
+    const wants = (...ids: ClinicalScoreId[]) => ids.some(id => formData.selectedScores.includes(id));
+
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         setFormData({ ...formData, [e.target.name]: e.target.value });
     };
@@ -55,9 +145,11 @@ export const GeneralTriageForm: React.FC<GeneralTriageFormProps> = ({ onSubmit }
         }
     };
 
+    const toggle = <T,>(list: T[], item: T, on: boolean): T[] => (on ? [...list, item] : list.filter(i => i !== item));
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSubmit(formData);
+        onSubmit({ ...formData, scores });
     };
 
     return (
@@ -67,7 +159,7 @@ export const GeneralTriageForm: React.FC<GeneralTriageFormProps> = ({ onSubmit }
                     <Icon name="shield-heart" className="w-8 h-8 text-aivana-accent" />
                     <h2 className="text-2xl font-bold text-white">General Triage & Risk Assessment</h2>
                 </div>
-                <p className="text-gray-400 mb-6 text-sm">Enter patient vitals and presentation to generate a risk stratification (NEWS2/qSOFA) and management plan.</p>
+                <p className="text-gray-400 mb-6 text-sm">Enter patient vitals and presentation to generate a risk stratification and management plan. Selected scores are calculated locally from the form.</p>
                 
                 <form onSubmit={handleSubmit} className="space-y-4">
                     {/* Demographics & Complaint */}
@@ -131,6 +223,106 @@ export const GeneralTriageForm: React.FC<GeneralTriageFormProps> = ({ onSubmit }
                             ))}
                         </div>
                     </div>
+                    {/* Clinical Scores */}
+                    <div className="bg-aivana-dark p-4 rounded-lg border border-aivana-grey">
+                        <h3 className="text-sm font-semibold text-aivana-accent mb-3">Clinical Scores</h3>
+                        <div className="flex flex-wrap gap-2 mb-3">
+                            {CLINICAL_SCORES.map(score => (
+                                <label key={score.id} className="flex items-center space-x-2 px-2 py-1 rounded-md bg-aivana-grey cursor-pointer">
+                                    <input type="checkbox" checked={formData.selectedScores.includes(score.id)} onChange={e => setFormData(prev => ({ ...prev, selectedScores: toggle(prev.selectedScores, score.id, e.target.checked) }))} className="form-checkbox h-4 w-4 text-aivana-accent bg-aivana-dark border-aivana-light-grey/80 focus:ring-aivana-accent" />
+                                    <span className="text-xs text-gray-300">{score.name}</span>
+                                </label>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                            {wants('news2', 'qsofa', 'curb65') && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Consciousness (ACVPU)</label>
+                                    <select name="consciousness" value={formData.consciousness} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent">
+                                        {['Alert', 'New confusion', 'Voice', 'Pain', 'Unresponsive'].map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            {wants('curb65') && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Urea (mmol/L)</label>
+                                    <input type="number" step="0.1" name="urea" value={formData.urea} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent" />
+                                </div>
+                            )}
+                            {wants('grace') && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Creatinine (mg/dL)</label>
+                                    <input type="number" step="0.01" name="creatinine" value={formData.creatinine} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent" />
+                                </div>
+                            )}
+                            {wants('heart') && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">History (HEART)</label>
+                                    <select name="historySuspicion" value={formData.historySuspicion} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent">
+                                        <option value="">Not assessed</option>
+                                        <option value="slight">Slightly suspicious</option>
+                                        <option value="moderate">Moderately suspicious</option>
+                                        <option value="high">Highly suspicious</option>
+                                    </select>
+                                </div>
+                            )}
+                            {wants(...CARDIAC_SCORES) && (
+                                <>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">ECG</label>
+                                        <select name="ecg" value={formData.ecg} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent">
+                                            <option value="">Not done</option>
+                                            <option value="normal">Normal</option>
+                                            <option value="nonspecific">Non-specific repolarization</option>
+                                            <option value="st-deviation">Significant ST deviation</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-gray-400 mb-1">Troponin</label>
+                                        <select name="troponin" value={formData.troponin} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent">
+                                            <option value="">Not done</option>
+                                            <option value="normal">≤ normal limit</option>
+                                            <option value="1-3x">1-3× normal limit</option>
+                                            <option value=">3x">&gt; 3× normal limit</option>
+                                        </select>
+                                    </div>
+                                </>
+                            )}
+                            {wants('grace') && (
+                                <div>
+                                    <label className="block text-xs font-medium text-gray-400 mb-1">Killip class</label>
+                                    <select name="killipClass" value={formData.killipClass} onChange={handleChange} className="w-full bg-aivana-grey p-2 rounded-md focus:ring-aivana-accent">
+                                        <option value="1">I: no heart failure</option>
+                                        <option value="2">II: rales, S3, JVP raised</option>
+                                        <option value="3">III: pulmonary oedema</option>
+                                        <option value="4">IV: cardiogenic shock</option>
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-3">
+                            {SCORE_FLAGS.filter(f => wants(...f.scores)).map(({ flag }) => (
+                                <label key={flag} className="flex items-center space-x-2 p-1 rounded-md hover:bg-aivana-grey cursor-pointer">
+                                    <input type="checkbox" checked={formData.flags.includes(flag)} onChange={e => setFormData(prev => ({ ...prev, flags: toggle(prev.flags, flag, e.target.checked) }))} className="form-checkbox h-4 w-4 text-aivana-accent bg-aivana-dark border-aivana-light-grey/80 focus:ring-aivana-accent" />
+                                    <span className="text-xs text-gray-300">{FLAG_LABELS[flag]}</span>
+                                </label>
+                            ))}
+                        </div>
+                        {scores.length > 0 && (
+                            <ul className="mt-3 pt-3 border-t border-aivana-grey space-y-1 text-xs">
+                                {scores.map(score => (
+                                    <li key={score.id} className="flex justify-between gap-2">
+                                        <span className="text-gray-300">{score.name}</span>
+                                        <span className="font-mono text-white">{score.points}/{score.maxPoints} · {score.band}{score.missing.length > 0 ? ' (incomplete)' : ''}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="allergies" className="block text-xs font-medium text-gray-300 mb-1">Drug Allergies</label>
+                        <input type="text" name="allergies" id="allergies" value={formData.allergies} onChange={handleChange} className="w-full bg-aivana-dark p-2 rounded-md border border-aivana-light-grey/80 focus:ring-aivana-accent focus:border-aivana-accent" placeholder="e.g., penicillin, aspirin (leave blank if none known)" />
+                    </div>
                     <button type="submit" className="w-full !mt-6 bg-aivana-accent hover:bg-purple-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
                         <Icon name="diagnosis" className="w-5 h-5"/>
                         Calculate Risk & Triage
@@ -10,6 +10,7 @@ interface PromptInsightsPanelProps {
   isLoading: boolean;
   currentDdx?: DdxItem[] | null;
   currentQuestions?: string[] | null;
+  onSelectQuestion?: (question: string) => void;
 }
 
 const InsightSection: React.FC<{ title: string; icon: string; children: React.ReactNode; isPriority?: boolean }> = ({ title, icon, children, isPriority }) => (
@@ -24,7 +25,7 @@ const InsightSection: React.FC<{ title: string; icon: string; children: React.Re
     </div>
 );
 
-export const PromptInsightsPanel: React.FC<PromptInsightsPanelProps> = ({ isOpen, onClose, insights, isLoading, currentDdx, currentQuestions }) => {
+export const PromptInsightsPanel: React.FC<PromptInsightsPanelProps> = ({ isOpen, onClose, insights, isLoading, currentDdx, currentQuestions, onSelectQuestion }) => {
     if (!isOpen) {
         return null;
     }
@@ -73,9 +74,11 @@ export const PromptInsightsPanel: React.FC<PromptInsightsPanelProps> = ({ isOpen
                     <InsightSection title="Questions to Ask Patient" icon="help" isPriority>
                         <ul className="space-y-2">
                             {currentQuestions.map((q, i) => (
-                                <li key={i} className="text-xs text-gray-300 p-2.5 bg-black/40 rounded-lg border border-white/5 flex gap-2">
-                                    <span className="text-aivana-accent font-bold">?</span>
-                                    {q}
+                                <li key={i}>
+                                    <button onClick={() => onSelectQuestion?.(q)} disabled={!onSelectQuestion} className="w-full text-left text-xs text-gray-300 p-2.5 bg-black/40 rounded-lg border border-white/5 flex gap-2 enabled:hover:border-aivana-accent/50 enabled:hover:text-white transition-colors" title="Answer this question in the chat">
+                                        <span className="text-aivana-accent font-bold">?</span>
+                                        {q}
+                                    </button>
                                 </li>
                             ))}
                         </ul>
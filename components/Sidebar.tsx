@@ -1,8 +1,11 @@
 
-import React, { useMemo } from 'react';
-import { PreCodedGpt, Chat, DoctorProfile } from '../types';
+import React, { useMemo, useState } from 'react';
+import { PreCodedGpt, Chat, DoctorProfile, StorageEstimate, Patient } from '../types';
 import { Icon } from './Icon';
 import { MTP_PROTOCOL_JSON } from '../assets/mtpProtocol';
+import { SCOPE_POLICIES, DEFAULT_SCOPE_POLICY } from '../prescriberScopePolicy';
+import { resolvePrescriberScope } from '../services/prescriberScope';
+import { describePatient, matchesPatientQuery } from '../utils/patients';
 
 interface SidebarProps {
     isOpen: boolean;
@@ -18,12 +21,100 @@ interface SidebarProps {
     doctorProfile: DoctorProfile;
     setDoctorProfile: (profile: DoctorProfile) => void;
     onStartScribeSession: () => void;
-    activeView: 'chat' | 'scribe';
+    activeView: 'chat' | 'scribe' | 'patient';
     onShowPrintModal: () => void;
     onShowAboutModal: () => void;
+    onShowAuditLog: () => void;
     onGenerateCaseSummary: () => void;
+    storageEstimate: StorageEstimate | null;
+    patients: Patient[];
+    activePatientId: string | null;
+    onSelectPatient: (patientId: string) => void;
+    onNewPatient: () => void;
 }
 
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Space used by locally saved chats, scribe sessions and the audit log, against the browser's quota.
+const StorageIndicator: React.FC<{ estimate: StorageEstimate | null }> = ({ estimate }) => {
+    if (!estimate) return null;
+    const fraction = Math.min(estimate.usage / estimate.quota, 1);
+    const barColor = fraction > 0.9 ? 'bg-red-500' : fraction > 0.7 ? 'bg-yellow-500' : 'bg-aivana-accent';
+
+    return (
+        <div className="mb-4" title="Chats, scribe sessions and the audit log are stored in this browser">
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span className="font-medium">Local Storage</span>
+                <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}</span>
+            </div>
+            <div className="h-1.5 bg-aivana-grey rounded-full overflow-hidden">
+                <div className={`h-full ${barColor}`} style={{ width: `${Math.max(fraction * 100, 1)}%` }}></div>
+            </div>
+            {fraction > 0.9 && <p className="mt-1 text-[10px] text-red-400">Storage is almost full; new conversations may not be saved.</p>}
+        </div>
+    );
+};
+
+const MAX_PATIENT_RESULTS = 6;
+
+// Finds a registered patient by name, mobile or ABHA number.
+const PatientSearch: React.FC<{
+    patients: Patient[];
+    activePatientId: string | null;
+    onSelectPatient: (patientId: string) => void;
+    onNewPatient: () => void;
+}> = ({ patients, activePatientId, onSelectPatient, onNewPatient }) => {
+    const [query, setQuery] = useState('');
+    const results = useMemo(() => patients.filter(p => matchesPatientQuery(p, query)), [patients, query]);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2 px-2">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Patients</h3>
+                <button onClick={onNewPatient} className="text-xs text-aivana-accent hover:text-white font-semibold">+ Register</button>
+            </div>
+            <div className="relative mb-1">
+                <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none text-gray-500">
+                    <Icon name="search" className="w-4 h-4" />
+                </div>
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Name, mobile or ABHA"
+                    className="w-full bg-aivana-grey text-white text-sm rounded-lg border border-transparent pl-9 pr-3 py-2 focus:ring-1 focus:ring-aivana-accent outline-none"
+                    aria-label="Search patients"
+                />
+            </div>
+            <div className="space-y-1">
+                {results.slice(0, MAX_PATIENT_RESULTS).map(patient => (
+                    <button
+                        key={patient.id}
+                        onClick={() => onSelectPatient(patient.id)}
+                        className={`w-full text-left px-3 py-2 rounded-lg transition-colors text-sm truncate ${patient.id === activePatientId
+                                ? 'bg-gray-800 text-white'
+                                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+                            }`}
+                        title={patient.mobile || patient.name}
+                    >
+                        {describePatient(patient)}
+                    </button>
+                ))}
+                {patients.length > 0 && results.length === 0 && (
+                    <p className="px-3 py-2 text-xs text-gray-500">No matching patients.</p>
+                )}
+                {results.length > MAX_PATIENT_RESULTS && (
+                    <p className="px-3 py-1 text-[11px] text-gray-500">{results.length - MAX_PATIENT_RESULTS} more; refine the search.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
 const DoctorProfileSwitcher: React.FC<{
     profile: DoctorProfile;
     setProfile: (profile: DoctorProfile) => void;
@@ -43,13 +134,43 @@ const DoctorProfileSwitcher: React.FC<{
                 {profiles.map(p => (
                     <button
                         key={p.qualification}
-                        onClick={() => setProfile(p)}
+                        onClick={() => setProfile({ ...p, practiceState: profile.practiceState })}
                         className={`flex-1 text-xs px-2 py-1.5 rounded-md transition-colors ${profile.qualification === p.qualification ? 'bg-aivana-accent text-white font-semibold' : 'text-gray-400 hover:text-white hover:bg-aivana-light-grey'}`}
                     >
                         {p.qualification}
                     </button>
                 ))}
             </div>
+            <div className="relative mt-2">
+                <select
+                    value={profile.practiceState || DEFAULT_SCOPE_POLICY.state}
+                    onChange={(e) => setProfile({ ...profile, practiceState: e.target.value === DEFAULT_SCOPE_POLICY.state ? undefined : e.target.value })}
+                    className="w-full bg-aivana-grey text-white text-xs rounded-lg border border-transparent px-3 py-2 appearance-none focus:ring-1 focus:ring-aivana-accent outline-none cursor-pointer hover:bg-aivana-light-grey transition-colors"
+                    aria-label="Practice state"
+                >
+                    {SCOPE_POLICIES.map(p => <option key={p.state} value={p.state}>{p.state}</option>)}
+                    <option value={DEFAULT_SCOPE_POLICY.state}>Other state (no AYUSH allopathic scope)</option>
+                </select>
+                <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-gray-400">
+                    <Icon name="chevronDown" className="w-4 h-4" />
+                </div>
+            </div>
+            {profile.qualification !== 'MBBS' && (
+                <>
+                    <label className="flex items-center gap-2 mt-2 text-xs text-gray-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={profile.canPrescribeAllopathic !== 'no'}
+                            onChange={(e) => setProfile({ ...profile, canPrescribeAllopathic: e.target.checked ? 'limited' : 'no' })}
+                            className="form-checkbox h-3.5 w-3.5 text-aivana-accent bg-aivana-dark border-aivana-light-grey/80"
+                        />
+                        Certified in modern pharmacology
+                    </label>
+                    <p className="mt-1 text-[11px] text-gray-500">
+                        Allopathic scope: {resolvePrescriberScope(profile).scope === 'limited' ? 'limited (state essential-drug list)' : 'none — referral required'}
+                    </p>
+                </>
+            )}
         </div>
     );
 };
@@ -97,7 +218,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
     activeView,
     onShowPrintModal,
     onShowAboutModal,
+    onShowAuditLog,
     onGenerateCaseSummary,
+    storageEstimate,
+    patients,
+    activePatientId,
+    onSelectPatient,
+    onNewPatient,
 }) => {
     const handleDownloadMtpJson = () => {
         const dataStr = JSON.stringify(MTP_PROTOCOL_JSON, null, 2);
@@ -196,6 +323,36 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         </div>
                     </div>
 
+                    {/* Patients */}
+                    <PatientSearch
+                        patients={patients}
+                        activePatientId={activeView === 'patient' ? activePatientId : null}
+                        onSelectPatient={onSelectPatient}
+                        onNewPatient={onNewPatient}
+                    />
+
+                    {/* Recent Chats */}
+                    {chats.length > 0 && (
+                        <div>
+                            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 px-2">Recent</h3>
+                            <div className="space-y-1">
+                                {chats.map((chat) => (
+                                    <button
+                                        key={chat.id}
+                                        onClick={() => onSelectChat(chat.id)}
+                                        className={`w-full text-left px-3 py-2 rounded-lg transition-colors text-sm truncate ${chat.id === activeChatId && activeView === 'chat'
+                                                ? 'bg-gray-800 text-white'
+                                                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+                                            }`}
+                                        title={chat.title}
+                                    >
+                                        {chat.title}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Tools Section */}
                     <div className="mt-4">
                         <div className="space-y-1">
@@ -221,6 +378,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
                                 <Icon name="download" className="w-4 h-4" />
                                 <span className="text-sm">Download Protocol JSON</span>
                             </button>
+                            <button
+                                onClick={onShowAuditLog}
+                                className="w-full text-left flex items-center gap-3 px-3 py-2 rounded-lg transition-colors text-gray-400 hover:text-white hover:bg-gray-800"
+                            >
+                                <Icon name="shieldCheck" className="w-4 h-4" />
+                                <span className="text-sm">Audit Log</span>
+                            </button>
                         </div>
                     </div>
 
@@ -228,6 +392,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
                 {/* Footer */}
                 <div className="p-4 border-t border-gray-800 flex-shrink-0 bg-black">
+                    <StorageIndicator estimate={storageEstimate} />
                     <DoctorProfileSwitcher profile={doctorProfile} setProfile={setDoctorProfile} />
                     <LanguageSelector language={language} setLanguage={setLanguage} />
                 </div>
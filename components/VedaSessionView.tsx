@@ -1,22 +1,31 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { DoctorProfile, TranscriptEntry } from '../types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { DoctorProfile, TranscriptEntry, PatientDemographics, PrescriptionHeader, Patient, ScribeSession } from '../types';
 import { Icon } from './Icon';
 import { useAudioRecorder } from '../hooks/useAudioRecorder';
 import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
 import { processAudioSegment, generateClinicalNote } from '../services/geminiService';
 import { renderMarkdownToHTML } from '../utils/markdownRenderer';
+import { loadScribeSessions, queueScribeSessionSave } from '../services/storage';
+import { describePatient, patientAge } from '../utils/patients';
+import { loadPatientContext } from '../services/patientContext';
+import { checkPrescriptionInteractions, requiresAcknowledgement } from '../services/drugInteractions';
+import { PatientRecordItem } from '../engine/types';
+import { InteractionWarningList } from './InteractionWarningList';
+import { findDrug } from '../services/drugMaster';
+import { detectAllopathicDrugs } from '../services/prescriberScope';
+import { NOT_RECORDED } from '../utils/clinicalNote';
 
 interface ScribeSessionViewProps {
     onEndSession: void;
     doctorProfile: DoctorProfile;
     language: string;
+    patients: Patient[];
+    initialPatientId?: string;      // Started from a patient's timeline
 }
 
-interface PatientDemographics {
-    name: string; age: string; sex: string; mobile: string; weight: string; height: string; bmi: string;
-    date: string; hospitalName: string; hospitalAddress: string; hospitalPhone: string;
-}
+// Everything printed in the prescription header.
+type PrescriptionDetails = PatientDemographics & PrescriptionHeader;
 
 // FIX: Added missing AudioWaveform component to visualize signal acquisition
 // Corrected: Explicitly using React namespace by adding import to resolve 'Cannot find namespace React'
@@ -42,7 +51,7 @@ const stripMarkdown = (text: string): string => {
 };
 
 // Corrected: Explicitly using React namespace by adding import to resolve 'Cannot find namespace React'
-const PrescriptionTemplate: React.FC<{ patient: PatientDemographics; clinicalNote: string; isPreview?: boolean }> = ({ patient, clinicalNote, isPreview }) => {
+const PrescriptionTemplate: React.FC<{ patient: PrescriptionDetails; clinicalNote: string; isPreview?: boolean }> = ({ patient, clinicalNote, isPreview }) => {
     const getSectionContent = (title: string) => {
         if (!clinicalNote) return "";
         const regex = new RegExp(`##\\s*${title}[^]*?(?=##|$)`, 'i');
@@ -62,13 +71,22 @@ const PrescriptionTemplate: React.FC<{ patient: PatientDemographics; clinicalNot
     const planLines = getSectionContent('Plan').split('\n').map(l => l.trim()).filter(Boolean);
     const medicines = planLines.filter(l => l.includes('|')).map(line => {
         const parts = line.split('|').map(p => p.trim());
+        const written = parts[0] || '';
+        // A bare brand or synonym is printed as its generic; a name with more detail ("Dolo 650
+        // tablet") is kept as written and only looked up.
+        const exact = findDrug(written);
+        const drug = exact || findDrug(detectAllopathicDrugs(written)[0] || '');
+        const route = parts[3] && !NOT_RECORDED.test(parts[3]) ? parts[3] : '';
         return {
-            name: parts[0] || '',
+            name: exact ? exact.generic : written,
+            spokenAs: exact && exact.generic.toLowerCase() !== written.toLowerCase() ? written : '',
             dosage: parts[1] || '-',
             frequency: parts[2] || '-',
-            route: parts[3] || '-'
+            route: route || (drug ? `${drug.route}*` : '-'),
+            drug,
         };
     });
+    const defaultRouteUsed = medicines.some(m => m.route.endsWith('*'));
     const adviceLines = planLines.filter(l => !l.includes('|'));
 
     return (
@@ -162,13 +180,25 @@ const PrescriptionTemplate: React.FC<{ patient: PatientDemographics; clinicalNot
                 <div className="border-l border-r border-b border-gray-300 min-h-[140px]">
                     {medicines.map((med, i) => (
                         <div key={i} className="grid grid-cols-4 border-b border-gray-200 last:border-0 font-normal">
-                            <div className={`${baseFontSize} p-3 border-r border-gray-200`}>{med.name}</div>
+                            <div className={`${baseFontSize} p-3 border-r border-gray-200`}>
+                                <span>{med.name}</span>
+                                {med.drug && med.drug.schedule !== 'OTC' && (
+                                    <span className="ml-1.5 px-1 border border-gray-400 rounded text-[0.8em] font-bold">{med.drug.schedule === 'NDPS' ? 'NDPS' : `Sch ${med.drug.schedule}`}</span>
+                                )}
+                                {med.spokenAs && <div className="text-[0.85em] text-gray-500">({med.spokenAs})</div>}
+                                {med.drug && (med.drug.renalAdjustment || med.drug.hepaticAdjustment) && (
+                                    <div className="text-[0.85em] text-gray-500 italic">
+                                        Dose adjustment in {[med.drug.renalAdjustment && 'renal', med.drug.hepaticAdjustment && 'hepatic'].filter(Boolean).join(' / ')} impairment
+                                    </div>
+                                )}
+                            </div>
                             <div className={`${baseFontSize} p-3 border-r border-gray-200 text-center`}>{med.dosage}</div>
                             <div className={`${baseFontSize} p-3 border-r border-gray-200 text-center`}>{med.frequency}</div>
                             <div className={`${baseFontSize} p-3 text-center`}>{med.route}</div>
                         </div>
                     ))}
                 </div>
+                {defaultRouteUsed && <div className={`${metaLabelSize} text-gray-500 mt-1`}>* Default route; not stated in the consultation.</div>}
             </div>
 
             {/* Advice (Full Width) */}
@@ -192,7 +222,7 @@ const PrescriptionTemplate: React.FC<{ patient: PatientDemographics; clinicalNot
 };
 
 // Corrected: Explicitly using React namespace by adding import to resolve 'Cannot find namespace React'
-export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSession, doctorProfile, language: defaultLanguage }) => {
+export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSession, doctorProfile, language: defaultLanguage, patients, initialPatientId }) => {
     const [phase, setPhase] = useState<'consent' | 'active' | 'processing' | 'review'>('consent');
     const [sessionLanguage, setSessionLanguage] = useState("Auto-detect");
     const [transcriptHistory, setTranscriptHistory] = useState<TranscriptEntry[]>([]);
@@ -202,7 +232,7 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
     const [duration, setDuration] = useState(0);
     const [showPdfPreview, setShowPdfPreview] = useState(true);
 
-    const [patient, setPatient] = useState<PatientDemographics>({
+    const [patient, setPatient] = useState<PrescriptionDetails>({
         name: '', age: '', sex: '', mobile: '', weight: '', height: '', bmi: '',
         date: new Date().toLocaleDateString('en-GB'),
         hospitalName: 'OPD PLATFORM CLINIC',
@@ -210,6 +240,14 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
         hospitalPhone: ''
     });
 
+    // The saved session being recorded or reviewed; set when a session starts or is resumed.
+    const sessionRef = useRef<{ id: string; startedAt: number } | null>(null);
+    const [resumableSession, setResumableSession] = useState<ScribeSession | null>(null);
+    const [linkedPatientId, setLinkedPatientId] = useState<string | undefined>(undefined);
+    const [recordMedications, setRecordMedications] = useState<PatientRecordItem[]>([]);
+    // The interactions the clinician acknowledged, by signature; a changed Plan needs a fresh review.
+    const [acknowledgedInteractions, setAcknowledgedInteractions] = useState<string | null>(null);
+
     const processedSegmentsRef = useRef<number>(0);
     const pendingSegmentsQueue = useRef<Blob[]>([]);
     const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -231,6 +269,62 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
         transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [transcriptHistory, interimTranscript]);
 
+    // The most recent session with a transcript can be reopened from the consent screen.
+    useEffect(() => {
+        loadScribeSessions()
+            .then(sessions => setResumableSession(sessions.find(s => s.transcript.length > 0) || null))
+            .catch(error => console.error('[STORAGE] Failed to load scribe sessions:', error));
+    }, []);
+
+    // Fills the prescription header from a registered patient and links the session to them.
+    const applyPatient = (registered: Patient) => {
+        setLinkedPatientId(registered.id);
+        setPatient(prev => ({ ...prev, name: registered.name, age: patientAge(registered), sex: registered.sex, mobile: registered.mobile }));
+    };
+
+    // Saved on every change once a session is under way; the store debounces the writes.
+    // Typing a name for an unregistered patient registers them. A patient picked from the
+    // registry is only linked: the header fields typed here are not written back to their record.
+    const savedInputsRef = useRef<unknown[]>([]);
+    useEffect(() => {
+        const current = sessionRef.current;
+        if (!current || phase === 'consent') return;
+        // The registry reloads after each of these writes, which alone is no reason to save again.
+        const inputs = [current.id, phase, patient, linkedPatientId, sessionLanguage, transcriptHistory, clinicalNote];
+        if (inputs.every((value, i) => Object.is(value, savedInputsRef.current[i]))) return;
+        savedInputsRef.current = inputs;
+
+        const { name, age, sex, mobile, weight, height, bmi, date, hospitalName, hospitalAddress, hospitalPhone } = patient;
+        const now = Date.now();
+        const ownPatientId = `patient-${current.id}`;
+        const patientId = linkedPatientId || (name.trim() ? ownPatientId : undefined);
+        const registered = patients.find(p => p.id === ownPatientId);
+        const patientRecord: Patient | undefined = patientId === ownPatientId ? {
+            allergies: [],
+            chronicConditions: [],
+            createdAt: now,
+            ...registered,
+            id: ownPatientId,
+            name: name.trim(),
+            sex,
+            mobile,
+            // A date of birth, when registered, is kept over the age typed here.
+            ...(registered?.dateOfBirth ? {} : { age }),
+            updatedAt: now,
+        } : undefined;
+        queueScribeSessionSave({
+            id: current.id,
+            startedAt: current.startedAt,
+            updatedAt: now,
+            language: sessionLanguage,
+            patientId,
+            transcript: transcriptHistory,
+            clinicalNote,
+            header: { date, hospitalName, hospitalAddress, hospitalPhone },
+            measurements: { weight, height, bmi },
+        }, patientRecord);
+    }, [phase, patient, linkedPatientId, sessionLanguage, transcriptHistory, clinicalNote, patients]);
+
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
         const secs = seconds % 60;
@@ -260,7 +354,24 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
         };
     }, [sessionLanguage, doctorProfile, transcriptHistory]);
 
+    const handleResumeSession = () => {
+        if (!resumableSession) return;
+        const session = resumableSession;
+        sessionRef.current = { id: session.id, startedAt: session.startedAt };
+        setSessionLanguage(session.language);
+        setTranscriptHistory(session.transcript);
+        setClinicalNote(session.clinicalNote);
+        setPatient(prev => ({ ...prev, ...session.header, ...session.measurements }));
+        const registered = patients.find(p => p.id === session.patientId);
+        if (registered) applyPatient(registered);
+        setPhase('review');
+    };
+
     const handleStartSession = async () => {
+        const now = Date.now();
+        sessionRef.current = { id: `scribe-${now}`, startedAt: now };
+        const initialPatient = patients.find(p => p.id === initialPatientId);
+        if (initialPatient) applyPatient(initialPatient);
         setPhase('active');
         setDuration(0);
         setTranscriptHistory([]);
@@ -298,11 +409,39 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
     const handleGenerateNote = async () => {
         setIsGeneratingNote(true);
         const fullTranscript = transcriptHistory.map(t => `${t.speaker}: ${t.text}`).join('\n');
-        const note = await generateClinicalNote(fullTranscript, doctorProfile, sessionLanguage);
+        // Only a registered patient has a record; this session itself is left out of it.
+        const patientContext = linkedPatientId && sessionRef.current
+            ? await loadPatientContext(linkedPatientId, { scribeSessionId: sessionRef.current.id }).catch(error => {
+                console.error('[STORAGE] Failed to load the patient record:', error);
+                return null;
+            })
+            : null;
+        const note = await generateClinicalNote(fullTranscript, doctorProfile, sessionLanguage, patientContext || undefined);
         setClinicalNote(note);
         setIsGeneratingNote(false);
     };
 
+    // The registered patient's active medications, for the interaction check on review.
+    useEffect(() => {
+        const current = sessionRef.current;
+        if (phase !== 'review' || !linkedPatientId || !current) {
+            setRecordMedications([]);
+            return;
+        }
+        let cancelled = false;
+        loadPatientContext(linkedPatientId, { scribeSessionId: current.id })
+            .then(context => { if (!cancelled) setRecordMedications(context?.medications || []); })
+            .catch(error => console.error('[STORAGE] Failed to load the patient record:', error));
+        return () => { cancelled = true; };
+    }, [phase, linkedPatientId]);
+
+    const interactionWarnings = useMemo(
+        () => clinicalNote ? checkPrescriptionInteractions(clinicalNote, recordMedications) : [],
+        [clinicalNote, recordMedications]
+    );
+    const interactionSignature = interactionWarnings.map(w => `${w.interactionId}:${w.drugs.join('+')}`).join('|');
+    const exportBlocked = requiresAcknowledgement(interactionWarnings) && acknowledgedInteractions !== interactionSignature;
+
     const handleDownloadPDF = () => {
         window.print();
     };
@@ -326,6 +465,14 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
                         </select>
                     </div>
                     <button onClick={handleStartSession} className="w-full py-5 bg-aivana-accent text-white rounded-2xl font-bold text-lg shadow-2xl transition-all active:scale-95">Initiate Signal Acquisition</button>
+                    {resumableSession && (
+                        <button onClick={handleResumeSession} className="w-full py-3 bg-black border border-white/10 text-gray-300 hover:text-white rounded-2xl font-bold text-sm transition-all">
+                            Resume session from {new Date(resumableSession.updatedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}
+                            {patients.some(p => p.id === resumableSession.patientId) && (
+                                <span className="block text-[11px] font-normal text-gray-500">{describePatient(patients.find(p => p.id === resumableSession.patientId)!)}</span>
+                            )}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -394,6 +541,21 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
                 <aside className={`w-[540px] border-l border-white/5 bg-aivana-dark-sider flex flex-col overflow-hidden shadow-2xl transition-all duration-700 ${phase === 'review' ? 'translate-x-0' : 'translate-x-full'}`}>
                     <div className="p-5 bg-black/20 border-b border-white/5 grid grid-cols-4 gap-3">
                         <div className="col-span-4 mb-1"><h3 className="text-[10px] font-black uppercase tracking-widest text-aivana-accent">Patient Metadata</h3></div>
+                        <div className="col-span-4">
+                            <label className="text-[9px] uppercase font-bold text-gray-500 mb-1 block">Registered Patient</label>
+                            <select
+                                value={linkedPatientId || ''}
+                                onChange={e => {
+                                    const registered = patients.find(p => p.id === e.target.value);
+                                    if (registered) applyPatient(registered);
+                                    else setLinkedPatientId(undefined);
+                                }}
+                                className="w-full bg-black/40 border border-white/10 rounded-lg p-2.5 text-xs text-white outline-none focus:border-aivana-accent transition-colors"
+                            >
+                                <option value="">New patient (registered from the details below)</option>
+                                {patients.map(p => <option key={p.id} value={p.id}>{describePatient(p)}{p.mobile ? ` · ${p.mobile}` : ''}</option>)}
+                            </select>
+                        </div>
                         <div className="col-span-2"><label className="text-[9px] uppercase font-bold text-gray-500 mb-1 block">Full Name</label><input type="text" value={patient.name} onChange={e => setPatient({ ...patient, name: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-lg p-2.5 text-xs text-white outline-none focus:border-aivana-accent transition-colors" /></div>
                         <div className="col-span-1"><label className="text-[9px] uppercase font-bold text-gray-500 mb-1 block">Age</label><input type="text" value={patient.age} onChange={e => setPatient({ ...patient, age: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-lg p-2.5 text-xs text-white outline-none focus:border-aivana-accent transition-colors" /></div>
                         <div className="col-span-1"><label className="text-[9px] uppercase font-bold text-gray-500 mb-1 block">Sex</label><input type="text" value={patient.sex} onChange={e => setPatient({ ...patient, sex: e.target.value })} className="w-full bg-black/40 border border-white/10 rounded-lg p-2.5 text-xs text-white outline-none focus:border-aivana-accent transition-colors" /></div>
@@ -410,7 +572,7 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
                                 <button onClick={() => setIsEditingNote(!isEditingNote)} className={`py-3.5 rounded-xl font-bold text-[11px] uppercase tracking-widest transition-all ${isEditingNote ? 'bg-green-600 text-white shadow-lg' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}>
                                     {isEditingNote ? 'Save Changes' : 'Edit Analysis'}
                                 </button>
-                                <button onClick={handleDownloadPDF} className="py-3.5 bg-aivana-accent text-white rounded-xl font-bold text-[11px] uppercase tracking-widest shadow-lg shadow-aivana-accent/30 hover:bg-purple-600 transition-all">Export Prescription</button>
+                                <button onClick={handleDownloadPDF} disabled={exportBlocked} title={exportBlocked ? 'Review the drug interactions in the prescription preview first' : undefined} className="py-3.5 bg-aivana-accent text-white rounded-xl font-bold text-[11px] uppercase tracking-widest shadow-lg shadow-aivana-accent/30 hover:bg-purple-600 transition-all disabled:opacity-30 disabled:cursor-not-allowed">Export Prescription</button>
                             </div>
                         )}
                     </div>
@@ -432,6 +594,26 @@ export const ScribeSessionView: React.FC<ScribeSessionViewProps> = ({ onEndSessi
                                         <div className="flex items-center gap-3"><Icon name="document-text" className="w-5 h-5 text-aivana-accent" /><span className="text-[11px] font-bold uppercase tracking-widest text-gray-500 group-hover:text-white transition-colors">Digital Prescription Preview</span></div>
                                         <Icon name="chevronDown" className={`w-4 h-4 text-gray-600 transition-transform duration-300 ${showPdfPreview ? 'rotate-180' : ''}`} />
                                     </button>
+                                    {interactionWarnings.length > 0 && (
+                                        <div className={`mb-4 p-4 rounded-xl border text-xs ${exportBlocked ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-yellow-500/10 border-yellow-500/20 text-yellow-300'}`} role="alert">
+                                            <div className="flex items-center gap-2 font-bold uppercase tracking-widest text-[10px] mb-2">
+                                                <Icon name="siren" className="w-4 h-4" />
+                                                <span>{interactionWarnings.length === 1 ? 'Drug interaction' : `${interactionWarnings.length} drug interactions`} in this prescription</span>
+                                            </div>
+                                            <InteractionWarningList warnings={interactionWarnings} />
+                                            {requiresAcknowledgement(interactionWarnings) && (
+                                                <label className="mt-3 flex items-center gap-2 text-gray-200 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={acknowledgedInteractions === interactionSignature}
+                                                        onChange={e => setAcknowledgedInteractions(e.target.checked ? interactionSignature : null)}
+                                                        className="accent-aivana-accent"
+                                                    />
+                                                    I have reviewed these interactions; export the prescription as written.
+                                                </label>
+                                            )}
+                                        </div>
+                                    )}
                                     {showPdfPreview && <div className="animate-fadeInUp shadow-[0_30px_60px_-15px_rgba(0,0,0,0.5)] rounded-2xl overflow-hidden border border-white/5"><PrescriptionTemplate patient={patient} clinicalNote={clinicalNote} isPreview /></div>}
                                 </section>
                             </div>
@@ -28,6 +28,14 @@ export const PRE_CODED_GPTS: PreCodedGpt[] = [
     roles: [UserRole.DOCTOR],
     customComponentId: 'LabResultAnalysis',
   },
+  {
+    id: 'doctor-ddx',
+    title: 'Differential Diagnosis Builder',
+    description: 'Enter the presenting complaint, vitals and examination to get a ranked differential and the questions that best narrow it down.',
+    icon: <Icon name="diagnosis" />,
+    roles: [UserRole.DOCTOR],
+    customComponentId: 'DifferentialDiagnosis',
+  },
   {
     id: 'doctor-guidelines',
     title: 'Clinical Guideline Search (NICE/CDC/WHO)',
@@ -0,0 +1,266 @@
+import { DdxDiseaseProfile } from './types';
+
+// Disease/finding table used by the local DDx engine (engine/layers/08_ddxEngine.ts).
+// Priors are rough prevalences among undifferentiated acute adult presentations in Indian
+// primary and emergency care; likelihood ratios are rounded from published diagnostic-accuracy
+// studies. Values are illustrative and must be reviewed before any clinical use.
+//
+// Finding keys are canonical symptom terms from the Input Normalizer, or one of the derived
+// findings: 'hypotension', 'tachycardia', 'tachypnea', 'hypoxia', 'troponin elevated',
+// 'leukocytosis', 'lactate elevated', 'hyperglycemia', 'hypoglycemia', 'low hemoglobin',
+// 'raised creatinine', 'raised bilirubin', 'thrombocytopenia', 'age over 50'.
+export const DDX_DISEASE_PROFILES: DdxDiseaseProfile[] = [
+  {
+    conceptId: 'DX-ACS',
+    prior: 0.03,
+    mustNotMiss: true,
+    ageMin: 25,
+    findings: [
+      { finding: 'chest pain', lrPositive: 3.0, lrNegative: 0.3 },
+      { finding: 'sweating', lrPositive: 2.0, lrNegative: 0.7 },
+      { finding: 'shortness of breath', lrPositive: 1.3, lrNegative: 0.9 },
+      { finding: 'nausea', lrPositive: 1.5, lrNegative: 0.9 },
+      { finding: 'troponin elevated', lrPositive: 12.0, lrNegative: 0.15 },
+      { finding: 'age over 50', lrPositive: 1.8, lrNegative: 0.5 },
+      { finding: 'fever', lrPositive: 0.5, lrNegative: 1.0 },
+    ],
+  },
+  {
+    conceptId: 'DX-AORTIC-DISSECTION',
+    prior: 0.002,
+    mustNotMiss: true,
+    ageMin: 30,
+    findings: [
+      { finding: 'chest pain', lrPositive: 2.5, lrNegative: 0.3 },
+      { finding: 'back pain', lrPositive: 3.0, lrNegative: 0.7 },
+      { finding: 'syncope', lrPositive: 2.0, lrNegative: 0.9 },
+      { finding: 'hypotension', lrPositive: 2.0, lrNegative: 0.9 },
+      { finding: 'age over 50', lrPositive: 2.0, lrNegative: 0.4 },
+    ],
+  },
+  {
+    conceptId: 'DX-PE',
+    prior: 0.01,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'shortness of breath', lrPositive: 2.0, lrNegative: 0.4 },
+      { finding: 'chest pain', lrPositive: 1.5, lrNegative: 0.8 },
+      { finding: 'hemoptysis', lrPositive: 2.0, lrNegative: 0.95 },
+      { finding: 'tachycardia', lrPositive: 1.8, lrNegative: 0.7 },
+      { finding: 'hypoxia', lrPositive: 2.0, lrNegative: 0.6 },
+      { finding: 'syncope', lrPositive: 2.0, lrNegative: 0.95 },
+      { finding: 'swelling', lrPositive: 1.5, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-SEPSIS',
+    prior: 0.03,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'fever', lrPositive: 2.0, lrNegative: 0.5 },
+      { finding: 'hypotension', lrPositive: 3.5, lrNegative: 0.7 },
+      { finding: 'tachycardia', lrPositive: 2.0, lrNegative: 0.5 },
+      { finding: 'tachypnea', lrPositive: 2.5, lrNegative: 0.6 },
+      { finding: 'confusion', lrPositive: 3.0, lrNegative: 0.8 },
+      { finding: 'lactate elevated', lrPositive: 4.0, lrNegative: 0.6 },
+      { finding: 'leukocytosis', lrPositive: 2.0, lrNegative: 0.6 },
+    ],
+  },
+  {
+    conceptId: 'DX-ANAPHYLAXIS',
+    prior: 0.003,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'rash', lrPositive: 6.0, lrNegative: 0.3 },
+      { finding: 'itching', lrPositive: 4.0, lrNegative: 0.6 },
+      { finding: 'swelling', lrPositive: 5.0, lrNegative: 0.6 },
+      { finding: 'wheeze', lrPositive: 3.0, lrNegative: 0.8 },
+      { finding: 'stridor', lrPositive: 6.0, lrNegative: 0.9 },
+      { finding: 'hypotension', lrPositive: 3.0, lrNegative: 0.8 },
+      { finding: 'fever', lrPositive: 0.5, lrNegative: 1.0 },
+    ],
+  },
+  {
+    conceptId: 'DX-ISCH-STROKE',
+    prior: 0.01,
+    mustNotMiss: true,
+    ageMin: 18,
+    findings: [
+      { finding: 'facial droop', lrPositive: 5.5, lrNegative: 0.4 },
+      { finding: 'slurred speech', lrPositive: 5.0, lrNegative: 0.4 },
+      { finding: 'weakness', lrPositive: 3.0, lrNegative: 0.5 },
+      { finding: 'confusion', lrPositive: 1.5, lrNegative: 0.9 },
+      { finding: 'dizziness', lrPositive: 1.2, lrNegative: 1.0 },
+      { finding: 'age over 50', lrPositive: 2.0, lrNegative: 0.4 },
+      { finding: 'hypoglycemia', lrPositive: 0.2, lrNegative: 1.0 },
+    ],
+  },
+  {
+    conceptId: 'DX-DKA',
+    prior: 0.003,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'hyperglycemia', lrPositive: 8.0, lrNegative: 0.05 },
+      { finding: 'vomiting', lrPositive: 2.0, lrNegative: 0.7 },
+      { finding: 'abdominal pain', lrPositive: 1.8, lrNegative: 0.8 },
+      { finding: 'tachypnea', lrPositive: 2.5, lrNegative: 0.7 },
+      { finding: 'confusion', lrPositive: 2.0, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-HYPOGLYCEMIA',
+    prior: 0.005,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'hypoglycemia', lrPositive: 50.0, lrNegative: 0.02 },
+      { finding: 'confusion', lrPositive: 3.0, lrNegative: 0.7 },
+      { finding: 'sweating', lrPositive: 2.5, lrNegative: 0.7 },
+      { finding: 'seizure', lrPositive: 2.5, lrNegative: 0.95 },
+      { finding: 'palpitations', lrPositive: 1.5, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-PNEUMONIA',
+    prior: 0.04,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'cough', lrPositive: 1.8, lrNegative: 0.4 },
+      { finding: 'fever', lrPositive: 2.0, lrNegative: 0.6 },
+      { finding: 'shortness of breath', lrPositive: 1.5, lrNegative: 0.7 },
+      { finding: 'tachypnea', lrPositive: 2.5, lrNegative: 0.8 },
+      { finding: 'hypoxia', lrPositive: 2.8, lrNegative: 0.8 },
+      { finding: 'tachycardia', lrPositive: 1.8, lrNegative: 0.8 },
+      { finding: 'leukocytosis', lrPositive: 1.9, lrNegative: 0.6 },
+    ],
+  },
+  {
+    conceptId: 'DX-ASTHMA',
+    prior: 0.03,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'wheeze', lrPositive: 4.0, lrNegative: 0.5 },
+      { finding: 'shortness of breath', lrPositive: 2.0, lrNegative: 0.3 },
+      { finding: 'cough', lrPositive: 1.5, lrNegative: 0.7 },
+      { finding: 'fever', lrPositive: 0.6, lrNegative: 1.1 },
+    ],
+  },
+  {
+    conceptId: 'DX-DENGUE',
+    prior: 0.03,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'fever', lrPositive: 4.0, lrNegative: 0.05 },
+      { finding: 'headache', lrPositive: 1.5, lrNegative: 0.7 },
+      { finding: 'joint pain', lrPositive: 1.6, lrNegative: 0.7 },
+      { finding: 'rash', lrPositive: 2.0, lrNegative: 0.85 },
+      { finding: 'thrombocytopenia', lrPositive: 4.0, lrNegative: 0.4 },
+      { finding: 'bleeding', lrPositive: 2.5, lrNegative: 0.9 },
+      { finding: 'cough', lrPositive: 0.6, lrNegative: 1.1 },
+    ],
+  },
+  {
+    conceptId: 'DX-MALARIA',
+    prior: 0.02,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'fever', lrPositive: 4.0, lrNegative: 0.05 },
+      { finding: 'headache', lrPositive: 1.3, lrNegative: 0.8 },
+      { finding: 'vomiting', lrPositive: 1.3, lrNegative: 0.9 },
+      { finding: 'jaundice', lrPositive: 2.0, lrNegative: 0.95 },
+      { finding: 'thrombocytopenia', lrPositive: 3.0, lrNegative: 0.5 },
+      { finding: 'low hemoglobin', lrPositive: 1.8, lrNegative: 0.8 },
+    ],
+  },
+  {
+    conceptId: 'DX-TYPHOID',
+    prior: 0.015,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'fever', lrPositive: 4.0, lrNegative: 0.05 },
+      { finding: 'abdominal pain', lrPositive: 1.8, lrNegative: 0.8 },
+      { finding: 'headache', lrPositive: 1.4, lrNegative: 0.8 },
+      { finding: 'diarrhea', lrPositive: 1.3, lrNegative: 0.95 },
+      { finding: 'tachycardia', lrPositive: 0.6, lrNegative: 1.1 },
+    ],
+  },
+  {
+    conceptId: 'DX-UTI',
+    prior: 0.04,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'dysuria', lrPositive: 4.0, lrNegative: 0.4 },
+      { finding: 'fever', lrPositive: 1.3, lrNegative: 0.9 },
+      { finding: 'back pain', lrPositive: 1.6, lrNegative: 0.9 },
+      { finding: 'abdominal pain', lrPositive: 1.3, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-GASTROENTERITIS',
+    prior: 0.06,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'diarrhea', lrPositive: 6.0, lrNegative: 0.2 },
+      { finding: 'vomiting', lrPositive: 2.5, lrNegative: 0.6 },
+      { finding: 'abdominal pain', lrPositive: 1.5, lrNegative: 0.8 },
+      { finding: 'fever', lrPositive: 1.3, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-GERD',
+    prior: 0.06,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'chest pain', lrPositive: 1.5, lrNegative: 0.7 },
+      { finding: 'abdominal pain', lrPositive: 1.8, lrNegative: 0.7 },
+      { finding: 'nausea', lrPositive: 1.3, lrNegative: 0.9 },
+      { finding: 'sweating', lrPositive: 0.5, lrNegative: 1.1 },
+      { finding: 'fever', lrPositive: 0.5, lrNegative: 1.0 },
+    ],
+  },
+  {
+    conceptId: 'DX-PANCREATITIS',
+    prior: 0.005,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'abdominal pain', lrPositive: 5.0, lrNegative: 0.1 },
+      { finding: 'vomiting', lrPositive: 2.0, lrNegative: 0.6 },
+      { finding: 'back pain', lrPositive: 1.8, lrNegative: 0.9 },
+      { finding: 'tachycardia', lrPositive: 1.5, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-MIGRAINE',
+    prior: 0.04,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'headache', lrPositive: 6.0, lrNegative: 0.05 },
+      { finding: 'nausea', lrPositive: 2.0, lrNegative: 0.7 },
+      { finding: 'vomiting', lrPositive: 1.5, lrNegative: 0.9 },
+      { finding: 'fever', lrPositive: 0.3, lrNegative: 1.1 },
+      { finding: 'weakness', lrPositive: 0.6, lrNegative: 1.0 },
+    ],
+  },
+  {
+    conceptId: 'DX-ANEMIA',
+    prior: 0.05,
+    mustNotMiss: false,
+    findings: [
+      { finding: 'low hemoglobin', lrPositive: 20.0, lrNegative: 0.05 },
+      { finding: 'fatigue', lrPositive: 1.8, lrNegative: 0.7 },
+      { finding: 'dizziness', lrPositive: 1.5, lrNegative: 0.9 },
+      { finding: 'shortness of breath', lrPositive: 1.3, lrNegative: 0.9 },
+      { finding: 'palpitations', lrPositive: 1.4, lrNegative: 0.9 },
+    ],
+  },
+  {
+    conceptId: 'DX-AKI',
+    prior: 0.01,
+    mustNotMiss: true,
+    findings: [
+      { finding: 'raised creatinine', lrPositive: 10.0, lrNegative: 0.1 },
+      { finding: 'vomiting', lrPositive: 1.4, lrNegative: 0.9 },
+      { finding: 'hypotension', lrPositive: 2.0, lrNegative: 0.9 },
+      { finding: 'swelling', lrPositive: 1.5, lrNegative: 0.9 },
+    ],
+  },
+];
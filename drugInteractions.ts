@@ -0,0 +1,208 @@
+import { DrugInteraction } from './types';
+
+// Drug–drug interactions for common OPD combinations.
+// Each entry pairs two drugs or drug classes; a class matches any of its members, so
+// ["Vitamin K antagonists", "NSAIDs"] covers warfarin + diclofenac and acenocoumarol +
+// ibuprofen alike. Drug names are generics as written in the drug master (drugMaster.ts);
+// brand names are resolved to them on detection (services/drugInteractions.ts). This is
+// a screening table, not a complete compendium: an interaction missing here is not evidence
+// that a combination is safe.
+
+export const INTERACTION_CLASSES: Record<string, string[]> = {
+    'NSAIDs': ['Ibuprofen', 'Diclofenac', 'Aceclofenac', 'Naproxen', 'Ketorolac', 'Etoricoxib', 'Celecoxib', 'Mefenamic Acid', 'Indomethacin', 'Piroxicam'],
+    'Antiplatelets': ['Aspirin', 'Clopidogrel', 'Ticagrelor', 'Prasugrel'],
+    'Vitamin K antagonists': ['Warfarin', 'Acenocoumarol'],
+    'CYP2C19-inhibiting PPIs': ['Omeprazole', 'Esomeprazole'],
+    'Nitrates': ['Nitroglycerin', 'Isosorbide Dinitrate', 'Isosorbide Mononitrate', 'Nicorandil'],
+    'PDE5 inhibitors': ['Sildenafil', 'Tadalafil', 'Vardenafil'],
+    'Macrolides': ['Azithromycin', 'Clarithromycin', 'Erythromycin'],
+    'CYP3A4-inhibiting macrolides': ['Clarithromycin', 'Erythromycin'],
+    // Macrolides are left out so that two macrolides are not reported as a QT interaction.
+    'QT-prolonging drugs': ['Ondansetron', 'Domperidone', 'Hydroxychloroquine', 'Chloroquine', 'Levofloxacin', 'Moxifloxacin', 'Ciprofloxacin', 'Haloperidol', 'Amiodarone', 'Citalopram', 'Escitalopram', 'Fluconazole'],
+    'ACE inhibitors': ['Enalapril', 'Ramipril', 'Lisinopril', 'Perindopril', 'Captopril'],
+    'ARBs': ['Telmisartan', 'Losartan', 'Olmesartan', 'Valsartan', 'Irbesartan', 'Candesartan'],
+    'Potassium-sparing diuretics': ['Spironolactone', 'Eplerenone', 'Amiloride'],
+    'SSRIs': ['Sertraline', 'Fluoxetine', 'Paroxetine', 'Citalopram', 'Escitalopram'],
+    'Non-DHP calcium channel blockers': ['Verapamil', 'Diltiazem'],
+    'Beta blockers': ['Atenolol', 'Metoprolol', 'Propranolol', 'Bisoprolol', 'Carvedilol', 'Nebivolol'],
+    'Sulfonylureas': ['Glimepiride', 'Gliclazide', 'Glibenclamide', 'Glipizide'],
+    'Fluoroquinolones': ['Ciprofloxacin', 'Levofloxacin', 'Ofloxacin', 'Norfloxacin', 'Moxifloxacin'],
+};
+
+export const DRUG_INTERACTIONS: DrugInteraction[] = [
+    {
+        id: 'DDI-NITRATE-PDE5',
+        between: ['Nitrates', 'PDE5 inhibitors'],
+        severity: 'contraindicated',
+        mechanism: 'Both raise cGMP in vascular smooth muscle; together they cause profound, refractory hypotension.',
+        management: 'Do not co-prescribe. No nitrate within 24 h of sildenafil or vardenafil, or 48 h of tadalafil; treat angina in these patients without nitrates.',
+    },
+    {
+        id: 'DDI-CLOPIDOGREL-PPI',
+        between: ['Clopidogrel', 'CYP2C19-inhibiting PPIs'],
+        severity: 'major',
+        mechanism: 'Omeprazole and esomeprazole inhibit CYP2C19, reducing conversion of clopidogrel to its active metabolite and its antiplatelet effect.',
+        management: 'Use pantoprazole when gastroprotection is needed with clopidogrel.',
+    },
+    {
+        id: 'DDI-VKA-NSAID',
+        between: ['Vitamin K antagonists', 'NSAIDs'],
+        severity: 'major',
+        mechanism: 'NSAIDs impair platelet function and injure the gastric mucosa, and some raise the INR; bleeding risk rises sharply.',
+        management: 'Avoid; use paracetamol for analgesia. If an NSAID is unavoidable, give the shortest course with a PPI and check the INR within 3-5 days.',
+    },
+    {
+        id: 'DDI-VKA-ANTIPLATELET',
+        between: ['Vitamin K antagonists', 'Antiplatelets'],
+        severity: 'major',
+        mechanism: 'Additive anticoagulant and antiplatelet effect increases major and GI bleeding.',
+        management: 'Combine only with a clear indication (e.g. recent stent) and a defined duration; add pantoprazole and monitor the INR closely.',
+    },
+    {
+        id: 'DDI-VKA-AZOLE-ANTIMICROBIAL',
+        between: ['Vitamin K antagonists', 'Fluconazole'],
+        severity: 'major',
+        mechanism: 'Fluconazole inhibits CYP2C9, the main route of warfarin and acenocoumarol clearance; the INR can double.',
+        management: 'Prefer a non-interacting alternative; otherwise reduce the anticoagulant dose and check the INR within 3-5 days.',
+    },
+    {
+        id: 'DDI-VKA-METRONIDAZOLE',
+        between: ['Vitamin K antagonists', 'Metronidazole'],
+        severity: 'major',
+        mechanism: 'Metronidazole inhibits CYP2C9 and markedly raises the INR.',
+        management: 'Avoid if possible; otherwise reduce the anticoagulant dose and check the INR within 3-5 days.',
+    },
+    {
+        id: 'DDI-VKA-COTRIMOXAZOLE',
+        between: ['Vitamin K antagonists', 'Cotrimoxazole'],
+        severity: 'major',
+        mechanism: 'Sulfamethoxazole inhibits CYP2C9 and displaces warfarin from albumin, raising the INR.',
+        management: 'Use another antibiotic where possible; otherwise check the INR within 3-5 days.',
+    },
+    {
+        id: 'DDI-VKA-RIFAMPICIN',
+        between: ['Vitamin K antagonists', 'Rifampicin'],
+        severity: 'major',
+        mechanism: 'Rifampicin induces CYP2C9 and CYP3A4; the anticoagulant effect falls within days and recovers weeks after stopping.',
+        management: 'Expect large dose increases; monitor the INR weekly during and for a month after rifampicin.',
+    },
+    {
+        id: 'DDI-MACROLIDE-QT',
+        between: ['Macrolides', 'QT-prolonging drugs'],
+        severity: 'major',
+        mechanism: 'Additive QT prolongation with a risk of torsades de pointes; clarithromycin and erythromycin also inhibit CYP3A4.',
+        management: 'Avoid in patients with QT risk factors (known long QT, low K or Mg, bradycardia, heart disease). Otherwise take a baseline ECG, correct electrolytes, or choose an antibiotic without QT effect (e.g. amoxicillin, doxycycline).',
+    },
+    {
+        id: 'DDI-MACROLIDE-SIMVASTATIN',
+        between: ['CYP3A4-inhibiting macrolides', 'Simvastatin'],
+        severity: 'contraindicated',
+        mechanism: 'CYP3A4 inhibition raises simvastatin levels many-fold, with a risk of myopathy and rhabdomyolysis.',
+        management: 'Hold simvastatin for the course of the antibiotic, or use azithromycin.',
+    },
+    {
+        id: 'DDI-MACROLIDE-ATORVASTATIN',
+        between: ['CYP3A4-inhibiting macrolides', 'Atorvastatin'],
+        severity: 'moderate',
+        mechanism: 'CYP3A4 inhibition raises atorvastatin levels and the risk of myopathy.',
+        management: 'Limit atorvastatin to 20 mg daily during the course, or hold it; advise the patient to report muscle pain.',
+    },
+    {
+        id: 'DDI-DIGOXIN-LEVEL',
+        between: ['Digoxin', 'Amiodarone'],
+        severity: 'major',
+        mechanism: 'Amiodarone inhibits P-glycoprotein and renal clearance of digoxin; digoxin levels roughly double.',
+        management: 'Halve the digoxin dose when starting amiodarone and check the level and heart rate within a week.',
+    },
+    {
+        id: 'DDI-DIGOXIN-NONDHP',
+        between: ['Digoxin', 'Non-DHP calcium channel blockers'],
+        severity: 'major',
+        mechanism: 'Verapamil and diltiazem raise digoxin levels and add AV-nodal slowing.',
+        management: 'Reduce the digoxin dose, check the level, and watch for bradycardia and heart block.',
+    },
+    {
+        id: 'DDI-BETABLOCKER-NONDHP',
+        between: ['Beta blockers', 'Non-DHP calcium channel blockers'],
+        severity: 'major',
+        mechanism: 'Additive negative chronotropic and inotropic effects: bradycardia, AV block and heart failure.',
+        management: 'Avoid the combination, particularly with IV verapamil or reduced LV function; use a dihydropyridine (e.g. amlodipine) if a calcium channel blocker is needed.',
+    },
+    {
+        id: 'DDI-ACEI-K-SPARING',
+        between: ['ACE inhibitors', 'Potassium-sparing diuretics'],
+        severity: 'major',
+        mechanism: 'Both reduce renal potassium excretion; hyperkalaemia, especially with CKD, diabetes or in the elderly.',
+        management: 'Check potassium and creatinine before and within 1 week of starting; avoid if potassium is above 5.0 mmol/L or eGFR is below 30.',
+    },
+    {
+        id: 'DDI-ARB-K-SPARING',
+        between: ['ARBs', 'Potassium-sparing diuretics'],
+        severity: 'major',
+        mechanism: 'Both reduce renal potassium excretion; hyperkalaemia, especially with CKD, diabetes or in the elderly.',
+        management: 'Check potassium and creatinine before and within 1 week of starting; avoid if potassium is above 5.0 mmol/L or eGFR is below 30.',
+    },
+    {
+        id: 'DDI-LITHIUM-NSAID',
+        between: ['Lithium', 'NSAIDs'],
+        severity: 'major',
+        mechanism: 'NSAIDs reduce renal lithium clearance; levels rise by up to 60%.',
+        management: 'Avoid; use paracetamol. If needed, check the lithium level within 5 days of starting or changing the NSAID.',
+    },
+    {
+        id: 'DDI-LITHIUM-ACEI',
+        between: ['Lithium', 'ACE inhibitors'],
+        severity: 'major',
+        mechanism: 'ACE inhibitors reduce renal lithium clearance and can cause lithium toxicity.',
+        management: 'Avoid if possible; otherwise check the lithium level within 1 week and after each dose change.',
+    },
+    {
+        id: 'DDI-METHOTREXATE-TRIMETHOPRIM',
+        between: ['Methotrexate', 'Cotrimoxazole'],
+        severity: 'contraindicated',
+        mechanism: 'Additive antifolate effect and reduced methotrexate clearance: pancytopenia, which can be fatal.',
+        management: 'Do not combine; choose another antibiotic.',
+    },
+    {
+        id: 'DDI-TRAMADOL-SSRI',
+        between: ['Tramadol', 'SSRIs'],
+        severity: 'major',
+        mechanism: 'Additive serotonergic effect (serotonin syndrome) and a lowered seizure threshold; fluoxetine and paroxetine also block tramadol activation.',
+        management: 'Prefer another analgesic; if combined, use the lowest tramadol dose and warn about agitation, tremor and fever.',
+    },
+    {
+        id: 'DDI-LINEZOLID-SSRI',
+        between: ['Linezolid', 'SSRIs'],
+        severity: 'major',
+        mechanism: 'Linezolid is a reversible MAO inhibitor; with SSRIs it can cause serotonin syndrome.',
+        management: 'Avoid; if linezolid is essential, stop the SSRI where possible and monitor closely for serotonin toxicity.',
+    },
+    {
+        id: 'DDI-THEOPHYLLINE-FQ',
+        between: ['Theophylline', 'Ciprofloxacin'],
+        severity: 'major',
+        mechanism: 'Ciprofloxacin inhibits CYP1A2 and raises theophylline levels: nausea, arrhythmias and seizures.',
+        management: 'Use another antibiotic (e.g. levofloxacin) or reduce the theophylline dose and check the level.',
+    },
+    {
+        id: 'DDI-AZATHIOPRINE-ALLOPURINOL',
+        between: ['Azathioprine', 'Allopurinol'],
+        severity: 'major',
+        mechanism: 'Allopurinol blocks xanthine oxidase, the main route of azathioprine breakdown: severe myelosuppression.',
+        management: 'Avoid; if essential, reduce azathioprine to a quarter of the dose and monitor the blood count weekly.',
+    },
+    {
+        id: 'DDI-SULFONYLUREA-FLUCONAZOLE',
+        between: ['Sulfonylureas', 'Fluconazole'],
+        severity: 'moderate',
+        mechanism: 'Fluconazole inhibits CYP2C9 and raises sulfonylurea levels: hypoglycaemia.',
+        management: 'Warn about hypoglycaemia and increase glucose monitoring during the course.',
+    },
+    {
+        id: 'DDI-ASPIRIN-IBUPROFEN',
+        between: ['Aspirin', 'Ibuprofen'],
+        severity: 'moderate',
+        mechanism: 'Ibuprofen blocks aspirin\'s access to platelet COX-1, reducing its cardioprotective effect, and adds GI bleeding risk.',
+        management: 'Prefer paracetamol; otherwise give aspirin at least 30 minutes before ibuprofen, or ibuprofen at least 8 hours before aspirin.',
+    },
+];
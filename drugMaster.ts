@@ -0,0 +1,417 @@
+import { DrugMasterEntry } from './types';
+
+// Drug master: one record per generic available to the scribe and the prescription checks.
+// Brands are Indian trade names and resolve to the generic wherever drugs are detected in
+// text (services/prescriberScope.ts). Doses are usual ranges for reference and validation,
+// not substitutes for the prescribing information; renal/hepatic flags mark drugs whose dose
+// is reduced or which are avoided in impairment. Schedules follow the Drugs and Cosmetics
+// Rules and the NDPS Act, each drug under its strictest schedule. Example configuration:
+// confirm against the current notifications before deployment.
+// Run `npm run validate:drugs` after editing to check for duplicates and unknown names.
+
+export const DRUG_MASTER: DrugMasterEntry[] = [
+  { generic: 'Abacavir', brands: ['Abamune', 'Ziagen'], strengths: ['300mg', '60mg'], forms: ['Tablet'], route: 'Oral', adultDose: '300mg BD or 600mg OD', paediatricDose: '8mg/kg BD (max 300mg BD)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Acarbose', brands: ['Glucobay', 'Rebose'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25-100mg TDS with the first bite of meals', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Aceclofenac', brands: ['Zerodol', 'Hifenac', 'Aceclo'], strengths: ['100mg', '200mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '100mg BD or 200mg SR OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Acenocoumarol', brands: ['Acitrom'], strengths: ['1mg', '2mg', '4mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1-8mg OD, titrated to INR', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Acetazolamide', brands: ['Diamox'], strengths: ['250mg'], forms: ['Tablet'], route: 'Oral', adultDose: '250mg BD-QID', paediatricDose: '8-30mg/kg/day in divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Acyclovir', synonyms: ['Aciclovir'], brands: ['Zovirax', 'Acivir', 'Herpex'], strengths: ['200mg', '400mg', '800mg', '250mg/vial', '5% cream'], forms: ['Tablet', 'Injection', 'Cream'], route: 'Oral', adultDose: 'Zoster: 800mg 5 times daily; HSV: 400mg TDS', paediatricDose: '20mg/kg QID (max 800mg/dose)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Adrenaline', synonyms: ['Epinephrine'], brands: ['Adrenalin'], strengths: ['1mg/ml'], forms: ['Injection'], route: 'IM', adultDose: 'Anaphylaxis: 0.5mg IM (1mg/ml), repeat every 5 min as needed', paediatricDose: 'Anaphylaxis: 0.01mg/kg IM (max 0.5mg)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Albendazole', brands: ['Zentel', 'Bandy'], strengths: ['400mg', '200mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '400mg single dose', paediatricDose: '1-2 years: 200mg; over 2 years: 400mg single dose', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Alfacalcidol', brands: ['Alfacip', 'One-Alpha'], strengths: ['0.25mcg', '0.5mcg', '1mcg'], forms: ['Capsule'], route: 'Oral', adultDose: '0.25-1mcg OD', paediatricDose: '0.01-0.05mcg/kg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Alfuzosin', brands: ['Alfoo', 'Alfusin'], strengths: ['10mg ER'], forms: ['Tablet'], route: 'Oral', adultDose: '10mg OD after dinner', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Allopurinol', brands: ['Zyloric', 'Zyloprim'], strengths: ['100mg', '300mg'], forms: ['Tablet'], route: 'Oral', adultDose: '100-300mg OD, titrated to urate (max 900mg/day)', paediatricDose: 'Tumour lysis: 10mg/kg/day', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Alogliptin', brands: ['Inisync', 'Nesina'], strengths: ['12.5mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25mg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Alprazolam', brands: ['Alprax', 'Restyl', 'Trika'], strengths: ['0.25mg', '0.5mg', '1mg'], forms: ['Tablet'], route: 'Oral', adultDose: '0.25-0.5mg TDS (max 4mg/day)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Alteplase', brands: ['Actilyse'], strengths: ['20mg/vial', '50mg/vial'], forms: ['Injection'], route: 'IV', adultDose: 'Stroke: 0.9mg/kg (max 90mg), 10% bolus then infusion over 60 min', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Amikacin', brands: ['Amicin', 'Mikacin'], strengths: ['100mg/2ml', '250mg/2ml', '500mg/2ml'], forms: ['Injection'], route: 'IV', adultDose: '15mg/kg OD', paediatricDose: '15-20mg/kg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Amiloride', brands: ['Biduret', 'Midamor'], strengths: ['5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5-10mg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Amiodarone', brands: ['Cordarone', 'Tachyra', 'Eurythmic'], strengths: ['100mg', '200mg', '150mg/3ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '200mg TDS for 1 week, BD for 1 week, then 100-200mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Amisulpride', brands: ['Amipride', 'Sulpitac'], strengths: ['50mg', '100mg', '200mg'], forms: ['Tablet'], route: 'Oral', adultDose: '50-300mg OD (negative symptoms); 400-800mg/day in divided doses (acute psychosis)', renalAdjustment: true, hepaticAdjustment: false, schedule: 'H' },
+  { generic: 'Amitriptyline', brands: ['Tryptomer'], strengths: ['10mg', '25mg', '50mg', '75mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Neuropathic pain: 10-75mg HS; depression: 75-150mg/day', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Amlodipine', brands: ['Amlong', 'Stamlo', 'Amlopres'], strengths: ['2.5mg', '5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-10mg OD', paediatricDose: '0.1-0.2mg/kg OD (max 10mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Amoxicillin', synonyms: ['Amoxycillin'], brands: ['Novamox', 'Mox', 'Amoxil'], strengths: ['250mg', '500mg', '125mg/5ml', '250mg/5ml'], forms: ['Capsule', 'Suspension', 'Drops'], route: 'Oral', adultDose: '500mg TDS or 1g TDS (pneumonia)', paediatricDose: '25-50mg/kg/day in 3 divided doses (90mg/kg/day for otitis media)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Amoxicillin-Clavulanate', synonyms: ['Co-amoxiclav', 'Amoxicillin-Clavulanic Acid'], brands: ['Augmentin', 'Moxclav', 'Clavam'], strengths: ['375mg', '625mg', '1g', '228.5mg/5ml', '1.2g/vial'], forms: ['Tablet', 'Suspension', 'Injection'], route: 'Oral', adultDose: '625mg TDS or 1g BD', paediatricDose: '25-45mg/kg/day (amoxicillin) in 2-3 divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Amphotericin B', brands: ['Fungizone', 'Amphonex', 'Fungisome'], strengths: ['50mg/vial'], forms: ['Injection'], route: 'IV', adultDose: 'Conventional: 0.5-1mg/kg/day; liposomal: 3-5mg/kg/day', paediatricDose: 'As adult, per kg', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Ampicillin', brands: ['Roscillin', 'Ampilin'], strengths: ['250mg', '500mg', '500mg/vial'], forms: ['Capsule', 'Injection'], route: 'IV', adultDose: '500mg-2g q6h', paediatricDose: '100-200mg/kg/day in 4 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Anastrozole', brands: ['Armotraz', 'Arimidex'], strengths: ['1mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Anidulafungin', brands: ['Eraxis'], strengths: ['100mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '200mg loading, then 100mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Apixaban', brands: ['Eliquis'], strengths: ['2.5mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'AF: 5mg BD (2.5mg BD if 2 of age 80+, weight 60kg or less, creatinine 1.5+); VTE: 10mg BD for 7 days then 5mg BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Aripiprazole', brands: ['Arip MT', 'Abilify'], strengths: ['5mg', '10mg', '15mg', '30mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10-15mg OD (max 30mg)', paediatricDose: '13 years and over: 2-10mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Artemether', brands: ['Larither', 'Paluther'], strengths: ['80mg/ml'], forms: ['Injection'], route: 'IM', adultDose: '3.2mg/kg IM on day 1, then 1.6mg/kg OD', paediatricDose: 'As adult, per kg', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Artemether-Lumefantrine', synonyms: ['Lumefantrine'], brands: ['Lumerax', 'Coartem', 'Falcynate-LF'], strengths: ['20/120mg', '80/480mg'], forms: ['Tablet'], route: 'Oral', adultDose: '80/480mg at 0, 8, 24, 36, 48 and 60 h', paediatricDose: 'Weight-banded: 5-14kg 1 tablet (20/120mg) per dose, 15-24kg 2, 25-34kg 3', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Artesunate', brands: ['Falcigo', 'Larinate'], strengths: ['60mg/vial', '50mg'], forms: ['Injection', 'Tablet'], route: 'IV', adultDose: 'Severe malaria: 2.4mg/kg IV at 0, 12 and 24 h, then OD', paediatricDose: 'Under 20kg: 3mg/kg per dose', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Aspirin', synonyms: ['Acetylsalicylic Acid'], brands: ['Ecosprin', 'Disprin', 'Loprin'], strengths: ['75mg', '150mg', '325mg', '350mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Antiplatelet: 75-150mg OD; ACS loading: 300-325mg chewed', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Atazanavir', brands: ['Atazor'], strengths: ['300mg'], forms: ['Capsule'], route: 'Oral', adultDose: '300mg OD with ritonavir 100mg', paediatricDose: '6 years and over: weight-banded with ritonavir', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Atenolol', brands: ['Aten', 'Tenormin', 'Betacard'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25-100mg OD', paediatricDose: '0.5-1mg/kg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Atorvastatin', brands: ['Atorva', 'Storvas', 'Lipitor'], strengths: ['10mg', '20mg', '40mg', '80mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10-80mg OD', paediatricDose: '10 years and over (familial hypercholesterolaemia): 10-20mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Atovaquone', brands: ['Mepron'], strengths: ['750mg/5ml'], forms: ['Suspension'], route: 'Oral', adultDose: 'PCP treatment: 750mg BD with food for 21 days', paediatricDose: '30-45mg/kg/day', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Azathioprine', brands: ['Azoran', 'Imuran'], strengths: ['25mg', '50mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1-2.5mg/kg/day (check TPMT)', paediatricDose: '1-3mg/kg/day', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Azithromycin', brands: ['Azithral', 'Azee', 'Zithrox'], strengths: ['250mg', '500mg', '200mg/5ml', '500mg/vial'], forms: ['Tablet', 'Suspension', 'Injection'], route: 'Oral', adultDose: '500mg OD for 3 days', paediatricDose: '10mg/kg OD for 3 days', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Beclomethasone', brands: ['Beclate'], strengths: ['100mcg', '200mcg', '250mcg'], forms: ['Inhaler', 'Cream'], route: 'Inhalation', adultDose: '200-800mcg/day in 2 divided doses', paediatricDose: '100-400mcg/day in 2 divided doses', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Bedaquiline', brands: ['Sirturo'], strengths: ['100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '400mg OD for 2 weeks, then 200mg three times weekly for 22 weeks (programme regimen)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Benzathine Penicillin', synonyms: ['Benzathine Benzylpenicillin'], brands: ['Pencom', 'Penidure LA'], strengths: ['6 lakh IU', '12 lakh IU', '24 lakh IU'], forms: ['Injection'], route: 'IM', adultDose: 'Rheumatic fever prophylaxis: 12 lakh IU every 3-4 weeks; syphilis: 24 lakh IU single dose', paediatricDose: 'Under 30kg: 6 lakh IU; 30kg and over: 12 lakh IU every 3-4 weeks', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Betamethasone', brands: ['Betnesol', 'Betnovate', 'Celestone'], strengths: ['0.5mg', '4mg/ml', '0.1% cream'], forms: ['Tablet', 'Injection', 'Cream'], route: 'Oral', adultDose: '0.5-5mg/day; antenatal: 12mg IM, 2 doses 24 h apart', paediatricDose: '0.02-0.3mg/kg/day', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Bethanechol', brands: ['Urotone', 'Uro-Carb'], strengths: ['25mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10-50mg TDS-QID on an empty stomach', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Bisacodyl', brands: ['Dulcolax'], strengths: ['5mg', '10mg suppository'], forms: ['Tablet', 'Suppository'], route: 'Oral', adultDose: '5-10mg HS', paediatricDose: '4-10 years: 5mg HS', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Bismuth Subsalicylate', brands: ['Pepto-Bismol'], strengths: ['262mg', '262mg/15ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '524mg every 30-60 min as needed (max 8 doses/day)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Bisoprolol', brands: ['Concor', 'Corbis'], strengths: ['2.5mg', '5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Hypertension: 5-10mg OD; heart failure: 1.25mg OD titrated to 10mg', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Budesonide', brands: ['Budecort', 'Pulmicort'], strengths: ['100mcg', '200mcg', '0.5mg/2ml', '1mg/2ml', '3mg'], forms: ['Inhaler', 'Respules', 'Capsule'], route: 'Inhalation', adultDose: '200-800mcg BD inhaled; nebulised 0.5-1mg BD', paediatricDose: 'Nebulised 0.25-0.5mg BD; croup: 2mg nebulised once', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Bumetanide', brands: ['Bumet', 'Burinex'], strengths: ['1mg'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '0.5-2mg OD-BD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Buprenorphine', brands: ['Norphin', 'Addnok', 'Tidigesic'], strengths: ['0.2mg SL', '2mg SL', '0.3mg/ml'], forms: ['Tablet', 'Injection', 'Patch'], route: 'Sublingual', adultDose: 'Pain: 0.2-0.4mg SL q6-8h; opioid substitution: per programme protocol', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'NDPS' },
+  { generic: 'Bupropion', brands: ['Bupron SR'], strengths: ['150mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: 'Smoking cessation: 150mg OD for 3 days, then 150mg BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Calcium Carbonate', brands: ['Shelcal', 'Calcimax', 'Cipcal'], strengths: ['500mg elemental', '1250mg'], forms: ['Tablet'], route: 'Oral', adultDose: '500-1000mg elemental calcium/day in divided doses', paediatricDose: '250-500mg elemental calcium/day', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Calcium Citrate', brands: ['Calcium Sandoz', 'Citrocal'], strengths: ['250mg elemental', '500mg elemental'], forms: ['Tablet'], route: 'Oral', adultDose: '500-1000mg elemental calcium/day in divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Canagliflozin', brands: ['Invokana'], strengths: ['100mg', '300mg'], forms: ['Tablet'], route: 'Oral', adultDose: '100-300mg OD before breakfast', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Candesartan', brands: ['Candesar'], strengths: ['4mg', '8mg', '16mg', '32mg'], forms: ['Tablet'], route: 'Oral', adultDose: '8-32mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Captopril', brands: ['Aceten'], strengths: ['12.5mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: '12.5-50mg BD-TDS', paediatricDose: '0.3-0.5mg/kg/dose TDS (max 6mg/kg/day)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Carbamazepine', brands: ['Tegretol', 'Mazetol', 'Zeptol'], strengths: ['100mg', '200mg', '400mg CR', '100mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '200mg BD, titrated to 800-1200mg/day', paediatricDose: '10-20mg/kg/day in 2-3 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Carvedilol', brands: ['Carca', 'Cardivas', 'Carloc'], strengths: ['3.125mg', '6.25mg', '12.5mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Heart failure: 3.125mg BD titrated to 25mg BD; hypertension: 12.5-25mg BD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Caspofungin', brands: ['Cancidas'], strengths: ['50mg/vial', '70mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '70mg loading, then 50mg OD', paediatricDose: '70mg/m2 loading, then 50mg/m2 OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Cefadroxil', brands: ['Droxyl', 'Odoxil'], strengths: ['250mg', '500mg', '125mg/5ml'], forms: ['Tablet', 'Capsule', 'Suspension'], route: 'Oral', adultDose: '500mg-1g BD', paediatricDose: '30mg/kg/day in 2 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Cefalexin', synonyms: ['Cephalexin'], brands: ['Sporidex', 'Phexin', 'Cephadex'], strengths: ['250mg', '500mg', '125mg/5ml'], forms: ['Capsule', 'Suspension'], route: 'Oral', adultDose: '250-500mg QID', paediatricDose: '25-50mg/kg/day in 4 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Cefepime', brands: ['Maxipime'], strengths: ['500mg/vial', '1g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1-2g q8-12h', paediatricDose: '50mg/kg q8-12h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Cefixime', brands: ['Taxim-O', 'Zifi', 'Cefspan'], strengths: ['100mg', '200mg', '50mg/5ml', '100mg/5ml'], forms: ['Tablet', 'Suspension', 'Drops'], route: 'Oral', adultDose: '200mg BD or 400mg OD', paediatricDose: '8mg/kg/day in 1-2 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Cefoperazone', brands: ['Magnamycin'], strengths: ['1g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1-2g q12h', paediatricDose: '50-200mg/kg/day in 2-3 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Cefoperazone-Sulbactam', synonyms: ['Sulbactam'], brands: ['Magnex'], strengths: ['1.5g/vial', '3g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1.5-3g q12h (max sulbactam 4g/day)', paediatricDose: '40-80mg/kg/day in 2-4 divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Cefotaxime', brands: ['Taxim', 'Omnatax'], strengths: ['250mg/vial', '500mg/vial', '1g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1-2g q8h', paediatricDose: '50mg/kg q6-8h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Cefpodoxime', brands: ['Cepodem', 'Doxcef'], strengths: ['100mg', '200mg', '50mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '100-200mg BD', paediatricDose: '10mg/kg/day in 2 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Ceftazidime', brands: ['Fortum'], strengths: ['1g/vial', '2g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1-2g q8h', paediatricDose: '30-50mg/kg q8h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Ceftriaxone', brands: ['Monocef', 'Intacef', 'Oframax'], strengths: ['250mg/vial', '500mg/vial', '1g/vial', '2g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1-2g OD (meningitis: 2g BD)', paediatricDose: '50-80mg/kg OD (meningitis: 100mg/kg/day)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Cefuroxime', brands: ['Ceftum', 'Supacef', 'Zinacef'], strengths: ['250mg', '500mg', '125mg/5ml', '750mg/vial', '1.5g/vial'], forms: ['Tablet', 'Suspension', 'Injection'], route: 'Oral', adultDose: '250-500mg BD orally; 750mg-1.5g q8h IV', paediatricDose: '15mg/kg BD orally', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Celecoxib', brands: ['Celebrex'], strengths: ['100mg', '200mg'], forms: ['Capsule'], route: 'Oral', adultDose: '100-200mg BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Cetirizine', brands: ['Cetzine', 'Alerid', 'Okacet'], strengths: ['10mg', '5mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '10mg OD', paediatricDose: '2-5 years: 2.5mg BD; 6-11 years: 5mg BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'OTC' },
+
+  { generic: 'Chlordiazepoxide', brands: ['Librium', 'Anxizide'], strengths: ['10mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Anxiety: 10-25mg TDS; alcohol withdrawal: 25-100mg q6h, tapered', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Chloramphenicol', brands: ['Chloromycetin', 'Paraxin'], strengths: ['250mg', '500mg', '1g/vial', '0.5% eye drops'], forms: ['Capsule', 'Injection', 'Drops'], route: 'Oral', adultDose: '50mg/kg/day in 4 divided doses', paediatricDose: '50-75mg/kg/day in 4 divided doses (avoid in neonates)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Chlorpheniramine', synonyms: ['Chlorphenamine'], brands: ['Piriton', 'Cadistin'], strengths: ['4mg', '2mg/5ml', '10mg/ml'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '4mg q4-6h (max 24mg/day)', paediatricDose: '2-5 years: 1mg q4-6h; 6-11 years: 2mg q4-6h', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'OTC' },
+  { generic: 'Chlorpromazine', brands: ['Largactil'], strengths: ['25mg', '50mg', '100mg', '25mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '25-100mg TDS (max 1g/day)', paediatricDose: '0.5mg/kg q4-6h', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Chloroquine', brands: ['Lariago', 'Resochin'], strengths: ['250mg (155mg base)', '500mg', '50mg base/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: 'Vivax malaria: 10mg base/kg on days 1-2, 5mg base/kg on day 3 (total 25mg base/kg)', paediatricDose: 'As adult, per kg', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Chlorthalidone', synonyms: ['Chlortalidone'], brands: ['CTD', 'Hygroton'], strengths: ['6.25mg', '12.5mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: '12.5-25mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Cilostazol', brands: ['Pletoz'], strengths: ['50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '100mg BD, 30 min before or 2 h after food', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Cimetidine', brands: ['Tagamet'], strengths: ['200mg', '400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '400mg BD or 800mg HS', paediatricDose: '20-40mg/kg/day in divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Cinitapride', brands: ['Cintapro'], strengths: ['1mg', '3mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '1mg TDS 15 min before meals or 3mg SR OD', renalAdjustment: true, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Ciprofloxacin', brands: ['Ciplox', 'Cifran', 'Ciprobid'], strengths: ['250mg', '500mg', '750mg', '200mg/100ml', '0.3% eye drops'], forms: ['Tablet', 'Injection', 'Drops'], route: 'Oral', adultDose: '250-750mg BD', paediatricDose: '10-20mg/kg BD (max 750mg/dose) where no alternative', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Citalopram', brands: ['Celica'], strengths: ['10mg', '20mg', '40mg'], forms: ['Tablet'], route: 'Oral', adultDose: '20mg OD (max 40mg; 20mg over 60 years)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Clarithromycin', brands: ['Claribid', 'Clarbact', 'Crixan'], strengths: ['250mg', '500mg', '125mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '250-500mg BD', paediatricDose: '7.5mg/kg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Clindamycin', brands: ['Dalacin C'], strengths: ['150mg', '300mg', '300mg/2ml', '1% gel'], forms: ['Capsule', 'Injection', 'Gel'], route: 'Oral', adultDose: '150-450mg q6-8h orally; 600-900mg q8h IV', paediatricDose: '10-25mg/kg/day in 3-4 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Clobetasol Propionate', synonyms: ['Clobetasol'], brands: ['Tenovate', 'Lobate', 'Dermovate', 'Clovat'], strengths: ['0.05% cream', '0.05% ointment', '0.05% lotion'], forms: ['Cream', 'Ointment', 'Lotion'], route: 'Topical', adultDose: 'Thin layer OD-BD for up to 2 weeks (max 50g/week)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Clomipramine', brands: ['Clonil', 'Anafranil'], strengths: ['10mg', '25mg', '50mg', '75mg SR'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '25mg OD titrated to 100-250mg/day', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Clomiphene Citrate', synonyms: ['Clomifene'], brands: ['Fertomid', 'Siphene', 'Ovofar'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '50-100mg OD on days 2-6 of the cycle', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Clonazepam', brands: ['Clonotril', 'Rivotril', 'Petril'], strengths: ['0.25mg', '0.5mg', '1mg', '2mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Panic: 0.25-0.5mg BD (max 4mg/day); seizures: 0.5mg TDS titrated (max 20mg/day)', paediatricDose: '0.01-0.03mg/kg/day in 2-3 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Clopidogrel', brands: ['Clopilet', 'Deplatt', 'Plavix'], strengths: ['75mg', '150mg'], forms: ['Tablet'], route: 'Oral', adultDose: '75mg OD; loading 300-600mg', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Clozapine', brands: ['Sizopin', 'Lozapin', 'Clozaril'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '12.5mg OD-BD titrated to 200-450mg/day (max 900mg); weekly blood counts', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Cloxacillin', brands: ['Klox'], strengths: ['250mg', '500mg', '500mg/vial'], forms: ['Capsule', 'Injection'], route: 'Oral', adultDose: '500mg QID on an empty stomach', paediatricDose: '50-100mg/kg/day in 4 divided doses', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Codeine', synonyms: ['Codeine Phosphate'], brands: [], strengths: ['15mg', '30mg', '10mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '15-60mg q4-6h (max 240mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'NDPS' },
+  { generic: 'Colistin', synonyms: ['Colistimethate'], brands: ['Xylistin', 'Walamycin'], strengths: ['10 lakh IU/vial', '20 lakh IU/vial', '45 lakh IU/vial'], forms: ['Injection'], route: 'IV', adultDose: '90 lakh IU loading, then 45 lakh IU q12h', paediatricDose: '75,000-150,000 IU/kg/day in 3 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Cotrimoxazole', synonyms: ['Co-trimoxazole', 'Sulfamethoxazole-Trimethoprim', 'Sulfamethoxazole', 'Trimethoprim-Sulfamethoxazole'], brands: ['Septran', 'Bactrim', 'Ciplin'], strengths: ['480mg', '960mg DS', '240mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '960mg BD; PCP prophylaxis: 960mg OD', paediatricDose: '4mg/kg (trimethoprim) BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Cyclosporine', synonyms: ['Ciclosporin'], brands: ['Sandimmun Neoral', 'Panimun Bioral', 'Imusporin'], strengths: ['25mg', '50mg', '100mg', '100mg/ml'], forms: ['Capsule', 'Syrup'], route: 'Oral', adultDose: '2.5-5mg/kg/day in 2 divided doses, by trough level', paediatricDose: 'As adult, per kg', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Cyproheptadine', brands: ['Practin', 'Ciplactin'], strengths: ['4mg', '2mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '4mg TDS (max 32mg/day)', paediatricDose: '2-6 years: 2mg BD-TDS; 7-14 years: 4mg BD-TDS', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Dabigatran', brands: ['Pradaxa'], strengths: ['75mg', '110mg', '150mg'], forms: ['Capsule'], route: 'Oral', adultDose: 'AF: 150mg BD (110mg BD if 80 years or older or bleeding risk)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Daclatasvir', brands: ['Natdac'], strengths: ['30mg', '60mg'], forms: ['Tablet'], route: 'Oral', adultDose: '60mg OD with sofosbuvir for 12 weeks', renalAdjustment: false, hepaticAdjustment: false, schedule: 'H' },
+  { generic: 'Dapagliflozin', brands: ['Forxiga', 'Oxra'], strengths: ['5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Dapoxetine', brands: ['Duratia', 'Sustinex'], strengths: ['30mg', '60mg'], forms: ['Tablet'], route: 'Oral', adultDose: '30-60mg 1-3 h before intercourse (max once daily)', renalAdjustment: true, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Daptomycin', brands: ['Cubicin'], strengths: ['350mg/vial', '500mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '4-6mg/kg OD (8-10mg/kg for bacteraemia)', paediatricDose: '5-12mg/kg OD by age', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Darunavir', brands: ['Prezista'], strengths: ['600mg', '800mg'], forms: ['Tablet'], route: 'Oral', adultDose: '800mg OD with ritonavir 100mg (or 600mg BD with ritonavir 100mg BD)', paediatricDose: '3 years and over: weight-banded with ritonavir', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Deflazacort', brands: ['Defcort', 'Defza', 'Calcort'], strengths: ['6mg', '12mg', '24mg', '30mg'], forms: ['Tablet'], route: 'Oral', adultDose: '6-90mg/day (6mg deflazacort is equivalent to 5mg prednisolone)', paediatricDose: '0.25-1.5mg/kg/day', renalAdjustment: false, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Delamanid', brands: ['Deltyba'], strengths: ['50mg'], forms: ['Tablet'], route: 'Oral', adultDose: '100mg BD for 24 weeks (programme regimen)', paediatricDose: 'Weight-banded per programme regimen', renalAdjustment: false, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Desloratadine', brands: ['Dazit'], strengths: ['5mg', '2.5mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '5mg OD', paediatricDose: '1-5 years: 1.25mg OD; 6-11 years: 2.5mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Desmopressin', brands: ['Minirin', 'D-Void'], strengths: ['0.1mg', '0.2mg', '10mcg/spray', '4mcg/ml'], forms: ['Tablet', 'Nasal Spray', 'Injection'], route: 'Oral', adultDose: 'Diabetes insipidus: 0.1-0.2mg TDS; nocturia: 0.1mg HS', paediatricDose: 'Enuresis (5 years and over): 0.2-0.4mg HS', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Desvenlafaxine', brands: ['Pristiq'], strengths: ['50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '50mg OD (max 100mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Dexamethasone', brands: ['Decdan', 'Dexona', 'Decadron'], strengths: ['0.5mg', '4mg', '8mg/2ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '0.5-10mg/day; cerebral oedema: 10mg IV then 4mg q6h', paediatricDose: 'Croup: 0.15-0.6mg/kg single dose', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Dexlansoprazole', brands: ['Dexilant'], strengths: ['30mg', '60mg'], forms: ['Capsule'], route: 'Oral', adultDose: '30-60mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Diazepam', brands: ['Valium', 'Calmpose'], strengths: ['2mg', '5mg', '10mg', '10mg/2ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '2-10mg BD-QID; status epilepticus: 10mg IV', paediatricDose: 'Seizures: 0.3mg/kg IV or 0.5mg/kg rectal (max 10mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Diclofenac', brands: ['Voveran', 'Voltaren', 'Dynapar'], strengths: ['50mg', '75mg SR', '100mg SR', '75mg/ml', '1% gel'], forms: ['Tablet', 'Injection', 'Gel', 'Suppository'], route: 'Oral', adultDose: '50mg BD-TDS or 75-100mg SR OD (max 150mg/day)', paediatricDose: '1mg/kg BD-TDS (max 150mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Dicloxacillin', brands: ['Dynapen'], strengths: ['250mg', '500mg'], forms: ['Capsule'], route: 'Oral', adultDose: '250-500mg QID on an empty stomach', paediatricDose: '12.5-25mg/kg/day in 4 divided doses', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Dicycloverine', synonyms: ['Dicyclomine'], brands: ['Cyclopam', 'Colimex', 'Meftal-Spas'], strengths: ['10mg', '20mg', '10mg/5ml', '10mg/ml drops'], forms: ['Tablet', 'Syrup', 'Drops', 'Injection'], route: 'Oral', adultDose: '10-20mg TDS-QID', paediatricDose: '6 months-2 years: 5-10mg TDS-QID; over 2 years: 10mg TDS', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Diethylcarbamazine', brands: ['Hetrazan', 'Banocide'], strengths: ['50mg', '100mg', '120mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: 'Filariasis: 6mg/kg/day for 12 days; mass drug administration: 6mg/kg single dose', paediatricDose: 'As adult, per kg', renalAdjustment: true, hepaticAdjustment: false, schedule: 'H' },
+  { generic: 'Digoxin', brands: ['Lanoxin'], strengths: ['0.25mg', '0.0625mg/ml', '0.25mg/ml'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '0.0625-0.25mg OD, by level and heart rate', paediatricDose: 'Maintenance 5-10mcg/kg/day by age', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Diltiazem', brands: ['Dilzem', 'Angizem'], strengths: ['30mg', '60mg', '90mg SR', '120mg SR', '25mg/5ml'], forms: ['Tablet', 'Capsule', 'Injection'], route: 'Oral', adultDose: '30-60mg TDS or 90-180mg SR BD (max 360mg/day)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Diphenhydramine', brands: ['Benadryl'], strengths: ['25mg', '50mg', '12.5mg/5ml'], forms: ['Capsule', 'Syrup'], route: 'Oral', adultDose: '25-50mg q6-8h (max 300mg/day)', paediatricDose: '6-11 years: 12.5-25mg q4-6h (avoid under 6 years)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'OTC' },
+  { generic: 'Docusate', synonyms: ['Docusate Sodium'], brands: ['Colace'], strengths: ['100mg', '12.5mg/5ml'], forms: ['Capsule', 'Syrup'], route: 'Oral', adultDose: '100-300mg/day in 1-3 divided doses', paediatricDose: '6-12 years: 40-150mg/day', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Dolutegravir', brands: ['Tivicay'], strengths: ['50mg', '10mg dispersible'], forms: ['Tablet'], route: 'Oral', adultDose: '50mg OD (50mg BD with rifampicin)', paediatricDose: 'Weight-banded per national ART guidelines', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Domperidone', brands: ['Domstal', 'Vomistop', 'Motilium'], strengths: ['10mg', '1mg/ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '10mg TDS before meals (max 30mg/day, up to 7 days)', paediatricDose: '0.25mg/kg TDS (max 0.75mg/kg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Doripenem', brands: ['Doribax'], strengths: ['500mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '500mg q8h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Doxycycline', brands: ['Doxy-1', 'Microdox', 'Doxt'], strengths: ['100mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '100mg BD (200mg on day 1 then 100mg OD for some indications)', paediatricDose: '8 years and over: 2.2mg/kg BD (max 100mg/dose); scrub typhus at any age', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Drospirenone', brands: ['Yasmin', 'Crisanta'], strengths: ['3mg (with ethinyl estradiol)'], forms: ['Tablet'], route: 'Oral', adultDose: '1 tablet OD for 21 days, then 7 days off (with ethinyl estradiol)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Duloxetine', brands: ['Duzela', 'Dulane', 'Cymbalta'], strengths: ['20mg', '30mg', '40mg', '60mg'], forms: ['Capsule'], route: 'Oral', adultDose: '30-60mg OD (max 120mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Dutasteride', brands: ['Dutas', 'Veltride', 'Avodart'], strengths: ['0.5mg'], forms: ['Capsule'], route: 'Oral', adultDose: '0.5mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Edoxaban', brands: ['Lixiana', 'Savaysa'], strengths: ['15mg', '30mg', '60mg'], forms: ['Tablet'], route: 'Oral', adultDose: '60mg OD (30mg if CrCl 15-50, weight 60kg or less, or P-gp inhibitors)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Efavirenz', brands: ['Efavir', 'Estiva'], strengths: ['200mg', '600mg'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '600mg HS on an empty stomach', paediatricDose: '3 years and over: weight-banded 200-600mg HS', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Empagliflozin', brands: ['Jardiance', 'Gibtulio'], strengths: ['10mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10-25mg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Emtricitabine', brands: ['Emtriva'], strengths: ['200mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '200mg OD', paediatricDose: '6mg/kg OD (max 240mg)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Enalapril', brands: ['Envas', 'Enam', 'Vasotec'], strengths: ['2.5mg', '5mg', '10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-20mg OD-BD (max 40mg/day)', paediatricDose: '0.08mg/kg OD (max 5mg) titrated', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Enoxaparin', brands: ['Clexane', 'Lupenox'], strengths: ['20mg/0.2ml', '40mg/0.4ml', '60mg/0.6ml', '80mg/0.8ml'], forms: ['Injection'], route: 'SC', adultDose: 'Prophylaxis: 40mg SC OD; treatment: 1mg/kg SC BD', paediatricDose: 'Treatment: 1mg/kg SC BD (1.5mg/kg under 2 months)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Eplerenone', brands: ['Eptus'], strengths: ['25mg', '50mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25mg OD titrated to 50mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Ertapenem', brands: ['Invanz'], strengths: ['1g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1g OD', paediatricDose: '3 months-12 years: 15mg/kg BD (max 1g/day)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Erythromycin', brands: ['Erythrocin', 'Althrocin', 'E-Mycin'], strengths: ['250mg', '500mg', '125mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '250-500mg QID', paediatricDose: '30-50mg/kg/day in 4 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Erythropoietin', synonyms: ['Epoetin Alfa', 'Epoetin'], brands: ['Eprex', 'Epofit', 'Wepox'], strengths: ['2000 IU', '4000 IU', '10000 IU'], forms: ['Injection'], route: 'SC', adultDose: 'CKD anaemia: 50-100 IU/kg SC three times weekly, titrated to Hb', paediatricDose: '50 IU/kg three times weekly, titrated', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Escitalopram', brands: ['Nexito', 'Cipralex', 'Stalopam'], strengths: ['5mg', '10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10mg OD (max 20mg; 10mg over 65 years)', paediatricDose: '12 years and over: 10mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Esomeprazole', brands: ['Nexpro', 'Esoz', 'Raciper'], strengths: ['20mg', '40mg', '40mg/vial'], forms: ['Tablet', 'Capsule', 'Injection'], route: 'Oral', adultDose: '20-40mg OD before breakfast', paediatricDose: '1-11 years: 10-20mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Estradiol', synonyms: ['Oestradiol', 'Estradiol Valerate'], brands: ['Progynova', 'Estrabet'], strengths: ['1mg', '2mg'], forms: ['Tablet', 'Gel'], route: 'Oral', adultDose: '1-2mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Eszopiclone', brands: ['Eszop', 'Lunesta'], strengths: ['1mg', '2mg', '3mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1-3mg HS (1mg in the elderly)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Ethambutol', brands: ['Myambutol', 'Combutol'], strengths: ['200mg', '400mg', '800mg'], forms: ['Tablet'], route: 'Oral', adultDose: '15-20mg/kg OD (weight-banded FDC under the national TB programme)', paediatricDose: '15-25mg/kg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Ethamsylate', synonyms: ['Etamsylate'], brands: ['Dicynene'], strengths: ['250mg', '500mg', '250mg/2ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '500mg QID during menstruation', renalAdjustment: false, hepaticAdjustment: false, schedule: 'H' },
+  { generic: 'Ethinyl Estradiol', synonyms: ['Ethinylestradiol'], brands: ['Ovral L', 'Mala-N', 'Loette'], strengths: ['0.02mg', '0.03mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1 tablet OD for 21 days, then 7 days off (combined pill)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Etoricoxib', brands: ['Etoshine', 'Nucoxia', 'Arcoxia'], strengths: ['60mg', '90mg', '120mg'], forms: ['Tablet'], route: 'Oral', adultDose: '60-90mg OD; acute gout: 120mg OD for up to 8 days', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Exemestane', brands: ['Aromasin'], strengths: ['25mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25mg OD after food', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Exenatide', brands: ['Byetta', 'Bydureon'], strengths: ['5mcg/dose', '10mcg/dose', '2mg weekly'], forms: ['Injection'], route: 'SC', adultDose: '5-10mcg SC BD within 60 min before meals, or 2mg SC weekly', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ezetimibe', brands: ['Ezedoc', 'Zetia'], strengths: ['10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10mg OD', paediatricDose: '10 years and over: 10mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Famciclovir', brands: ['Famtrex', 'Famvir'], strengths: ['250mg', '500mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Zoster: 500mg TDS for 7 days; genital herpes: 250mg TDS', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Famotidine', brands: ['Famocid', 'Topcid'], strengths: ['20mg', '40mg'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '20mg BD or 40mg HS', paediatricDose: '0.5mg/kg BD (max 40mg/day)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Favipiravir', brands: ['Fabiflu'], strengths: ['200mg', '400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1800mg BD on day 1, then 800mg BD (per approved label)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Felodipine', brands: ['Felogard', 'Plendil'], strengths: ['2.5mg', '5mg', '10mg ER'], forms: ['Tablet'], route: 'Oral', adultDose: '5-10mg ER OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Fenofibrate', brands: ['Lipicard', 'Tricor'], strengths: ['67mg', '145mg', '160mg', '200mg'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '145-200mg OD with food', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Fentanyl', brands: ['Fent', 'Durogesic'], strengths: ['50mcg/ml', '12mcg/h', '25mcg/h', '50mcg/h'], forms: ['Injection', 'Patch'], route: 'IV', adultDose: '1-2mcg/kg IV titrated; patch 12-100mcg/h every 72 h (opioid-tolerant only)', paediatricDose: '1-2mcg/kg IV', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'NDPS' },
+  { generic: 'Ferric Carboxymaltose', brands: ['Ferinject', 'Orofer FCM', 'Encicarb'], strengths: ['500mg/10ml', '1000mg/20ml'], forms: ['Injection'], route: 'IV', adultDose: '500-1000mg IV per dose (max 20mg/kg, 1000mg/week), by iron deficit', paediatricDose: '14 years and over: as adult', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ferrous Fumarate', brands: ['Livogen', 'Fefol'], strengths: ['152mg (50mg elemental)', '300mg (100mg elemental)'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '100-200mg elemental iron/day', paediatricDose: '3-6mg/kg/day elemental iron', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'A', schedule: 'OTC' },
+  { generic: 'Ferrous Sulfate', synonyms: ['Ferrous Sulphate'], brands: ['Fersolate', 'Feosol'], strengths: ['200mg (60mg elemental)', '335mg (100mg elemental)'], forms: ['Tablet', 'Drops'], route: 'Oral', adultDose: '100-200mg elemental iron/day (60mg elemental iron with folic acid for prophylaxis in pregnancy)', paediatricDose: '3-6mg/kg/day elemental iron', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'A', schedule: 'OTC' },
+  { generic: 'Fexofenadine', brands: ['Allegra', 'Altiva'], strengths: ['30mg', '120mg', '180mg', '30mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '120-180mg OD', paediatricDose: '2-11 years: 30mg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Filgrastim', synonyms: ['G-CSF'], brands: ['Neupogen', 'Grafeel', 'Neukine'], strengths: ['300mcg', '480mcg'], forms: ['Injection'], route: 'SC', adultDose: '5mcg/kg SC OD until neutrophil recovery', paediatricDose: '5mcg/kg SC OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Finasteride', brands: ['Finast', 'Fincar', 'Finpecia'], strengths: ['1mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'BPH: 5mg OD; alopecia: 1mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Flucloxacillin', brands: ['Floxapen'], strengths: ['250mg', '500mg', '125mg/5ml'], forms: ['Capsule', 'Suspension', 'Injection'], route: 'Oral', adultDose: '250-500mg QID on an empty stomach; 1-2g q6h IV', paediatricDose: '12.5-25mg/kg QID', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Fluconazole', brands: ['Forcan', 'Zocon', 'Syscan'], strengths: ['50mg', '150mg', '200mg', '2mg/ml'], forms: ['Tablet', 'Capsule', 'Injection'], route: 'Oral', adultDose: 'Vaginal candidiasis: 150mg single dose; systemic: 200-400mg OD', paediatricDose: '3-12mg/kg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Fluphenazine', brands: ['Prolinate', 'Anatensol'], strengths: ['25mg/ml decanoate'], forms: ['Injection', 'Tablet'], route: 'IM', adultDose: 'Depot: 12.5-50mg IM every 2-4 weeks', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Fluticasone', synonyms: ['Fluticasone Propionate', 'Fluticasone Furoate'], brands: ['Flohale', 'Flomist', 'Flixonase'], strengths: ['50mcg/spray', '125mcg', '250mcg', '0.05% cream'], forms: ['Nasal Spray', 'Inhaler', 'Cream'], route: 'Intranasal', adultDose: 'Nasal: 2 sprays per nostril OD; inhaled: 100-500mcg BD', paediatricDose: 'Nasal (4 years and over): 1 spray per nostril OD; inhaled: 50-100mcg BD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Fluvastatin', brands: ['Lescol'], strengths: ['20mg', '40mg', '80mg XL'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '20-80mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Fluoxetine', brands: ['Fludac', 'Flunil', 'Prozac'], strengths: ['10mg', '20mg', '40mg', '60mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '20mg OD (max 60mg)', paediatricDose: '8 years and over: 10mg OD, up to 20mg', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Folic Acid', brands: ['Folvite'], strengths: ['0.4mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Pre-conception/pregnancy: 0.4mg OD (5mg if high risk); deficiency: 5mg OD', paediatricDose: '0.5-5mg OD by age', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'A', schedule: 'OTC' },
+  { generic: 'Formoterol', synonyms: ['Formoterol Fumarate'], brands: ['Foracort', 'Symbicort', 'Perforomist'], strengths: ['6mcg', '12mcg', '20mcg/2ml'], forms: ['Inhaler', 'Respules'], route: 'Inhalation', adultDose: '6-12mcg BD (with an inhaled corticosteroid in asthma)', paediatricDose: '5 years and over: 6-12mcg BD with an inhaled corticosteroid', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Fosfomycin', brands: ['Fosirol', 'Monurol'], strengths: ['3g sachet'], forms: ['Sachet'], route: 'Oral', adultDose: 'Uncomplicated cystitis: 3g single dose in water on an empty stomach', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Furosemide', synonyms: ['Frusemide'], brands: ['Lasix', 'Frusenex'], strengths: ['20mg', '40mg', '10mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '20-80mg OD-BD; acute pulmonary oedema: 40-80mg IV', paediatricDose: '0.5-2mg/kg OD-BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Gabapentin', brands: ['Gabapin', 'Gabantin', 'Neurontin'], strengths: ['100mg', '300mg', '400mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '300mg HS titrated to 900-3600mg/day in 3 divided doses', paediatricDose: '3-12 years (epilepsy): 10-15mg/kg/day titrated to 25-35mg/kg/day', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ganciclovir', brands: ['Cymevene'], strengths: ['500mg/vial'], forms: ['Injection'], route: 'IV', adultDose: 'Induction: 5mg/kg q12h for 14-21 days; maintenance 5mg/kg OD', paediatricDose: '5mg/kg q12h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Gemfibrozil', brands: ['Lopid'], strengths: ['300mg', '600mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '600mg BD 30 min before meals', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Gentamicin', brands: ['Genticyn', 'Garamycin'], strengths: ['20mg/2ml', '80mg/2ml', '0.3% eye drops'], forms: ['Injection', 'Drops', 'Cream'], route: 'IV', adultDose: '5-7mg/kg OD (by levels)', paediatricDose: '5-7.5mg/kg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Glibenclamide', synonyms: ['Glyburide'], brands: ['Daonil', 'Euglucon'], strengths: ['2.5mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-15mg/day with breakfast (avoid in the elderly)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Gliclazide', brands: ['Diamicron', 'Glizid', 'Reclide'], strengths: ['40mg', '80mg', '30mg MR', '60mg MR'], forms: ['Tablet'], route: 'Oral', adultDose: '40-320mg/day or 30-120mg MR OD with breakfast', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Glimepiride', brands: ['Amaryl', 'Glimy'], strengths: ['0.5mg', '1mg', '2mg', '3mg', '4mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1-4mg OD with breakfast (max 8mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Glipizide', brands: ['Glynase', 'Glucotrol'], strengths: ['2.5mg', '5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-20mg/day 30 min before meals (max 40mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Glycopyrronium', synonyms: ['Glycopyrrolate'], brands: ['Pyrolate', 'Glyco-P'], strengths: ['0.2mg/ml', '50mcg inhaled'], forms: ['Injection', 'Inhaler'], route: 'IV', adultDose: 'Pre-anaesthetic: 0.2-0.4mg IV/IM; COPD: 50mcg inhaled OD', paediatricDose: 'Pre-anaesthetic: 4-8mcg/kg IV/IM', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Granisetron', brands: ['Granicip', 'Kytril'], strengths: ['1mg', '2mg', '1mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '1mg BD or 2mg OD; 1-3mg IV before chemotherapy', paediatricDose: '10-40mcg/kg IV', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Haloperidol', brands: ['Serenace', 'Senorm', 'Haldol'], strengths: ['0.25mg', '1.5mg', '5mg', '10mg', '5mg/ml', '50mg/ml decanoate'], forms: ['Tablet', 'Injection', 'Drops'], route: 'Oral', adultDose: '0.5-5mg BD-TDS (max 20mg/day); acute agitation: 2.5-5mg IM', paediatricDose: '3-12 years: 0.05-0.15mg/kg/day in 2-3 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Heparin', synonyms: ['Unfractionated Heparin'], brands: ['Beparine', 'Nuparin'], strengths: ['1000 IU/ml', '5000 IU/ml'], forms: ['Injection', 'Gel'], route: 'IV', adultDose: 'Treatment: 80 IU/kg IV bolus, then 18 IU/kg/h by aPTT; prophylaxis: 5000 IU SC q8-12h', paediatricDose: '75 IU/kg bolus, then 20-28 IU/kg/h by aPTT', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Hydrochlorothiazide', brands: ['Aquazide', 'Hydrazide', 'Esidrex'], strengths: ['12.5mg', '25mg', '50mg'], forms: ['Tablet'], route: 'Oral', adultDose: '12.5-25mg OD', paediatricDose: '1-2mg/kg/day (max 37.5mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Hydrocortisone', brands: ['Primacort', 'Efcorlin', 'Lycortin-S'], strengths: ['100mg/vial', '200mg/vial', '5mg', '10mg', '1% cream'], forms: ['Injection', 'Tablet', 'Cream'], route: 'IV', adultDose: 'Acute adrenal crisis/anaphylaxis: 100-200mg IV; replacement: 15-25mg/day in 2-3 divided doses', paediatricDose: '2-4mg/kg IV (max 100mg)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Hydroxyzine', brands: ['Atarax'], strengths: ['10mg', '25mg', '10mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '10-25mg TDS-QID or 25mg HS (max 100mg/day; 50mg in the elderly)', paediatricDose: '1mg/kg/day in divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Hydroxychloroquine', brands: ['HCQS', 'Plaquenil'], strengths: ['200mg', '300mg', '400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '200-400mg/day (max 5mg/kg actual body weight/day)', paediatricDose: '5mg/kg/day (max 400mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Hyoscine Butylbromide', synonyms: ['Scopolamine Butylbromide'], brands: ['Buscopan'], strengths: ['10mg', '20mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '10-20mg TDS-QID; 20mg IM/IV for acute colic (max 100mg/day)', paediatricDose: '6-12 years: 10mg TDS', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ibuprofen', brands: ['Brufen', 'Ibugesic', 'Combiflam'], strengths: ['200mg', '400mg', '600mg', '100mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '200-400mg TDS-QID after food (max 2.4g/day)', paediatricDose: '5-10mg/kg q6-8h (max 40mg/kg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Imipenem', synonyms: ['Imipenem-Cilastatin'], brands: ['Tienam'], strengths: ['500mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '500mg q6h or 1g q8h', paediatricDose: '15-25mg/kg q6h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Imipramine', brands: ['Depsonil', 'Antidep'], strengths: ['10mg', '25mg', '75mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25mg TDS titrated to 150-200mg/day', paediatricDose: 'Enuresis (6 years and over): 10-25mg HS', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Indapamide', brands: ['Lorvas', 'Natrilix'], strengths: ['1.5mg SR', '2.5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1.5mg SR or 2.5mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Indomethacin', synonyms: ['Indometacin'], brands: ['Indocap', 'Idicin'], strengths: ['25mg', '75mg SR'], forms: ['Capsule', 'Suppository'], route: 'Oral', adultDose: '25-50mg BD-TDS with food (max 200mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Insulin Aspart', brands: ['NovoRapid', 'Novomix'], strengths: ['100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; 0-15 min before meals', paediatricDose: 'Individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Insulin Degludec', brands: ['Tresiba', 'Ryzodeg'], strengths: ['100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; once daily at any time', paediatricDose: '1 year and over: individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Insulin Detemir', brands: ['Levemir'], strengths: ['100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; OD-BD', paediatricDose: '2 years and over: individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Insulin Glargine', brands: ['Lantus', 'Basalog', 'Glaritus'], strengths: ['100 IU/ml', '300 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Start 10 IU or 0.1-0.2 IU/kg OD, titrated to fasting glucose', paediatricDose: '6 years and over: individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Insulin Glulisine', brands: ['Apidra'], strengths: ['100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; within 15 min before or 20 min after starting a meal', paediatricDose: '6 years and over: individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Insulin Lispro', brands: ['Humalog', 'Eglucent'], strengths: ['100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; within 15 min before meals', paediatricDose: 'Individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Insulin NPH', synonyms: ['Isophane Insulin'], brands: ['Insulatard', 'Huminsulin N', 'Human Mixtard'], strengths: ['40 IU/ml', '100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; OD-BD, often 0.2 IU/kg at bedtime to start', paediatricDose: 'Individualised', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Insulin Regular', synonyms: ['Soluble Insulin', 'Human Insulin', 'Insulin'], brands: ['Actrapid', 'Huminsulin R'], strengths: ['40 IU/ml', '100 IU/ml'], forms: ['Injection'], route: 'SC', adultDose: 'Individualised; 30 min before meals; DKA: 0.1 IU/kg/h IV', paediatricDose: 'DKA: 0.05-0.1 IU/kg/h IV', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Interferon Alfa', synonyms: ['Peginterferon Alfa'], brands: ['Intalfa', 'Pegasys', 'PegIntron'], strengths: ['3 MIU', '180mcg'], forms: ['Injection'], route: 'SC', adultDose: 'Per indication; e.g. peginterferon alfa-2a 180mcg SC weekly', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ipratropium Bromide', synonyms: ['Ipratropium'], brands: ['Ipravent', 'Duolin', 'Atrovent'], strengths: ['20mcg/puff', '250mcg/ml', '500mcg/2ml'], forms: ['Inhaler', 'Respules'], route: 'Inhalation', adultDose: '20-40mcg TDS-QID inhaled; 500mcg nebulised q6-8h', paediatricDose: '250mcg nebulised q6-8h (acute asthma: q20 min for 3 doses)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Irbesartan', brands: ['Irovel', 'Xarb', 'Aprovel'], strengths: ['75mg', '150mg', '300mg'], forms: ['Tablet'], route: 'Oral', adultDose: '150-300mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Iron Sucrose', brands: ['Venofer', 'Orofer-S', 'Encifer'], strengths: ['100mg/5ml'], forms: ['Injection'], route: 'IV', adultDose: '100-200mg IV per dose (max 200mg, three times weekly), by iron deficit', paediatricDose: '3mg/kg per dose (max 100mg)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Isoniazid', synonyms: ['INH'], brands: ['Isokin', 'Solonex'], strengths: ['100mg', '300mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5mg/kg OD (max 300mg) with pyridoxine; weight-banded FDC under the national TB programme', paediatricDose: '10mg/kg OD (7-15mg/kg, max 300mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Isosorbide Dinitrate', synonyms: ['ISDN'], brands: ['Sorbitrate', 'Isordil'], strengths: ['5mg SL', '10mg'], forms: ['Tablet'], route: 'Sublingual', adultDose: 'Angina: 5mg SL as needed; prophylaxis: 10-40mg BD-TDS', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Isosorbide Mononitrate', synonyms: ['ISMN'], brands: ['Monotrate', 'Imdur', 'Ismo'], strengths: ['10mg', '20mg', '30mg SR', '60mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '20mg BD (asymmetric dosing) or 30-60mg SR OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Itopride', brands: ['Ganaton'], strengths: ['50mg', '150mg SR'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '50mg TDS before meals or 150mg SR OD', renalAdjustment: false, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Itraconazole', brands: ['Canditral', 'Itaspor', 'Sporanox'], strengths: ['100mg', '200mg'], forms: ['Capsule'], route: 'Oral', adultDose: '100-200mg OD-BD with food', paediatricDose: '5mg/kg/day', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ivabradine', brands: ['Ivabrad'], strengths: ['5mg', '7.5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-5mg BD titrated to 7.5mg BD by resting heart rate', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Ivermectin', brands: ['Ivecop', 'Mectizan'], strengths: ['3mg', '6mg', '12mg'], forms: ['Tablet'], route: 'Oral', adultDose: '150-200mcg/kg single dose (scabies: repeat after 7-14 days)', paediatricDose: '15kg and over: 150-200mcg/kg', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ketamine', brands: ['Ketmin', 'Aneket'], strengths: ['50mg/ml', '10mg/ml'], forms: ['Injection'], route: 'IV', adultDose: 'Induction: 1-2mg/kg IV or 4-6mg/kg IM; analgesia: 0.1-0.3mg/kg IV', paediatricDose: 'Procedural sedation: 1-1.5mg/kg IV or 4mg/kg IM', renalAdjustment: false, hepaticAdjustment: true, schedule: 'X' },
+  { generic: 'Ketoconazole', brands: ['Nizral'], strengths: ['200mg', '2% cream', '2% shampoo'], forms: ['Tablet', 'Cream', 'Lotion'], route: 'Topical', adultDose: 'Topical OD-BD; oral use restricted (hepatotoxicity)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ketorolac', brands: ['Toradol', 'Ketorol', 'Ketanov'], strengths: ['10mg', '30mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '10mg q4-6h (max 40mg/day orally); 15-30mg IM/IV q6h; max 5 days in total', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Labetalol', brands: ['Labebet', 'Lobet'], strengths: ['100mg', '200mg', '5mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '100-400mg BD-TDS; severe hypertension: 20mg IV, then 40-80mg every 10 min (max 300mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Lactulose', brands: ['Duphalac', 'Looz', 'Livoluk'], strengths: ['10g/15ml'], forms: ['Syrup'], route: 'Oral', adultDose: 'Constipation: 15-30ml OD-BD; hepatic encephalopathy: 30-45ml TDS-QID titrated to 2-3 soft stools', paediatricDose: '1-2ml/kg/day in divided doses', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'OTC' },
+  { generic: 'Lamivudine', synonyms: ['3TC'], brands: ['Lamivir', 'Epivir'], strengths: ['100mg', '150mg', '300mg', '50mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: 'HIV: 150mg BD or 300mg OD; hepatitis B: 100mg OD', paediatricDose: '4mg/kg BD (max 150mg BD)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Lamotrigine', brands: ['Lametec', 'Lamictal', 'Lamitor'], strengths: ['25mg', '50mg', '100mg', '200mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25mg OD titrated slowly to 100-400mg/day (halve with valproate)', paediatricDose: '0.3-0.6mg/kg/day titrated per label', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Lansoprazole', brands: ['Lanzol', 'Lan', 'Prevacid'], strengths: ['15mg', '30mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '15-30mg OD before breakfast', paediatricDose: '1-11 years: 15mg OD (30kg or less) or 30mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Ledipasvir', synonyms: ['Ledipasvir-Sofosbuvir'], brands: ['Ledifos', 'Harvoni'], strengths: ['90mg (with sofosbuvir 400mg)'], forms: ['Tablet'], route: 'Oral', adultDose: '1 tablet (90/400mg) OD for 12 weeks', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Letrozole', brands: ['Letroz', 'Femara'], strengths: ['2.5mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Breast cancer: 2.5mg OD; ovulation induction: 2.5-7.5mg OD on days 3-7', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Levetiracetam', brands: ['Levera', 'Keppra', 'Levroxa'], strengths: ['250mg', '500mg', '750mg', '1000mg', '100mg/ml'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '500mg BD titrated to 1500mg BD; status epilepticus: 60mg/kg IV (max 4.5g)', paediatricDose: '10mg/kg BD titrated to 30mg/kg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Levocetirizine', brands: ['Levocet', 'Xyzal'], strengths: ['5mg', '2.5mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '5mg OD at night', paediatricDose: '2-5 years: 1.25mg BD; 6-11 years: 2.5mg OD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Levofloxacin', brands: ['Levoflox', 'Tavanic', 'Glevo'], strengths: ['250mg', '500mg', '750mg', '500mg/100ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '500-750mg OD', paediatricDose: 'MDR-TB: 15-20mg/kg OD (programme regimen)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Levonorgestrel', brands: ['i-Pill', 'Unwanted 72', 'Norlevo'], strengths: ['1.5mg', '0.75mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Emergency contraception: 1.5mg single dose within 72 h', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'OTC' },
+  { generic: 'Levosalbutamol', synonyms: ['Levalbuterol'], brands: ['Levolin'], strengths: ['1mg', '50mcg/puff', '0.31mg/2.5ml', '0.63mg/2.5ml'], forms: ['Tablet', 'Inhaler', 'Respules', 'Syrup'], route: 'Inhalation', adultDose: '50-100mcg inhaled q4-6h as needed; 0.63-1.25mg nebulised q6-8h', paediatricDose: '0.31-0.63mg nebulised q8h', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Linagliptin', brands: ['Trajenta', 'Ondero'], strengths: ['5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Linezolid', brands: ['Linospan', 'Lizolid', 'Zyvox'], strengths: ['600mg', '100mg/5ml', '600mg/300ml'], forms: ['Tablet', 'Suspension', 'Injection'], route: 'Oral', adultDose: '600mg BD for up to 28 days', paediatricDose: 'Under 12 years: 10mg/kg q8h', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Lisinopril', brands: ['Listril', 'Lipril', 'Zestril'], strengths: ['2.5mg', '5mg', '10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5-40mg OD', paediatricDose: '6 years and over: 0.07mg/kg OD (max 5mg) titrated', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Lithium', synonyms: ['Lithium Carbonate'], brands: ['Licab', 'Lithosun', 'Intalith'], strengths: ['300mg', '400mg SR', '450mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '300mg BD-TDS titrated to a level of 0.6-1.0 mmol/L', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Loperamide', brands: ['Imodium', 'Eldoper'], strengths: ['2mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '4mg, then 2mg after each loose stool (max 16mg/day)', paediatricDose: 'Avoid under 12 years for acute diarrhoea', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Lopinavir', synonyms: ['Lopinavir-Ritonavir'], brands: ['Kaletra', 'Lopimune'], strengths: ['200mg (with ritonavir 50mg)', '80mg/ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '400/100mg BD', paediatricDose: 'Weight-banded per national ART guidelines', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Loratadine', brands: ['Lorfast', 'Claritin'], strengths: ['10mg', '5mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '10mg OD', paediatricDose: '2-5 years: 5mg OD; 6 years and over: 10mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'OTC' },
+  { generic: 'Lorazepam', brands: ['Ativan', 'Larpose', 'Lopez'], strengths: ['1mg', '2mg', '2mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: 'Anxiety: 1-2mg BD-TDS; status epilepticus: 4mg IV (0.1mg/kg)', paediatricDose: 'Status epilepticus: 0.1mg/kg IV (max 4mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Lornoxicam', brands: ['Xefo'], strengths: ['4mg', '8mg'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '8mg BD (max 16mg/day)', renalAdjustment: true, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Losartan', brands: ['Losar', 'Repace', 'Cozaar'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25-100mg OD', paediatricDose: '6 years and over: 0.7mg/kg OD (max 50mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Magnesium Sulfate', synonyms: ['Magnesium Sulphate'], brands: [], strengths: ['50% w/v (0.5g/ml)'], forms: ['Injection'], route: 'IV', adultDose: 'Eclampsia (Pritchard): 4g IV + 10g IM loading, then 5g IM every 4 h; severe asthma: 2g IV over 20 min', paediatricDose: 'Severe asthma: 25-50mg/kg IV over 20 min (max 2g)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Mebendazole', brands: ['Mebex', 'Wormin'], strengths: ['100mg', '100mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '100mg BD for 3 days or 500mg single dose', paediatricDose: '2 years and over: as adult', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Medroxyprogesterone', synonyms: ['Medroxyprogesterone Acetate', 'DMPA'], brands: ['Meprate', 'Depo-Provera'], strengths: ['2.5mg', '10mg', '150mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: 'AUB: 10mg OD for 10-14 days; contraception: 150mg IM every 3 months', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Mefenamic Acid', brands: ['Meftal', 'Ponstan'], strengths: ['250mg', '500mg', '100mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '250-500mg TDS after food for up to 7 days', paediatricDose: '6 months and over: 4-6.5mg/kg TDS', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Meloxicam', brands: ['Muvera', 'Mobic'], strengths: ['7.5mg', '15mg'], forms: ['Tablet'], route: 'Oral', adultDose: '7.5-15mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Meropenem', brands: ['Meronem', 'Merotec'], strengths: ['500mg/vial', '1g/vial'], forms: ['Injection'], route: 'IV', adultDose: '1g q8h (meningitis: 2g q8h)', paediatricDose: '20mg/kg q8h (meningitis: 40mg/kg q8h)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H1' },
+  { generic: 'Mesalamine', synonyms: ['Mesalazine'], brands: ['Mesacol', 'Asacol', 'Pentasa'], strengths: ['400mg', '800mg', '1.2g', '500mg suppository'], forms: ['Tablet', 'Sachet', 'Suppository'], route: 'Oral', adultDose: '2.4-4.8g/day in divided doses', paediatricDose: '30-50mg/kg/day in divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Metformin', brands: ['Glycomet', 'Glucophage', 'Gluformin'], strengths: ['250mg', '500mg', '850mg', '1000mg', '500mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '500mg OD-BD with meals, titrated to 2g/day (max 2.5g)', paediatricDose: '10 years and over: 500mg OD-BD (max 2g/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Methotrexate', brands: ['Folitrax', 'Imutrex'], strengths: ['2.5mg', '7.5mg', '10mg', '15mg', '50mg/2ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: 'Rheumatoid arthritis/psoriasis: 7.5-25mg ONCE WEEKLY with folic acid', paediatricDose: 'JIA: 10-15mg/m2 once weekly', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Methylphenidate', brands: ['Addwize', 'Inspiral', 'Ritalin'], strengths: ['5mg', '10mg', '18mg ER'], forms: ['Tablet'], route: 'Oral', adultDose: '5-10mg BD-TDS (max 60mg/day)', paediatricDose: '6 years and over: 5mg OD-BD titrated (max 60mg/day)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'X' },
+  { generic: 'Methylprednisolone', brands: ['Medrol', 'Solu-Medrol', 'Depo-Medrol'], strengths: ['4mg', '8mg', '16mg', '40mg/vial', '125mg/vial', '500mg/vial', '1g/vial'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '4-48mg/day; pulse: 500mg-1g IV OD for 3-5 days', paediatricDose: '0.5-1.7mg/kg/day; pulse: 30mg/kg IV (max 1g)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Metoclopramide', brands: ['Perinorm', 'Reglan', 'Maxolon'], strengths: ['10mg', '5mg/ml'], forms: ['Tablet', 'Injection', 'Syrup'], route: 'Oral', adultDose: '10mg TDS for up to 5 days', paediatricDose: '0.1-0.15mg/kg TDS (avoid under 1 year)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Metoprolol', synonyms: ['Metoprolol Succinate', 'Metoprolol Tartrate'], brands: ['Metolar', 'Met XL', 'Betaloc', 'Seloken'], strengths: ['25mg', '50mg', '100mg', '12.5mg XL', '25mg XL', '50mg XL', '1mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '25-100mg BD (tartrate) or 25-200mg XL OD (succinate)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Metronidazole', brands: ['Flagyl', 'Metrogyl', 'Aristogyl'], strengths: ['200mg', '400mg', '500mg/100ml', '200mg/5ml'], forms: ['Tablet', 'Suspension', 'Injection', 'Gel'], route: 'Oral', adultDose: '400mg TDS for 5-7 days; 500mg IV q8h', paediatricDose: '7.5mg/kg TDS', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Micafungin', brands: ['Mycamine'], strengths: ['50mg/vial', '100mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '100mg OD (oesophageal candidiasis: 150mg OD)', paediatricDose: '2mg/kg OD (40kg or less)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Midazolam', brands: ['Mezolam', 'Fulsed'], strengths: ['1mg/ml', '5mg/ml'], forms: ['Injection', 'Nasal Spray'], route: 'IV', adultDose: 'Sedation: 1-2.5mg IV titrated; seizures: 10mg IM/buccal', paediatricDose: 'Seizures: 0.2mg/kg intranasal or 0.3mg/kg buccal (max 10mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Miglitol', brands: ['Misobit'], strengths: ['25mg', '50mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25-100mg TDS with the first bite of meals', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Minocycline', brands: ['Cynomycin', 'Minoz'], strengths: ['50mg', '100mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '100mg BD or 50-100mg OD (acne)', paediatricDose: '8 years and over: 4mg/kg on day 1, then 2mg/kg BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Mirabegron', brands: ['Betmiga'], strengths: ['25mg', '50mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25-50mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Mirtazapine', brands: ['Mirtaz', 'Mirnite', 'Remeron'], strengths: ['7.5mg', '15mg', '30mg', '45mg'], forms: ['Tablet'], route: 'Oral', adultDose: '15-45mg HS', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Misoprostol', brands: ['Cytolog', 'Cytotec'], strengths: ['25mcg', '100mcg', '200mcg'], forms: ['Tablet'], route: 'Oral', adultDose: 'PPH prevention: 600mcg orally; PPH treatment: 800mcg SL; other obstetric uses per protocol', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Mometasone', synonyms: ['Mometasone Furoate'], brands: ['Momate', 'Elocon', 'Nasonex'], strengths: ['0.1% cream', '0.1% ointment', '50mcg/spray'], forms: ['Cream', 'Ointment', 'Lotion', 'Nasal Spray'], route: 'Topical', adultDose: 'Topical OD; nasal: 2 sprays per nostril OD', paediatricDose: 'Topical (2 years and over) OD; nasal (3-11 years): 1 spray per nostril OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Montelukast', brands: ['Montair', 'Romilast', 'Singulair'], strengths: ['4mg', '5mg', '10mg'], forms: ['Tablet', 'Sachet'], route: 'Oral', adultDose: '10mg OD in the evening', paediatricDose: '6 months-5 years: 4mg OD; 6-14 years: 5mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Morphine', synonyms: ['Morphine Sulfate'], brands: ['Morcontin'], strengths: ['10mg', '15mg', '30mg SR', '10mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '5-10mg orally q4h titrated; 2-5mg IV titrated to effect', paediatricDose: '0.1-0.2mg/kg IV q2-4h; 0.2-0.5mg/kg orally q4h', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'NDPS' },
+  { generic: 'Moxifloxacin', brands: ['Avelox', 'Vigamox'], strengths: ['400mg', '400mg/250ml', '0.5% eye drops'], forms: ['Tablet', 'Injection', 'Drops'], route: 'Oral', adultDose: '400mg OD', paediatricDose: 'MDR-TB: 10-15mg/kg OD (programme regimen)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Mycophenolate Mofetil', synonyms: ['Mycophenolate', 'MMF'], brands: ['Cellcept', 'Mycept'], strengths: ['250mg', '500mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '1-1.5g BD', paediatricDose: '600mg/m2 BD (max 1g BD)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Naproxen', brands: ['Naprosyn', 'Xenobid'], strengths: ['250mg', '500mg'], forms: ['Tablet'], route: 'Oral', adultDose: '250-500mg BD (max 1.25g/day)', paediatricDose: 'JIA: 5mg/kg BD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Nateglinide', brands: ['Glinate', 'Starlix'], strengths: ['60mg', '120mg'], forms: ['Tablet'], route: 'Oral', adultDose: '60-120mg TDS before meals', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Nebivolol', brands: ['Nebicard', 'Nodon', 'Nebistar'], strengths: ['2.5mg', '5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-10mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Neomycin', brands: [], strengths: ['350mg', '0.5% cream'], forms: ['Tablet', 'Cream', 'Ointment'], route: 'Topical', adultDose: 'Topical OD-TDS; hepatic encephalopathy: 1g q6h orally for up to 6 days', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Nevirapine', brands: ['Nevimune', 'Viramune'], strengths: ['200mg', '50mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '200mg OD for 14 days, then 200mg BD', paediatricDose: 'Infant prophylaxis and treatment: weight-banded per national guidelines', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Niclosamide', brands: ['Yomesan'], strengths: ['500mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Tapeworm: 2g single dose, chewed', paediatricDose: '2-6 years: 1g; under 2 years: 500mg', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Nicorandil', brands: ['Nikoran'], strengths: ['5mg', '10mg', '20mg'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '5-10mg BD titrated to 20mg BD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Nifedipine', brands: ['Depin', 'Calcigard', 'Nicardia'], strengths: ['5mg', '10mg', '20mg SR', '30mg XL'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '20-40mg SR BD or 30-90mg XL OD; preterm labour per obstetric protocol', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Nitroglycerin', synonyms: ['Glyceryl Trinitrate', 'GTN'], brands: ['Nitrocontin', 'Angised', 'Millisrol'], strengths: ['0.5mg SL', '2.6mg SR', '6.4mg SR', '5mg/ml'], forms: ['Tablet', 'Injection', 'Patch'], route: 'Sublingual', adultDose: 'Angina: 0.4-0.5mg SL every 5 min (max 3 doses); IV 5-200mcg/min titrated', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Nitrofurantoin', brands: ['Niftran', 'Macrobid'], strengths: ['50mg', '100mg SR'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '100mg SR BD for 5 days (uncomplicated cystitis)', paediatricDose: '3 months and over: 0.75mg/kg QID', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Norepinephrine', synonyms: ['Noradrenaline'], brands: ['Adrenor', 'Norad'], strengths: ['2mg/ml', '4mg/2ml'], forms: ['Injection'], route: 'IV', adultDose: '0.05-0.5mcg/kg/min infusion titrated to MAP 65 or more (central line preferred)', paediatricDose: '0.05-1mcg/kg/min infusion titrated', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Norethisterone', synonyms: ['Norethindrone'], brands: ['Primolut-N', 'Regestrone'], strengths: ['5mg'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: 'Heavy bleeding: 5mg TDS for 10 days; period delay: 5mg TDS from 3 days before', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Norfloxacin', brands: ['Norflox', 'Noroxin'], strengths: ['400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '400mg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Nortriptyline', brands: ['Sensival'], strengths: ['10mg', '25mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Neuropathic pain: 10-75mg HS; depression: 75-150mg/day', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Ofloxacin', brands: ['Zanocin', 'Oflox', 'Tarivid'], strengths: ['200mg', '400mg', '50mg/5ml', '0.3% eye drops'], forms: ['Tablet', 'Suspension', 'Drops'], route: 'Oral', adultDose: '200-400mg BD', paediatricDose: '7.5mg/kg BD where no alternative', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Olanzapine', brands: ['Oleanz', 'Olimelt', 'Zyprexa'], strengths: ['2.5mg', '5mg', '10mg', '15mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5-20mg OD', paediatricDose: '13 years and over: 2.5-10mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Olmesartan', brands: ['Olmezest', 'Benicar'], strengths: ['10mg', '20mg', '40mg'], forms: ['Tablet'], route: 'Oral', adultDose: '20-40mg OD', paediatricDose: '6 years and over: 10-40mg OD by weight', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Omalizumab', brands: ['Xolair'], strengths: ['150mg/vial'], forms: ['Injection'], route: 'SC', adultDose: '75-600mg SC every 2-4 weeks by IgE and weight', paediatricDose: '6 years and over: by IgE and weight', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Omega-3 Fatty Acids', synonyms: ['Omega 3', 'Fish Oil', 'EPA-DHA'], brands: ['Maxepa', 'Omacor'], strengths: ['1g'], forms: ['Capsule'], route: 'Oral', adultDose: '1-4g/day', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Omeprazole', brands: ['Omez', 'Ocid', 'Prilosec'], strengths: ['10mg', '20mg', '40mg', '40mg/vial'], forms: ['Capsule', 'Injection'], route: 'Oral', adultDose: '20-40mg OD before breakfast', paediatricDose: '1mg/kg OD (max 20mg; 40mg over 20kg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ondansetron', brands: ['Emeset', 'Ondem', 'Vomikind'], strengths: ['2mg', '4mg', '8mg', '2mg/5ml', '2mg/ml'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '4-8mg TDS (max 16mg IV per dose)', paediatricDose: '0.15mg/kg (max 4mg) TDS; gastroenteritis: single dose', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Oral Rehydration Salts', synonyms: ['ORS'], brands: ['Electral', 'ORS-L', 'Walyte'], strengths: ['20.5g/L (low osmolarity)'], forms: ['Sachet'], route: 'Oral', adultDose: '200-400ml after each loose stool; rehydration 75ml/kg over 4 h', paediatricDose: 'Under 2 years: 50-100ml after each loose stool; 2-10 years: 100-200ml; rehydration 75ml/kg over 4 h', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'A', schedule: 'OTC' },
+  { generic: 'Ornidazole', brands: ['Dazolic'], strengths: ['500mg', '125mg/5ml', '500mg/100ml'], forms: ['Tablet', 'Suspension', 'Injection'], route: 'Oral', adultDose: '500mg BD for 5-10 days; amoebiasis: 1.5g OD for 3 days', paediatricDose: '25mg/kg OD', renalAdjustment: false, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Oseltamivir', brands: ['Fluvir', 'Antiflu', 'Tamiflu'], strengths: ['30mg', '45mg', '75mg', '12mg/ml'], forms: ['Capsule', 'Suspension'], route: 'Oral', adultDose: '75mg BD for 5 days', paediatricDose: '15kg or less: 30mg BD; 15-23kg: 45mg BD; 23-40kg: 60mg BD; over 40kg: 75mg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Oxcarbazepine', brands: ['Oxetol', 'Trileptal'], strengths: ['150mg', '300mg', '600mg', '300mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '300mg BD titrated to 600-1200mg BD', paediatricDose: '8-10mg/kg/day titrated to 30mg/kg/day in 2 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Oxybutynin', brands: ['Oxyspas', 'Cystran', 'Ditropan'], strengths: ['2.5mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2.5-5mg BD-TDS (max 5mg QID)', paediatricDose: '5 years and over: 2.5-5mg BD-TDS', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Oxymetazoline', brands: ['Nasivion', 'Afrin'], strengths: ['0.05%', '0.025%', '0.01%'], forms: ['Nasal Spray', 'Drops'], route: 'Intranasal', adultDose: '2-3 drops or sprays per nostril BD for up to 5 days', paediatricDose: '1-5 years: 0.025%; under 1 year: 0.01%, BD for up to 5 days', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Paliperidone', brands: ['Invega'], strengths: ['3mg ER', '6mg ER', '9mg ER', '100mg/ml palmitate'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '6mg ER OD (3-12mg)', paediatricDose: '12 years and over: 3-6mg ER OD by weight', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Pantoprazole', brands: ['Pan 40', 'Pantocid'], strengths: ['20mg', '40mg', '40mg/vial'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '40mg OD before breakfast (80mg IV bolus then 8mg/h for upper GI bleed)', paediatricDose: '5 years and over: 20mg OD (under 40kg) or 40mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Paracetamol', synonyms: ['Acetaminophen', 'PCM'], brands: ['Crocin', 'Dolo 650', 'Calpol', 'Pacimol'], strengths: ['500mg', '650mg', '1g/100ml', '120mg/5ml', '250mg/5ml', '100mg/ml drops'], forms: ['Tablet', 'Syrup', 'Suspension', 'Drops', 'Injection', 'Suppository'], route: 'Oral', adultDose: '500-1000mg q4-6h (max 4g/day; 2g/day in liver disease or alcohol use)', paediatricDose: '15mg/kg q4-6h (max 60mg/kg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'OTC' },
+  { generic: 'Paroxetine', brands: ['Pari CR', 'Paxidep', 'Paxil'], strengths: ['10mg', '12.5mg CR', '20mg', '25mg CR'], forms: ['Tablet'], route: 'Oral', adultDose: '20mg OD (max 50mg)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Pegfilgrastim', brands: ['Neulasta'], strengths: ['6mg/0.6ml'], forms: ['Injection'], route: 'SC', adultDose: '6mg SC once per chemotherapy cycle', paediatricDose: '100mcg/kg SC once per cycle', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Penicillin G', synonyms: ['Benzylpenicillin', 'Crystalline Penicillin'], brands: [], strengths: ['5 lakh IU/vial', '10 lakh IU/vial'], forms: ['Injection'], route: 'IV', adultDose: '20-40 lakh IU q4-6h by indication', paediatricDose: '50,000 IU/kg q4-6h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Penicillin V', synonyms: ['Phenoxymethylpenicillin'], brands: [], strengths: ['125mg', '250mg', '400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '250-500mg QID; rheumatic fever prophylaxis: 250mg BD', paediatricDose: '12.5mg/kg QID; rheumatic fever prophylaxis: 125-250mg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Pentazocine', brands: ['Fortwin', 'Talwin'], strengths: ['30mg/ml', '25mg'], forms: ['Injection', 'Tablet'], route: 'IM', adultDose: '30-60mg IM/IV q3-4h (max 360mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'NDPS' },
+  { generic: 'Pentoxifylline', synonyms: ['Oxpentifylline'], brands: ['Trental', 'Flexital'], strengths: ['400mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '400mg BD-TDS with meals', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Perindopril', brands: ['Coversyl'], strengths: ['2mg', '4mg', '8mg'], forms: ['Tablet'], route: 'Oral', adultDose: '4-8mg OD (2mg in the elderly)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Phenobarbital', synonyms: ['Phenobarbitone'], brands: ['Gardenal', 'Luminal'], strengths: ['30mg', '60mg', '200mg/ml'], forms: ['Tablet', 'Injection', 'Syrup'], route: 'Oral', adultDose: '60-180mg HS; status epilepticus: 15-20mg/kg IV', paediatricDose: 'Maintenance 3-5mg/kg/day; status epilepticus: 20mg/kg IV', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'NDPS' },
+  { generic: 'Phenylephrine', brands: ['Fenox', 'Neo-Synephrine'], strengths: ['10mg', '0.25% nasal drops', '10mg/ml'], forms: ['Tablet', 'Drops', 'Injection'], route: 'Oral', adultDose: 'Decongestant: 10mg q4h (max 60mg/day); hypotension: 50-100mcg IV boluses', paediatricDose: '6-11 years: 5mg q4h', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Phenytoin', brands: ['Eptoin', 'Dilantin'], strengths: ['50mg', '100mg', '300mg ER', '50mg/ml', '30mg/5ml'], forms: ['Tablet', 'Capsule', 'Injection', 'Suspension'], route: 'Oral', adultDose: '300mg/day (4-5mg/kg) by level; status epilepticus: 20mg/kg IV at up to 50mg/min', paediatricDose: '5mg/kg/day in 2-3 divided doses; status epilepticus: 20mg/kg IV', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Pioglitazone', brands: ['Pioz', 'Actos'], strengths: ['7.5mg', '15mg', '30mg'], forms: ['Tablet'], route: 'Oral', adultDose: '15-30mg OD (max 45mg; avoid in heart failure)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Piperacillin-Tazobactam', synonyms: ['Piperacillin Tazobactam', 'Pip-Taz'], brands: ['Zosyn'], strengths: ['2.25g/vial', '4.5g/vial'], forms: ['Injection'], route: 'IV', adultDose: '4.5g q6-8h', paediatricDose: '90mg/kg (piperacillin) q6-8h', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Piroxicam', brands: ['Dolonex', 'Feldene'], strengths: ['10mg', '20mg', '20mg/ml', '0.5% gel'], forms: ['Capsule', 'Tablet', 'Injection', 'Gel'], route: 'Oral', adultDose: '10-20mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Pitavastatin', brands: ['Livalo'], strengths: ['1mg', '2mg', '4mg'], forms: ['Tablet'], route: 'Oral', adultDose: '1-4mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Polyethylene Glycol', synonyms: ['PEG', 'Macrogol', 'Polyethylene Glycol 3350'], brands: ['Peglec', 'Movicol'], strengths: ['17g sachet', '137g sachet'], forms: ['Sachet'], route: 'Oral', adultDose: 'Constipation: 17g in water OD; bowel preparation per protocol', paediatricDose: '0.4-0.8g/kg/day', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Polymyxin B', brands: ['Aerosporin'], strengths: ['5 lakh IU/vial'], forms: ['Injection'], route: 'IV', adultDose: '25,000 IU/kg loading, then 15,000 IU/kg q12h', paediatricDose: '15,000-25,000 IU/kg/day in 2 divided doses', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Posaconazole', brands: ['Noxafil'], strengths: ['100mg DR', '40mg/ml'], forms: ['Tablet', 'Suspension', 'Injection'], route: 'Oral', adultDose: 'DR tablets: 300mg BD on day 1, then 300mg OD', paediatricDose: '13 years and over: as adult', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Potassium Chloride', synonyms: ['KCl'], brands: ['Klor-Con'], strengths: ['600mg SR (8mEq)', '15ml = 20mEq syrup', '2mEq/ml'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '20-40mEq/day in divided doses; IV at up to 10mEq/h peripherally', paediatricDose: '1-2mEq/kg/day in divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Prasugrel', brands: ['Effient'], strengths: ['5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '60mg loading, then 10mg OD (5mg if under 60kg; avoid over 75 years or with prior stroke)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Pravastatin', brands: ['Pravachol'], strengths: ['10mg', '20mg', '40mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10-40mg OD (max 80mg)', paediatricDose: '8 years and over: 20-40mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Praziquantel', brands: ['Distocide', 'Biltricide'], strengths: ['600mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Taeniasis: 5-10mg/kg single dose; neurocysticercosis: 50mg/kg/day in 3 divided doses with steroids', paediatricDose: '4 years and over: as adult, per kg', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Pregabalin', brands: ['Pregalin', 'Pregeb', 'Lyrica'], strengths: ['50mg', '75mg', '150mg', '300mg'], forms: ['Capsule'], route: 'Oral', adultDose: '75mg BD titrated to 150-300mg BD', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Prednisolone', brands: ['Wysolone', 'Omnacortil'], strengths: ['5mg', '10mg', '20mg', '40mg', '15mg/5ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '5-60mg OD in the morning by indication', paediatricDose: '1-2mg/kg/day (max 60mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Primaquine', brands: [], strengths: ['2.5mg', '7.5mg', '15mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Vivax radical cure: 0.25mg/kg OD for 14 days; falciparum: 0.75mg/kg single dose (check G6PD)', paediatricDose: '1 year and over: as adult, per kg', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Progesterone', synonyms: ['Micronised Progesterone'], brands: ['Susten'], strengths: ['100mg', '200mg', '300mg SR', '400mg vaginal'], forms: ['Capsule', 'Tablet', 'Gel', 'Injection', 'Pessary'], route: 'Oral', adultDose: '200-400mg/day orally or vaginally per indication', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Proguanil', synonyms: ['Atovaquone-Proguanil'], brands: ['Malarone', 'Paludrine'], strengths: ['100mg', '250/100mg (with atovaquone)'], forms: ['Tablet'], route: 'Oral', adultDose: 'Prophylaxis (with atovaquone): 1 tablet OD from 1-2 days before to 7 days after travel', paediatricDose: 'Weight-banded paediatric tablets', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Propranolol', brands: ['Ciplar', 'Inderal', 'Betacap'], strengths: ['10mg', '20mg', '40mg', '40mg LA', '80mg LA'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '10-40mg BD-TDS; migraine prophylaxis: 40-160mg/day; portal hypertension: titrated to HR', paediatricDose: '0.5-1mg/kg/day in 2-3 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Pseudoephedrine', brands: ['Sudafed'], strengths: ['30mg', '60mg', '120mg SR'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '60mg q4-6h (max 240mg/day)', paediatricDose: '6-11 years: 30mg q4-6h (avoid under 6 years)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Psyllium Husk', synonyms: ['Ispaghula', 'Isabgol', 'Psyllium'], brands: ['Isogel', 'Naturolax', 'Fybogel'], strengths: ['3.5g/5g sachet'], forms: ['Sachet'], route: 'Oral', adultDose: '1-2 teaspoons (5-10g) in water OD-BD', paediatricDose: '6 years and over: half the adult dose', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'OTC' },
+  { generic: 'Pyrazinamide', brands: ['Pyzina', 'PZA-Ciba'], strengths: ['500mg', '750mg', '1000mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25mg/kg OD (weight-banded FDC under the national TB programme)', paediatricDose: '30-40mg/kg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Pyrimethamine', synonyms: ['Sulfadoxine-Pyrimethamine'], brands: ['Fansidar', 'Laridox', 'Daraprim'], strengths: ['25mg', '500/25mg (with sulfadoxine)'], forms: ['Tablet'], route: 'Oral', adultDose: 'SP in ACT: 1500/75mg single dose; toxoplasmosis: 50-75mg OD with sulfadiazine and folinic acid', paediatricDose: 'SP: weight-banded single dose', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Quetiapine', brands: ['Qutipin', 'Seroquel'], strengths: ['25mg', '50mg', '100mg', '200mg', '300mg'], forms: ['Tablet'], route: 'Oral', adultDose: '25-50mg HS titrated to 300-800mg/day', paediatricDose: '10 years and over: titrated per label', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Quinine', synonyms: ['Quinine Sulfate'], brands: [], strengths: ['300mg', '600mg/2ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '10mg/kg salt TDS for 7 days (with doxycycline or clindamycin)', paediatricDose: '10mg/kg salt TDS', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Rabeprazole', brands: ['Razo', 'Rablet', 'Rabicip'], strengths: ['10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '20mg OD before breakfast', paediatricDose: '12 years and over: 20mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Racecadotril', brands: ['Redotil'], strengths: ['100mg', '10mg sachet', '30mg sachet'], forms: ['Capsule', 'Sachet'], route: 'Oral', adultDose: '100mg TDS', paediatricDose: '1.5mg/kg TDS', renalAdjustment: true, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Raltegravir', brands: ['Isentress'], strengths: ['400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '400mg BD', paediatricDose: 'Weight-banded per label', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ramipril', brands: ['Cardace', 'Ramistar'], strengths: ['1.25mg', '2.5mg', '5mg', '10mg'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '2.5-10mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Ranitidine', brands: ['Rantac', 'Aciloc', 'Zinetac'], strengths: ['150mg', '300mg', '50mg/2ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '150mg BD or 300mg HS (withdrawn in several markets over NDMA impurity)', paediatricDose: '2-4mg/kg BD (max 300mg/day)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Remdesivir', brands: ['Covifor', 'Cipremi', 'Veklury'], strengths: ['100mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '200mg IV on day 1, then 100mg OD for 4 days', paediatricDose: '3.5kg to under 40kg: 5mg/kg on day 1, then 2.5mg/kg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Repaglinide', brands: ['Eurepa', 'Prandin'], strengths: ['0.5mg', '1mg', '2mg'], forms: ['Tablet'], route: 'Oral', adultDose: '0.5-4mg within 15 min before meals (max 16mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ribavirin', brands: ['Copegus'], strengths: ['100mg', '200mg'], forms: ['Capsule', 'Tablet'], route: 'Oral', adultDose: '800-1200mg/day in 2 divided doses by weight, with food', paediatricDose: '15mg/kg/day in 2 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Rifampicin', synonyms: ['Rifampin'], brands: ['R-Cin', 'Rimactane', 'Rifadin'], strengths: ['150mg', '300mg', '450mg', '600mg', '100mg/5ml'], forms: ['Capsule', 'Tablet', 'Syrup'], route: 'Oral', adultDose: '10mg/kg OD (max 600mg), weight-banded FDC under the national TB programme', paediatricDose: '15mg/kg OD (10-20mg/kg, max 600mg)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Risperidone', brands: ['Sizodon', 'Risdone', 'Risperdal'], strengths: ['0.5mg', '1mg', '2mg', '3mg', '4mg', '1mg/ml'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '1-2mg/day titrated to 4-6mg/day', paediatricDose: 'Autism irritability (5 years and over): 0.25-0.5mg/day titrated', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ritonavir', brands: ['Norvir'], strengths: ['100mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Booster: 100mg OD-BD with a protease inhibitor', paediatricDose: 'Booster dose per co-administered protease inhibitor', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Rivaroxaban', brands: ['Xarelto'], strengths: ['2.5mg', '10mg', '15mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'AF: 20mg OD with the evening meal (15mg if CrCl 15-49); VTE: 15mg BD for 21 days then 20mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Rosiglitazone', brands: ['Avandia'], strengths: ['2mg', '4mg'], forms: ['Tablet'], route: 'Oral', adultDose: '4-8mg/day in 1-2 divided doses (avoid in heart failure)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Rosuvastatin', brands: ['Rosuvas', 'Rozavel', 'Crestor'], strengths: ['5mg', '10mg', '20mg', '40mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5-40mg OD (start 5mg in Asian patients)', paediatricDose: '10 years and over (familial hypercholesterolaemia): 5-20mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Roxithromycin', brands: ['Roxid', 'Rulide'], strengths: ['50mg', '150mg', '300mg'], forms: ['Tablet'], route: 'Oral', adultDose: '150mg BD or 300mg OD before meals', paediatricDose: '2.5-4mg/kg BD', renalAdjustment: false, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Salbutamol', synonyms: ['Albuterol'], brands: ['Asthalin', 'Ventolin'], strengths: ['2mg', '4mg', '100mcg/puff', '2.5mg/2.5ml respules', '2mg/5ml'], forms: ['Inhaler', 'Respules', 'Tablet', 'Syrup'], route: 'Inhaled', adultDose: '100-200mcg (1-2 puffs) as needed; nebulised 2.5-5mg q4-6h (continuous in severe asthma)', paediatricDose: '1-2 puffs via spacer as needed; nebulised 2.5mg (under 5 years) to 5mg', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Salmeterol', brands: ['Serevent'], strengths: ['25mcg/puff', '50mcg rotacap'], forms: ['Inhaler'], route: 'Inhaled', adultDose: '50mcg BD, only with an inhaled corticosteroid', paediatricDose: '4 years and over: 50mcg BD with an inhaled corticosteroid', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Saxagliptin', brands: ['Onglyza'], strengths: ['2.5mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5mg OD (2.5mg if eGFR 45 or less)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Secnidazole', brands: ['Secnil'], strengths: ['500mg', '1g', '2g granules'], forms: ['Tablet', 'Sachet'], route: 'Oral', adultDose: '2g single dose', paediatricDose: '30mg/kg single dose', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Semaglutide', brands: ['Ozempic', 'Rybelsus', 'Wegovy'], strengths: ['3mg', '7mg', '14mg', '0.25mg', '0.5mg', '1mg'], forms: ['Tablet', 'Injection'], route: 'SC', adultDose: '0.25mg SC weekly titrated to 1mg weekly; oral 3mg OD titrated to 14mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Senna', synonyms: ['Sennosides'], brands: ['Pursennid'], strengths: ['7.5mg', '8.6mg'], forms: ['Tablet'], route: 'Oral', adultDose: '15-30mg HS', paediatricDose: '2-6 years: 3.75-7.5mg; 6-12 years: 7.5-15mg HS', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Sertraline', brands: ['Serta', 'Daxid', 'Zoloft'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '50mg OD titrated to 200mg', paediatricDose: 'OCD (6-12 years): 25mg OD titrated', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Sildenafil', brands: ['Penegra', 'Manforce', 'Viagra', 'Revatio'], strengths: ['20mg', '25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'ED: 50mg about 1 h before activity (25-100mg, max once daily); PAH: 20mg TDS', paediatricDose: 'PAH: 0.5-1mg/kg TDS (specialist)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Silodosin', brands: ['Silodal', 'Rapaflo', 'Urief'], strengths: ['4mg', '8mg'], forms: ['Capsule'], route: 'Oral', adultDose: '8mg OD with a meal (4mg if CrCl 30-50)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Simvastatin', brands: ['Zocor'], strengths: ['5mg', '10mg', '20mg', '40mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10-40mg at night', paediatricDose: '10 years and over (familial hypercholesterolaemia): 10-40mg at night', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Sitagliptin', brands: ['Januvia'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: '100mg OD (50mg if eGFR 30-44; 25mg below 30)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Sodium Valproate', synonyms: ['Valproic Acid', 'Divalproex', 'Valproate'], brands: ['Valparin', 'Encorate', 'Depakote'], strengths: ['200mg', '300mg CR', '500mg CR', '200mg/5ml', '100mg/ml injection'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '500mg/day titrated to 1-2g/day (20-30mg/kg/day); avoid in women of childbearing potential', paediatricDose: '15-40mg/kg/day in 2 divided doses', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Sofosbuvir', brands: ['Sovaldi', 'Hepcinat'], strengths: ['400mg'], forms: ['Tablet'], route: 'Oral', adultDose: '400mg OD for 12-24 weeks with another direct-acting antiviral', paediatricDose: '3 years and over: weight-banded per label', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Solifenacin', brands: ['Soliten', 'Vesicare'], strengths: ['5mg', '10mg'], forms: ['Tablet'], route: 'Oral', adultDose: '5-10mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Spironolactone', brands: ['Aldactone'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Heart failure: 12.5-50mg OD; ascites: 100-400mg OD', paediatricDose: '1-3mg/kg/day in 1-2 divided doses', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Streptomycin', brands: ['Ambistryn-S'], strengths: ['750mg/vial', '1g/vial'], forms: ['Injection'], route: 'IM', adultDose: '15mg/kg IM OD (max 1g; 750mg over 60 years)', paediatricDose: '20-40mg/kg IM OD (max 1g)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Sucralfate', brands: ['Sucrafil'], strengths: ['1g', '1g/10ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '1g QID before meals and at bedtime', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Sulfasalazine', synonyms: ['Sulphasalazine'], brands: ['Saaz', 'Salazopyrin'], strengths: ['500mg', '1g DS'], forms: ['Tablet'], route: 'Oral', adultDose: 'RA: 500mg OD titrated to 1g BD; UC: 1-2g QID (acute)', paediatricDose: '2 years and over: 40-60mg/kg/day in divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Tacrolimus', brands: ['Pangraf', 'Prograf'], strengths: ['0.5mg', '1mg', '5mg', '0.03% ointment', '0.1% ointment'], forms: ['Capsule', 'Ointment'], route: 'Oral', adultDose: 'Transplant: 0.1-0.2mg/kg/day in 2 divided doses by trough level; topical BD', paediatricDose: 'Transplant: 0.15-0.3mg/kg/day by trough level; topical 0.03% (2 years and over) BD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Tadalafil', brands: ['Tadacip', 'Megalis', 'Cialis'], strengths: ['2.5mg', '5mg', '10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'ED: 10-20mg as needed or 5mg OD; BPH: 5mg OD; PAH: 40mg OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Tamoxifen', brands: ['Mamofen', 'Nolvadex'], strengths: ['10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '20mg OD for 5-10 years', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Tamsulosin', brands: ['Urimax', 'Flomax'], strengths: ['0.2mg', '0.4mg'], forms: ['Capsule'], route: 'Oral', adultDose: '0.4mg OD after the same meal', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Tapentadol', brands: ['Tapal', 'Tydol', 'Nucynta'], strengths: ['50mg', '75mg', '100mg', '50mg ER', '100mg ER'], forms: ['Tablet'], route: 'Oral', adultDose: '50-100mg q4-6h (max 600mg/day)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Teicoplanin', brands: ['Targocid'], strengths: ['200mg/vial', '400mg/vial'], forms: ['Injection'], route: 'IV', adultDose: '6-12mg/kg q12h for 3 doses, then OD', paediatricDose: '10mg/kg q12h for 3 doses, then 6-10mg/kg OD', renalAdjustment: true, hepaticAdjustment: false, schedule: 'H' },
+  { generic: 'Telmisartan', brands: ['Telma', 'Telsar', 'Micardis'], strengths: ['20mg', '40mg', '80mg'], forms: ['Tablet'], route: 'Oral', adultDose: '20-80mg OD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Tenecteplase', brands: ['Elaxim', 'Metalyse'], strengths: ['20mg/vial', '30mg/vial', '40mg/vial'], forms: ['Injection'], route: 'IV', adultDose: 'STEMI: single IV bolus by weight, 30-50mg (0.5mg/kg)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Tenofovir', synonyms: ['Tenofovir Disoproxil Fumarate', 'TDF', 'Tenofovir Alafenamide'], brands: ['Tenvir', 'Viread'], strengths: ['25mg (TAF)', '300mg (TDF)'], forms: ['Tablet'], route: 'Oral', adultDose: 'TDF 300mg OD or TAF 25mg OD', paediatricDose: '2 years and over: TDF 8mg/kg OD (max 300mg)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Terbutaline', brands: ['Bricanyl'], strengths: ['2.5mg', '5mg', '1.5mg/5ml', '0.5mg/ml'], forms: ['Tablet', 'Syrup', 'Injection'], route: 'Oral', adultDose: '2.5-5mg TDS; 0.25mg SC (acute)', paediatricDose: '0.075mg/kg TDS', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Tetracycline', brands: ['Hostacycline', 'Achromycin'], strengths: ['250mg', '500mg', '1% eye ointment'], forms: ['Capsule', 'Ointment'], route: 'Oral', adultDose: '250-500mg QID on an empty stomach', paediatricDose: '8 years and over: 25-50mg/kg/day in 4 divided doses', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Theophylline', synonyms: ['Aminophylline'], brands: ['Unicontin'], strengths: ['100mg', '200mg SR', '300mg SR', '400mg SR', '250mg/10ml aminophylline'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '200-400mg SR BD by level (target 10-20mg/L)', paediatricDose: '10-16mg/kg/day by level', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ticagrelor', brands: ['Brilinta'], strengths: ['60mg', '90mg'], forms: ['Tablet'], route: 'Oral', adultDose: '180mg loading, then 90mg BD (60mg BD after 1 year); aspirin no more than 100mg/day', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Tinidazole', brands: ['Tiniba', 'Fasigyn'], strengths: ['300mg', '500mg', '1g'], forms: ['Tablet'], route: 'Oral', adultDose: '2g single dose, or 2g OD for 3 days (amoebiasis)', paediatricDose: '3 years and over: 50mg/kg single dose (max 2g)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Tiotropium', brands: ['Tiova', 'Spiriva'], strengths: ['9mcg/puff', '18mcg rotacap', '2.5mcg respimat'], forms: ['Inhaler'], route: 'Inhaled', adultDose: '18mcg OD (rotacap) or 5mcg OD (respimat)', paediatricDose: '6 years and over (asthma): 2.5-5mcg OD respimat', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Tobramycin', brands: ['Tobrex'], strengths: ['0.3% eye drops', '40mg/ml', '300mg/5ml nebuliser'], forms: ['Drops', 'Injection', 'Respules'], route: 'Ophthalmic', adultDose: 'Eye: 1-2 drops q4h; systemic: 5-7mg/kg IV OD by level', paediatricDose: 'Eye: as adult; systemic: 7mg/kg OD by level', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Tolterodine', brands: ['Detrusitol'], strengths: ['1mg', '2mg', '4mg SR'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '2mg BD or 4mg SR OD', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Topiramate', brands: ['Topamac', 'Topamax'], strengths: ['25mg', '50mg', '100mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Epilepsy: 25mg titrated to 100-200mg BD; migraine prophylaxis: 25mg titrated to 50mg BD', paediatricDose: '2 years and over: 1-3mg/kg/day titrated to 5-9mg/kg/day', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Torsemide', synonyms: ['Torasemide'], brands: ['Dytor'], strengths: ['5mg', '10mg', '20mg', '100mg', '10mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '5-20mg OD (up to 200mg in renal failure)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Tramadol', brands: ['Contramal', 'Tramazac'], strengths: ['50mg', '100mg SR', '50mg/ml'], forms: ['Capsule', 'Tablet', 'Injection'], route: 'Oral', adultDose: '50-100mg q4-6h (max 400mg/day; 300mg over 75 years)', paediatricDose: '12 years and over: 1-2mg/kg q4-6h (max 100mg per dose)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'NDPS' },
+  { generic: 'Tranexamic Acid', brands: ['Trapic', 'Cyklokapron'], strengths: ['250mg', '500mg', '100mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: 'Menorrhagia: 1-1.5g TDS for up to 5 days; trauma/PPH: 1g IV over 10 min, repeat once if needed', paediatricDose: '15-25mg/kg TDS; trauma: 15mg/kg IV', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Trifluoperazine', brands: [], strengths: ['1mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'Psychosis: 5mg BD titrated; anxiety: 1-2mg BD (max 6mg/day)', paediatricDose: '6 years and over (psychosis): 1mg OD-BD titrated', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Trimethoprim', brands: ['Monotrim'], strengths: ['100mg', '200mg', '50mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: '200mg BD for 3-7 days; prophylaxis 100mg HS', paediatricDose: '4mg/kg BD (max 200mg); prophylaxis 2mg/kg HS', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Ursodeoxycholic Acid', synonyms: ['Ursodiol', 'UDCA'], brands: ['Udiliv', 'Actigall'], strengths: ['150mg', '300mg', '450mg', '125mg/5ml'], forms: ['Tablet', 'Suspension'], route: 'Oral', adultDose: 'Gallstones: 8-12mg/kg/day; PBC: 13-15mg/kg/day in 2-4 divided doses', paediatricDose: 'Cholestasis: 10-20mg/kg/day in 2-3 divided doses', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Valacyclovir', synonyms: ['Valaciclovir'], brands: ['Valcivir', 'Valtrex'], strengths: ['500mg', '1g'], forms: ['Tablet'], route: 'Oral', adultDose: 'Zoster: 1g TDS for 7 days; genital herpes: 1g BD for 7-10 days (first episode)', paediatricDose: 'Chickenpox (2-18 years): 20mg/kg TDS for 5 days (max 1g)', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Valganciclovir', brands: ['Valcyte'], strengths: ['450mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'CMV induction: 900mg BD for 21 days, then 900mg OD', paediatricDose: 'Dose by body surface area and CrCl', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Valsartan', brands: ['Diovan'], strengths: ['40mg', '80mg', '160mg', '320mg'], forms: ['Tablet'], route: 'Oral', adultDose: '80-320mg OD; heart failure: 40mg BD titrated to 160mg BD', paediatricDose: '6 years and over: 1.3mg/kg OD (max 40mg initial)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Vancomycin', brands: ['Vancocin', 'Vancoled'], strengths: ['500mg/vial', '1g/vial', '125mg'], forms: ['Injection', 'Capsule'], route: 'IV', adultDose: '15-20mg/kg q8-12h by trough or AUC; C. difficile: 125mg orally QID for 10 days', paediatricDose: '15mg/kg q6h by level; C. difficile: 10mg/kg orally QID', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Vardenafil', brands: ['Levitra', 'Snovitra'], strengths: ['10mg', '20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '10mg about 1 h before activity (5-20mg, max once daily)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Velpatasvir', synonyms: ['Sofosbuvir-Velpatasvir'], brands: ['Epclusa'], strengths: ['400/100mg (with sofosbuvir)'], forms: ['Tablet'], route: 'Oral', adultDose: '1 tablet (sofosbuvir 400mg/velpatasvir 100mg) OD for 12 weeks', paediatricDose: '3 years and over: weight-banded per label', renalAdjustment: false, hepaticAdjustment: false, schedule: 'H' },
+  { generic: 'Venlafaxine', brands: ['Venlor', 'Effexor'], strengths: ['37.5mg', '75mg', '150mg XR'], forms: ['Tablet', 'Capsule'], route: 'Oral', adultDose: '75mg/day titrated to 225mg/day (XR OD)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Verapamil', brands: ['Calaptin', 'Isoptin'], strengths: ['40mg', '80mg', '120mg SR', '240mg SR', '2.5mg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '80-120mg TDS or 120-240mg SR OD-BD; SVT: 5-10mg IV over 2 min', paediatricDose: '1 year and over, SVT: 0.1-0.3mg/kg IV (specialist)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Vildagliptin', brands: ['Galvus'], strengths: ['50mg', '100mg SR'], forms: ['Tablet'], route: 'Oral', adultDose: '50mg BD (50mg OD if eGFR below 50)', renalAdjustment: true, hepaticAdjustment: true, schedule: 'H' },
+  { generic: 'Vitamin B12', synonyms: ['Cyanocobalamin', 'Methylcobalamin', 'Hydroxocobalamin'], brands: ['Nurokind', 'Methycobal'], strengths: ['500mcg', '1500mcg', '1000mcg/ml'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '1500mcg OD orally; deficiency: 1000mcg IM on alternate days for 1-2 weeks, then monthly', paediatricDose: 'Deficiency: 250-1000mcg IM on alternate days, then monthly', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'A', schedule: 'OTC' },
+  { generic: 'Vitamin B6', synonyms: ['Pyridoxine'], brands: ['Benadon'], strengths: ['10mg', '20mg', '40mg'], forms: ['Tablet'], route: 'Oral', adultDose: 'With isoniazid: 10-25mg OD; deficiency: 50-150mg/day', paediatricDose: 'With isoniazid: 5-10mg OD', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'A', schedule: 'OTC' },
+  { generic: 'Vitamin C', synonyms: ['Ascorbic Acid'], brands: ['Celin', 'Limcee'], strengths: ['100mg', '500mg'], forms: ['Tablet'], route: 'Oral', adultDose: '500mg OD-BD', paediatricDose: '100-300mg/day', renalAdjustment: true, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Vitamin D3', synonyms: ['Cholecalciferol', 'Vitamin D'], brands: ['Uprise-D3', 'Calcirol', 'D-Rise', 'Arachitol'], strengths: ['1000 IU', '60,000 IU', '6 lakh IU/ml'], forms: ['Capsule', 'Sachet', 'Injection', 'Drops'], route: 'Oral', adultDose: 'Deficiency: 60,000 IU weekly for 8 weeks, then monthly; maintenance 1000-2000 IU/day', paediatricDose: 'Infants: 400 IU/day; deficiency: 2000 IU/day or 60,000 IU weekly for 6 weeks (over 1 year)', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Voriconazole', brands: ['Vfend'], strengths: ['50mg', '200mg', '200mg/vial'], forms: ['Tablet', 'Injection'], route: 'Oral', adultDose: '400mg BD on day 1, then 200mg BD orally (6mg/kg then 4mg/kg IV q12h)', paediatricDose: '2-12 years: 9mg/kg IV q12h on day 1, then 8mg/kg q12h', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'D', schedule: 'H' },
+  { generic: 'Warfarin', brands: ['Uniwarfin', 'Coumadin'], strengths: ['1mg', '2mg', '3mg', '5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '2-5mg OD adjusted to INR (target 2-3; 2.5-3.5 for mechanical mitral valves)', paediatricDose: '0.1-0.2mg/kg OD adjusted to INR (specialist)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'X', schedule: 'H' },
+  { generic: 'Xylometazoline', brands: ['Otrivin'], strengths: ['0.1%', '0.05%'], forms: ['Nasal Spray', 'Drops'], route: 'Intranasal', adultDose: '2-3 drops or 1 spray per nostril BD-TDS for up to 5 days', paediatricDose: '2-12 years: 0.05%, 1-2 drops per nostril OD-BD for up to 5 days', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Zafirlukast', brands: ['Accolate'], strengths: ['20mg'], forms: ['Tablet'], route: 'Oral', adultDose: '20mg BD on an empty stomach', paediatricDose: '5-11 years: 10mg BD', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'B', schedule: 'H' },
+  { generic: 'Zanamivir', brands: ['Relenza'], strengths: ['5mg/blister'], forms: ['Inhaler'], route: 'Inhaled', adultDose: '10mg (2 inhalations) BD for 5 days', paediatricDose: '7 years and over: as adult', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Zidovudine', synonyms: ['AZT'], brands: ['Retrovir'], strengths: ['100mg', '300mg', '50mg/5ml'], forms: ['Tablet', 'Capsule', 'Syrup'], route: 'Oral', adultDose: '300mg BD', paediatricDose: 'Infant prophylaxis and treatment: weight-banded per national guidelines', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Zinc Sulfate', synonyms: ['Zinc', 'Zinc Sulphate'], brands: [], strengths: ['10mg/5ml', '20mg dispersible'], forms: ['Tablet', 'Syrup'], route: 'Oral', adultDose: '20-50mg elemental zinc OD', paediatricDose: 'Diarrhoea: under 6 months 10mg OD, 6 months and over 20mg OD, for 14 days', renalAdjustment: false, hepaticAdjustment: false, pregnancyCategory: 'C', schedule: 'OTC' },
+  { generic: 'Ziprasidone', brands: ['Zipsydon', 'Geodon'], strengths: ['20mg', '40mg', '80mg'], forms: ['Capsule'], route: 'Oral', adultDose: '20-80mg BD with food', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H' },
+  { generic: 'Zolpidem', brands: ['Nitrest', 'Zolfresh', 'Stilnoct'], strengths: ['5mg', '10mg', '6.25mg CR', '12.5mg CR'], forms: ['Tablet'], route: 'Oral', adultDose: '5-10mg HS for up to 4 weeks (5mg in women and the elderly)', renalAdjustment: false, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+  { generic: 'Zopiclone', brands: ['Zopicon', 'Imovane'], strengths: ['3.75mg', '7.5mg'], forms: ['Tablet'], route: 'Oral', adultDose: '7.5mg HS for up to 4 weeks (3.75mg in the elderly)', renalAdjustment: true, hepaticAdjustment: true, pregnancyCategory: 'C', schedule: 'H1' },
+];
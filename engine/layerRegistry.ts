@@ -0,0 +1,100 @@
+import { NexusContext, NexusLayer } from './types';
+import { normalizeInput } from './layers/02_inputNormalizer';
+import { scrubPhi } from './layers/03_safetyScrubber';
+import { mapOntology } from './layers/04_ontologyMapper';
+import { queryLlm } from './layers/05_llmInterface';
+import { orchestrateReasoning } from './layers/06_reasoningOrchestrator';
+import { applyClinicalDomainLogic } from './layers/07_clinicalDomain';
+import { runDdxEngine } from './layers/08_ddxEngine';
+import { retrieveKnowledge } from './layers/09_knowledge';
+
+// NEXUS Layer Registry
+// Purpose: Declares the pre-output strata of the workflow as data, so the pipeline can be
+// extended and configured without editing `runNexusWorkflow`.
+//
+// - Custom layers (e.g. a hospital formulary check) are added with `registerLayer`, using an
+//   `order` between the built-ins (e.g. 550 to run after knowledge retrieval).
+// - A PreCodedGpt can skip layers by name through `disabledLayers`; required layers
+//   (PHI scrubbing, the LLM call) cannot be skipped.
+// - Every layer is timed, and its duration or error is written to the audit trail by the
+//   runner, so layers only need to log what they decided.
+//
+// Output composition and guardrails stay outside the registry: they stream to the UI and
+// always run last.
+
+const BUILT_IN_LAYERS: NexusLayer[] = [
+  { name: 'normalizeInput', order: 100, mode: 'sync', enabled: true, required: true, run: normalizeInput },
+  { name: 'scrubPhi', order: 200, mode: 'sync', enabled: true, required: true, run: scrubPhi },
+  { name: 'mapOntology', order: 300, mode: 'sync', enabled: true, run: mapOntology },
+  { name: 'runDdxEngine', order: 400, mode: 'sync', enabled: true, run: runDdxEngine },
+  { name: 'retrieveKnowledge', order: 500, mode: 'sync', enabled: true, run: retrieveKnowledge },
+  { name: 'applyClinicalDomainLogic', order: 600, mode: 'sync', enabled: true, run: applyClinicalDomainLogic },
+  { name: 'orchestrateReasoning', order: 700, mode: 'sync', enabled: true, required: true, run: orchestrateReasoning },
+  { name: 'queryLlm', order: 800, mode: 'async', enabled: true, required: true, run: queryLlm },
+];
+
+const registry = new Map<string, NexusLayer>(BUILT_IN_LAYERS.map(layer => [layer.name, layer]));
+
+// Adds a layer, or replaces a registered layer with the same name.
+export const registerLayer = (layer: NexusLayer): void => {
+  const existing = registry.get(layer.name);
+  if (existing?.required) {
+    throw new Error(`Layer "${layer.name}" is required and cannot be replaced.`);
+  }
+  registry.set(layer.name, layer);
+};
+
+export const unregisterLayer = (name: string): void => {
+  if (registry.get(name)?.required) {
+    throw new Error(`Layer "${name}" is required and cannot be removed.`);
+  }
+  registry.delete(name);
+};
+
+export const setLayerEnabled = (name: string, enabled: boolean): void => {
+  const layer = registry.get(name);
+  if (!layer) return;
+  if (layer.required && !enabled) {
+    throw new Error(`Layer "${name}" is required and cannot be disabled.`);
+  }
+  registry.set(name, { ...layer, enabled });
+};
+
+export const getLayers = (): NexusLayer[] =>
+  [...registry.values()].sort((a, b) => a.order - b.order);
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+export const runLayers = async (context: NexusContext, extraLayers: NexusLayer[] = []): Promise<NexusContext> => {
+  const disabledForGpt = new Set(context.activeGpt?.disabledLayers || []);
+  const layers = [...getLayers(), ...extraLayers].sort((a, b) => a.order - b.order);
+
+  for (const layer of layers) {
+    if (layer.required && disabledForGpt.has(layer.name)) {
+      context.auditTrail.push(`[Layer Registry] ${layer.name} is required; ignoring disable request from ${context.activeGpt?.id}.`);
+    }
+    const skip = !layer.required && (!layer.enabled || disabledForGpt.has(layer.name));
+    if (skip) {
+      context.layerTimings.push({ name: layer.name, status: 'skipped', durationMs: 0 });
+      context.auditTrail.push(`[Layer Registry] ${layer.name} skipped (${layer.enabled ? `disabled for ${context.activeGpt?.id}` : 'disabled'}).`);
+      continue;
+    }
+
+    const start = now();
+    try {
+      context = layer.mode === 'async' ? await layer.run(context) : (layer.run(context) as NexusContext);
+      const durationMs = Math.round((now() - start) * 10) / 10;
+      context.layerTimings.push({ name: layer.name, status: 'ok', durationMs });
+      context.auditTrail.push(`[Layer Registry] ${layer.name} completed in ${durationMs} ms.`);
+    } catch (error: any) {
+      const durationMs = Math.round((now() - start) * 10) / 10;
+      const message = error?.message || String(error);
+      context.layerTimings.push({ name: layer.name, status: 'error', durationMs, error: message });
+      context.auditTrail.push(`[Layer Registry] ${layer.name} failed after ${durationMs} ms: ${message}`);
+      // Optional layers fail open: the rest of the pipeline still runs without their output.
+      if (layer.required) throw error;
+    }
+  }
+
+  return context;
+};
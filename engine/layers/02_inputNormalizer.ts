@@ -1,4 +1,15 @@
-import { NexusContext } from '../types';
+import {
+  NexusContext,
+  ClinicalFindings,
+  DemographicFinding,
+  FindingSource,
+  LabFinding,
+  PatientFact,
+  PatientFactKind,
+  SymptomFinding,
+  VitalSignFinding,
+} from '../types';
+import { convertLabValue, findAnalyte, classifyAgainstRange, toCelsius, toKilograms, parseHeightToCm } from '../../utils/unitConversion';
 
 // Stratum 1: Signal Horizon (Input Normalizer)
 // Purpose: Converts raw user input (typed text, structured fields, or audio) into a
@@ -9,11 +20,351 @@ import { NexusContext } from '../types';
 // - Vitals and labs parser: Reads structured or semi-structured values.
 // - Entity linking: Maps terms to standardized concepts.
 //
-// NOTE: For this prototype, this layer is a pass-through. A production system would
-// implement NLP models for clinical entity and relation extraction.
+// NOTE: This prototype uses a deterministic, lexicon + pattern based extractor rather than
+// an NLP model. Findings are read from the current message and the clinician's earlier
+// turns; when the same vital or lab appears more than once, the most recent value wins.
+// Vitals are stored in SI units and labs carry their SI value (see utils/unitConversion).
+
+// --- Lexicons ---
+
+// Canonical symptom -> surface forms (lowercase). Longer phrases are matched first.
+const SYMPTOM_LEXICON: Record<string, string[]> = {
+  'chest pain': ['chest pain', 'chest discomfort', 'chest tightness', 'angina'],
+  'shortness of breath': ['shortness of breath', 'breathlessness', 'dyspnea', 'dyspnoea', 'sob', 'difficulty breathing'],
+  'fever': ['fever', 'pyrexia', 'febrile'],
+  'cough': ['cough'],
+  'hemoptysis': ['hemoptysis', 'haemoptysis', 'coughing blood'],
+  'headache': ['headache'],
+  'dizziness': ['dizziness', 'giddiness', 'vertigo', 'lightheadedness'],
+  'syncope': ['syncope', 'fainting', 'blackout', 'passed out'],
+  'palpitations': ['palpitations', 'palpitation'],
+  'sweating': ['sweating', 'diaphoresis', 'diaphoretic'],
+  'nausea': ['nausea', 'nauseous'],
+  'vomiting': ['vomiting', 'emesis'],
+  'diarrhea': ['diarrhea', 'diarrhoea', 'loose stools'],
+  'abdominal pain': ['abdominal pain', 'pain abdomen', 'stomach pain', 'epigastric pain'],
+  'back pain': ['back pain'],
+  'joint pain': ['joint pain', 'arthralgia'],
+  'fatigue': ['fatigue', 'tiredness', 'malaise'],
+  'weakness': ['weakness'],
+  'confusion': ['confusion', 'altered sensorium', 'disoriented', 'altered mental status'],
+  'seizure': ['seizure', 'convulsion', 'fits'],
+  'slurred speech': ['slurred speech', 'dysarthria'],
+  'facial droop': ['facial droop', 'facial deviation'],
+  'rash': ['rash', 'hives', 'urticaria'],
+  'itching': ['itching', 'pruritus'],
+  'swelling': ['swelling', 'edema', 'oedema', 'angioedema'],
+  'wheeze': ['wheeze', 'wheezing'],
+  'stridor': ['stridor'],
+  'dysuria': ['dysuria', 'burning micturition'],
+  'jaundice': ['jaundice', 'icterus'],
+  'bleeding': ['bleeding', 'hemorrhage', 'haemorrhage'],
+  'weight loss': ['weight loss'],
+};
+
+// Patient fact -> regex source for its surface forms (matched case-insensitively). The first
+// capture group, when present, is kept as the fact's detail (the drug).
+const PATIENT_FACT_LEXICON: Record<Exclude<PatientFactKind, 'allergy'>, string> = {
+  'pregnancy': 'pregnant|pregnancy|gravida|primigravida|antenatal|g\\d+\\s?p\\d+|\\d+\\s*weeks?\\s*(?:of\\s*)?(?:gestation|pregnant|pog)',
+  'pde5-use': '(sildenafil|tadalafil|vardenafil|viagra|cialis|levitra|penegra|manforce|suhagra|tadacip|megalis|pde-?5 inhibitors?)',
+  'gi-bleed': 'gi bleed(?:ing)?|gastrointestinal bleed(?:ing)?|ugi bleed|melaena|melena|malena|ha?ematemesis|bleeding ulcer|upper gi bleed',
+  'bleeding-disorder': 'bleeding diathesis|coagulopathy|ha?emophilia|thrombocytopenia|on warfarin|on acitrom|on anticoagulants?',
+  'ckd': 'ckd|chronic kidney disease|chronic renal failure|esrd|end[- ]stage renal disease|on dialysis|ha?emodialysis',
+  'liver-disease': 'cirrhosis|chronic liver disease|cld|liver failure|active liver disease|hepatitis',
+  'recent-surgery': 'recent(?:ly)? (?:surgery|operated|operation)|post[- ]?op(?:erative)?|surgery (?:\\d+|a|one|two|few) (?:days?|weeks?) (?:ago|back)|operated (?:\\d+|a|one|two|few) (?:days?|weeks?) (?:ago|back)',
+  'heart-failure': 'heart failure|chf|ccf|lvef\\s*(?:of\\s*)?[1-3]\\d\\s*%|reduced ef',
+  'bradycardia': 'bradycardi[ac]',
+  'heart-block': '(?:complete |2nd degree |second degree |3rd degree |third degree )?(?:heart|av) block|chb',
+};
+
+// "allergic to penicillin", "Allergies: aspirin", "penicillin allergy", "h/o sulfa allergy".
+const ALLERGY_PATTERNS = [
+  /\b(?:allergic|allergy|allergies|hypersensitivity|hypersensitive)\s*:?\s*(?:to\s+)?([a-z][a-z-]+)/gi,
+  /\b([a-z][a-z-]+)\s+(?:allergy|allergic|hypersensitivity)\b/gi,
+];
+const NOT_AN_ALLERGEN = /^(known|drug|drugs|any|severe|no|nil|none|nkda|food|h\/o|history|with|and|or|the|is|has|patient|reaction|reactions)\b/i;
+
+// Canonical analyte -> regex source for its names (matched case-insensitively).
+const LAB_LEXICON: Record<string, string> = {
+  'Hemoglobin': 'h(?:a)?emoglobin|hgb',
+  'HbA1c': 'hba1c|a1c|glycated h(?:a)?emoglobin',
+  'Glucose': 'glucose|blood sugar|sugar|rbs|fbs|ppbs|grbs',
+  'Creatinine': 'creatinine|creat|s\\.?\\s?cr',
+  'Urea': 'urea',
+  'BUN': 'bun|blood urea nitrogen',
+  'Sodium': 'sodium',
+  'Potassium': 'potassium',
+  'Chloride': 'chloride',
+  'Bicarbonate': 'bicarbonate|hco3-?',
+  'Troponin': '(?:hs-?)?trop(?:onin)?(?:\\s?[it])?',
+  'Lactate': 'lactate|lactic acid',
+  'WBC': 'wbc|tlc|white cell count|total leu[ck]ocyte count',
+  'Platelets': 'platelets?|plt',
+  'Bilirubin': '(?:total\\s)?bilirubin|t\\.?\\s?bil',
+  'Cholesterol': '(?:total\\s)?cholesterol',
+  'CRP': 'crp|c-reactive protein',
+  'INR': 'inr',
+};
+
+// Names under 3 letters ("na", "k") are also ordinary words, Hinglish ones included ("khana na
+// 2 din se"), so they only count with a separator ("Na: 132", "K+ 5.8") or an explicit unit.
+const SHORT_LAB_ALIASES: Record<string, string> = {
+  'Hemoglobin': 'hb(?!a1c)',
+  'Sodium': 'na',
+  'Potassium': 'k',
+  'Chloride': 'cl',
+  'Cholesterol': 'tc',
+};
+
+const LAB_UNIT_PATTERN = '(mg\\/dl|mmol\\/l|g\\/dl|g\\/l|meq\\/l|µmol\\/l|umol\\/l|ng\\/ml|ng\\/l|pg\\/ml|mg\\/l|%|\\/mm3|\\/cumm|\\/µl|\\/ul|x\\s?10\\^?9\\/l|lakhs?)';
+
+// --- Helpers ---
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const DURATION_PATTERN = /(?:for|since|x|×|past|last)?\s*(\d+(?:\.\d+)?|a|an|one|two|three|four|five|six|seven)\s*(min(?:ute)?s?|h(?:ou)?rs?|hours?|d(?:ays?)?|w(?:ee)?ks?|weeks?|m(?:on)?ths?|months?|y(?:ea)?rs?|years?)\b(?![\s-]*(?:old|o\b|\/))/i;
+
+const WORD_NUMBERS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+
+const toHours = (amount: number, unit: string): number | undefined => {
+  const u = unit.toLowerCase();
+  if (u.startsWith('mi')) return amount / 60;
+  if (u.startsWith('h')) return amount;
+  if (u.startsWith('d')) return amount * 24;
+  if (u.startsWith('w')) return amount * 24 * 7;
+  if (u.startsWith('m')) return amount * 24 * 30;
+  if (u.startsWith('y')) return amount * 24 * 365;
+  return undefined;
+};
+
+const SEVERITY_TERMS: { pattern: RegExp; severity: SymptomFinding['severity'] }[] = [
+  { pattern: /\b(severe|crushing|excruciating|intense|unbearable|worst)\b/i, severity: 'Severe' },
+  { pattern: /\b(moderate)\b/i, severity: 'Moderate' },
+  { pattern: /\b(mild|slight|minor|low[- ]grade)\b/i, severity: 'Mild' },
+];
+
+const NEGATION_PATTERN = /\b(no|not|denies|denied|without|absent|negative for|nil)\b[^.;,]*$/i;
+
+// True when the text preceding a term (within its clause) negates it.
+export const isNegatedBefore = (before: string): boolean => NEGATION_PATTERN.test(before);
+
+// Splits text into clauses so that duration/severity/negation cues bind to the nearest symptom.
+const splitClauses = (text: string): string[] =>
+  text.split(/[.;\n]|,\s*(?=\D)|\bbut\b/i).map(c => c.trim()).filter(Boolean);
+
+// --- Extractors ---
+
+const extractSymptoms = (text: string, source: FindingSource): SymptomFinding[] => {
+  const found: SymptomFinding[] = [];
+  for (const clause of splitClauses(text)) {
+    const lower = clause.toLowerCase();
+    for (const [term, forms] of Object.entries(SYMPTOM_LEXICON)) {
+      const sorted = [...forms].sort((a, b) => b.length - a.length);
+      for (const form of sorted) {
+        const match = new RegExp(`\\b${escapeRegExp(form)}\\b`, 'i').exec(lower);
+        if (!match) continue;
+
+        const before = lower.slice(0, match.index);
+        const symptom: SymptomFinding = {
+          term,
+          raw: clause.slice(match.index, match.index + form.length),
+          negated: isNegatedBefore(before),
+          source,
+        };
+
+        const severity = SEVERITY_TERMS.find(s => s.pattern.test(clause));
+        if (severity) symptom.severity = severity.severity;
+
+        const duration = DURATION_PATTERN.exec(clause);
+        if (duration) {
+          const amountToken = duration[1].toLowerCase();
+          const amount = WORD_NUMBERS[amountToken] ?? parseFloat(amountToken);
+          symptom.duration = `${duration[1]} ${duration[2]}`;
+          symptom.durationHours = toHours(amount, duration[2]);
+        }
+
+        found.push(symptom);
+        break; // One match per canonical term per clause
+      }
+    }
+  }
+  return found;
+};
+
+const VITAL_SEPARATOR = '\\s*(?:of|is|was|at|:|=|-)?\\s*';
+
+const extractVitals = (text: string, source: FindingSource): VitalSignFinding[] => {
+  const vitals: VitalSignFinding[] = [];
+  const push = (kind: VitalSignFinding['kind'], value: number, unit: string, raw: string, original?: { value: number; unit: string }) => {
+    if (isNaN(value)) return;
+    const vital: VitalSignFinding = { kind, value, unit, raw: raw.trim(), source };
+    if (original && original.unit !== unit) {
+      vital.originalValue = original.value;
+      vital.originalUnit = original.unit;
+    }
+    vitals.push(vital);
+  };
+
+  for (const m of text.matchAll(new RegExp(`\\b(?:bp|blood pressure)${VITAL_SEPARATOR}(\\d{2,3})\\s*\\/\\s*(\\d{2,3})`, 'gi'))) {
+    push('SBP', parseInt(m[1], 10), 'mmHg', m[0]);
+    push('DBP', parseInt(m[2], 10), 'mmHg', m[0]);
+  }
+  for (const m of text.matchAll(new RegExp(`\\b(?:hr|heart rate|pulse(?: rate)?|pr)${VITAL_SEPARATOR}(\\d{2,3})\\b`, 'gi'))) {
+    push('HR', parseInt(m[1], 10), 'bpm', m[0]);
+  }
+  for (const m of text.matchAll(new RegExp(`\\b(?:rr|resp(?:iratory)? rate)${VITAL_SEPARATOR}(\\d{1,2})\\b`, 'gi'))) {
+    push('RR', parseInt(m[1], 10), '/min', m[0]);
+  }
+  for (const m of text.matchAll(new RegExp(`\\b(?:spo2|sp02|sao2|o2 sat(?:uration)?|sats?|saturation)${VITAL_SEPARATOR}(\\d{2,3})\\s*%?`, 'gi'))) {
+    push('SpO2', parseInt(m[1], 10), '%', m[0]);
+  }
+  for (const m of text.matchAll(new RegExp(`\\b(?:temp(?:erature)?|t)${VITAL_SEPARATOR}(\\d{2,3}(?:\\.\\d+)?)\\s*°?\\s*([cf])?\\b`, 'gi'))) {
+    // Bare temperatures above 45 can only be Fahrenheit (handled by toCelsius).
+    const temp = toCelsius(parseFloat(m[1]), m[2] ? `°${m[2]}` : undefined);
+    push('Temp', temp.value, temp.unit, m[0], { value: temp.originalValue, unit: temp.originalUnit });
+  }
+  for (const m of text.matchAll(/\b(?:weight|wt)?\s*(?:of|is|:|=)?\s*(\d{1,3}(?:\.\d+)?)\s*(kgs?|lbs?|pounds?)\b/gi)) {
+    const weight = toKilograms(parseFloat(m[1]), m[2]);
+    push('Weight', weight.value, weight.unit, m[0], { value: weight.originalValue, unit: weight.originalUnit });
+  }
+  for (const m of text.matchAll(/\b(?:height|ht)\s*(?:of|is|:|=)?\s*(\d+(?:\.\d+)?\s*(?:'|ft|feet)\s*(?:\d+(?:\.\d+)?\s*(?:"|''|in(?:ch(?:es)?)?)?)?|\d+(?:\.\d+)?\s*(?:cms?|in(?:ch(?:es)?)?))/gi)) {
+    const cm = parseHeightToCm(m[1]);
+    if (cm !== null) push('Height', cm, 'cm', m[0]);
+  }
+  return vitals;
+};
+
+const LAB_VALUE = '(\\d+(?:\\.\\d+)?)';
+const SHORT_ALIAS_SEPARATOR = `(?:\\s*[:=+-]\\s*|\\s+(?=\\d+(?:\\.\\d+)?\\s*${LAB_UNIT_PATTERN.replace(/^\(/, '(?:')}))`;
+
+const extractLabs = (text: string, source: FindingSource): LabFinding[] => {
+  const labs: LabFinding[] = [];
+  const prefixes = [
+    ...Object.entries(LAB_LEXICON).map(([analyte, names]) => ({ analyte, prefix: `(?:${names})${VITAL_SEPARATOR}` })),
+    ...Object.entries(SHORT_LAB_ALIASES).map(([analyte, names]) => ({ analyte, prefix: `(?:${names})${SHORT_ALIAS_SEPARATOR}` })),
+  ];
+  for (const { analyte, prefix } of prefixes) {
+    const pattern = new RegExp(`(?:^|[^a-z0-9])${prefix}${LAB_VALUE}\\s*${LAB_UNIT_PATTERN}?`, 'gi');
+    for (const m of text.matchAll(pattern)) {
+      const lab: LabFinding = { analyte, value: parseFloat(m[1]), raw: m[0].replace(/^[^a-z0-9]/i, '').trim(), source };
+      if (m[2]) lab.unit = m[2];
+      const si = convertLabValue(analyte, lab.value, lab.unit);
+      const definition = findAnalyte(analyte);
+      if (si && definition) {
+        lab.si = { value: si.value, unit: si.unit, unitAssumed: si.unitAssumed };
+        lab.flag = classifyAgainstRange(si.value, definition.referenceRange);
+      }
+      labs.push(lab);
+    }
+  }
+  return labs;
+};
+
+const extractPatientFacts = (text: string, source: FindingSource): PatientFact[] => {
+  const facts: PatientFact[] = [];
+  for (const clause of splitClauses(text)) {
+    // "NKDA" / "no known allergies" is recorded as a negated allergy.
+    if (/\b(nkda|nkma|no known (?:drug )?allergies|allergies\s*:\s*(?:none|nil|nkda))\b/i.test(clause)) {
+      facts.push({ kind: 'allergy', raw: clause, negated: true, source });
+    }
+    for (const pattern of ALLERGY_PATTERNS) {
+      for (const m of clause.matchAll(pattern)) {
+        const allergen = m[1].toLowerCase().trim();
+        if (NOT_AN_ALLERGEN.test(allergen)) continue;
+        facts.push({ kind: 'allergy', detail: allergen, raw: m[0], negated: isNegatedBefore(clause.slice(0, m.index)), source });
+      }
+    }
+    for (const [kind, forms] of Object.entries(PATIENT_FACT_LEXICON) as [PatientFactKind, string][]) {
+      const m = new RegExp(`(?<![a-z0-9])(?:${forms})(?![a-z])`, 'i').exec(clause);
+      if (!m) continue;
+      facts.push({ kind, detail: m[1]?.toLowerCase(), raw: m[0], negated: isNegatedBefore(clause.slice(0, m.index)), source });
+    }
+  }
+  return facts;
+};
+
+const extractDemographics = (text: string): DemographicFinding => {
+  // Shorthand: "55M", "55 F", "55y/M", "55yo M"
+  // (A trailing F/C after a temperature is a unit, not a sex.)
+  const shorthand = /(?<!(?:temp(?:erature)?|\bt)\s*(?:of|is|:|=)?\s*)\b(\d{1,3})\s*(?:y(?:rs?|o)?\s*\/?\s*)?([MF])\b/.exec(text);
+  if (shorthand) {
+    return { age: parseInt(shorthand[1], 10), sex: shorthand[2] === 'M' ? 'Male' : 'Female', raw: shorthand[0] };
+  }
+
+  const demographics: DemographicFinding = {};
+  const age = /\b(\d{1,3})[\s-]*(?:years?|yrs?|y)[\s-]*(?:\/\s*)?(?:o(?:ld)?\b)?/i.exec(text);
+  if (age) {
+    demographics.age = parseInt(age[1], 10);
+    demographics.raw = age[0].trim();
+  }
+  const sex = /\b(male|man|boy|gentleman|female|woman|girl|lady)\b/i.exec(text);
+  if (sex) {
+    demographics.sex = /^(male|man|boy|gentleman)$/i.test(sex[1]) ? 'Male' : 'Female';
+  }
+  return demographics;
+};
+
+// Later occurrences of the same vital/lab supersede earlier ones.
+const latestBy = <T>(items: T[], key: (item: T) => string): T[] => {
+  const map = new Map<string, T>();
+  for (const item of items) map.set(key(item), item);
+  return [...map.values()];
+};
+
+export const extractFindings = (text: string, source: FindingSource = 'message'): ClinicalFindings => ({
+  demographics: extractDemographics(text),
+  symptoms: extractSymptoms(text, source),
+  vitals: extractVitals(text, source),
+  labs: extractLabs(text, source),
+  facts: extractPatientFacts(text, source),
+});
+
+const mergeFindings = (older: ClinicalFindings, newer: ClinicalFindings): ClinicalFindings => ({
+  demographics: { ...older.demographics, ...newer.demographics },
+  symptoms: latestBy([...older.symptoms, ...newer.symptoms], s => s.term),
+  vitals: latestBy([...older.vitals, ...newer.vitals], v => v.kind),
+  labs: latestBy([...older.labs, ...newer.labs], l => l.analyte),
+  facts: latestBy([...older.facts, ...newer.facts], f => `${f.kind}:${f.detail || ''}`),
+});
+
+export const describeFindings = (findings: ClinicalFindings): string => {
+  const parts: string[] = [];
+  const { age, sex } = findings.demographics;
+  if (age !== undefined || sex) parts.push(`demographics: ${[age !== undefined ? `${age}y` : '', sex || ''].filter(Boolean).join(' ')}`);
+  if (findings.symptoms.length > 0) {
+    parts.push(`symptoms: ${findings.symptoms.map(s => {
+      const qualifiers = [s.severity, s.duration].filter(Boolean).join(', ');
+      return `${s.negated ? 'no ' : ''}${s.term}${qualifiers ? ` (${qualifiers})` : ''}`;
+    }).join('; ')}`);
+  }
+  if (findings.vitals.length > 0) {
+    parts.push(`vitals: ${findings.vitals.map(v =>
+      `${v.kind} ${v.value} ${v.unit}${v.originalUnit ? ` (reported ${v.originalValue} ${v.originalUnit})` : ''}`
+    ).join(', ')}`);
+  }
+  if (findings.labs.length > 0) {
+    parts.push(`labs: ${findings.labs.map(l => {
+      const si = l.si ? ` = ${l.si.value} ${l.si.unit}${l.si.unitAssumed ? ' (unit assumed)' : ''}` : '';
+      return `${l.analyte} ${l.value}${l.unit ? ` ${l.unit}` : ''}${si}${l.flag && l.flag !== 'Normal' ? ` [${l.flag}]` : ''}`;
+    }).join(', ')}`);
+  }
+  if (findings.facts.length > 0) {
+    parts.push(`patient facts: ${findings.facts.map(f => `${f.negated ? 'no ' : ''}${f.kind}${f.detail ? ` (${f.detail})` : ''}`).join('; ')}`);
+  }
+  return parts.length > 0 ? parts.join(' | ') : 'none';
+};
 
 export const normalizeInput = (context: NexusContext): NexusContext => {
-  context.normalizedInput = context.initialMessage; // Simple pass-through for now
-  context.auditTrail.push(`[Stratum 1: Signal Horizon] Normalized input (pass-through): "${context.normalizedInput}"`);
+  context.normalizedInput = context.initialMessage.trim();
+
+  // Earlier clinician turns provide background findings; the current message takes precedence.
+  const historyFindings = context.history
+    .filter(msg => msg.sender === 'USER' && msg.text !== context.initialMessage)
+    .map(msg => extractFindings(msg.text, 'history'));
+  const messageFindings = extractFindings(context.normalizedInput, 'message');
+
+  context.findings = [...historyFindings, messageFindings].reduce(mergeFindings, context.findings);
+
+  context.auditTrail.push(`[Stratum 1: Signal Horizon] Normalized input (${context.normalizedInput.length} chars). Extracted findings: ${describeFindings(context.findings)}`);
   return context;
-};
\ No newline at end of file
+};
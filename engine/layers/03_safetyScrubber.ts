@@ -1,5 +1,4 @@
-// FIX: Replaced incorrect type 'ClinicalWorkflowContext' with the correct exported type 'NexusContext'.
-import { NexusContext } from '../types';
+import { NexusContext, PhiRedactionMap, PhiType } from '../types';
 
 // Layer 03: Safety & PHI Scrubber
 // Purpose: Guarantees data safety and compliance before any reasoning occurs.
@@ -11,10 +10,148 @@ import { NexusContext } from '../types';
 //
 // Why it matters: Essential for HIPAA/GDPR compliance and clinical AI safety certifications.
 //
-// NOTE: For this prototype, this is a placeholder. A production system would use
-// a dedicated PII detection and redaction service.
+// NOTE: This prototype uses a local, rule-based redactor tuned for Indian identifiers.
+// Each distinct identifier is replaced by a stable placeholder (e.g. "[PHONE_1]") in both
+// the current message and the chat history, so the LLM never sees the raw value. The
+// placeholder -> value mapping stays on the context so the Output Composer can
+// re-identify the response for the clinician.
+
+interface PhiRule {
+  type: PhiType;
+  pattern: RegExp;
+  // Capture group holding the identifier; defaults to the whole match.
+  group?: number;
+}
+
+// Order matters: longer numeric identifiers must be consumed before shorter ones.
+const PHI_RULES: PhiRule[] = [
+  // Email addresses and ABHA addresses (e.g. "ramesh.k@abdm")
+  { type: 'ABHA', pattern: /\b[a-z0-9._]{3,}@(?:abdm|sbx)\b/gi },
+  { type: 'EMAIL', pattern: /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/gi },
+  // ABHA number: 14 digits, usually written 12-3456-7890-1234
+  { type: 'ABHA', pattern: /\b\d{2}[-\s]\d{4}[-\s]\d{4}[-\s]\d{4}\b/g },
+  { type: 'ABHA', pattern: /\babha(?:\s*(?:no|number|id))?\.?\s*[:#-]?\s*(\d{14})\b/gi, group: 1 },
+  // Aadhaar: 12 digits, first digit 2-9, optionally grouped 4-4-4
+  { type: 'AADHAAR', pattern: /\b[2-9]\d{3}[-\s]?\d{4}[-\s]?\d{4}\b/g },
+  // Indian mobile numbers with optional +91 / 0 prefix; the prefix may run into the number
+  // ("09876543210"), so the word boundary only applies when there is none
+  { type: 'PHONE', pattern: /(?:\+91[-\s]?|\b0|\b)[6-9]\d{4}[-\s]?\d{5}\b/g },
+  // Hospital identifiers: UHID, MRN, IP/OP numbers, registration/hospital IDs
+  { type: 'HOSPITAL_ID', pattern: /\b(?:uhid|mrn|cr\s?no|ip\s?no|op\s?no|ipd\s?no|opd\s?no|reg(?:istration)?\s?no|hospital\s?id|patient\s?id)\.?\s*[:#-]?\s*([a-z0-9][a-z0-9/-]{3,})/gi, group: 1 },
+  // Addresses introduced by a keyword, up to the end of the clause
+  { type: 'ADDRESS', pattern: /\b(?:address|resident of|residing at|lives at|r\/o)\s*[:-]?\s*([^.;\n]{4,80}?)(?=[.;\n]|,\s*(?:age|aged|\d{1,3}\s*(?:y|yrs?|years?)\b|phone|mob|c\/o)|$)/gi, group: 1 },
+  { type: 'ADDRESS', pattern: /\b(?:pin(?:\s?code)?)\s*[:-]?\s*([1-9]\d{2}\s?\d{3})\b/gi, group: 1 },
+];
+
+// Names are only detected when introduced by an honorific or an explicit "name" label.
+const NAME_PATTERNS: RegExp[] = [
+  /\b(?:Mr|Mrs|Ms|Miss|Master|Shri|Shrimati|Smt|Kumari|Km|Baby)\.?\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/g,
+  /\b(?:[Pp]atient(?:'s)?\s+)?[Nn]ame\s*(?:is|:|-)\s*([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/g,
+  /\b(?:[Pp]atient|[Pp]t\.?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2}),/g,
+];
+
+// Capitalized words that the name patterns may pick up but are never patient names.
+const NAME_STOPWORDS = new Set(['Patient', 'Male', 'Female', 'With', 'Has', 'Complains', 'Presents', 'Known', 'Case']);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const valueKey = (type: PhiType, value: string): string => {
+  const compact = value.toLowerCase().replace(/[^a-z0-9@.]/g, '');
+  // "+91 98765 43210" and "9876543210" are the same phone number.
+  return `${type}:${type === 'PHONE' ? compact.slice(-10) : compact}`;
+};
+
+// Holds the value -> placeholder assignments across every text scrubbed in one request.
+// A redactor created over a map that already has assignments (e.g. by a later layer scrubbing
+// text it adds to the prompt) reuses them, so the same value keeps the same placeholder.
+export const createRedactor = (map: PhiRedactionMap) => {
+  const byValue = new Map<string, string>();
+  for (const [placeholder, value] of Object.entries(map.placeholders)) {
+    const type = placeholder.slice(1, placeholder.lastIndexOf('_')) as PhiType;
+    byValue.set(valueKey(type, value), placeholder);
+  }
+
+  const placeholderFor = (type: PhiType, value: string): string => {
+    const key = valueKey(type, value);
+    const existing = byValue.get(key);
+    if (existing) return existing;
+
+    const count = (map.counts[type] || 0) + 1;
+    map.counts[type] = count;
+    const placeholder = `[${type}_${count}]`;
+    map.placeholders[placeholder] = value;
+    byValue.set(key, placeholder);
+    return placeholder;
+  };
+
+  // Pre-registers patient names so bare later mentions ("Ramesh says...") are caught too.
+  const collectNames = (text: string): void => {
+    for (const pattern of NAME_PATTERNS) {
+      for (const m of text.matchAll(pattern)) {
+        const name = m[1].split(/\s+/).filter(w => !NAME_STOPWORDS.has(w)).join(' ');
+        if (name.length >= 3) placeholderFor('PATIENT', name);
+      }
+    }
+  };
+
+  const scrub = (text: string): string => {
+    let result = text;
+
+    for (const rule of PHI_RULES) {
+      result = result.replace(rule.pattern, (match, ...groups) => {
+        const value = rule.group ? groups[rule.group - 1] : match;
+        if (!value) return match;
+        return match.replace(value, placeholderFor(rule.type, value.trim()));
+      });
+    }
+
+    // Replace the full name first, then any of its individual parts.
+    const names = Object.entries(map.placeholders)
+      .filter(([placeholder]) => placeholder.startsWith('[PATIENT_'))
+      .sort(([, a], [, b]) => b.length - a.length);
+    for (const [placeholder, name] of names) {
+      result = result.replace(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g'), placeholder);
+    }
+    for (const [placeholder, name] of names) {
+      for (const part of name.split(/\s+/).filter(p => p.length >= 3)) {
+        result = result.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, 'g'), placeholder);
+      }
+    }
+
+    return result;
+  };
+
+  return { collectNames, scrub };
+};
+
+// Replaces placeholders in model output with the original identifiers.
+export const reidentify = (text: string, map: PhiRedactionMap): string =>
+  text.replace(/\[([A-Z_]+_\d+)\]/g, (placeholder) => map.placeholders[placeholder] ?? placeholder);
+
+// Splits streamed text into the part that can be re-identified now and a trailing fragment
+// that might be the start of a placeholder split across chunks.
+export const splitPendingPlaceholder = (text: string): [string, string] => {
+  const open = text.lastIndexOf('[');
+  if (open === -1 || text.indexOf(']', open) !== -1 || text.length - open > 20) return [text, ''];
+  return [text.slice(0, open), text.slice(open)];
+};
 
 export const scrubPhi = (context: NexusContext): NexusContext => {
-  context.auditTrail.push('[Safety Scrubber] Skipped (Placeholder).');
+  const redactor = createRedactor(context.phi);
+
+  const texts = [...context.history.map(msg => msg.text), context.normalizedInput];
+  texts.forEach(text => redactor.collectNames(text));
+
+  // The chat's own messages are not mutated; the pipeline works on scrubbed copies.
+  context.history = context.history.map(msg => ({ ...msg, text: redactor.scrub(msg.text) }));
+  context.normalizedInput = redactor.scrub(context.normalizedInput);
+
+  const counts = Object.entries(context.phi.counts);
+  if (counts.length > 0) {
+    const total = counts.reduce((sum, [, n]) => sum + (n || 0), 0);
+    context.auditTrail.push(`[Safety Scrubber] Redacted ${total} identifier(s): ${counts.map(([type, n]) => `${type}×${n}`).join(', ')}.`);
+  } else {
+    context.auditTrail.push('[Safety Scrubber] No identifiers detected.');
+  }
   return context;
-};
\ No newline at end of file
+};
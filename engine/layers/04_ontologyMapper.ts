@@ -1,5 +1,7 @@
-// FIX: Replaced incorrect type 'ClinicalWorkflowContext' with the correct exported type 'NexusContext'.
-import { NexusContext } from '../types';
+import { NexusContext, FindingSource, ResolvedConcept } from '../types';
+import { MedicalCodeResult, OntologyConcept } from '../../types';
+import { CLINICAL_ONTOLOGY } from '../../clinicalOntology';
+import { isNegatedBefore } from './02_inputNormalizer';
 
 // Layer 04: Ontology & Normalization
 // Purpose: Translates human medical language into a standardized ontology (clinical vocabulary).
@@ -11,10 +13,109 @@ import { NexusContext } from '../types';
 //
 // Why it matters: Provides semantic consistency, enabling scalable reasoning and interoperability.
 //
-// NOTE: For this prototype, this is a placeholder. A production system would integrate
-// with a terminology service like the UMLS.
+// NOTE: This prototype resolves phrases against the bundled offline table in
+// `clinicalOntology.ts` (ICD-10, SNOMED CT and ATC codes, with Hinglish/regional synonyms).
+// Symptoms only recognised through a regional synonym are added to the Signal Horizon
+// findings so downstream layers see them too.
+// Unit normalization happens earlier, in the Input Normalizer, via `utils/unitConversion.ts`.
+
+interface SynonymEntry {
+  concept: OntologyConcept;
+  synonym: string;
+  pattern: RegExp;
+}
+
+// Longest synonyms first, so "dil ka daura" wins over "daura".
+const SYNONYM_INDEX: SynonymEntry[] = CLINICAL_ONTOLOGY
+  .flatMap(concept => concept.synonyms.map(synonym => ({
+    concept,
+    synonym,
+    pattern: new RegExp(`(?:^|[^\\p{L}\\p{N}])(${synonym.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})(?=$|[^\\p{L}\\p{N}])`, 'giu'),
+  })))
+  .sort((a, b) => b.synonym.length - a.synonym.length);
+
+const CONCEPTS_BY_ICD10 = new Map(
+  CLINICAL_ONTOLOGY.filter(c => c.icd10).map(c => [c.icd10!.toUpperCase(), c])
+);
+
+export const resolveConcepts = (text: string, source: FindingSource = 'message'): ResolvedConcept[] => {
+  const resolved = new Map<string, ResolvedConcept>();
+  const consumed: [number, number][] = [];
+
+  for (const { concept, pattern } of SYNONYM_INDEX) {
+    for (const m of text.matchAll(pattern)) {
+      const start = m.index! + m[0].length - m[1].length;
+      const end = start + m[1].length;
+      if (consumed.some(([s, e]) => start < e && end > s)) continue;
+      consumed.push([start, end]);
+
+      if (resolved.has(concept.id)) continue;
+      const clauseStart = Math.max(...['.', ';', '\n', ','].map(sep => text.lastIndexOf(sep, start - 1))) + 1;
+      resolved.set(concept.id, {
+        conceptId: concept.id,
+        name: concept.name,
+        category: concept.category,
+        icd10: concept.icd10,
+        snomedCt: concept.snomedCt,
+        atc: concept.atc,
+        matchedText: m[1],
+        negated: isNegatedBefore(text.slice(clauseStart, start)),
+        source,
+      });
+    }
+  }
+  return [...resolved.values()];
+};
+
+export const lookupConceptByIcd10 = (code: string): OntologyConcept | undefined =>
+  CONCEPTS_BY_ICD10.get(code.trim().toUpperCase());
+
+// Replaces model-suggested billing codes with codes from the local table: codes for the
+// concepts resolved in the query come first, and any model code that is not in the table
+// is kept but marked for verification.
+export const groundMedicalCodes = (result: MedicalCodeResult, concepts: ResolvedConcept[]): MedicalCodeResult => {
+  const codes = new Map<string, string>();
+  for (const concept of concepts) {
+    if (concept.icd10 && !concept.negated) codes.set(concept.icd10, concept.name);
+  }
+  for (const code of result.codes || []) {
+    if (!code?.code || codes.has(code.code)) continue;
+    const known = lookupConceptByIcd10(code.code);
+    codes.set(code.code, known ? known.name : `${code.description} (not in local terminology table — verify)`);
+  }
+  return {
+    query: result.query,
+    codes: [...codes.entries()].map(([code, description]) => ({ code, description })),
+  };
+};
 
 export const mapOntology = (context: NexusContext): NexusContext => {
-  context.auditTrail.push('[Ontology Mapper] Skipped (Placeholder).');
+  const userTurns = context.history
+    .filter(msg => msg.sender === 'USER' && msg.text !== context.normalizedInput)
+    .map(msg => resolveConcepts(msg.text, 'history'));
+  const current = resolveConcepts(context.normalizedInput, 'message');
+
+  // The current message takes precedence over earlier turns for the same concept.
+  const byId = new Map<string, ResolvedConcept>();
+  [...userTurns.flat(), ...current].forEach(concept => byId.set(concept.conceptId, concept));
+  context.concepts = [...byId.values()];
+
+  // Entity linking: surface regional symptom phrases as Signal Horizon findings.
+  for (const concept of context.concepts.filter(c => c.category === 'symptom')) {
+    const term = concept.name.toLowerCase();
+    if (!context.findings.symptoms.some(s => s.term === term)) {
+      context.findings.symptoms.push({ term, raw: concept.matchedText, negated: concept.negated, source: concept.source });
+    }
+  }
+
+  if (context.concepts.length > 0) {
+    const summary = context.concepts.map(c => {
+      const code = c.icd10 ? `ICD-10 ${c.icd10}` : c.atc ? `ATC ${c.atc}` : 'uncoded';
+      return `${c.negated ? 'no ' : ''}${c.name} (${code}) ← "${c.matchedText}"`;
+    }).join('; ');
+    context.auditTrail.push(`[Ontology Mapper] Resolved ${context.concepts.length} concept(s): ${summary}`);
+  } else {
+    context.auditTrail.push('[Ontology Mapper] No terminology concepts resolved.');
+  }
   return context;
-};
\ No newline at end of file
+};
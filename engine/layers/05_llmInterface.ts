@@ -6,22 +6,29 @@ import { constructLlmContent } from './06_reasoningOrchestrator';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+const MODEL = 'gemini-3-flash-preview'; // FIX: Using Gemini 3 for complex clinical reasoning
+
 // Layer 05: Foundational LLM Interface (Reasoning Runtime)
 export const queryLlm = async (context: NexusContext): Promise<NexusContext> => {
   
   const contents = constructLlmContent(context);
+  context.model = MODEL;
   
   try {
     const responseStream = await ai.models.generateContentStream({
-      model: 'gemini-3-flash-preview', // FIX: Using Gemini 3 for complex clinical reasoning
+      model: MODEL,
       contents: contents,
       config: {
         systemInstruction: context.systemInstruction,
+        ...(context.responseFormat && {
+          responseMimeType: 'application/json',
+          responseSchema: context.responseFormat.schema,
+        }),
       },
     });
 
     context.llmResponseStream = responseStream;
-    context.auditTrail.push('[LLM Interface] Started streaming response from Gemini.');
+    context.auditTrail.push(`[LLM Interface] Started streaming response from Gemini${context.responseFormat ? ` in JSON mode (${context.responseFormat.type} schema)` : ''}.`);
   } catch (error: any) {
     console.error('Error streaming chat response:', error);
     context.auditTrail.push(`[LLM Interface] ERROR: ${error.message}`);
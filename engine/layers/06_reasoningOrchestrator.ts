@@ -1,4 +1,10 @@
 import { NexusContext } from '../types';
+import { describeFindings } from './02_inputNormalizer';
+import { describeDifferential } from './08_ddxEngine';
+import { evaluateEscalations } from './10_guardrails';
+import { createRedactor } from './03_safetyScrubber';
+import { resolvePrescriberScope } from '../../services/prescriberScope';
+import { describePatientContext, hasPatientHistory, summarizePatientContext } from '../../services/patientContext';
 
 // Layer 06: Custom Reasoning Layer (Orchestration)
 // This layer constructs the master system prompt that instructs the LLM to act
@@ -48,15 +54,72 @@ For every clinical query, you MUST execute the NEXUS reasoning architecture thro
 -   **Output**: Structure your response clearly using Markdown. Your final, user-facing answer should be concise and actionable, but your internal monologue (chain-of-thought) MUST precede it, demonstrating the full NEXUS process. If a Clinical Protocol is provided, you MUST ground your reasoning in it.
   `;
 
+  const { demographics, symptoms, vitals, labs, facts } = context.findings;
+  if (demographics.age !== undefined || demographics.sex || symptoms.length > 0 || vitals.length > 0 || labs.length > 0 || facts.length > 0) {
+    systemInstruction += `\n\n# EXTRACTED FINDINGS (Signal Horizon)
+The following findings were parsed deterministically from the clinician's input. Use them as your Stratum 1 Phenomarkers and Biometric Streams, and flag any you believe were misread.
+${describeFindings(context.findings)}`;
+  }
+
+  if (context.patientContext) {
+    // The record is added after the PHI scrubber has run, so it is scrubbed here with the same
+    // placeholder map; the Output Composer then re-identifies it like the rest of the response.
+    const record = createRedactor(context.phi).scrub(describePatientContext(context.patientContext));
+    systemInstruction += `\n\n# PATIENT RECORD (Longitudinal Context)
+This conversation is attached to a registered patient. The facts below come from the patient registry and their earlier encounters, not from this conversation; each is followed by where and when it was recorded. Use them as Stratum 1 Contextual Matrices, weigh older results accordingly, and prefer the conversation where the two disagree. Check every drug you recommend against the allergies and the active medications, and name any interaction you find.
+${record}`;
+    context.auditTrail.push(hasPatientHistory(context.patientContext)
+      ? `[NEXUS Orchestrator] Included the patient record (${context.patientContext.patientId}): ${summarizePatientContext(context.patientContext)}.`
+      : `[NEXUS Orchestrator] Patient ${context.patientContext.patientId} has no recorded history yet.`);
+  }
+
+  if (context.concepts.length > 0) {
+    systemInstruction += `\n\n# STANDARDIZED CONCEPTS (Ontology Mapper)
+These concepts were resolved from the local terminology table. When you cite diagnosis or billing codes, use these ICD-10 codes rather than inventing new ones.
+${context.concepts.map(c => `- ${c.negated ? '[NEGATED] ' : ''}${c.name} [${c.category}]${c.icd10 ? ` ICD-10 ${c.icd10}` : ''}${c.snomedCt ? `, SNOMED CT ${c.snomedCt}` : ''}${c.atc ? ` ATC ${c.atc}` : ''}`).join('\n')}`;
+  }
+
+  if (context.ddx.length > 0) {
+    systemInstruction += `\n\n# COMPUTED DIFFERENTIAL (Hypothesis Forge)
+The local DDx engine scored the findings above against a disease/likelihood-ratio table. Use these post-test probabilities as the starting point of your Stratum 3 PreTestLikelihood and PostTestBelief. You may add diagnoses or re-rank, but state explicitly where and why you diverge from this list, and never drop a MUST-NOT-MISS item without giving the finding that rules it out.
+${describeDifferential(context.ddx)}`;
+  }
+
   if (context.activeProtocols.length > 0) {
-    const protocol = context.activeProtocols[0];
-    systemInstruction += `\n\n# ACTIVE CLINICAL PROTOCOL
-You MUST ground your reasoning in the following evidence-based protocol. Do not add information not present in this JSON.
+    systemInstruction += `\n\n# ACTIVE CLINICAL PROTOCOLS
+You MUST ground your reasoning in the following evidence-based protocols, listed most relevant first. Do not add information not present in this JSON. When protocols overlap, follow the most relevant one and name the protocol ID for every recommendation you take from it.`;
+    context.activeProtocols.forEach((protocol, i) => {
+      const match = context.protocolMatches[i];
+      const relevance = match ? match.reason : 'n/a';
+      systemInstruction += `\n\n## Protocol ${i + 1} (${relevance})
 - **Protocol ID**: ${protocol.id}
 - **Title**: "${protocol.title}"
 - **Protocol JSON**: ${JSON.stringify(protocol)}`;
+    });
+  }
+
+  const alerts = evaluateEscalations(context.findings, context.activeProtocols);
+  if (alerts.length > 0) {
+    systemInstruction += `\n\n# TRIGGERED PROTOCOL ALERTS
+The documented vitals and labs meet these protocol triggers. Address each one first, with its prescribed action, before the rest of your answer.
+${alerts.map(a => `- [${a.protocolId}] ${a.condition} (${a.evidence}): ${a.action}`).join('\n')}`;
   }
   
+  const { scope, policy } = resolvePrescriberScope(context.doctorProfile);
+  if (scope !== 'yes') {
+    const { qualification, practiceState } = context.doctorProfile;
+    systemInstruction += `\n\n# PRESCRIBER SCOPE
+The clinician is a ${qualification} practitioner${practiceState ? ` registered in ${practiceState}` : ''}. ${policy.basis}
+${scope === 'limited'
+  ? `They may prescribe only these allopathic drugs: ${policy.permittedDrugs.join(', ')}. For any other allopathic drug, recommend referral to an MBBS practitioner instead of giving a dose.`
+  : 'Do NOT recommend allopathic drugs for them to prescribe. Where allopathic treatment is indicated, recommend referral to an MBBS practitioner (or emergency transfer) and say what the referral is for.'}`;
+  }
+
+  if (!context.isDoctorVerified) {
+    systemInstruction += `\n\n# CONTROLLED SUBSTANCES
+The clinician's medical license has not been verified. You may name NDPS Act, Schedule H1 and Schedule X drugs (e.g. opioids, benzodiazepines, restricted antibiotics) where indicated, but do NOT give their doses; state that dosing is available once the license is verified.`;
+  }
+
   // The clinical domain logic is already appended to context.systemInstruction
   context.systemInstruction = systemInstruction + context.systemInstruction;
   context.auditTrail.push('[NEXUS Orchestrator] Constructed full system instruction for NEXUS framework.');
@@ -64,12 +127,13 @@ You MUST ground your reasoning in the following evidence-based protocol. Do not
   return context;
 };
 
-// This function remains to construct the chat history for the LLM
+// This function remains to construct the chat history for the LLM.
+// It only uses the PHI-scrubbed history and input, never the raw message.
 export const constructLlmContent = (context: NexusContext): any[] => {
     const contents = context.history.map((msg) => ({
       role: msg.sender === 'USER' ? 'user' : 'model',
       parts: [{ text: msg.text }],
     }));
-    contents.push({ role: 'user', parts: [{ text: context.initialMessage }] });
+    contents.push({ role: 'user', parts: [{ text: context.normalizedInput }] });
     return contents;
 }
\ No newline at end of file
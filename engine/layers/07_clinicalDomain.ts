@@ -1,9 +1,87 @@
 
+import { Schema, Type } from '@google/genai';
 import { NexusContext } from '../types';
+import { DdxItem, LabParameter, LabResultAnalysis, PreCodedGpt, RiskAssessmentResult, StructuredDataType } from '../../types';
 
 // Part of Stratum 3: Hypothesis Forge (Contextual Priors)
 // Purpose: Encapsulates the medical intelligence — diagnostic frameworks, rules, and specialty-specific knowledge.
 // This layer helps set the initial probabilities and context for the reasoning process.
+//
+// NOTE: GPT modes with a custom component get their answer as JSON through Gemini's
+// responseSchema rather than a prompt-only request for a ```json block. The schemas below
+// mirror the payload types in types.ts; the Output Composer still validates what comes back
+// (utils/structuredData.ts), since a schema constrains the shape but not the clinical content.
+
+// Object schemas are keyed by the fields of the type they describe, so renaming a field in
+// types.ts fails to compile here rather than drifting from what the model is asked for.
+const objectSchema = <T>(properties: { [K in keyof T]?: Schema }, required: (keyof T & string)[]): Schema => ({
+  type: Type.OBJECT,
+  properties: properties as Record<string, Schema>,
+  required,
+  propertyOrdering: Object.keys(properties),
+});
+
+const text: Schema = { type: Type.STRING };
+const textList: Schema = { type: Type.ARRAY, items: text };
+const oneOf = (values: string[]): Schema => ({ type: Type.STRING, enum: values });
+
+const CONFIDENCE: DdxItem['confidence'][] = ['High', 'Medium', 'Low'];
+const URGENCY: LabParameter['urgency'][] = ['Normal', 'Abnormal', 'Critical'];
+const RISK_LEVEL: RiskAssessmentResult['riskLevel'][] = ['Low', 'Medium', 'High'];
+
+// Probability, must-not-miss and ICD-10 come from the local DDx engine, not the model.
+const DDX_ITEM = objectSchema<DdxItem>({
+  diagnosis: text,
+  rationale: text,
+  confidence: oneOf(CONFIDENCE),
+}, ['diagnosis', 'rationale', 'confidence']);
+
+const LAB_ANALYSIS = objectSchema<LabResultAnalysis>({
+  overallInterpretation: text,
+  results: {
+    type: Type.ARRAY,
+    items: objectSchema<LabParameter>({
+      parameter: text,
+      value: text,
+      referenceRange: text,
+      interpretation: text,
+      urgency: oneOf(URGENCY),
+    }, ['parameter', 'value', 'referenceRange', 'interpretation', 'urgency']),
+  },
+}, ['overallInterpretation', 'results']);
+
+// Scores are computed locally by the triage form, not by the model.
+const RISK_ASSESSMENT = objectSchema<RiskAssessmentResult>({
+  riskLevel: oneOf(RISK_LEVEL),
+  riskFactors: textList,
+  recommendations: textList,
+  summary: text,
+}, ['riskLevel', 'riskFactors', 'recommendations', 'summary']);
+
+type Payload<T extends StructuredDataType['type']> = Extract<StructuredDataType, { type: T }>;
+
+const STRUCTURED_OUTPUTS: Record<NonNullable<PreCodedGpt['customComponentId']>, { type: StructuredDataType['type']; schema: Schema; instruction: string }> = {
+  LabResultAnalysis: {
+    type: 'lab',
+    schema: objectSchema<Payload<'lab'>>({ type: oneOf(['lab']), data: LAB_ANALYSIS, summary: text }, ['type', 'data', 'summary']),
+    instruction: 'Field "data": the LabResultAnalysis (overallInterpretation, results array with an urgency for every parameter).',
+  },
+  PregnancyRiskAssessment: {
+    type: 'risk-assessment',
+    schema: objectSchema<Payload<'risk-assessment'>>({ type: oneOf(['risk-assessment']), data: RISK_ASSESSMENT, summary: text }, ['type', 'data', 'summary']),
+    instruction: 'Field "data": the RiskAssessmentResult (riskLevel, riskFactors, recommendations, summary).',
+  },
+  DifferentialDiagnosis: {
+    type: 'ddx',
+    schema: objectSchema<Payload<'ddx'>>({
+      type: oneOf(['ddx']),
+      data: { type: Type.ARRAY, items: DDX_ITEM },
+      summary: text,
+      questions: textList,
+    }, ['type', 'data', 'summary']),
+    instruction: 'Field "data": the ranked differential (diagnosis, rationale, confidence), most likely first. Field "questions": follow-up questions that would best separate the leading diagnoses.',
+  },
+};
 
 export const applyClinicalDomainLogic = (context: NexusContext): NexusContext => {
   let domainInstruction = '';
@@ -15,20 +93,13 @@ This is a specialized session for: "${context.activeGpt.title}".
 - **Description**: "${context.activeGpt.description}".
 - **Instruction**: Focus your reasoning and response entirely within this specific clinical domain.`;
     
-    if (context.activeGpt.customComponentId) {
-       domainInstruction += `\n- **Output Format**: CRITICAL - Your response for this query MUST be in a structured JSON format inside a markdown block (\`\`\`json ... \`\`\`). \n- **IMPORTANT**: Do NOT provide any conversational text or preamble before the JSON block. Start your response immediately with \`\`\`json.\nThe JSON must contain a 'summary' field (string) and a 'type' field.`
-
-       if (context.activeGpt.customComponentId === 'LabResultAnalysis') {
-            domainInstruction += `
-            Set "type" to "lab".
-            Field "data": Object matching LabResultAnalysis interface (overallInterpretation, results array).
-            `;
-       } else if (context.activeGpt.customComponentId === 'PregnancyRiskAssessment') {
-            domainInstruction += `
-            Set "type" to "risk-assessment".
-            Field "data": Object matching RiskAssessmentResult interface (riskLevel, riskFactors, recommendations).
+    const structuredOutput = context.activeGpt.customComponentId && STRUCTURED_OUTPUTS[context.activeGpt.customComponentId];
+    if (structuredOutput) {
+       context.responseFormat = { type: structuredOutput.type, schema: structuredOutput.schema };
+       domainInstruction += `\n- **Output Format**: CRITICAL - Your response for this query is returned as JSON matching the provided response schema, with "type" set to "${structuredOutput.type}", a "summary" field (string) and a "data" field. Reason through the NEXUS strata internally; do NOT write out your chain of thought or any conversational text.
+            ${structuredOutput.instruction}
             `;
-       }
+       context.auditTrail.push(`[Stratum 3: Hypothesis Forge] Requested ${structuredOutput.type} output with a response schema.`);
     }
   }
 
@@ -1,4 +1,7 @@
-import { NexusContext } from '../types';
+import { NexusContext, ClinicalFindings, LabFinding } from '../types';
+import { DdxItem, DdxDiseaseProfile } from '../../types';
+import { DDX_DISEASE_PROFILES } from '../../ddxKnowledge';
+import { CLINICAL_ONTOLOGY } from '../../clinicalOntology';
 
 // Part of Stratum 3: Hypothesis Forge (Probabilistic Updating)
 // Purpose: The mathematical heart — converts clinical features into ranked diagnostic possibilities.
@@ -9,10 +12,172 @@ import { NexusContext } from '../types';
 // - Constraint Solver: Applies hard filters (e.g., age, sex, epidemiology, drug interactions).
 // - Ranker: Combines probability, clinical risk, and actionability.
 //
-// NOTE: For this prototype, the complex algorithmic logic of a true DDx engine
-// is simulated by the Foundational LLM, guided by instructions from the Orchestration Layer.
+// NOTE: This prototype scores the disease/finding table in `ddxKnowledge.ts` against the
+// Signal Horizon findings. Findings are treated as conditionally independent (naive Bayes),
+// so post-test probabilities are indicative rather than calibrated. Each disease is scored
+// on its own; probabilities are not normalized across the list. The ranked list is handed
+// to the Orchestrator as a grounding block and returned to the UI next to the model's ranking.
+
+// A finding the engine can reason with: present, or documented absent, plus the text it came from.
+interface FindingState {
+  present: boolean;
+  evidence: string;
+}
+
+const MAX_ITEMS = 6;
+// Must-not-miss diagnoses above this probability are kept even if they fall outside the top list.
+const MUST_NOT_MISS_THRESHOLD = 0.02;
+
+// Context-only findings: they adjust probabilities but never raise a candidate on their own.
+const CONTEXT_FINDINGS = new Set(['age over 50']);
+
+const CONCEPTS_BY_ID = new Map(CLINICAL_ONTOLOGY.map(c => [c.id, c]));
+
+const latestLab = (findings: ClinicalFindings, analyte: string): LabFinding | undefined =>
+  findings.labs.filter(l => l.analyte === analyte).pop();
+
+// Troponin is reported in ng/mL (conventional) or ng/L (high-sensitivity assays).
+const isTroponinElevated = (lab: LabFinding): boolean => {
+  const unit = (lab.unit || '').toLowerCase();
+  const highSensitivity = unit === 'ng/l' || unit === 'pg/ml' || (!unit && lab.value >= 1);
+  return lab.value > (highSensitivity ? 14 : 0.04);
+};
+
+// Counts written as cells/µL or lakhs are brought to ×10³/µL.
+const toThousandsPerMicrolitre = (value: number): number =>
+  value > 2000 ? value / 1000 : value < 10 ? value * 100 : value;
+
+// Builds the finding map from symptoms, then overlays derived findings from vitals and labs.
+// Objective measurements win over a conflicting symptom statement.
+export const evaluateFindings = (findings: ClinicalFindings): Map<string, FindingState> => {
+  const state = new Map<string, FindingState>();
+  const set = (key: string, present: boolean, evidence: string) => state.set(key, { present, evidence });
+
+  for (const s of findings.symptoms) {
+    set(s.term, !s.negated, s.negated ? `no ${s.term}` : s.term);
+  }
+
+  for (const v of findings.vitals) {
+    const reading = `${v.kind} ${v.value} ${v.unit}`;
+    switch (v.kind) {
+      case 'SBP':
+        if (v.value < 90) set('hypotension', true, reading);
+        else if (v.value >= 100) set('hypotension', false, reading);
+        break;
+      case 'HR':
+        set('tachycardia', v.value > 100, reading);
+        break;
+      case 'RR':
+        if (v.value >= 22) set('tachypnea', true, reading);
+        else if (v.value <= 20) set('tachypnea', false, reading);
+        break;
+      case 'SpO2':
+        if (v.value < 94) set('hypoxia', true, reading);
+        else if (v.value >= 95) set('hypoxia', false, reading);
+        break;
+      case 'Temp':
+        if (v.value >= 38) set('fever', true, reading);
+        else if (v.value < 37.5 && !state.get('fever')?.present) set('fever', false, reading);
+        break;
+    }
+  }
+
+  const troponin = latestLab(findings, 'Troponin');
+  if (troponin) set('troponin elevated', isTroponinElevated(troponin), troponin.raw);
+
+  const wbc = latestLab(findings, 'WBC');
+  if (wbc) set('leukocytosis', toThousandsPerMicrolitre(wbc.value) > 11, wbc.raw);
+
+  const platelets = latestLab(findings, 'Platelets');
+  if (platelets) set('thrombocytopenia', toThousandsPerMicrolitre(platelets.value) < 150, platelets.raw);
+
+  const lactate = latestLab(findings, 'Lactate');
+  if (lactate?.si) set('lactate elevated', lactate.si.value > 2, lactate.raw);
+
+  const glucose = latestLab(findings, 'Glucose');
+  if (glucose?.si) {
+    if (glucose.si.value > 13.9) set('hyperglycemia', true, glucose.raw);
+    else if (glucose.si.value <= 11.1) set('hyperglycemia', false, glucose.raw);
+    set('hypoglycemia', glucose.si.value < 3.9, glucose.raw);
+  }
+
+  const flagged: [string, string, 'Low' | 'High'][] = [
+    ['Hemoglobin', 'low hemoglobin', 'Low'],
+    ['Creatinine', 'raised creatinine', 'High'],
+    ['Bilirubin', 'raised bilirubin', 'High'],
+  ];
+  for (const [analyte, key, direction] of flagged) {
+    const lab = latestLab(findings, analyte);
+    if (lab?.flag) set(key, lab.flag === direction, lab.raw);
+  }
+
+  const { age } = findings.demographics;
+  if (age !== undefined) set('age over 50', age > 50, `age ${age}`);
+
+  return state;
+};
+
+const passesConstraints = (profile: DdxDiseaseProfile, findings: ClinicalFindings): boolean => {
+  const { age, sex } = findings.demographics;
+  if (age !== undefined && profile.ageMin !== undefined && age < profile.ageMin) return false;
+  if (age !== undefined && profile.ageMax !== undefined && age > profile.ageMax) return false;
+  if (sex && profile.sex && sex !== profile.sex) return false;
+  return true;
+};
+
+const toConfidence = (probability: number): DdxItem['confidence'] =>
+  probability >= 0.5 ? 'High' : probability >= 0.15 ? 'Medium' : 'Low';
+
+const formatLr = (lr: number) => (lr >= 10 ? lr.toFixed(0) : lr.toFixed(1));
+
+export const computeDifferential = (findings: ClinicalFindings): DdxItem[] => {
+  const state = evaluateFindings(findings);
+
+  const scored = DDX_DISEASE_PROFILES
+    .filter(profile => passesConstraints(profile, findings))
+    // Hypothesis generation: a disease is only a candidate if a supporting finding is present.
+    .filter(profile => profile.findings.some(f => f.lrPositive > 1 && !CONTEXT_FINDINGS.has(f.finding) && state.get(f.finding)?.present))
+    .map(profile => {
+      let odds = profile.prior / (1 - profile.prior);
+      const evidence: string[] = [];
+      for (const f of profile.findings) {
+        const observed = state.get(f.finding);
+        if (!observed) continue;
+        const lr = observed.present ? f.lrPositive : f.lrNegative;
+        odds *= lr;
+        evidence.push(`${observed.evidence} (LR ${formatLr(lr)})`);
+      }
+      const probability = odds / (1 + odds);
+      const concept = CONCEPTS_BY_ID.get(profile.conceptId);
+      const item: DdxItem = {
+        diagnosis: concept?.name || profile.conceptId,
+        rationale: `Prior ${(profile.prior * 100).toFixed(1)}% → ${(probability * 100).toFixed(1)}%. Evidence: ${evidence.join('; ')}.`,
+        confidence: toConfidence(probability),
+        probability: Math.round(probability * 1000) / 1000,
+        mustNotMiss: profile.mustNotMiss,
+        icd10: concept?.icd10,
+      };
+      return item;
+    })
+    .sort((a, b) => b.probability! - a.probability!);
+
+  const top = scored.slice(0, MAX_ITEMS);
+  const keptMustNotMiss = scored.slice(MAX_ITEMS).filter(i => i.mustNotMiss && i.probability! >= MUST_NOT_MISS_THRESHOLD);
+  return [...top, ...keptMustNotMiss];
+};
+
+export const describeDifferential = (items: DdxItem[]): string =>
+  items.map((item, i) =>
+    `${i + 1}. ${item.diagnosis}${item.icd10 ? ` (ICD-10 ${item.icd10})` : ''} — ${((item.probability || 0) * 100).toFixed(1)}%${item.mustNotMiss ? ' [MUST-NOT-MISS]' : ''}. ${item.rationale}`
+  ).join('\n');
 
 export const runDdxEngine = (context: NexusContext): NexusContext => {
-  context.auditTrail.push('[Stratum 3: Hypothesis Forge] DDx Engine simulated by LLM Orchestrator.');
+  context.ddx = computeDifferential(context.findings);
+  if (context.ddx.length > 0) {
+    const summary = context.ddx.map(i => `${i.diagnosis} ${((i.probability || 0) * 100).toFixed(1)}%${i.mustNotMiss ? '*' : ''}`).join(', ');
+    context.auditTrail.push(`[Stratum 3: Hypothesis Forge] DDx Engine ranked ${context.ddx.length} candidate(s): ${summary} (* must-not-miss).`);
+  } else {
+    context.auditTrail.push('[Stratum 3: Hypothesis Forge] DDx Engine found no candidate diagnoses in the findings table.');
+  }
   return context;
-};
\ No newline at end of file
+};
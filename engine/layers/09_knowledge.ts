@@ -1,4 +1,5 @@
-import { NexusContext } from '../types';
+import { NexusContext, ProtocolMatch } from '../types';
+import { ClinicalProtocol, ChatProtocolState } from '../../types';
 
 // Part of Stratum 3: Hypothesis Forge (Evidence Retrieval)
 // Purpose: The dynamic library — provides real-world data and medical guidelines that feed into reasoning.
@@ -7,27 +8,230 @@ import { NexusContext } from '../types';
 // - Guideline fetch: Pulls evidence from Clinical Practice Guidelines (CPGs).
 // - Local protocols: Integrates hospital- or country-specific practices.
 //
-// NOTE: This prototype implementation performs a simple keyword search over the in-memory
-// knowledge base to find relevant protocols.
+// NOTE: This prototype ranks the in-memory knowledge base with BM25 over the protocol title,
+// `use_if_conditions`, preconditions, step actions and drug/brand names. Fields are weighted
+// by repeating their terms, and the query is expanded with the concept names resolved by the
+// Ontology Mapper and the leading DDx engine hypotheses. An explicit protocol ID in the
+// message always wins.
+//
+// Retrieval is conversation-aware: protocols active on earlier turns (persisted on the Chat)
+// are carried forward with a decaying weight, and the last few user turns are searched at a
+// discount, so "what dose of clopidogrel?" after "55M with crushing chest pain" keeps the ACS
+// protocol. A carried protocol drops off once its weight falls below MIN_SCORE or it has gone
+// MAX_CARRY_TURNS turns without a fresh match.
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TOP_K = 3;
+// Protocols scoring below this fraction of the best match are dropped as noise.
+const RELATIVE_CUTOFF = 0.35;
+const MIN_SCORE = 1.0;
+// DDx hypotheses at or above this probability are added to the query.
+const DDX_EXPANSION_THRESHOLD = 0.1;
+// Weight multiplier per turn for a protocol that was not matched again.
+const CARRY_DECAY = 0.6;
+const MAX_CARRY_TURNS = 3;
+// Recent user turns searched, and the discount applied to their scores.
+const HISTORY_TURNS = 3;
+const HISTORY_DISCOUNT = 0.5;
+
+const FIELD_WEIGHTS = {
+  title: 3,
+  conditions: 2,
+  drugs: 2,
+  preconditions: 1,
+  actions: 1,
+};
+
+// Generic English plus words that appear in every protocol and carry no signal.
+const STOPWORDS = new Set([
+  'a', 'after', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'he', 'her',
+  'his', 'how', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'she', 'should', 'so',
+  'than', 'that', 'the', 'their', 'then', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who',
+  'with', 'within', 'you', 'your', 'give', 'start', 'dose', 'patient', 'management', 'protocol', 'guideline',
+  'treatment', 'initial', 'assess', 'administer', 'min', 'mg', 'kg', 'per', 'every', 'case', 'suggestive',
+]);
+
+// Light suffix stripping so "infections"/"infection" and "bleeding"/"bleed" meet.
+const stem = (word: string): string => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 1 && !STOPWORDS.has(w) && !/^\d+$/.test(w))
+    .map(stem);
+
+interface IndexedProtocol {
+  protocol: ClinicalProtocol;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+interface ProtocolIndex {
+  docs: IndexedProtocol[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+const protocolFields = (p: ClinicalProtocol): Record<keyof typeof FIELD_WEIGHTS, string[]> => ({
+  title: [p.title],
+  conditions: p.metadata.use_if_conditions,
+  drugs: p.dosing_table.flatMap(d => [d.drug_name, ...d.brand_names_india]),
+  preconditions: p.preconditions,
+  actions: p.stepwise_actions.flatMap(s => [s.title, ...s.actions]),
+});
+
+// The knowledge base array is stable for a session, so its index is built once.
+const indexCache = new WeakMap<ClinicalProtocol[], ProtocolIndex>();
+
+const buildIndex = (knowledgeBase: ClinicalProtocol[]): ProtocolIndex => {
+  const cached = indexCache.get(knowledgeBase);
+  if (cached) return cached;
+
+  const docFreq = new Map<string, number>();
+  const docs = knowledgeBase.map(protocol => {
+    const termFreq = new Map<string, number>();
+    let length = 0;
+    const fields = protocolFields(protocol);
+    for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+      const weight = FIELD_WEIGHTS[field];
+      for (const term of fields[field].flatMap(tokenize)) {
+        termFreq.set(term, (termFreq.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+    termFreq.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1));
+    return { protocol, termFreq, length };
+  });
+
+  const index = {
+    docs,
+    docFreq,
+    avgLength: docs.reduce((sum, d) => sum + d.length, 0) / Math.max(docs.length, 1),
+  };
+  indexCache.set(knowledgeBase, index);
+  return index;
+};
+
+export const rankProtocols = (query: string, knowledgeBase: ClinicalProtocol[]): (ProtocolMatch & { protocol: ClinicalProtocol })[] => {
+  const index = buildIndex(knowledgeBase);
+  const queryTerms = [...new Set(tokenize(query))];
+  const lowerQuery = query.toLowerCase();
+  const n = index.docs.length;
+
+  const scored = index.docs.map(({ protocol, termFreq, length }) => {
+    let score = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const tf = termFreq.get(term);
+      if (!tf) continue;
+      const df = index.docFreq.get(term) || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / index.avgLength));
+      matchedTerms.push(term);
+    }
+    return {
+      protocol,
+      protocolId: protocol.id,
+      score: Math.round(score * 100) / 100,
+      matchedTerms,
+      explicit: lowerQuery.includes(protocol.id.toLowerCase()),
+      origin: 'message' as ProtocolMatch['origin'],
+      reason: '',
+    };
+  });
+
+  const explicit = scored.filter(m => m.explicit);
+  const ranked = scored.filter(m => !m.explicit && m.score >= MIN_SCORE).sort((a, b) => b.score - a.score);
+  const best = ranked.length > 0 ? ranked[0].score : 0;
+  return [...explicit, ...ranked.filter(m => m.score >= best * RELATIVE_CUTOFF)].slice(0, TOP_K);
+};
+
+// Only what the current message contributed is used, otherwise earlier turns would re-match
+// their protocols on every turn and nothing would ever decay.
+const expandQuery = (context: NexusContext): string => {
+  const { symptoms, vitals, labs } = context.findings;
+  const messageHasFindings = [...symptoms, ...vitals, ...labs].some(f => f.source === 'message');
+  return [
+    ...context.concepts.filter(c => !c.negated && c.source === 'message').map(c => c.name),
+    ...(messageHasFindings ? context.ddx.filter(d => (d.probability || 0) >= DDX_EXPANSION_THRESHOLD).map(d => d.diagnosis) : []),
+  ].join(' ');
+};
 
 export const retrieveKnowledge = (context: NexusContext): NexusContext => {
-  const { initialMessage, knowledgeBase } = context;
-
-  // Simple keyword matching to find a relevant protocol
-  const relevantProtocol = knowledgeBase.find(p =>
-      // Check if message mentions protocol ID (e.g., "PPH-001")
-      initialMessage.toLowerCase().includes(p.id.toLowerCase()) ||
-      // Check if message contains significant words from the protocol title
-      p.title.toLowerCase().split(' ').some(word => word.length > 4 && initialMessage.toLowerCase().includes(word))
-  );
-  
-  context.activeProtocols = relevantProtocol ? [relevantProtocol] : [];
-  
-  if (relevantProtocol) {
-    context.auditTrail.push(`[Stratum 3: Hypothesis Forge] Retrieved relevant protocol: ${relevantProtocol.id} - ${relevantProtocol.title}`);
+  const { normalizedInput, knowledgeBase, history, previousProtocols } = context;
+  const byId = new Map(knowledgeBase.map(p => [p.id, p]));
+  const candidates = new Map<string, ProtocolMatch>();
+  const offer = (match: ProtocolMatch) => {
+    const existing = candidates.get(match.protocolId);
+    if (!existing || match.score > existing.score) candidates.set(match.protocolId, match);
+  };
+
+  // 1. The current message, expanded with standardized names (so "seene mein dard" finds
+  //    chest-pain protocols) and likely diagnoses (so "facial droop" finds the stroke protocol).
+  for (const { protocol, ...match } of rankProtocols(`${normalizedInput} ${expandQuery(context)}`, knowledgeBase)) {
+    offer({ ...match, reason: match.explicit ? 'named by the clinician' : `matched this message (score ${match.score})` });
+  }
+
+  // 2. Recent user turns, at a discount.
+  const recentTurns = history
+    .filter(msg => msg.sender === 'USER' && msg.text !== normalizedInput)
+    .slice(-HISTORY_TURNS)
+    .map(msg => msg.text)
+    .join(' ');
+  if (recentTurns) {
+    for (const { protocol, ...match } of rankProtocols(recentTurns, knowledgeBase)) {
+      const score = Math.round(match.score * HISTORY_DISCOUNT * 100) / 100;
+      if (score >= MIN_SCORE) offer({ ...match, score, explicit: false, origin: 'history', reason: `matched recent history (score ${score})` });
+    }
+  }
+
+  // 3. Protocols active on the previous turn, decayed.
+  const dropped: string[] = [];
+  for (const prev of previousProtocols) {
+    if (!byId.has(prev.protocolId) || candidates.get(prev.protocolId)?.origin === 'message') continue;
+    const turns = prev.turnsSinceMatch + 1;
+    const weight = Math.round(prev.weight * CARRY_DECAY * 100) / 100;
+    if (weight < MIN_SCORE || turns > MAX_CARRY_TURNS) {
+      dropped.push(`${prev.protocolId} (weight ${weight} after ${turns} turn(s) without a match)`);
+      continue;
+    }
+    offer({
+      protocolId: prev.protocolId,
+      score: weight,
+      matchedTerms: prev.matchedTerms,
+      explicit: false,
+      origin: 'carried',
+      reason: `carried over from ${turns} turn(s) ago (weight ${weight}; originally matched: ${prev.matchedTerms.join(', ') || 'n/a'})`,
+    });
+  }
+
+  const ranked = [...candidates.values()].sort((a, b) => Number(b.explicit) - Number(a.explicit) || b.score - a.score).slice(0, TOP_K);
+  context.protocolMatches = ranked;
+  context.activeProtocols = ranked.map(m => byId.get(m.protocolId)!);
+  context.protocolState = ranked.map(m => ({
+    protocolId: m.protocolId,
+    weight: m.score,
+    turnsSinceMatch: m.origin === 'message' ? 0 : (previousProtocols.find(p => p.protocolId === m.protocolId)?.turnsSinceMatch ?? 0) + 1,
+    matchedTerms: m.matchedTerms,
+  }));
+
+  if (ranked.length > 0) {
+    for (const m of ranked) {
+      context.auditTrail.push(`[Stratum 3: Hypothesis Forge] Protocol ${m.protocolId} active: ${m.reason}${m.origin !== 'carried' && m.matchedTerms.length > 0 ? `; terms: ${m.matchedTerms.join(', ')}` : ''}.`);
+    }
   } else {
     context.auditTrail.push(`[Stratum 3: Hypothesis Forge] No specific protocol retrieved for the query.`);
   }
+  if (dropped.length > 0) {
+    context.auditTrail.push(`[Stratum 3: Hypothesis Forge] Protocol(s) no longer active: ${dropped.join('; ')}.`);
+  }
 
   return context;
-};
\ No newline at end of file
+};
@@ -1,4 +1,11 @@
-import { NexusContext, NexusOutput } from '../types';
+import { NexusContext, NexusOutput, ClinicalFindings, PatientFact, PatientFactKind, PatientContext } from '../types';
+import { ClinicalProtocol, DosingInfo, GuardrailViolation, ContraindicationWarning, EscalationAlert, StructuredDataType } from '../../types';
+import { checkPrescriberScope, suppressOutOfScopeDrugs, createScopeLineSuppressor } from '../../services/prescriberScope';
+import { withholdControlledDosing, withholdControlledDosingInText } from '../../services/controlledSubstances';
+import { checkTextInteractions } from '../../services/drugInteractions';
+import { parseDoses, parseRoutes, parseDosesPerDay, toMg, formatDose, ParsedDose } from '../../utils/doseParsing';
+import { parseAlertCondition, evaluateAlertCondition, AlertCondition, MeasuredValue } from '../../utils/alertConditions';
+import { extractFindings } from './02_inputNormalizer';
 
 // Part of Stratum 4: Decision Nexus & Stratum 5: Metacognitive Loop
 // Purpose: Acts as a safety firewall between reasoning and final output.
@@ -8,8 +15,464 @@ import { NexusContext, NexusOutput } from '../types';
 // - Scope limits: Prevents the system from giving out-of-scope advice.
 // - Contraindication checks: Verifies that suggestions are safe for the given context.
 //
-// NOTE: This prototype implementation inspects the final AI response against the active
+// NOTE: This prototype implementation inspects the final AI response against every active
 // protocol to determine if a "Requires Clinician Confirmation" flag is necessary.
+// With several protocols active, the source metadata lists all of them and reports the
+// oldest review date, so a stale protocol is never hidden behind a fresh one.
+//
+// Dose guardrail: every dose the response gives for a protocol drug is parsed (value, unit,
+// per-kg/per-time basis, route, frequency) and compared with the dosing table's `formula`,
+// `max_dose` and `route`. Overdoses, routes the protocol does not list and mg/mcg/g slips
+// (the right number in the wrong unit) are returned as explicit violations. Doses on a
+// different basis than the table (e.g. an absolute alteplase dose against 0.9 mg/kg) are only
+// checked against the maximum.
+//
+// Contraindication guardrail: each protocol drug the response mentions is cross-checked
+// against the patient facts the Input Normalizer extracted (allergies, pregnancy, PDE5 use,
+// GI bleed, CKD, recent surgery, ...) plus facts implied by vitals and labs (HR < 50,
+// raised creatinine, low platelets). Matches are returned as warnings that cite the
+// protocol's contraindication text.
+//
+// Patient record: when the chat is attached to a registered patient, the contraindication
+// check also uses their record (NexusContext.patientContext): recorded allergies, facts read
+// from their conditions and medications (e.g. "on sildenafil", CKD) and recent labs the
+// conversation has no newer value for. Recorded allergies are additionally matched against the
+// answer text by allergen and allergy class, so a drug outside every protocol is still caught.
+// Evidence taken from the record names the encounter it came from, and the audit trail lists
+// the record facts that were checked. Escalation triggers stay on the conversation's own
+// vitals and labs, since an old result is not a current red flag.
+//
+// Prescriber scope: for BAMS/BHMS clinicians, allopathic drugs in the response that their
+// state policy does not permit are suppressed (the answer text is replaced), annotated, or
+// paired with a referral note (services/prescriberScope.ts). This runs with or without an
+// active protocol. Replacing the answer afterwards is not enough, since it is shown while it
+// streams: when the policy suppresses, the Output Composer passes each complete block through
+// `createOutputGate` before yielding it, and structured payloads through `gateStructuredData`.
+//
+// Controlled substances: until the clinician's license is verified, doses for NDPS / Schedule
+// H1 / Schedule X drugs are withheld from the answer and a `verificationRequired` output asks
+// the UI to run license verification (services/controlledSubstances.ts). Doses are withheld
+// for the whole block that names the drug, since the dose is often on a line of its own. For
+// an unverified clinician the answer streams through the output gate as well, so no dose is
+// shown first.
+//
+// Red-flag escalation: escalation and monitoring triggers that carry an evaluable `when`
+// condition are checked against the vitals and labs documented in the conversation. A met
+// trigger is returned as an alert with the protocol's prescribed action, whether or not the
+// model's answer mentions it.
+//
+// Drug interactions: the drugs the answer names (after scope suppression) are checked against
+// each other and the patient's recorded medications using the interaction table
+// (services/drugInteractions.ts). Matches are returned as warnings with the mechanism and
+// management, protocol or not.
+
+// Doses within this factor of the protocol value are accepted (rounding, weight-based doses).
+const DOSE_TOLERANCE = 1.1;
+// How far after a drug name its dose, route and frequency are looked for.
+const MENTION_WINDOW = 200;
+
+interface DrugMention {
+    protocol: ClinicalProtocol;
+    drug: DosingInfo;
+    start: number;
+    end: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "Adrenaline (Epinephrine)" is matched as either name, as are the Indian brand names.
+const drugAliases = (drug: DosingInfo): string[] =>
+    [...drug.drug_name.split(/[()]/), ...drug.brand_names_india].map(a => a.trim().toLowerCase()).filter(a => a.length > 2);
+
+const findDrugMentions = (text: string, protocols: ClinicalProtocol[]): DrugMention[] => {
+    const mentions: DrugMention[] = [];
+    for (const protocol of protocols) {
+        for (const drug of protocol.dosing_table) {
+            for (const alias of new Set(drugAliases(drug))) {
+                for (const match of text.matchAll(new RegExp(`(?<![a-z])${escapeRegExp(alias)}(?![a-z])`, 'gi'))) {
+                    mentions.push({ protocol, drug, start: match.index!, end: match.index! + match[0].length });
+                }
+            }
+        }
+    }
+    return mentions.sort((a, b) => a.start - b.start);
+};
+
+// The text a mention governs: up to the end of its sentence or line, or the next other drug.
+const mentionWindow = (text: string, mention: DrugMention, mentions: DrugMention[]): string => {
+    const next = mentions.find(m => m.start >= mention.end && m.drug !== mention.drug);
+    const limit = Math.min(next ? next.start : text.length, mention.end + MENTION_WINDOW);
+    const window = text.slice(mention.end, limit);
+    const sentenceEnd = window.search(/\n|;|\.(?:\s|$)/);
+    return sentenceEnd >= 0 ? window.slice(0, sentenceEnd) : window;
+};
+
+const sameBasis = (a: ParsedDose, b: ParsedDose) => a.perKg === b.perKg && a.perTime === b.perTime;
+
+const checkDose = (dose: ParsedDose, window: string, drug: DosingInfo): Omit<GuardrailViolation, 'protocolId' | 'drug' | 'expected'> | null => {
+    const formula = parseDoses(drug.formula)[0];
+    const max = drug.max_dose ? parseDoses(drug.max_dose)[0] : undefined;
+    const found = formatDose(dose);
+
+    if (formula && !dose.isLimit) {
+        if (dose.perKg && !formula.perKg) {
+            return { kind: 'unit-mismatch', found, message: `${drug.drug_name} written per kg (${found}); the protocol dose is a fixed ${formatDose(formula)}.` };
+        }
+        // The protocol's number in the wrong unit, e.g. "adrenaline 0.5 mcg" for 0.5 mg.
+        if (sameBasis(dose, formula) && dose.unit !== formula.unit &&
+            dose.low >= formula.low / DOSE_TOLERANCE && dose.high <= formula.high * DOSE_TOLERANCE) {
+            return { kind: 'unit-mismatch', found, message: `${drug.drug_name} ${found}: the protocol dose is ${formatDose(formula)} (${dose.unit} written instead of ${formula.unit}).` };
+        }
+    }
+
+    if (max && dose.perKg === max.perKg) {
+        const maxMg = toMg(max.high, max.unit);
+        if (max.perTime === 'day' && !dose.perTime) {
+            const perDay = parseDosesPerDay(window);
+            const dailyMg = toMg(dose.high, dose.unit) * (dose.isLimit ? 1 : perDay ?? 1);
+            if (dailyMg > maxMg) {
+                return { kind: 'overdose', found, message: `${drug.drug_name} ${found}${perDay && !dose.isLimit ? ` × ${perDay}/day` : ''} exceeds the maximum of ${drug.max_dose}.` };
+            }
+        } else if (sameBasis(dose, max) && toMg(dose.high, dose.unit) > maxMg) {
+            return { kind: 'overdose', found, message: `${drug.drug_name} ${found} exceeds the maximum of ${drug.max_dose}.` };
+        }
+    }
+
+    if (formula && !dose.isLimit && sameBasis(dose, formula) && toMg(dose.high, dose.unit) > toMg(formula.high, formula.unit) * DOSE_TOLERANCE) {
+        return { kind: 'overdose', found, message: `${drug.drug_name} ${found} is above the protocol dose of ${drug.formula}.` };
+    }
+    return null;
+};
+
+// --- Contraindications ---
+
+const FACT_LABELS: Record<PatientFactKind, string> = {
+    'allergy': 'Allergy',
+    'pregnancy': 'Pregnancy',
+    'pde5-use': 'PDE5 inhibitor use',
+    'gi-bleed': 'Active GI bleed',
+    'bleeding-disorder': 'Bleeding disorder',
+    'ckd': 'CKD / renal impairment',
+    'liver-disease': 'Liver disease',
+    'recent-surgery': 'Recent surgery',
+    'heart-failure': 'Heart failure',
+    'bradycardia': 'Bradycardia',
+    'heart-block': 'Heart block',
+};
+
+// Contraindication text -> the patient facts that trigger it.
+const CONTRAINDICATION_RULES: { pattern: RegExp; kinds: PatientFactKind[] }[] = [
+    { pattern: /pde-?5|viagra|sildenafil|tadalafil/i, kinds: ['pde5-use'] },
+    { pattern: /gi bleed|active bleed|bleeding ulcer/i, kinds: ['gi-bleed'] },
+    { pattern: /bleeding diathesis|coagulopathy/i, kinds: ['bleeding-disorder', 'gi-bleed'] },
+    { pattern: /recent surgery/i, kinds: ['recent-surgery'] },
+    { pattern: /\bliver\b/i, kinds: ['liver-disease'] },
+    { pattern: /pregnan/i, kinds: ['pregnancy'] },
+    { pattern: /\b(renal|kidney|esrd|ckd)\b/i, kinds: ['ckd'] },
+    { pattern: /heart failure/i, kinds: ['heart-failure'] },
+    { pattern: /bradycardia/i, kinds: ['bradycardia'] },
+    { pattern: /heart block/i, kinds: ['heart-block'] },
+];
+
+// Allergy to one member is treated as allergy to the class.
+const ALLERGY_CLASSES: string[][] = [
+    ['penicillin', 'penicillins', 'amoxicillin', 'ampicillin', 'cloxacillin', 'piperacillin', 'piperacillin-tazobactam', 'beta-lactam', 'pipzo', 'tazar'],
+    ['nsaid', 'nsaids', 'aspirin', 'ecosprin', 'disprin', 'ibuprofen', 'diclofenac'],
+    ['sulfa', 'sulpha', 'sulfonamide', 'sulfonamides'],
+];
+
+const allergenTerms = (names: string[]): Set<string> => {
+    const terms = new Set(names.map(n => n.toLowerCase()));
+    for (const group of ALLERGY_CLASSES) {
+        if (group.some(t => terms.has(t))) group.forEach(t => terms.add(t));
+    }
+    return terms;
+};
+
+interface MatchedFact {
+    label: string;
+    evidence: string;
+}
+
+// Facts implied by vitals and labs rather than stated outright.
+const derivedFacts = (findings: ClinicalFindings, kind: PatientFactKind): MatchedFact[] => {
+    const hr = findings.vitals.find(v => v.kind === 'HR');
+    const creatinine = findings.labs.find(l => l.analyte === 'Creatinine');
+    const platelets = findings.labs.find(l => l.analyte === 'Platelets');
+    if (kind === 'bradycardia' && hr && hr.value < 50) return [{ label: FACT_LABELS[kind], evidence: `HR ${hr.value} bpm` }];
+    if (kind === 'ckd' && creatinine?.flag === 'High') return [{ label: FACT_LABELS[kind], evidence: `${creatinine.raw} [High]` }];
+    if (kind === 'bleeding-disorder' && platelets?.flag === 'Low') return [{ label: FACT_LABELS[kind], evidence: `${platelets.raw} [Low]` }];
+    return [];
+};
+
+const findFacts = (findings: ClinicalFindings, kinds: PatientFactKind[]): MatchedFact[] =>
+    kinds.flatMap(kind => [
+        ...findings.facts
+            .filter(f => f.kind === kind && !f.negated)
+            .map(f => ({ label: `${FACT_LABELS[kind]}${f.detail ? ` (${f.detail})` : ''}`, evidence: f.raw })),
+        ...derivedFacts(findings, kind),
+    ]);
+
+const findAllergies = (findings: ClinicalFindings, names: string[]): MatchedFact[] => {
+    const terms = allergenTerms(names);
+    return findings.facts
+        .filter(f => f.kind === 'allergy' && !f.negated && f.detail && terms.has(f.detail))
+        .map(f => ({ label: `${f.detail![0].toUpperCase()}${f.detail!.slice(1)} allergy`, evidence: f.raw }));
+};
+
+// "BP > 185/110" style thresholds are checked against the latest vitals.
+const findVitalThreshold = (findings: ClinicalFindings, contraindication: string): MatchedFact[] => {
+    const threshold = /bp\s*>\s*(\d{2,3})\s*\/\s*(\d{2,3})/i.exec(contraindication);
+    if (!threshold) return [];
+    const sbp = findings.vitals.find(v => v.kind === 'SBP');
+    const dbp = findings.vitals.find(v => v.kind === 'DBP');
+    const above = (sbp && sbp.value > parseInt(threshold[1], 10)) || (dbp && dbp.value > parseInt(threshold[2], 10));
+    return above ? [{ label: 'Blood pressure above threshold', evidence: `BP ${sbp?.value ?? '?'}/${dbp?.value ?? '?'} mmHg` }] : [];
+};
+
+const matchContraindication = (findings: ClinicalFindings, contraindication: string, drug?: DosingInfo): MatchedFact[] => {
+    if (/allerg/i.test(contraindication)) {
+        // "Penicillin Allergy" names the allergen; "Severe allergy" means allergy to the drug itself.
+        const named = contraindication.toLowerCase().replace(/\b(severe|known|allergy|allergies|allergic|to)\b/g, '').trim();
+        return findAllergies(findings, named ? [named] : drug ? drugAliases(drug) : []);
+    }
+    const rules = CONTRAINDICATION_RULES.filter(r => r.pattern.test(contraindication));
+    return [...findFacts(findings, rules.flatMap(r => r.kinds)), ...findVitalThreshold(findings, contraindication)];
+};
+
+// --- Patient record ---
+
+// "Sulfa drugs" is recorded as an allergy to "sulfa".
+const recordAllergen = (allergy: string) =>
+    allergy.toLowerCase().replace(/\s+(drugs?|group|class|antibiotics?)$/, '').trim();
+
+// The first mention of each fact is kept: the registry, then the newest encounter.
+const recordFacts = (record: PatientContext): PatientFact[] => {
+    const facts: PatientFact[] = [
+        ...record.allergies.map(a => ({
+            kind: 'allergy' as const, detail: recordAllergen(a.text), raw: `${a.text} allergy (${a.origin})`, negated: false, source: 'record' as const,
+        })),
+        ...[...record.diagnoses, ...record.medications].flatMap(item =>
+            extractFindings(item.text, 'record').facts
+                .filter(f => f.kind !== 'allergy')
+                .map(f => ({ ...f, raw: `${item.text} (${item.origin})` }))),
+    ];
+    return facts.filter((fact, i) => facts.findIndex(f => f.kind === fact.kind && f.detail === fact.detail) === i);
+};
+
+// The conversation's findings plus the record's facts, and its labs where the conversation
+// has no value of its own.
+export const withPatientRecord = (findings: ClinicalFindings, record?: PatientContext): ClinicalFindings => {
+    if (!record) return findings;
+    const labs = record.labs
+        .filter(lab => !findings.labs.some(l => l.analyte === lab.analyte))
+        .map(({ origin, recordedAt, ...lab }) => ({ ...lab, raw: `${lab.raw} (${origin})` }));
+    return { ...findings, facts: [...findings.facts, ...recordFacts(record)], labs: [...findings.labs, ...labs] };
+};
+
+// Recorded allergies against the answer itself; drugs a protocol warning already covers are skipped.
+export const checkRecordAllergies = (text: string, record: PatientContext | undefined, covered: ContraindicationWarning[]): ContraindicationWarning[] => {
+    const warnings: ContraindicationWarning[] = [];
+    for (const allergy of record?.allergies || []) {
+        const allergen = recordAllergen(allergy.text);
+        for (const term of allergenTerms([allergen])) {
+            if (!new RegExp(`(?<![a-z])${escapeRegExp(term)}(?![a-z])`, 'i').test(text)) continue;
+            if ([...covered, ...warnings].some(w => w.drug?.toLowerCase().includes(term))) continue;
+            warnings.push({
+                drug: `${term[0].toUpperCase()}${term.slice(1)}`,
+                contraindication: `Recorded allergy to ${allergy.text}`,
+                source: 'record',
+                severity: 'contraindicated',
+                patientFact: `${allergen[0].toUpperCase()}${allergen.slice(1)} allergy`,
+                evidence: `${allergy.text} (${allergy.origin})`,
+            });
+        }
+    }
+    return warnings;
+};
+
+export const checkContraindications = (text: string, protocols: ClinicalProtocol[], findings: ClinicalFindings): ContraindicationWarning[] => {
+    const warnings: ContraindicationWarning[] = [];
+    const mentioned = new Set(findDrugMentions(text, protocols).map(m => m.drug));
+    const warn = (protocol: ClinicalProtocol, contraindication: string, source: ContraindicationWarning['source'], facts: MatchedFact[], drug?: DosingInfo) => {
+        for (const fact of facts) {
+            warnings.push({
+                protocolId: protocol.id,
+                drug: drug?.drug_name,
+                contraindication,
+                source,
+                severity: /caution|adjust/i.test(contraindication) ? 'caution' : 'contraindicated',
+                patientFact: fact.label,
+                evidence: fact.evidence,
+            });
+        }
+    };
+
+    for (const protocol of protocols) {
+        for (const drug of protocol.dosing_table.filter(d => mentioned.has(d))) {
+            const listed = drug.contraindications || [];
+            for (const contraindication of listed) {
+                warn(protocol, contraindication, 'drug', matchContraindication(findings, contraindication, drug), drug);
+            }
+            // An allergy to the drug itself is always a contraindication, listed or not.
+            if (!listed.some(c => /allerg/i.test(c))) {
+                warn(protocol, `Known allergy to ${drug.drug_name}`, 'drug', findAllergies(findings, drugAliases(drug)), drug);
+            }
+        }
+        for (const contraindication of protocol.contraindications_general) {
+            warn(protocol, contraindication, 'protocol', matchContraindication(findings, contraindication));
+        }
+    }
+    return warnings;
+};
+
+// --- Red-flag escalation ---
+
+const parsedConditions = new Map<string, AlertCondition | Error>();
+
+// Parsed once per condition text. An unreadable condition never fires; the error is returned so
+// it can be reported in the audit trail.
+const getCondition = (when: string): AlertCondition | Error => {
+    if (!parsedConditions.has(when)) {
+        try {
+            parsedConditions.set(when, parseAlertCondition(when));
+        } catch (error) {
+            parsedConditions.set(when, error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+    return parsedConditions.get(when)!;
+};
+
+// Vital kinds and lab analytes by name; MAP is derived from the latest SBP and DBP.
+const measureFromFindings = (findings: ClinicalFindings) => (name: string): MeasuredValue | undefined => {
+    const key = name.toLowerCase();
+    if (key === 'map') {
+        const sbp = findings.vitals.find(v => v.kind === 'SBP');
+        const dbp = findings.vitals.find(v => v.kind === 'DBP');
+        if (!sbp || !dbp) return undefined;
+        const map = Math.round((sbp.value + 2 * dbp.value) / 3);
+        return { value: map, evidence: `MAP ${map} mmHg (BP ${sbp.value}/${dbp.value})` };
+    }
+    const vital = findings.vitals.find(v => v.kind.toLowerCase() === key);
+    if (vital) return { value: vital.value, evidence: `${vital.kind} ${vital.value} ${vital.unit}` };
+    const lab = findings.labs.find(l => l.analyte.toLowerCase() === key);
+    if (lab) {
+        const value = lab.si ? lab.si.value : lab.value;
+        const unit = lab.si ? lab.si.unit : lab.unit;
+        return { value, evidence: `${lab.analyte} ${value}${unit ? ` ${unit}` : ''}` };
+    }
+    return undefined;
+};
+
+// Unreadable conditions are reported to `auditTrail` when one is given.
+export const evaluateEscalations = (findings: ClinicalFindings, protocols: ClinicalProtocol[], auditTrail?: string[]): EscalationAlert[] => {
+    const measure = measureFromFindings(findings);
+    const alerts: EscalationAlert[] = [];
+    for (const protocol of protocols) {
+        const triggers = [
+            ...protocol.escalation_triggers.map(t => ({ ...t, source: 'escalation' as const })),
+            ...protocol.monitoring_template.alert_triggers.map(t => ({ ...t, source: 'monitoring' as const, requires_confirmation: true })),
+        ];
+        for (const trigger of triggers) {
+            const condition = trigger.when ? getCondition(trigger.when) : null;
+            if (condition instanceof Error) {
+                auditTrail?.push(`[Stratum 5: Metacognitive Loop] ${protocol.id}: ${trigger.source} trigger "${trigger.condition}" was not checked: ${condition.message}`);
+                continue;
+            }
+            const evidence = condition ? evaluateAlertCondition(condition, measure) : null;
+            if (evidence) {
+                alerts.push({
+                    protocolId: protocol.id,
+                    source: trigger.source,
+                    condition: trigger.condition,
+                    action: trigger.action,
+                    evidence,
+                    requiresConfirmation: trigger.requires_confirmation,
+                });
+            }
+        }
+    }
+    return alerts;
+};
+
+export const checkDosing = (text: string, protocols: ClinicalProtocol[]): GuardrailViolation[] => {
+    const mentions = findDrugMentions(text, protocols);
+    const violations = new Map<string, GuardrailViolation>();
+    const add = (mention: DrugMention, violation: Omit<GuardrailViolation, 'protocolId' | 'drug' | 'expected'>) => {
+        const { drug, protocol } = mention;
+        const key = `${protocol.id}|${drug.drug_name}|${violation.kind}|${violation.found}`;
+        if (!violations.has(key)) {
+            violations.set(key, {
+                ...violation,
+                protocolId: protocol.id,
+                drug: drug.drug_name,
+                expected: `${drug.formula}, ${drug.route}${drug.max_dose ? ` (max ${drug.max_dose})` : ''}`,
+            });
+        }
+    };
+
+    for (const mention of mentions) {
+        const window = mentionWindow(text, mention, mentions);
+        for (const dose of parseDoses(window)) {
+            const violation = checkDose(dose, window, mention.drug);
+            if (violation) add(mention, violation);
+        }
+
+        const allowed = parseRoutes(mention.drug.route);
+        const wrong = allowed.length > 0 ? parseRoutes(window).filter(r => !allowed.includes(r)) : [];
+        if (wrong.length > 0) {
+            add(mention, {
+                kind: 'wrong-route',
+                found: wrong.join('/').toUpperCase(),
+                message: `${mention.drug.drug_name} given ${wrong.join('/').toUpperCase()}; the protocol route is ${mention.drug.route}.`,
+            });
+        }
+    }
+    return [...violations.values()];
+};
+
+// --- Stream gating ---
+
+type LineGate = (line: string) => string | null;
+// Takes complete blocks of text (services/controlledSubstances.ts `splitDoseBlocks`), and
+// optionally text they belong with but that is released separately. Null drops the text.
+type OutputGate = (text: string, surrounding?: string) => string | null;
+
+// What must be removed from the answer before the clinician sees it, or null when the answer may
+// stream as it arrives. Out-of-scope drugs are suppressed a line at a time; controlled-substance
+// doses are withheld for the whole block that names the drug.
+export const createOutputGate = (context: NexusContext): OutputGate | null => {
+    const suppress: LineGate | null = createScopeLineSuppressor(context.doctorProfile);
+    const withhold = !context.isDoctorVerified;
+    if (!suppress && !withhold) return null;
+    return (text, surrounding = '') => {
+        let gated = text;
+        if (suppress) {
+            const lines = text.split('\n').map(suppress);
+            const kept = lines.filter((l): l is string => l !== null);
+            if (kept.length < lines.length && kept.every(l => !l.trim())) return null;
+            gated = kept.join('\n');
+        }
+        return withhold ? withholdControlledDosingInText(gated, surrounding) : gated;
+    };
+};
+
+// Applies the gate to every string of a structured payload. The other strings of the same item
+// are its surroundings, so a dose field is withheld when its drug is named in another field.
+// Dropped array items are removed; a dropped field is left empty.
+export const gateStructuredData = (payload: StructuredDataType, gate: OutputGate): StructuredDataType => {
+    const visit = (value: unknown, surrounding: string): unknown => {
+        if (typeof value === 'string') return gate(value, surrounding);
+        if (Array.isArray(value)) return value.map(v => visit(v, surrounding)).filter(v => v !== null);
+        if (value && typeof value === 'object') {
+            const entries = Object.entries(value).filter(([key]) => key !== 'type');
+            const own = entries.filter(([, v]) => typeof v === 'string').map(([, v]) => v).join('\n');
+            return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, key === 'type' ? v : visit(v, own) ?? '']));
+        }
+        return value;
+    };
+    return visit(payload, '') as StructuredDataType;
+};
 
 export const applyGuardrails = (
     fullText: string,
@@ -18,31 +481,108 @@ export const applyGuardrails = (
     let actionType: 'Informational' | 'Requires Clinician Confirmation' = 'Informational';
     let output: Partial<NexusOutput> = {};
 
-    // If a protocol was used, add source and review date metadata.
+    // If protocols were used, add source and review date metadata.
     if (context.activeProtocols.length > 0) {
-        const protocol = context.activeProtocols[0];
-        output.source_protocol_id = protocol.id;
-        output.source_protocol_last_reviewed = protocol.metadata.last_reviewed;
-
-        // Guardrail 1: Check if the response suggests an action that requires confirmation.
-        // This is determined by the `requires_confirmation` flag in the protocol's escalation triggers.
-        const mentionsEscalation = protocol.escalation_triggers.some(trigger =>
-            trigger.requires_confirmation && fullText.toLowerCase().includes(trigger.action.toLowerCase())
-        );
-
-        // Guardrail 2: Check if the response provides specific dosing information.
-        // Any mention of a drug from the dosing table implies a need for confirmation.
-        const mentionsDosing = protocol.dosing_table.some(drug => 
-            fullText.toLowerCase().includes(drug.drug_name.toLowerCase()) || 
-            drug.brand_names_india.some(brand => fullText.toLowerCase().includes(brand.toLowerCase()))
-        );
-
-        if (mentionsDosing || mentionsEscalation) {
+        const protocols = context.activeProtocols;
+        output.source_protocol_id = protocols.map(p => p.id).join(', ');
+        output.source_protocol_last_reviewed = protocols
+            .map(p => p.metadata.last_reviewed)
+            .sort()[0];
+
+        const lowerText = fullText.toLowerCase();
+        for (const protocol of protocols) {
+            // Guardrail 1: Check if the response suggests an action that requires confirmation.
+            // This is determined by the `requires_confirmation` flag in the protocol's escalation triggers.
+            const mentionsEscalation = protocol.escalation_triggers.some(trigger =>
+                trigger.requires_confirmation && lowerText.includes(trigger.action.toLowerCase())
+            );
+
+            // Guardrail 2: Check if the response provides specific dosing information.
+            // Any mention of a drug from the dosing table implies a need for confirmation.
+            const mentionsDosing = protocol.dosing_table.some(drug =>
+                lowerText.includes(drug.drug_name.toLowerCase()) ||
+                drug.brand_names_india.some(brand => lowerText.includes(brand.toLowerCase()))
+            );
+
+            if (mentionsDosing || mentionsEscalation) {
+                actionType = 'Requires Clinician Confirmation';
+                context.auditTrail.push(`[Stratum 5: Metacognitive Loop] ${protocol.id}: response ${mentionsDosing ? 'mentions a protocol drug' : 'suggests an escalation action'}; clinician confirmation required.`);
+            }
+        }
+
+        // Guardrail 3: Doses, routes and units must agree with the dosing table.
+        const violations = checkDosing(fullText, protocols);
+        if (violations.length > 0) {
             actionType = 'Requires Clinician Confirmation';
+            output.guardrailViolations = violations;
+            for (const v of violations) {
+                context.auditTrail.push(`[Stratum 5: Metacognitive Loop] ${v.protocolId}: dose guardrail violation (${v.kind}): ${v.message}`);
+            }
+        }
+    }
+
+    // Guardrail 4: Recommended drugs must not be contraindicated by known patient facts,
+    // from the conversation or the patient's record.
+    const findings = withPatientRecord(context.findings, context.patientContext);
+    if (context.patientContext) {
+        const checked = [
+            ...findings.facts.filter(f => f.source === 'record' && !f.negated).map(f => `${f.kind}${f.detail ? ` (${f.detail})` : ''} from ${f.raw}`),
+            ...findings.labs.filter(l => l.source === 'record').map(l => `${l.analyte} from ${l.raw}`),
+        ];
+        context.auditTrail.push(`[Stratum 5: Metacognitive Loop] Contraindications checked against the patient record: ${checked.length > 0 ? checked.join('; ') : 'no recorded allergies, conditions or labs'}.`);
+    }
+    const protocolWarnings = checkContraindications(fullText, context.activeProtocols, findings);
+    const warnings = [...protocolWarnings, ...checkRecordAllergies(fullText, context.patientContext, protocolWarnings)];
+    if (warnings.length > 0) {
+        actionType = 'Requires Clinician Confirmation';
+        output.contraindicationWarnings = warnings;
+        for (const w of warnings) {
+            context.auditTrail.push(`[Stratum 5: Metacognitive Loop] ${w.protocolId || 'Patient record'}: ${w.drug || 'protocol'} contraindication "${w.contraindication}" matched ${w.patientFact} (${w.evidence}).`);
         }
     }
     
+    // Guardrail 5: Allopathic drugs must be within the clinician's prescribing scope.
+    const scope = checkPrescriberScope(fullText, context.doctorProfile);
+    if (scope) {
+        actionType = 'Requires Clinician Confirmation';
+        output.prescriberScope = scope;
+        if (scope.enforcement === 'suppress') output.replacementText = suppressOutOfScopeDrugs(fullText, scope);
+        context.auditTrail.push(`[Stratum 5: Metacognitive Loop] Prescriber scope (${scope.qualification}, ${scope.practiceState}, ${scope.scope}): ${scope.outOfScopeDrugs.join(', ')} outside scope; enforcement: ${scope.enforcement}.`);
+    }
+
+    // Guardrail 6: Doses for controlled substances require a verified license.
+    if (!context.isDoctorVerified) {
+        const gated = withholdControlledDosing(output.replacementText ?? fullText);
+        if (gated) {
+            actionType = 'Requires Clinician Confirmation';
+            output.verificationRequired = gated.requirement;
+            output.replacementText = gated.text;
+            context.auditTrail.push(`[Stratum 5: Metacognitive Loop] Controlled substances (${gated.requirement.drugs.map(d => `${d.drug}: ${d.schedule}`).join(', ')}): ${gated.requirement.withheldDoses} dose(s) withheld pending license verification.`);
+        }
+    }
+
+    // Guardrail 7: Protocol red flags met by the documented vitals and labs.
+    const alerts = evaluateEscalations(context.findings, context.activeProtocols, context.auditTrail);
+    if (alerts.length > 0) {
+        actionType = 'Requires Clinician Confirmation';
+        output.escalationAlerts = alerts;
+        for (const a of alerts) {
+            context.auditTrail.push(`[Stratum 5: Metacognitive Loop] ${a.protocolId}: ${a.source} trigger "${a.condition}" met (${a.evidence}); action: ${a.action}`);
+        }
+    }
+
+    // Guardrail 8: Drugs in the answer must not interact with each other or the active medications.
+    const interactions = checkTextInteractions(output.replacementText ?? fullText, context.patientContext?.medications);
+    if (interactions.length > 0) {
+        actionType = 'Requires Clinician Confirmation';
+        output.interactionWarnings = interactions;
+        for (const i of interactions) {
+            context.auditTrail.push(`[Stratum 5: Metacognitive Loop] ${i.interactionId}: ${i.severity} interaction ${i.drugs.join(' + ')}${i.onRecord ? ` (on record: ${i.onRecord})` : ''}.`);
+        }
+    }
+
     output.action_type = actionType;
+    context.actionType = actionType;
     context.auditTrail.push(`[Stratum 5: Metacognitive Loop] Applied guardrails. Determined action type: ${actionType}.`);
     return output;
 };
\ No newline at end of file
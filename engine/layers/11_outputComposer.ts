@@ -1,5 +1,9 @@
 import { NexusContext, NexusOutput } from '../types';
-import { applyGuardrails } from './10_guardrails';
+import { applyGuardrails, createOutputGate, gateStructuredData } from './10_guardrails';
+import { reidentify, splitPendingPlaceholder } from './03_safetyScrubber';
+import { groundMedicalCodes } from './04_ontologyMapper';
+import { readStructuredData } from '../../utils/structuredData';
+import { splitDoseBlocks } from '../../services/controlledSubstances';
 
 // Part of Stratum 4: Decision Nexus (Output Composition)
 // Purpose: Formats the reasoning into a clinician-friendly, traceable output.
@@ -7,19 +11,15 @@ import { applyGuardrails } from './10_guardrails';
 // NOTE: This prototype implementation streams the raw LLM text chunks to the UI for
 // responsiveness. After the full response is received, it parses for structured data
 // (like JSON) and applies guardrails, yielding a final structured output part.
-
-const parseStructuredData = (text: string): any | null => {
-    try {
-        const jsonStart = text.indexOf('```json');
-        if (jsonStart === -1) return null;
-        
-        const jsonString = text.substring(jsonStart + 7, text.lastIndexOf('```')).trim();
-        return JSON.parse(jsonString);
-    } catch (e) {
-        // The JSON might be incomplete during streaming, so this is not a fatal error.
-        return null;
-    }
-}
+// Structured data is validated per payload type (utils/structuredData.ts): repairs are noted
+// in the audit trail, and a payload that cannot be repaired is reported as a parse error
+// instead of being rendered.
+// PHI placeholders inserted by the Safety Scrubber are swapped back to the original
+// identifiers before anything reaches the clinician.
+// When the guardrails must remove content from the answer (out-of-scope drugs under a
+// suppressing policy, controlled-substance doses for an unverified clinician), the stream is
+// released a block at a time through the guardrails' output gate, and the parsed payload is
+// gated too; the guardrails' final replacement text follows.
 
 export async function* composeOutput(context: NexusContext): AsyncGenerator<NexusOutput> {
   if (!context.llmResponseStream) {
@@ -28,29 +28,98 @@ export async function* composeOutput(context: NexusContext): AsyncGenerator<Nexu
   }
   
   let fullText = '';
+  let pending = ''; // Possible placeholder fragment held back until the next chunk
+  const gate = createOutputGate(context);
+  let held = ''; // Text held back while the output is gated, until its block is complete
+  // Text as the clinician may see it: complete blocks through the gate, or as it arrives.
+  // Only whole lines are split into blocks, and the last block stays held until the next
+  // starts, since a later line can still belong to it.
+  const release = (text: string, final = false): string => {
+      if (!gate) return text;
+      held += text;
+      const end = final ? held.length : held.lastIndexOf('\n') + 1;
+      const blocks = splitDoseBlocks(held.slice(0, end));
+      const ready = final ? blocks : blocks.slice(0, -1);
+      held = final ? '' : (blocks[blocks.length - 1] ?? '') + held.slice(end);
+      return ready.map(block => gate(block)).filter((b): b is string => b !== null).join('');
+  };
+  // A JSON-mode response is bare JSON. It is fenced like a prompted ```json block, so the chat
+  // buffers it the same way and an answer that fails validation still renders as code.
+  const fence = context.responseFormat ? { open: '```json\n', close: '\n```' } : null;
+  if (fence) {
+      fullText += fence.open;
+      yield { textChunk: fence.open };
+  }
   // First, stream the raw text chunks to the UI for immediate feedback
   for await (const chunk of context.llmResponseStream) {
+      // Usage is cumulative; the last chunk carries the totals.
+      if (chunk.usageMetadata) {
+          context.usage = {
+              promptTokens: chunk.usageMetadata.promptTokenCount,
+              completionTokens: chunk.usageMetadata.candidatesTokenCount,
+              totalTokens: chunk.usageMetadata.totalTokenCount,
+          };
+      }
       const textChunk = chunk.text;
       if (textChunk) {
-          fullText += textChunk;
-          yield { textChunk: textChunk };
+          const [ready, rest] = splitPendingPlaceholder(pending + textChunk);
+          pending = rest;
+          if (ready) {
+              const reidentified = reidentify(ready, context.phi);
+              fullText += reidentified;
+              const released = release(reidentified);
+              if (released) yield { textChunk: released };
+          }
       }
   }
+  if (pending) {
+      const reidentified = reidentify(pending, context.phi);
+      fullText += reidentified;
+      const released = release(reidentified);
+      if (released) yield { textChunk: released };
+  }
+  if (held) {
+      const released = release('', true);
+      if (released) yield { textChunk: released };
+  }
+
+  if (fence) {
+      fullText += fence.close;
+      yield { textChunk: fence.close };
+  }
 
   context.llmFullResponse = fullText;
   context.auditTrail.push(`[Stratum 4: Decision Nexus] Finished consuming LLM stream. Full response length: ${fullText.length}`);
 
   // After streaming is complete, perform post-processing.
-  const structuredData = parseStructuredData(fullText);
+  const structured = readStructuredData(fullText);
   const guardrailOutput = applyGuardrails(fullText, context); // Layer 10 / Stratum 5
 
   // Yield a final, structured part containing metadata and parsed data.
   // The UI can use this to update the last message bubble.
   const finalOutput: NexusOutput = { ...guardrailOutput };
+  if (context.ddx.length > 0) finalOutput.engineDdx = context.ddx;
+  // Always sent, so protocols that decayed away are cleared from the chat too.
+  finalOutput.protocolState = context.protocolState;
   
-  if (structuredData && structuredData.data && structuredData.summary) {
+  if (structured?.status === 'valid') {
+    const structuredData = gate ? gateStructuredData(structured.value, gate) : structured.value;
+    if (structured.repairs.length > 0) {
+      const repairs = structured.repairs.map(r => `${r.path || 'payload'}: ${r.message}`).join('; ');
+      context.auditTrail.push(`[Stratum 4: Decision Nexus] Repaired ${structuredData.type} structured data: ${repairs}`);
+    }
+    if (structuredData.type === 'billing') {
+        structuredData.data = groundMedicalCodes(structuredData.data, context.concepts);
+        context.auditTrail.push('[Stratum 4: Decision Nexus] Grounded billing codes against the local terminology table.');
+    }
     finalOutput.structuredData = structuredData;
     context.auditTrail.push('[Stratum 4: Decision Nexus] Parsed structured data from response.');
+  } else if (structured?.status === 'invalid') {
+    const { error } = structured;
+    context.structuredDataError = error;
+    finalOutput.structuredDataError = error;
+    const issues = error.issues.map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ');
+    context.auditTrail.push(`[Stratum 4: Decision Nexus] Rejected ${error.type || 'untyped'} structured data (${error.stage} error): ${issues}`);
   }
   
   // Only yield if there's something to add (guardrail info or structured data)
@@ -1,4 +1,6 @@
 import { NexusContext } from '../types';
+import { AuditRecordContent } from '../../types';
+import { appendAuditRecord } from '../../services/auditLog';
 
 // Part of Stratum 5: Metacognitive Loop (Auditing)
 // Purpose: Ensures ongoing safety, quality, and improvement.
@@ -7,13 +9,44 @@ import { NexusContext } from '../types';
 // - Run logs: Stores every reasoning chain for auditability.
 // - Decision traces: Captures intermediate steps (inputs, inferences, outputs).
 //
-// NOTE: In this prototype, the audit trail is collected in the context object and
-// logged to the console at the end of the workflow. A production system would
-// use a dedicated, secure logging service.
+// NOTE: The audit trail is collected in the context object and, at the end of the workflow,
+// turned into a structured AuditRecord that is appended to the local audit store
+// (IndexedDB in the browser, JSONL on the proxy). The store seals each record into a SHA-256
+// hash chain, so edits or deletions are detectable; the Audit Log viewer reads it back, verifies
+// the chain and exports signed bundles.
+
+export const buildAuditRecord = (context: NexusContext): AuditRecordContent => ({
+  requestId: context.requestId,
+  timestamp: new Date(context.startedAt).toISOString(),
+  doctorProfile: context.doctorProfile,
+  isDoctorVerified: context.isDoctorVerified,
+  gptId: context.activeGpt?.id,
+  patientId: context.patientContext?.patientId,
+  protocolIds: context.activeProtocols.map(p => p.id),
+  actionType: context.error || !context.actionType ? 'Error' : context.actionType,
+  redactionCounts: Object.fromEntries(Object.entries(context.phi.counts).map(([type, n]) => [type, n || 0])),
+  model: context.model,
+  latencyMs: Date.now() - context.startedAt,
+  tokens: {
+    prompt: context.usage?.promptTokens,
+    completion: context.usage?.completionTokens,
+    total: context.usage?.totalTokens,
+  },
+  layerTimings: context.layerTimings,
+  trail: context.auditTrail,
+  structuredDataError: context.structuredDataError,
+  error: context.error,
+});
 
 export const finalizeAudit = (context: NexusContext): void => {
+  if (context.layerTimings.length > 0) {
+    const timings = context.layerTimings.map(t => `${t.name} ${t.status === 'ok' ? `${t.durationMs} ms` : t.status}`).join(', ');
+    context.auditTrail.push(`[Stratum 5: Metacognitive Loop] Layer timings: ${timings}.`);
+  }
   context.auditTrail.push('[Stratum 5: Metacognitive Loop] Finalizing workflow audit trail.');
-  console.log("--- NEXUS Clinical Workflow Audit Trail ---");
-  console.log(context.auditTrail.join('\n'));
-  console.log("-----------------------------------------");
-};
\ No newline at end of file
+
+  // Persistence must never break the clinical response, so failures are only reported.
+  appendAuditRecord(buildAuditRecord(context)).catch(error => {
+    console.error(`[AUDIT] Failed to persist audit record ${context.requestId}:`, error);
+  });
+};
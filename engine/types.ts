@@ -1,4 +1,151 @@
-import { Message, DoctorProfile, PreCodedGpt, ClinicalProtocol } from '../types';
+import { Schema } from '@google/genai';
+import { Message, DoctorProfile, PreCodedGpt, ClinicalProtocol, OntologyCategory, DdxItem, ChatProtocolState, GuardrailViolation, ContraindicationWarning, PrescriberScopeResult, VerificationRequirement, EscalationAlert, InteractionWarning, StructuredDataType, StructuredDataError } from '../types';
+
+// --- Structured findings extracted by Stratum 1 (Signal Horizon) ---
+
+export type FindingSource = 'message' | 'history' | 'record'; // 'record': the patient's earlier encounters
+
+export interface SymptomFinding {
+  term: string;                 // Canonical symptom name, e.g. "chest pain"
+  raw: string;                  // Text span as written by the clinician
+  negated: boolean;             // "no fever", "denies chest pain"
+  severity?: 'Mild' | 'Moderate' | 'Severe';
+  duration?: string;            // As written, e.g. "3 days"
+  durationHours?: number;       // Duration normalized to hours when parsable
+  source: FindingSource;
+}
+
+export type VitalKind = 'SBP' | 'DBP' | 'HR' | 'RR' | 'SpO2' | 'Temp' | 'Weight' | 'Height';
+
+export interface VitalSignFinding {
+  kind: VitalKind;
+  value: number;                // In SI / canonical unit (°C, kg, cm, mmHg, ...)
+  unit: string;
+  originalValue?: number;       // Set when the value was converted from another unit
+  originalUnit?: string;
+  raw: string;
+  source: FindingSource;
+}
+
+export interface LabFinding {
+  analyte: string;              // Canonical analyte name, e.g. "Creatinine"
+  value: number;
+  unit?: string;                // Unit as written, if any
+  si?: { value: number; unit: string; unitAssumed: boolean };
+  flag?: 'Low' | 'Normal' | 'High'; // Against the adult reference range, computed on the SI value
+  raw: string;
+  source: FindingSource;
+}
+
+export interface DemographicFinding {
+  age?: number;
+  sex?: 'Male' | 'Female';
+  raw?: string;
+}
+
+// Patient facts that make a drug unsafe, read from the conversation or the triage form.
+export type PatientFactKind =
+  | 'allergy'
+  | 'pregnancy'
+  | 'pde5-use'
+  | 'gi-bleed'
+  | 'bleeding-disorder'
+  | 'ckd'
+  | 'liver-disease'
+  | 'recent-surgery'
+  | 'heart-failure'
+  | 'bradycardia'
+  | 'heart-block';
+
+export interface PatientFact {
+  kind: PatientFactKind;
+  detail?: string;              // Allergen or drug, e.g. "penicillin", "sildenafil"
+  raw: string;                  // Text span as written by the clinician
+  negated: boolean;             // "not pregnant", "no GI bleed"
+  source: FindingSource;
+}
+
+export interface ClinicalFindings {
+  demographics: DemographicFinding;
+  symptoms: SymptomFinding[];
+  vitals: VitalSignFinding[];
+  labs: LabFinding[];
+  facts: PatientFact[];
+}
+
+// --- Standardized concepts resolved by the Ontology Mapper ---
+
+export interface ResolvedConcept {
+  conceptId: string;
+  name: string;
+  category: OntologyCategory;
+  icd10?: string;
+  snomedCt?: string;
+  atc?: string;
+  matchedText: string;          // Surface form found in the input, e.g. "bukhaar"
+  negated: boolean;
+  source: FindingSource;
+}
+
+// --- PHI de-identification performed by the Safety Scrubber ---
+
+export type PhiType = 'PATIENT' | 'PHONE' | 'AADHAAR' | 'ABHA' | 'EMAIL' | 'ADDRESS' | 'HOSPITAL_ID';
+
+export interface PhiRedactionMap {
+  placeholders: Record<string, string>;   // Placeholder (e.g. "[PHONE_1]") -> original value
+  counts: Partial<Record<PhiType, number>>; // Distinct identifiers redacted per type
+}
+
+// --- Protocol retrieval performed by the Knowledge layer ---
+
+export interface ProtocolMatch {
+  protocolId: string;
+  score: number;                // BM25 relevance score (decayed weight for carried-over protocols)
+  matchedTerms: string[];       // Query terms (stemmed) found in the protocol
+  explicit: boolean;            // The protocol ID was named in the message
+  origin: 'message' | 'history' | 'carried';
+  reason: string;               // Why the protocol is active, for the prompt and the audit trail
+}
+
+// --- Longitudinal context from the patient registry ---
+
+export interface PatientRecordItem {
+  text: string;                 // As recorded, e.g. "Type 2 diabetes", "Metformin 500mg, twice daily, oral"
+  origin: string;               // Where it was recorded, e.g. 'Veda session, 12 Mar 2026'
+  recordedAt: number;           // Epoch ms
+}
+
+export type PatientRecordLab = LabFinding & Omit<PatientRecordItem, 'text'>;
+
+// Clinical facts from a registered patient's record, for a chat or session attached to them.
+// Identifiers (name, mobile, ABHA number) are never included.
+export interface PatientContext {
+  patientId: string;
+  age?: number;
+  sex?: string;
+  diagnoses: PatientRecordItem[];   // Chronic conditions, then earlier assessments, newest first
+  medications: PatientRecordItem[]; // The latest prescription's medicines
+  allergies: PatientRecordItem[];
+  labs: PatientRecordLab[];         // Latest value per analyte, recent results only
+}
+
+// --- Pipeline layer registry ---
+
+export interface NexusLayer {
+  name: string;                 // Unique; also the key used in PreCodedGpt.disabledLayers
+  order: number;                // Layers run in ascending order; built-ins use steps of 100
+  mode: 'sync' | 'async';
+  enabled: boolean;
+  required?: boolean;           // Cannot be disabled, and an error aborts the workflow
+  run: (context: NexusContext) => NexusContext | Promise<NexusContext>;
+}
+
+export interface LayerTiming {
+  name: string;
+  status: 'ok' | 'error' | 'skipped';
+  durationMs: number;
+  error?: string;
+}
 
 // The context object that flows through the NEXUS workflow pipeline
 export interface NexusContext {
@@ -10,28 +157,61 @@ export interface NexusContext {
   activeGpt?: PreCodedGpt;
   isDoctorVerified: boolean;
   knowledgeBase: ClinicalProtocol[];
+  previousProtocols: ChatProtocolState[]; // Protocols active on the chat before this turn
+  patientContext?: PatientContext;        // Set when the chat is attached to a registered patient
 
   // State
-  activeProtocols: ClinicalProtocol[];
+  activeProtocols: ClinicalProtocol[];   // Ranked, most relevant first
+  protocolMatches: ProtocolMatch[];      // Scores for activeProtocols, same order
+  protocolState: ChatProtocolState[];    // To be persisted on the chat after this turn
   normalizedInput: string;
+  findings: ClinicalFindings;
+  phi: PhiRedactionMap;
+  concepts: ResolvedConcept[];
+  ddx: DdxItem[];                 // Ranked by the local DDx engine
   systemInstruction: string;
+  responseFormat?: StructuredResponseFormat; // JSON mode for GPTs with a custom component (Layer 07)
   llmResponseStream?: AsyncGenerator<any>;
   llmFullResponse?: string;
+  structuredDataError?: StructuredDataError; // Set by the Output Composer, recorded in the audit record
 
   // Output
   finalOutput?: AsyncGenerator<NexusOutput>;
   
   // Audit Trail
+  requestId: string;
+  startedAt: number;              // Epoch ms
+  model?: string;                 // Set by the LLM Interface
+  usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number };
+  actionType?: NexusOutput['action_type']; // Guardrail decision
+  error?: string;
   auditTrail: string[];
+  layerTimings: LayerTiming[];
+}
+
+// A JSON-mode response: the payload type the model was asked for and the schema it was given.
+export interface StructuredResponseFormat {
+  type: StructuredDataType['type'];
+  schema: Schema;
 }
 
 // The standardized output from the NEXUS workflow
 export interface NexusOutput {
   textChunk?: string;
   citations?: { uri: string; title: string }[];
-  structuredData?: any;
+  structuredData?: StructuredDataType;
+  structuredDataError?: StructuredDataError; // A ```json block that was rejected by validation
+  engineDdx?: DdxItem[];
+  protocolState?: ChatProtocolState[];
   source_protocol_id?: string;
   source_protocol_last_reviewed?: string;
   action_type?: 'Informational' | 'Requires Clinician Confirmation';
+  guardrailViolations?: GuardrailViolation[];
+  contraindicationWarnings?: ContraindicationWarning[];
+  prescriberScope?: PrescriberScopeResult;
+  verificationRequired?: VerificationRequirement;
+  escalationAlerts?: EscalationAlert[];
+  interactionWarnings?: InteractionWarning[];
+  replacementText?: string;     // Replaces the streamed answer, e.g. when drugs were suppressed
   error?: string;
-}
\ No newline at end of file
+}
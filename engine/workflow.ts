@@ -1,15 +1,8 @@
-import { NexusContext, NexusOutput } from './types';
-import { normalizeInput } from './layers/02_inputNormalizer';
-import { scrubPhi } from './layers/03_safetyScrubber';
-import { mapOntology } from './layers/04_ontologyMapper';
-import { queryLlm } from './layers/05_llmInterface';
-import { orchestrateReasoning } from './layers/06_reasoningOrchestrator';
-import { applyClinicalDomainLogic } from './layers/07_clinicalDomain';
-import { runDdxEngine } from './layers/08_ddxEngine';
-import { retrieveKnowledge } from './layers/09_knowledge';
+import { NexusContext, NexusOutput, NexusLayer, PatientContext } from './types';
+import { runLayers } from './layerRegistry';
 import { composeOutput } from './layers/11_outputComposer';
 import { finalizeAudit } from './layers/12_audit';
-import { Message, DoctorProfile, PreCodedGpt, ClinicalProtocol } from '../types';
+import { Message, DoctorProfile, PreCodedGpt, ClinicalProtocol, ChatProtocolState } from '../types';
 
 export async function* runNexusWorkflow(params: {
     message: string;
@@ -19,6 +12,9 @@ export async function* runNexusWorkflow(params: {
     activeGpt?: PreCodedGpt;
     isDoctorVerified: boolean;
     knowledgeBase: ClinicalProtocol[];
+    previousProtocols?: ChatProtocolState[];
+    patientContext?: PatientContext;
+    extraLayers?: NexusLayer[];   // Per-request layers, merged with the registry by order
 }): AsyncGenerator<NexusOutput> {
     
     // 01: Input comes from UI / Clinician
@@ -30,34 +26,40 @@ export async function* runNexusWorkflow(params: {
         activeGpt: params.activeGpt,
         isDoctorVerified: params.isDoctorVerified,
         knowledgeBase: params.knowledgeBase,
+        previousProtocols: params.previousProtocols || [],
+        patientContext: params.patientContext,
         activeProtocols: [],
+        protocolMatches: [],
+        protocolState: [],
         normalizedInput: '',
+        findings: { demographics: {}, symptoms: [], vitals: [], labs: [], facts: [] },
+        phi: { placeholders: {}, counts: {} },
+        concepts: [],
+        ddx: [],
         systemInstruction: '',
+        requestId: `req-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        startedAt: Date.now(),
         auditTrail: ['[NEXUS Workflow] Starting clinical reasoning process.'],
+        layerTimings: [],
     };
 
     try {
-        // This is the pipeline of operations, following the system architecture
-        context = normalizeInput(context);           // Stratum 1 (Input Normalizer)
-        context = scrubPhi(context);                 // Pre-processing
-        context = mapOntology(context);              // Pre-processing
-        
-        // The core reasoning loop begins
-        context = retrieveKnowledge(context);        // Stratum 3 (Hypothesis Forge - Knowledge)
-        context = applyClinicalDomainLogic(context); // Stratum 3 (Hypothesis Forge - Domain Logic)
-        context = orchestrateReasoning(context);     // Stratum 2, 3, 4, 5 (Orchestration)
-        context = runDdxEngine(context);             // Stratum 3 (DDx Engine)
-        
-        // The reasoning is passed to the LLM
-        context = await queryLlm(context);           // Foundational LLM Interface
+        // Strata 1-3 and the LLM call run from the layer registry (see layerRegistry.ts):
+        // normalize -> scrub PHI -> ontology -> DDx engine -> knowledge -> domain logic
+        // -> orchestration -> LLM.
+        context = await runLayers(context, params.extraLayers);
         
         // The output is composed and guarded
+        const composeStart = Date.now();
         const outputStream = composeOutput(context); // Stratum 4 & 5 (Output & Guardrails)
         for await (const output of outputStream) {
             yield output;
         }
+        // Includes the time spent streaming the LLM response.
+        context.layerTimings.push({ name: 'composeOutput', status: 'ok', durationMs: Date.now() - composeStart });
 
     } catch (error: any) {
+        context.error = error.message;
         context.auditTrail.push(`[NEXUS Workflow] FATAL ERROR: ${error.message}`);
         yield { error: error.message || 'An unexpected error occurred in the clinical workflow.' };
     } finally {
@@ -55,7 +55,7 @@ export const CLINICAL_PROTOCOLS: ClinicalProtocol[] = [
       ],
       alert_triggers: [
           { condition: 'Development of new ST elevation', action: 'Activate STEMI protocol immediately.'},
-          { condition: 'Hypotension (SBP < 90)', action: 'Stop Nitrates/Morphine. Start fluids. Consider cardiogenic shock.'},
+          { condition: 'Hypotension (SBP < 90)', action: 'Stop Nitrates/Morphine. Start fluids. Consider cardiogenic shock.', when: 'SBP < 90' },
       ]
     },
     contraindications_general: ['Avoid NSAIDs (except Aspirin).'],
@@ -0,0 +1,19 @@
+import { RegistryRecord } from './types';
+
+// Registry entries answered by the local stand-in adapter (services/licenseVerification.ts),
+// covering an active registration per council plus suspended and lapsed ones. The names and
+// numbers are fictitious, and none is a council's `example` number (medicalCouncils.ts), which
+// the verification form shows as a placeholder. Development builds only.
+
+export const REGISTRY_FIXTURES: RegistryRecord[] = [
+    { councilId: 'NMC', registrationNumber: 'MCI/14/20581', name: 'Dr. Ananya Rao', qualification: 'MBBS', status: 'active', validUntil: '2030-03-31' },
+    { councilId: 'NMC', registrationNumber: 'NMC/19/10234', name: 'Dr. Vikram Sethi', qualification: 'MBBS', status: 'suspended' },
+    { councilId: 'MH-MC', registrationNumber: '2015/07/4821', name: 'Dr. Meera Kulkarni', qualification: 'MBBS', status: 'active', validUntil: '2029-12-31' },
+    { councilId: 'KA-MC', registrationNumber: 'KMC-204318', name: 'Dr. Arjun Hegde', qualification: 'MBBS', status: 'active' },
+    { councilId: 'DL-MC', registrationNumber: 'DMC/R/30917', name: 'Dr. Farah Khan', qualification: 'MBBS', status: 'active', validUntil: '2022-06-30' },
+    { councilId: 'UP-MC', registrationNumber: 'UPMC-61204', name: 'Dr. Rohit Verma', qualification: 'MBBS', status: 'removed' },
+    { councilId: 'GJ-MC', registrationNumber: 'G-38815', name: 'Dr. Kavya Patel', qualification: 'MBBS', status: 'active' },
+    { councilId: 'NCISM', registrationNumber: 'CCIM/MH/40762', name: 'Vd. Sunil Joshi', qualification: 'BAMS', status: 'active', validUntil: '2028-09-30' },
+    { councilId: 'NCISM', registrationNumber: 'CCIM/UP/54321', name: 'Vd. Pooja Mishra', qualification: 'BAMS', status: 'active' },
+    { councilId: 'NCH', registrationNumber: 'CCH/UP/51093', name: 'Dr. Imran Siddiqui', qualification: 'BHMS', status: 'active' },
+];
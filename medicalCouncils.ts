@@ -0,0 +1,67 @@
+import { MedicalCouncil } from './types';
+
+// Councils that register clinicians, with the registration-number format each issues.
+// Modern medicine: the National Medical Commission's Indian Medical Register and the state
+// medical councils. Ayurveda (BAMS): the Central Council of Indian Medicine register, now
+// kept by NCISM. Homoeopathy (BHMS): the Central Council of Homoeopathy register, now kept by
+// NCH. Formats are matched after normalization (uppercase, spaces removed) and are example
+// configuration: confirm each against the council's current numbering before deployment.
+
+export const MEDICAL_COUNCILS: MedicalCouncil[] = [
+    {
+        id: 'NMC',
+        name: 'National Medical Commission (Indian Medical Register)',
+        qualifications: ['MBBS'],
+        format: /^(?:MCI|NMC)[/-]\d{2}[/-]\d{3,6}$/,
+        example: 'MCI/12/34567',
+    },
+    {
+        id: 'MH-MC',
+        name: 'Maharashtra Medical Council',
+        qualifications: ['MBBS'],
+        format: /^\d{4}[/-]\d{2}[/-]\d{3,5}$/,
+        example: '2012/03/1234',
+    },
+    {
+        id: 'KA-MC',
+        name: 'Karnataka Medical Council',
+        qualifications: ['MBBS'],
+        format: /^KMC[/-]?\d{5,6}$/,
+        example: 'KMC-123456',
+    },
+    {
+        id: 'DL-MC',
+        name: 'Delhi Medical Council',
+        qualifications: ['MBBS'],
+        format: /^DMC[/-]?(?:R[/-]?)?\d{4,6}$/,
+        example: 'DMC/R/12345',
+    },
+    {
+        id: 'UP-MC',
+        name: 'Uttar Pradesh Medical Council',
+        qualifications: ['MBBS'],
+        format: /^UPMC[/-]?\d{5,6}$/,
+        example: 'UPMC-45678',
+    },
+    {
+        id: 'GJ-MC',
+        name: 'Gujarat Medical Council',
+        qualifications: ['MBBS'],
+        format: /^G[/-]?\d{5,6}$/,
+        example: 'G-23456',
+    },
+    {
+        id: 'NCISM',
+        name: 'Central Council of Indian Medicine / NCISM (Central Register of Indian Medicine)',
+        qualifications: ['BAMS'],
+        format: /^(?:CCIM|NCISM)[/-][A-Z]{2,3}[/-]\d{4,6}$/,
+        example: 'CCIM/MH/12345',
+    },
+    {
+        id: 'NCH',
+        name: 'Central Council of Homoeopathy / NCH (Central Register of Homoeopathy)',
+        qualifications: ['BHMS'],
+        format: /^(?:CCH|NCH)[/-][A-Z]{2,3}[/-]\d{4,6}$/,
+        example: 'CCH/UP/23456',
+    },
+];
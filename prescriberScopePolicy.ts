@@ -0,0 +1,67 @@
+import { PrescriberScopePolicy } from './types';
+
+// Per-state prescribing scope for AYUSH (BAMS/BHMS) practitioners.
+// Several states allow limited allopathic prescribing for AYUSH graduates, usually tied to a
+// certificate course in modern pharmacology and an essential-drug list; elsewhere allopathic
+// prescribing is outside their scope. This table is example configuration: confirm each entry
+// against the current state notification before deployment. States without an entry use
+// DEFAULT_SCOPE_POLICY.
+
+const ESSENTIAL_DRUGS = [
+    'Paracetamol', 'Ibuprofen', 'Cetirizine', 'Chlorpheniramine', 'Ondansetron', 'Domperidone',
+    'Omeprazole', 'Pantoprazole', 'Ranitidine', 'Albendazole', 'Amoxicillin', 'Azithromycin',
+    'Metronidazole', 'Salbutamol', 'Metformin', 'Amlodipine', 'Oral Rehydration Salts',
+    'Ferrous Sulfate', 'Folic Acid', 'Calcium Carbonate', 'Zinc Sulfate', 'Dicyclomine',
+];
+
+export const DEFAULT_SCOPE_POLICY: PrescriberScopePolicy = {
+    state: 'Unlisted state',
+    ayushScope: 'no',
+    qualifications: [],
+    permittedDrugs: [],
+    enforcement: 'referral',
+    basis: 'No state notification permitting allopathic prescribing by AYUSH practitioners.',
+};
+
+export const SCOPE_POLICIES: PrescriberScopePolicy[] = [
+    {
+        state: 'Maharashtra',
+        ayushScope: 'limited',
+        qualifications: ['BAMS', 'BHMS'],
+        permittedDrugs: ESSENTIAL_DRUGS,
+        enforcement: 'annotate',
+        basis: 'Limited modern-medicine prescribing for AYUSH graduates holding the certificate course in modern pharmacology.',
+    },
+    {
+        state: 'Uttar Pradesh',
+        ayushScope: 'limited',
+        qualifications: ['BAMS'],
+        permittedDrugs: ESSENTIAL_DRUGS,
+        enforcement: 'annotate',
+        basis: 'Limited allopathic prescribing for BAMS practitioners from the essential-drug list.',
+    },
+    {
+        state: 'Gujarat',
+        ayushScope: 'limited',
+        qualifications: ['BAMS'],
+        permittedDrugs: ['Paracetamol', 'Ondansetron', 'Oral Rehydration Salts', 'Cetirizine', 'Salbutamol'],
+        enforcement: 'referral',
+        basis: 'Emergency and first-aid allopathic drugs only.',
+    },
+    {
+        state: 'Karnataka',
+        ayushScope: 'no',
+        qualifications: [],
+        permittedDrugs: [],
+        enforcement: 'suppress',
+        basis: 'Allopathic prescribing is outside the scope of AYUSH registration.',
+    },
+    {
+        state: 'Delhi',
+        ayushScope: 'no',
+        qualifications: [],
+        permittedDrugs: [],
+        enforcement: 'referral',
+        basis: 'Allopathic prescribing is outside the scope of AYUSH registration.',
+    },
+];
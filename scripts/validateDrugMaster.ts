@@ -0,0 +1,15 @@
+import { validateDrugMaster } from '../services/drugMaster';
+import { DRUG_MASTER } from '../drugMaster';
+
+// `npm run validate:drugs`: lists the drug master's issues and fails on duplicate or unknown
+// names. Incomplete entries are reported as warnings only.
+
+const issues = validateDrugMaster();
+const errors = issues.filter(i => i.kind !== 'incomplete');
+const warnings = issues.filter(i => i.kind === 'incomplete');
+
+for (const issue of errors) console.error(`error   [${issue.kind}] ${issue.message}`);
+for (const issue of warnings) console.warn(`warning [${issue.kind}] ${issue.message}`);
+console.log(`${DRUG_MASTER.length} drugs checked: ${errors.length} error(s), ${warnings.length} warning(s).`);
+
+if (errors.length > 0) process.exit(1);
@@ -26,6 +26,12 @@ export const postToProxy = async (endpoint: string, body: any): Promise<any> =>
         case '/tts/synthesize':
             return callGeminiTts(body);
 
+        case '/audit/append':
+            return appendAuditLine(body);
+
+        case '/audit/jsonl':
+            return auditJsonl.join('');
+
         default:
             throw new Error(`Unknown proxy endpoint: ${endpoint}`);
     }
@@ -66,6 +72,16 @@ async function callGeminiStream(body: any): Promise<AsyncGenerator<string>> {
     }
 }
 
+// --- Audit Log Handler ---
+// The real proxy appends each record as one line to `audit.jsonl` (opened in append-only
+// mode). The simulation keeps the lines in memory so the format can be inspected.
+const auditJsonl: string[] = [];
+
+async function appendAuditLine(record: any): Promise<{ ok: boolean }> {
+    auditJsonl.push(JSON.stringify(record) + '\n');
+    return { ok: true };
+}
+
 // --- Gemini TTS Handler ---
 // Simulates the structure expected by services/googleTtsService.ts but uses Gemini model
 async function callGeminiTts(body: any): Promise<{ audioContent: string | null }> {
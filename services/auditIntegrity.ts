@@ -0,0 +1,133 @@
+import { AuditRecord, AuditRecordContent, AuditChainVerification, AuditExportBundle } from '../types';
+
+// Tamper evidence for the audit log.
+// Every record carries the SHA-256 of its own contents and of the previous record's hash, so
+// editing, deleting or reordering any record breaks every link after it. Export bundles are
+// additionally signed with the installation's ECDSA P-256 key; the auditor checks the key
+// fingerprint against the one registered for the installation, then verifies offline.
+// Uses only Web Crypto, which is available in browsers and in Node.
+
+export const GENESIS_HASH = '0'.repeat(64);
+const BUNDLE_FORMAT = 'nexus-audit-bundle/v1';
+const SIGNING_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+// JSON with sorted keys, so the same record always hashes to the same value.
+export const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+    [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+    let binary = '';
+    new Uint8Array(buffer).forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const sha256Hex = async (text: string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const hashRecord = (content: AuditRecordContent, sequence: number, previousHash: string): Promise<string> =>
+    sha256Hex(canonicalJson({ ...content, sequence, previousHash }));
+
+export const sealRecord = async (content: AuditRecordContent, previous?: AuditRecord): Promise<AuditRecord> => {
+    const sequence = previous ? previous.sequence + 1 : 1;
+    const previousHash = previous ? previous.hash : GENESIS_HASH;
+    return { ...content, sequence, previousHash, hash: await hashRecord(content, sequence, previousHash) };
+};
+
+// Walks records in sequence order and reports the first link that does not hold.
+// `expectedPreviousHash` lets a bundle that starts mid-chain be verified on its own.
+export const verifyChain = async (records: AuditRecord[], expectedPreviousHash?: string): Promise<AuditChainVerification> => {
+    const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+    let previous: AuditRecord | undefined;
+
+    for (const [index, record] of sorted.entries()) {
+        const broken = (reason: string): AuditChainVerification => ({
+            valid: false,
+            checked: index,
+            brokenAt: { sequence: record.sequence, requestId: record.requestId, reason },
+        });
+
+        if (!record.hash) return broken('Record has no hash (written before hash chaining).');
+        if (previous && record.sequence !== previous.sequence + 1) {
+            return broken(`Sequence gap: expected ${previous.sequence + 1}, found ${record.sequence}.`);
+        }
+        const expectedPrevious = previous ? previous.hash : expectedPreviousHash ?? (record.sequence === 1 ? GENESIS_HASH : record.previousHash);
+        if (record.previousHash !== expectedPrevious) {
+            return broken('previousHash does not match the preceding record.');
+        }
+        const { sequence, previousHash, hash, ...content } = record;
+        if (await hashRecord(content, sequence, previousHash) !== hash) {
+            return broken('Record contents do not match its hash.');
+        }
+        previous = record;
+    }
+    return { valid: true, checked: sorted.length };
+};
+
+// --- Signed export bundles ---
+
+const bundleManifest = (bundle: Pick<AuditExportBundle, 'format' | 'exportedAt' | 'records' | 'headHash' | 'keyFingerprint'>): string =>
+    canonicalJson({
+        format: bundle.format,
+        exportedAt: bundle.exportedAt,
+        headHash: bundle.headHash,
+        keyFingerprint: bundle.keyFingerprint,
+        recordHashes: bundle.records.map(r => r.hash),
+    });
+
+export const generateSigningKeyPair = (): Promise<CryptoKeyPair> =>
+    crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+
+export const publicKeyFingerprint = async (publicKeyJwk: JsonWebKey): Promise<string> =>
+    sha256Hex(canonicalJson({ crv: publicKeyJwk.crv, kty: publicKeyJwk.kty, x: publicKeyJwk.x, y: publicKeyJwk.y }));
+
+export const createSignedBundle = async (records: AuditRecord[], keyPair: CryptoKeyPair): Promise<AuditExportBundle> => {
+    const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+    const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const unsigned = {
+        format: BUNDLE_FORMAT as AuditExportBundle['format'],
+        exportedAt: new Date().toISOString(),
+        records: sorted,
+        headHash: sorted.length > 0 ? sorted[sorted.length - 1].hash : GENESIS_HASH,
+        keyFingerprint: await publicKeyFingerprint(publicKeyJwk),
+    };
+    const signature = await crypto.subtle.sign(SIGNING_ALGORITHM, keyPair.privateKey, new TextEncoder().encode(bundleManifest(unsigned)));
+    return { ...unsigned, publicKeyJwk, signature: toBase64(signature) };
+};
+
+export interface BundleVerification extends AuditChainVerification {
+    signatureValid: boolean;
+    keyFingerprint: string;
+    reason?: string;
+}
+
+export const verifySignedBundle = async (bundle: AuditExportBundle): Promise<BundleVerification> => {
+    const fail = (reason: string): BundleVerification => ({ valid: false, checked: 0, signatureValid: false, keyFingerprint: bundle.keyFingerprint || '', reason });
+
+    if (bundle.format !== BUNDLE_FORMAT) return fail(`Unsupported bundle format: ${bundle.format}`);
+    const fingerprint = await publicKeyFingerprint(bundle.publicKeyJwk);
+    if (fingerprint !== bundle.keyFingerprint) return fail('Key fingerprint does not match the embedded public key.');
+
+    const publicKey = await crypto.subtle.importKey('jwk', bundle.publicKeyJwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    const signatureValid = await crypto.subtle.verify(SIGNING_ALGORITHM, publicKey, fromBase64(bundle.signature), new TextEncoder().encode(bundleManifest(bundle)));
+    if (!signatureValid) return { ...fail('Signature does not match the bundle contents.'), keyFingerprint: fingerprint };
+
+    const sorted = [...bundle.records].sort((a, b) => a.sequence - b.sequence);
+    const headHash = sorted.length > 0 ? sorted[sorted.length - 1].hash : GENESIS_HASH;
+    if (headHash !== bundle.headHash) return { ...fail('Head hash does not match the last record.'), signatureValid, keyFingerprint: fingerprint };
+
+    const chain = await verifyChain(sorted, sorted[0]?.previousHash);
+    return { ...chain, signatureValid, keyFingerprint: fingerprint, reason: chain.brokenAt?.reason };
+};
@@ -0,0 +1,164 @@
+import { AuditRecord, AuditRecordContent, AuditChainVerification, AuditExportBundle } from '../types';
+import { postToProxy } from './api';
+import { sealRecord, verifyChain, createSignedBundle, generateSigningKeyPair, GENESIS_HASH } from './auditIntegrity';
+
+// Append-only audit store.
+// Records are sealed into a SHA-256 hash chain (see auditIntegrity.ts), written to IndexedDB in
+// the browser and mirrored to the proxy, which appends them to its JSONL log. The store exposes
+// no update or delete: corrections are new records.
+
+const DB_NAME = 'nexus-audit';
+const DB_VERSION = 2;
+const STORE = 'records';
+const KEY_STORE = 'keys';
+const SIGNING_KEY_ID = 'audit-signing';
+
+const openDb = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            // v1: records keyed by request id
+            if (event.oldVersion < 1) {
+                const store = db.createObjectStore(STORE, { keyPath: 'requestId' });
+                store.createIndex('timestamp', 'timestamp');
+            }
+            // v2: hash chain position (unique, so two writers cannot fork the chain) and signing keys
+            if (event.oldVersion < 2) {
+                request.transaction!.objectStore(STORE).createIndex('sequence', 'sequence', { unique: true });
+                db.createObjectStore(KEY_STORE);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Without IndexedDB (e.g. server-side runs) the chain is kept for the lifetime of the process.
+let lastInMemory: AuditRecord | undefined;
+
+const getLastRecord = async (db?: IDBDatabase): Promise<AuditRecord | undefined> => {
+    if (!db) return lastInMemory;
+    const cursor = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).index('sequence').openCursor(null, 'prev'));
+    return cursor ? (cursor.value as AuditRecord) : undefined;
+};
+
+const sealAndStore = async (content: AuditRecordContent): Promise<AuditRecord> => {
+    const db = isIndexedDbAvailable() ? await openDb() : undefined;
+    try {
+        // Hashing is async, so the read and the write use separate transactions; the append
+        // queue below keeps them from interleaving within this tab.
+        const record = await sealRecord(content, await getLastRecord(db));
+        if (db) {
+            const tx = db.transaction(STORE, 'readwrite');
+            // `add` rejects an existing key, so a record can never be overwritten.
+            tx.objectStore(STORE).add(record);
+            await new Promise<void>((resolve, reject) => {
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+        } else {
+            lastInMemory = record;
+        }
+        return record;
+    } finally {
+        db?.close();
+    }
+};
+
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+export const appendAuditRecord = (content: AuditRecordContent): Promise<void> => {
+    const appended = appendQueue.then(() => sealAndStore(content));
+    appendQueue = appended.catch(() => undefined);
+    return appended.then(record => postToProxy('/audit/append', record));
+};
+
+export interface AuditLogFilter {
+    from?: string;                // ISO date (inclusive), e.g. "2024-08-01"
+    to?: string;                  // ISO date (inclusive)
+    protocolId?: string;
+    actionType?: AuditRecord['actionType'];
+}
+
+const getAllRecords = async (): Promise<AuditRecord[]> => {
+    if (!isIndexedDbAvailable()) return lastInMemory ? [lastInMemory] : [];
+    const db = await openDb();
+    try {
+        const records = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+        return (records as AuditRecord[]).sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+    } finally {
+        db.close();
+    }
+};
+
+export const listAuditRecords = async (filter: AuditLogFilter = {}): Promise<AuditRecord[]> => {
+    const records = await getAllRecords();
+    return records
+        .filter(r => !filter.from || r.timestamp.slice(0, 10) >= filter.from)
+        .filter(r => !filter.to || r.timestamp.slice(0, 10) <= filter.to)
+        .filter(r => !filter.protocolId || r.protocolIds.includes(filter.protocolId))
+        .filter(r => !filter.actionType || r.actionType === filter.actionType)
+        .reverse(); // Newest first
+};
+
+// Verifies the whole local chain from the first record.
+export const verifyAuditLog = async (): Promise<AuditChainVerification> =>
+    verifyChain(await getAllRecords(), GENESIS_HASH);
+
+// The signing key is generated once per installation; the private key is not extractable.
+const getSigningKeyPair = async (): Promise<CryptoKeyPair> => {
+    if (!isIndexedDbAvailable()) return generateSigningKeyPair();
+    const db = await openDb();
+    try {
+        const existing = await promisify(db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(SIGNING_KEY_ID));
+        if (existing) return existing as CryptoKeyPair;
+        const keyPair = await generateSigningKeyPair();
+        await promisify(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).add(keyPair, SIGNING_KEY_ID));
+        return keyPair;
+    } finally {
+        db.close();
+    }
+};
+
+// Bundles are signed over the full chain, or over a contiguous slice of it (e.g. a filtered view).
+export const exportSignedAuditBundle = async (records?: AuditRecord[]): Promise<AuditExportBundle> =>
+    createSignedBundle(records ?? await getAllRecords(), await getSigningKeyPair());
+
+const CSV_COLUMNS: [string, (r: AuditRecord) => string | number | undefined][] = [
+    ['sequence', r => r.sequence],
+    ['request_id', r => r.requestId],
+    ['timestamp', r => r.timestamp],
+    ['qualification', r => r.doctorProfile.qualification],
+    ['can_prescribe_allopathic', r => r.doctorProfile.canPrescribeAllopathic],
+    ['verified', r => String(r.isDoctorVerified)],
+    ['gpt_id', r => r.gptId],
+    ['protocols', r => r.protocolIds.join(' ')],
+    ['action_type', r => r.actionType],
+    ['redactions', r => Object.entries(r.redactionCounts).map(([type, n]) => `${type}:${n}`).join(' ')],
+    ['model', r => r.model],
+    ['latency_ms', r => r.latencyMs],
+    ['prompt_tokens', r => r.tokens.prompt],
+    ['completion_tokens', r => r.tokens.completion],
+    ['total_tokens', r => r.tokens.total],
+    ['error', r => r.error],
+    ['hash', r => r.hash],
+];
+
+const escapeCsv = (value: string | number | undefined): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditRecordsToCsv = (records: AuditRecord[]): string =>
+    [
+        CSV_COLUMNS.map(([header]) => header).join(','),
+        ...records.map(r => CSV_COLUMNS.map(([, get]) => escapeCsv(get(r))).join(',')),
+    ].join('\n');
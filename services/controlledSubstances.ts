@@ -0,0 +1,117 @@
+import { DrugSchedule, ScheduledDrugMention, VerificationRequirement } from '../types';
+import { DRUG_MASTER } from '../drugMaster';
+import { detectAllopathicDrugs } from './prescriberScope';
+import { parseDoses } from '../utils/doseParsing';
+
+// Controlled-substance gating.
+// Drugs on the NDPS / Schedule H1 / Schedule X list (the drug master's `schedule`)
+// may be named and discussed with any clinician, but their doses are only given to clinicians
+// whose license has been verified. For everyone else every dose (mass, volume or dosage-form
+// count) in a block that mentions a scheduled drug is withheld, and the answer carries a
+// VerificationRequirement so the UI can ask for verification and replay the message. Used by
+// the NEXUS guardrails.
+
+const WITHHELD = '[dose withheld: license verification required]';
+
+let schedules: Map<string, DrugSchedule> | null = null;
+
+const getSchedules = () => {
+    if (schedules) return schedules;
+    schedules = new Map();
+    for (const entry of DRUG_MASTER) {
+        if (entry.schedule === 'OTC' || entry.schedule === 'H') continue;
+        for (const name of [entry.generic, ...(entry.synonyms || [])]) schedules.set(name.toLowerCase(), entry.schedule);
+    }
+    return schedules;
+};
+
+export const getDrugSchedule = (drug: string): DrugSchedule | undefined => getSchedules().get(drug.toLowerCase());
+
+// Scheduled drugs mentioned in the text (by generic name, synonym or brand), in order of appearance.
+export const detectScheduledDrugs = (text: string): ScheduledDrugMention[] =>
+    detectAllopathicDrugs(text).flatMap(drug => {
+        const schedule = getDrugSchedule(drug);
+        return schedule ? [{ drug, schedule }] : [];
+    });
+
+// Quantities other than a mass: volumes, dosage-form counts and units ("10 ml", "1-2 tablets",
+// "5000 units"). Mass doses are parsed by utils/doseParsing.ts.
+const QUANTITY_PATTERN = /(?<![\w.])(?:\d+(?:\.\d+)?|½|half|one|two|three|four)(?:\s*(?:-|–|to)\s*(?:\d+(?:\.\d+)?|two|three|four))?\s*(?:ml|millilit(?:re|er)s?|tablets?|tabs?|capsules?|caps?|drops?|puffs?|sprays?|units?|iu|meq|sachets?|ampoules?|amps?|vials?|patch(?:es)?|suppositor(?:y|ies)|teaspoons?|tsp)(?![a-z])(?:\s*(?:\/|per)\s*kg)?/gi;
+
+// Lines that open a block of their own: Markdown headings and bold titles ("**Morphine**").
+const TITLE_LINE = /^\s*(?:#{1,6}\s|(?:\*\*|__)[^*_]+(?:\*\*|__):?\s*$)/;
+
+// Splits text into the blocks doses are withheld by: paragraphs, list runs and table runs, with a
+// heading or bold title kept with the paragraph that follows it. A drug and its dose are
+// usually in one block even when they are not on one line ("**Morphine**\n- Dose: 2-4 mg IV").
+// Joining the blocks gives back the text. A block is only complete once the next has started.
+export const splitDoseBlocks = (text: string): string[] => {
+    const blocks: string[] = [];
+    let current = '';
+    let titleOnly = false; // The block so far is a title and blank lines
+    let ended = false;     // A blank line closed the block
+    for (const line of text.split(/(?<=\n)/)) {
+        const blank = !line.trim();
+        const title = TITLE_LINE.test(line);
+        if (current && !blank && (title || ended)) {
+            blocks.push(current);
+            current = '';
+        }
+        if (!current) { titleOnly = title; ended = false; }
+        current += line;
+        if (blank) ended = ended || !titleOnly;
+        else if (!title) titleOnly = false;
+    }
+    if (current) blocks.push(current);
+    return blocks;
+};
+
+// Replaces every dose in the text, right to left so earlier offsets stay valid. Overlapping
+// matches (a mass dose and a quantity) are withheld once.
+const withholdDoses = (text: string): { text: string; count: number } => {
+    const spans = [
+        ...parseDoses(text).map(d => [d.index, d.index + d.text.length]),
+        ...[...text.matchAll(QUANTITY_PATTERN)].map(m => [m.index ?? 0, (m.index ?? 0) + m[0].length]),
+    ].sort((x, y) => x[0] - y[0]);
+    const merged: number[][] = [];
+    for (const [start, end] of spans) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+        else merged.push([start, end]);
+    }
+    let result = text;
+    for (const [start, end] of [...merged].reverse()) result = result.slice(0, start) + WITHHELD + result.slice(end);
+    return { text: result, count: merged.length };
+};
+
+// Each block of the text with its doses withheld if it mentions a scheduled drug, for answers
+// that are shown while they stream. `surrounding` is text the block belongs with but that is
+// not being released, such as the other fields of a structured payload item.
+export const withholdControlledDosingInText = (text: string, surrounding = ''): string =>
+    splitDoseBlocks(text).map(block =>
+        detectScheduledDrugs(`${block}\n${surrounding}`).length > 0 ? withholdDoses(block).text : block
+    ).join('');
+
+// Null when the text gives no doses for scheduled drugs. Blocks are the unit of withholding,
+// so a block that doses a scheduled and an unscheduled drug loses both doses.
+export const withholdControlledDosing = (text: string): { text: string; requirement: VerificationRequirement } | null => {
+    const drugs = new Map<string, ScheduledDrugMention>();
+    let withheldDoses = 0;
+    const blocks = splitDoseBlocks(text).map(block => {
+        const scheduled = detectScheduledDrugs(block);
+        if (scheduled.length === 0) return block;
+        const withheld = withholdDoses(block);
+        if (withheld.count === 0) return block;
+        withheldDoses += withheld.count;
+        scheduled.forEach(d => drugs.set(d.drug, d));
+        return withheld.text;
+    });
+    if (withheldDoses === 0) return null;
+
+    const requirement: VerificationRequirement = { reason: 'controlled-substance', drugs: [...drugs.values()], withheldDoses };
+    const names = requirement.drugs.map(d => `${d.drug} (${d.schedule === 'NDPS' ? 'NDPS Act' : `Schedule ${d.schedule}`})`).join(', ');
+    return {
+        text: `${blocks.join('')}\n\n_Dosing withheld for ${names}: verify your medical license to view doses for controlled substances._`,
+        requirement,
+    };
+};
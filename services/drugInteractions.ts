@@ -0,0 +1,95 @@
+import { DrugInteraction, InteractionSeverity, InteractionWarning } from '../types';
+import { PatientRecordItem } from '../engine/types';
+import { DRUG_INTERACTIONS, INTERACTION_CLASSES } from '../drugInteractions';
+import { detectAllopathicDrugs, locateAllopathicDrugs } from './prescriberScope';
+import { medicineColumns, planMedicines } from '../utils/clinicalNote';
+import { isNegatedAt } from '../utils/doseParsing';
+
+// Drug–drug interaction checking.
+// Drugs are detected by generic name, synonym or Indian brand (the prescriber-scope lexicon)
+// and checked pairwise against the interaction table (drugInteractions.ts), where a class such
+// as "NSAIDs" matches any of its members. The patient's active medications from the record are
+// included, but only pairs involving at least one newly mentioned drug are reported: an
+// interaction within the existing regimen is not the current prescriber's to flag again.
+// Used by the NEXUS guardrails for chat answers and by the scribe's prescription preview.
+
+const SEVERITY_ORDER: InteractionSeverity[] = ['contraindicated', 'major', 'moderate'];
+
+const matches = (entry: string, drug: string): boolean => {
+    const name = drug.toLowerCase();
+    const members = INTERACTION_CLASSES[entry];
+    return members ? members.some(m => m.toLowerCase() === name) : entry.toLowerCase() === name;
+};
+
+const toWarning = (interaction: DrugInteraction, drugs: [string, string], onRecord?: string): InteractionWarning => ({
+    interactionId: interaction.id,
+    drugs,
+    severity: interaction.severity,
+    mechanism: interaction.mechanism,
+    management: interaction.management,
+    ...(onRecord ? { onRecord } : {}),
+});
+
+// Interactions among the given drugs, and between them and the recorded medications.
+// Most severe first.
+export const findInteractions = (drugs: string[], recordMedications: PatientRecordItem[] = []): InteractionWarning[] => {
+    const mentioned = new Set(drugs.map(d => d.toLowerCase()));
+    const candidates: { drug: string; record?: PatientRecordItem }[] = drugs.map(drug => ({ drug }));
+    for (const item of recordMedications) {
+        for (const drug of detectAllopathicDrugs(item.text)) {
+            if (!mentioned.has(drug.toLowerCase())) candidates.push({ drug, record: item });
+        }
+    }
+
+    const warnings: InteractionWarning[] = [];
+    const seen = new Set<string>();
+    for (const interaction of DRUG_INTERACTIONS) {
+        const [first, second] = interaction.between;
+        for (const a of candidates.filter(c => matches(first, c.drug))) {
+            for (const b of candidates.filter(c => matches(second, c.drug))) {
+                if (a.drug.toLowerCase() === b.drug.toLowerCase() || (a.record && b.record)) continue;
+                const key = `${interaction.id}:${a.drug}:${b.drug}`.toLowerCase();
+                if (seen.has(key)) continue;
+                seen.add(key);
+                const record = a.record || b.record;
+                warnings.push(toWarning(interaction, [a.drug, b.drug], record && `${record.text} (${record.origin})`));
+            }
+        }
+    }
+    return warnings.sort((x, y) => SEVERITY_ORDER.indexOf(x.severity) - SEVERITY_ORDER.indexOf(y.severity));
+};
+
+// Drugs a chat answer recommends. In each clause, the drugs from the first negated one onwards
+// are a caution, not a recommendation: "do not give nitroglycerin if sildenafil was taken"
+// names neither for use. Commas end a clause, so in "continue warfarin, not aspirin, and start
+// ibuprofen" only aspirin is dropped. A decimal point ("0.4 mg") does not end a clause.
+const recommendedDrugs = (text: string): string[] => {
+    const drugs = new Set<string>();
+    for (const clause of text.split(/[;,\n]|\.(?!\d)/)) {
+        const mentions = locateAllopathicDrugs(clause);
+        const caution = mentions.findIndex(m => isNegatedAt(clause, m.index));
+        for (const { drug } of caution === -1 ? mentions : mentions.slice(0, caution)) drugs.add(drug);
+    }
+    return [...drugs];
+};
+
+// Interactions among the drugs a chat answer recommends.
+export const checkTextInteractions = (text: string, recordMedications?: PatientRecordItem[]): InteractionWarning[] =>
+    findInteractions(recommendedDrugs(text), recordMedications);
+
+// Interactions among the medicines of a scribe note's Plan (the name column of each medicine
+// line), so drugs named only in advice ("avoid NSAIDs") are not counted as prescribed.
+export const checkPrescriptionInteractions = (clinicalNote: string, recordMedications?: PatientRecordItem[]): InteractionWarning[] => {
+    const drugs = planMedicines(clinicalNote).flatMap(line => detectAllopathicDrugs(medicineColumns(line)![0]));
+    return findInteractions([...new Set(drugs)], recordMedications);
+};
+
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+    contraindicated: 'Contraindicated',
+    major: 'Major',
+    moderate: 'Moderate',
+};
+
+// Major and contraindicated interactions must be acknowledged before a prescription is exported.
+export const requiresAcknowledgement = (warnings: InteractionWarning[]): boolean =>
+    warnings.some(w => w.severity !== 'moderate');
@@ -0,0 +1,95 @@
+import { DrugMasterEntry, DrugMasterIssue } from '../types';
+import { DRUG_MASTER } from '../drugMaster';
+import { CLINICAL_ONTOLOGY } from '../clinicalOntology';
+import { CLINICAL_PROTOCOLS } from '../knowledgeBase';
+import { DRUG_INTERACTIONS, INTERACTION_CLASSES } from '../drugInteractions';
+
+// Drug master lookup, prompt references and validation.
+// Every generic, synonym and brand in drugMaster.ts resolves to its entry, case-insensitively.
+// The scribe's prompts carry a compact name list so brands are heard correctly, and the full
+// records only for the drugs actually mentioned, to keep the prompt small. The validation
+// (run by `npm run validate:drugs`) checks the master against itself and against the other
+// tables that name drugs: the terminology table, the protocol dosing tables and the
+// interaction table.
+
+let index: Map<string, DrugMasterEntry> | null = null;
+
+const namesOf = (entry: DrugMasterEntry): string[] => [entry.generic, ...(entry.synonyms || []), ...entry.brands];
+
+const getIndex = () => {
+    if (index) return index;
+    index = new Map();
+    for (const entry of DRUG_MASTER) {
+        for (const name of namesOf(entry)) {
+            if (!index.has(name.toLowerCase())) index.set(name.toLowerCase(), entry);
+        }
+    }
+    return index;
+};
+
+// The entry for a generic name, synonym or brand.
+export const findDrug = (name: string): DrugMasterEntry | undefined => getIndex().get(name.trim().toLowerCase());
+
+// "Paracetamol (Acetaminophen; Crocin, Dolo 650)" per entry: what the transcript cleanup
+// needs to recognise a drug and write its generic name.
+export const drugNameReference = (): string =>
+    DRUG_MASTER.map(entry => {
+        const aliases = [(entry.synonyms || []).join(', '), entry.brands.join(', ')].filter(Boolean).join('; ');
+        return aliases ? `${entry.generic} (${aliases})` : entry.generic;
+    }).join('\n');
+
+// Full records for the given drug names, for dose checks in the prescription prompt.
+export const drugRecordReference = (names: string[]): string => {
+    const entries = [...new Set(names.map(findDrug).filter((e): e is DrugMasterEntry => !!e))];
+    return entries.map(entry => [
+        `${entry.generic} [${entry.schedule === 'OTC' ? 'OTC' : entry.schedule === 'NDPS' ? 'NDPS Act' : `Schedule ${entry.schedule}`}]`,
+        `  Strengths: ${entry.strengths.join(', ')} | Forms: ${entry.forms.join(', ')} | Default route: ${entry.route}`,
+        `  Adult: ${entry.adultDose}`,
+        entry.paediatricDose && `  Paediatric: ${entry.paediatricDose}`,
+        `  Renal adjustment: ${entry.renalAdjustment ? 'yes' : 'no'} | Hepatic adjustment: ${entry.hepaticAdjustment ? 'yes' : 'no'}${entry.pregnancyCategory ? ` | Pregnancy: ${entry.pregnancyCategory}` : ''}`,
+    ].filter(Boolean).join('\n')).join('\n');
+};
+
+// Names that collide across entries, drug names elsewhere that the master does not know,
+// and entries missing the fields the prescription template relies on.
+export const validateDrugMaster = (): DrugMasterIssue[] => {
+    const issues: DrugMasterIssue[] = [];
+
+    const owners = new Map<string, DrugMasterEntry>();
+    for (const entry of DRUG_MASTER) {
+        const own = new Set<string>();
+        for (const name of namesOf(entry)) {
+            const key = name.toLowerCase();
+            if (own.has(key)) {
+                issues.push({ kind: 'duplicate', name, message: `"${name}" is listed more than once under ${entry.generic}.` });
+                continue;
+            }
+            own.add(key);
+            const owner = owners.get(key);
+            if (owner) issues.push({ kind: 'duplicate', name, message: `"${name}" names both ${owner.generic} and ${entry.generic}.` });
+            else owners.set(key, entry);
+        }
+    }
+
+    const referenced: { name: string; source: string }[] = [
+        ...CLINICAL_ONTOLOGY.filter(c => c.category === 'drug').map(c => ({ name: c.name, source: `terminology concept ${c.id}` })),
+        ...CLINICAL_PROTOCOLS.flatMap(p => p.dosing_table.map(d => ({ name: d.drug_name.split('(')[0].trim(), source: `protocol ${p.id}` }))),
+        ...Object.entries(INTERACTION_CLASSES).flatMap(([cls, members]) => members.map(name => ({ name, source: `interaction class "${cls}"` }))),
+        ...DRUG_INTERACTIONS.flatMap(i => i.between.filter(name => !INTERACTION_CLASSES[name]).map(name => ({ name, source: `interaction ${i.id}` }))),
+    ];
+    for (const { name, source } of referenced) {
+        if (!findDrug(name)) issues.push({ kind: 'unknown-name', name, message: `"${name}" (${source}) is not in the drug master.` });
+    }
+
+    for (const entry of DRUG_MASTER) {
+        const missing = [
+            entry.brands.length === 0 && 'brands',
+            entry.strengths.length === 0 && 'strengths',
+            entry.forms.length === 0 && 'forms',
+            !entry.route.trim() && 'route',
+            !entry.adultDose.trim() && 'adult dose',
+        ].filter(Boolean);
+        if (missing.length > 0) issues.push({ kind: 'incomplete', name: entry.generic, message: `${entry.generic} has no ${missing.join(', ')}.` });
+    }
+    return issues;
+};
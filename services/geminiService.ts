@@ -7,10 +7,15 @@ import {
   PromptInsight,
   ClinicalProtocol,
   UserRole,
+  ChatProtocolState,
 } from '../types';
 import { runNexusWorkflow } from '../engine/workflow';
+import { PatientContext } from '../engine/types';
+import { describePatientContext, hasPatientHistory } from './patientContext';
 import { prescriptionDictionary } from '../prescription_dictionary';
 import { CLINICAL_PROTOCOLS } from '../knowledgeBase';
+import { applyScopeToPrescription, detectAllopathicDrugs } from './prescriberScope';
+import { drugNameReference, drugRecordReference } from './drugMaster';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -97,13 +102,16 @@ export const cleanupTranscript = async (
     CLEANUP RULES:
     1. Remove filler words (um, ah, like, you know).
     2. Correct diarization errors if they seem obvious.
-    3. CRITICAL: Correct any misspelled medical terms, symptoms, or medications using the provided dictionary as a reference.
+    3. CRITICAL: Correct any misspelled medical terms, symptoms, or medications using the provided dictionary and drug list as a reference. Keep a brand name as spoken; only correct its spelling.
     4. HARD RULE: Do NOT add any medications that were not explicitly mentioned in the raw transcript. Only correct spellings of mentioned ones.
     5. ${language === 'Auto-detect' ? 'Use the primary language(s) detected in the transcript.' : `Keep the output strictly in the native script of ${language}.`}
     6. Maintain the original meaning and conversational flow, but make it professional.
     
     DICTIONARY REFERENCE:
     ${dictionaryContext}
+
+    DRUG LIST (Generic (synonyms; Indian brands)):
+${drugNameReference()}
   `;
 
   try {
@@ -119,9 +127,16 @@ export const cleanupTranscript = async (
   }
 };
 
+// Earlier encounters of the session's patient, as background for the note and the plan.
+const patientRecordContext = (patientContext?: PatientContext): string =>
+  patientContext && hasPatientHistory(patientContext)
+    ? `\n    PATIENT RECORD (from earlier encounters; background only, never a source of new findings, drugs or advice):\n${describePatientContext(patientContext)}\n`
+    : '';
+
 export const generateSoapNote = async (
   cleanedTranscript: string,
-  language: string
+  language: string,
+  patientContext?: PatientContext
 ): Promise<string> => {
   const systemInstruction = `
     You are an expert clinical documentalist.
@@ -138,6 +153,8 @@ export const generateSoapNote = async (
     6. DIFFERENTIAL DIAGNOSIS: List other potential diagnoses that are being considered, if any.
     7. DO NOT include a "Plan" or "Prescription" section here.
     8. NO markdown formatting within sections (bold/italics).
+    9. PATIENT RECORD: If one is given, use it only to interpret the transcript (e.g. a known condition in the Assessment when the clinician refers to it). Do not copy record items into Subjective, Objective or Lab Results.
+    ${patientRecordContext(patientContext)}
   `;
 
   try {
@@ -155,10 +172,14 @@ export const generateSoapNote = async (
 
 export const generatePrescription = async (
   cleanedTranscript: string,
-  language: string
+  language: string,
+  doctorProfile?: DoctorProfile,
+  patientContext?: PatientContext
 ): Promise<string> => {
   const dictionaryContext = JSON.stringify(prescriptionDictionary);
   const protocolsContext = JSON.stringify(CLINICAL_PROTOCOLS);
+  // Full drug master records only for the drugs actually mentioned, for dose checks.
+  const mentionedDrugs = drugRecordReference(detectAllopathicDrugs(cleanedTranscript));
 
   const systemInstruction = `
     You are an expert clinical pharmacologist.
@@ -167,12 +188,16 @@ export const generatePrescription = async (
     REFERENCE DATA:
     - Dictionary: ${dictionaryContext}
     - Clinical Protocols: ${protocolsContext}
+    - Drug List (Generic (synonyms; Indian brands)):
+${drugNameReference()}
+    - Drug Master records for the drugs mentioned:
+${mentionedDrugs || '    (none recognised)'}
     
     RULES:
     1. HEADER: Use "## Plan".
     2. HARD RULE: Only extract drugs and advice (diet, follow-up, warnings, etc.) that were EXPLICITLY mentioned in the cleaned transcript. Do NOT hallucinate, suggest, or recommend any additional drugs or advice that were not stated by the clinician.
     3. VALIDATION RULE: You MUST validate and extract four parameters for every medication:
-       - Name: Validate against the Dictionary.
+       - Name: Write the generic name from the Drug List, even when a brand or synonym was spoken.
        - Dosage: Extract the specific dose mentioned (e.g., 500mg, 1 tablet).
        - Frequency: Extract how often (e.g., once daily, BD).
        - Route: Extract the route (e.g., Oral, IV).
@@ -180,9 +205,11 @@ export const generatePrescription = async (
        Example: "- Paracetamol | 500mg | Twice daily | Oral"
        If a parameter is missing, mark it as "Not specified".
     5. ADVICE: List all other clinician-stated instructions in short bullet points.
-    6. ACCURACY: Cross-reference with the Dictionary and Clinical Protocols only for spelling and dosage validation of mentioned items.
+    6. ACCURACY: Cross-reference with the Drug Master records and Clinical Protocols only for spelling and dosage validation of mentioned items. Never change the dose, frequency or route the clinician stated, even when it falls outside the record's range.
     7. LANGUAGE: ${language === 'Auto-detect' ? 'Use the primary language(s) detected in the transcript.' : `Write strictly in the native script of ${language}.`}
     8. NO markdown formatting within sections (bold/italics).
+    9. PATIENT RECORD: If one is given, it is background only. Never add its medications or advice to the plan; rule 2 still applies.
+    ${patientRecordContext(patientContext)}
   `;
 
   try {
@@ -191,7 +218,10 @@ export const generatePrescription = async (
       contents: `Cleaned Transcript:\n${cleanedTranscript}`,
       config: { systemInstruction, temperature: 0 },
     });
-    return response.text || '';
+    const plan = response.text || '';
+    if (!doctorProfile) return plan;
+    // Drugs outside a BAMS/BHMS prescriber's scope are suppressed, annotated or referred.
+    return applyScopeToPrescription(plan, doctorProfile).plan;
   } catch (error) {
     console.error("Prescription generation error:", error);
     return 'Error generating prescription.';
@@ -201,17 +231,18 @@ export const generatePrescription = async (
 export const generateClinicalNote = async (
   transcript: string,
   doctorProfile: DoctorProfile,
-  language: string
+  language: string,
+  patientContext?: PatientContext
 ): Promise<string> => {
   try {
     // Stage 1: Cleanup
     const cleanedTranscript = await cleanupTranscript(transcript, language);
 
     // Stage 2: SOAP (Subjective, Objective, Assessment)
-    const soapNote = await generateSoapNote(cleanedTranscript, language);
+    const soapNote = await generateSoapNote(cleanedTranscript, language, patientContext);
 
     // Stage 3: Prescription (Plan)
-    const prescription = await generatePrescription(cleanedTranscript, language);
+    const prescription = await generatePrescription(cleanedTranscript, language, doctorProfile, patientContext);
 
     // Combine for final output
     return `${soapNote}\n\n${prescription}`;
@@ -278,6 +309,8 @@ export async function* streamChatResponse(params: {
   isDoctorVerified: boolean;
   doctorProfile: DoctorProfile;
   knowledgeBaseProtocols: ClinicalProtocol[];
+  previousProtocols?: ChatProtocolState[];
+  patientContext?: PatientContext;
 }) {
   yield* runNexusWorkflow({
     message: params.message,
@@ -287,5 +320,7 @@ export async function* streamChatResponse(params: {
     activeGpt: params.activeGpt,
     isDoctorVerified: params.isDoctorVerified,
     knowledgeBase: params.knowledgeBaseProtocols,
+    previousProtocols: params.previousProtocols,
+    patientContext: params.patientContext,
   });
 }
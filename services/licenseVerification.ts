@@ -0,0 +1,142 @@
+import { DoctorProfile, LicenseVerification, LicenseVerificationFailure, LicenseVerificationResult, MedicalCouncil, RegistryRecord } from '../types';
+import { MEDICAL_COUNCILS } from '../medicalCouncils';
+import { REGISTRY_FIXTURES } from '../licenseRegistryFixtures';
+
+// Medical license verification.
+// A registration number is first checked against its council's format (medicalCouncils.ts),
+// then looked up through the active registry adapter. A deployment registers an adapter that
+// queries the council registries through the proxy with `setRegistryAdapter`; until one is
+// registered every lookup fails as `registry-unavailable`. The fixture-backed stand-in
+// (licenseRegistryFixtures.ts) is only active in development builds, and a verification it
+// issued is not honoured outside them. A verification is stored
+// locally and lapses after VERIFICATION_TTL_DAYS or when the registration is due for
+// renewal, whichever is sooner. It only counts for the qualification it was verified for.
+
+export interface RegistryAdapter {
+    name: string;
+    // Null when the council has no such registration. Throws when the registry cannot be reached.
+    lookup: (councilId: string, registrationNumber: string) => Promise<RegistryRecord | null>;
+}
+
+export const VERIFICATION_TTL_DAYS = 30;
+const STORAGE_KEY = 'nexus-license-verification';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIXTURE_REGISTRY_NAME = 'Local test registry';
+
+export const createFixtureRegistryAdapter = (records: RegistryRecord[] = REGISTRY_FIXTURES): RegistryAdapter => ({
+    name: FIXTURE_REGISTRY_NAME,
+    lookup: async (councilId, registrationNumber) =>
+        records.find(r => r.councilId === councilId && r.registrationNumber === registrationNumber) || null,
+});
+
+// Fails closed: no license can be verified without a real registry.
+const unconfiguredAdapter: RegistryAdapter = {
+    name: 'No registry configured',
+    lookup: async () => {
+        throw new Error('no license registry is configured for this deployment');
+    },
+};
+
+let activeAdapter: RegistryAdapter = import.meta.env.DEV ? createFixtureRegistryAdapter() : unconfiguredAdapter;
+
+export const setRegistryAdapter = (adapter: RegistryAdapter) => {
+    activeAdapter = adapter;
+};
+
+export const getRegistryAdapter = (): RegistryAdapter => activeAdapter;
+
+export const getCouncil = (councilId: string): MedicalCouncil | undefined => MEDICAL_COUNCILS.find(c => c.id === councilId);
+
+export const councilsForQualification = (qualification: DoctorProfile['qualification']): MedicalCouncil[] =>
+    MEDICAL_COUNCILS.filter(c => c.qualifications.includes(qualification));
+
+export const normalizeRegistrationNumber = (value: string): string => value.toUpperCase().replace(/\s+/g, '');
+
+// Null when the number is well-formed for the council, otherwise the reason it is not.
+export const validateRegistrationNumber = (council: MedicalCouncil, registrationNumber: string): string | null =>
+    council.format.test(normalizeRegistrationNumber(registrationNumber))
+        ? null
+        : `"${registrationNumber.trim()}" is not a valid ${council.name} registration number (expected e.g. ${council.example}).`;
+
+const fail = (failure: LicenseVerificationFailure, message: string): LicenseVerificationResult => ({ status: 'failed', failure, message });
+
+export const verifyLicense = async (
+    councilId: string,
+    registrationNumber: string,
+    qualification: DoctorProfile['qualification'],
+    now: Date = new Date(),
+): Promise<LicenseVerificationResult> => {
+    const council = getCouncil(councilId);
+    if (!council) return fail('invalid-format', `Unknown council: ${councilId}.`);
+    if (!council.qualifications.includes(qualification)) {
+        return fail('qualification-mismatch', `${council.name} does not register ${qualification} practitioners. Choose the council you are registered with.`);
+    }
+    const formatError = validateRegistrationNumber(council, registrationNumber);
+    if (formatError) return fail('invalid-format', formatError);
+
+    const normalized = normalizeRegistrationNumber(registrationNumber);
+    let record: RegistryRecord | null;
+    try {
+        record = await activeAdapter.lookup(council.id, normalized);
+    } catch (error) {
+        return fail('registry-unavailable', `The ${council.name} registry could not be reached (${error instanceof Error ? error.message : String(error)}). Try again later.`);
+    }
+
+    if (!record) return fail('not-found', `No registration ${normalized} was found with ${council.name}.`);
+    if (record.qualification !== qualification) {
+        return fail('qualification-mismatch', `Registration ${normalized} is for a ${record.qualification} practitioner, but your profile is ${qualification}.`);
+    }
+    if (record.status !== 'active') {
+        return fail('inactive', `Registration ${normalized} is ${record.status} with ${council.name}.`);
+    }
+    if (record.validUntil && new Date(record.validUntil).getTime() < now.getTime()) {
+        return fail('inactive', `Registration ${normalized} lapsed on ${record.validUntil} and has not been renewed.`);
+    }
+
+    const ttlExpiry = now.getTime() + VERIFICATION_TTL_DAYS * DAY_MS;
+    const renewal = record.validUntil ? new Date(record.validUntil).getTime() : Infinity;
+    return {
+        status: 'verified',
+        verification: {
+            councilId: council.id,
+            registrationNumber: normalized,
+            registrantName: record.name,
+            qualification,
+            verifiedAt: now.toISOString(),
+            expiresAt: new Date(Math.min(ttlExpiry, renewal)).toISOString(),
+            source: activeAdapter.name,
+        },
+    };
+};
+
+// Whether a stored verification still applies to this profile.
+export const isVerificationCurrent = (verification: LicenseVerification | null, profile: DoctorProfile, now: Date = new Date()): boolean =>
+    !!verification && verification.qualification === profile.qualification && new Date(verification.expiresAt).getTime() > now.getTime();
+
+// --- Persistence ---
+
+const isStorageAvailable = () => typeof localStorage !== 'undefined';
+
+export const saveLicenseVerification = (verification: LicenseVerification) => {
+    if (isStorageAvailable()) localStorage.setItem(STORAGE_KEY, JSON.stringify(verification));
+};
+
+// Expired verifications, and test-registry ones outside development, are removed rather than returned.
+export const loadLicenseVerification = (now: Date = new Date()): LicenseVerification | null => {
+    if (!isStorageAvailable()) return null;
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const verification = stored ? (JSON.parse(stored) as LicenseVerification) : null;
+        const fromTestRegistry = verification?.source === FIXTURE_REGISTRY_NAME && !import.meta.env.DEV;
+        if (verification && !fromTestRegistry && new Date(verification.expiresAt).getTime() > now.getTime()) return verification;
+    } catch (error) {
+        console.error('Stored license verification is unreadable:', error);
+    }
+    clearLicenseVerification();
+    return null;
+};
+
+export const clearLicenseVerification = () => {
+    if (isStorageAvailable()) localStorage.removeItem(STORAGE_KEY);
+};
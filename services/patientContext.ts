@@ -0,0 +1,128 @@
+import { PatientChart } from '../types';
+import { PatientContext, PatientRecordItem, PatientRecordLab } from '../engine/types';
+import { extractFindings } from '../engine/layers/02_inputNormalizer';
+import { loadPatientChart } from './storage';
+import { patientAge } from '../utils/patients';
+import { NOT_RECORDED, listItems, medicineColumns, noteSection, planMedicines } from '../utils/clinicalNote';
+
+// Longitudinal patient context.
+// When a chat or scribe session is attached to a registered patient, the facts from their
+// earlier encounters are collected into a PatientContext for the reasoning engine:
+// - diagnoses: the registry's chronic conditions, then the Assessment of each scribe note
+// - medications: the medicine lines of the latest scribe Plan (earlier plans are superseded)
+// - allergies: the registry's drug allergies
+// - labs: the Lab Results of scribe notes and the clinician's messages in linked chats,
+//   latest value per analyte, from the last RECENT_LAB_DAYS only
+// The encounter being worked on is excluded, since its own history is already in the request.
+// Only clinical facts are copied; the name, mobile and ABHA number stay in the registry.
+// Used by the NEXUS workflow for chats (orchestrator prompt, guardrail checks) and by
+// `generateClinicalNote` for the scribe.
+
+const RECENT_LAB_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (epochMs: number) => new Date(epochMs).toLocaleDateString('en-GB', { dateStyle: 'medium' });
+
+// "- Metformin | 500mg | Twice daily | Oral" -> "Metformin 500mg, Twice daily, Oral"
+const medicineLine = (line: string): string => {
+    const [name, ...details] = medicineColumns(line)!;
+    const [dose, ...instructions] = details.map(d => (d && !NOT_RECORDED.test(d) ? d : ''));
+    return [dose ? `${name} ${dose}` : name, ...instructions.filter(Boolean)].join(', ');
+};
+
+export interface PatientContextExclusion {
+    chatId?: string;
+    scribeSessionId?: string;
+}
+
+export const buildPatientContext = (chart: PatientChart, exclude: PatientContextExclusion = {}, now: number = Date.now()): PatientContext => {
+    const { patient } = chart;
+    const encounters = chart.encounters.filter(e =>
+        !(e.chatId && e.chatId === exclude.chatId) && !(e.scribeSessionId && e.scribeSessionId === exclude.scribeSessionId));
+    const registry = (text: string): PatientRecordItem => ({ text, origin: 'patient registry', recordedAt: patient.updatedAt });
+
+    const diagnoses = patient.chronicConditions.map(registry);
+    const labs = new Map<string, PatientRecordLab>();
+    let medications: PatientRecordItem[] | null = null;
+
+    // Newest first: the first Plan found is the current one, and the first value of each lab is kept.
+    for (const encounter of encounters) {
+        if (encounter.kind === 'scribe') {
+            const session = chart.sessions.find(s => s.id === encounter.scribeSessionId);
+            if (!session?.clinicalNote) continue;
+            const origin = `Veda session, ${formatDate(session.startedAt)}`;
+            const item = (text: string): PatientRecordItem => ({ text, origin, recordedAt: session.startedAt });
+
+            diagnoses.push(...listItems(noteSection(session.clinicalNote, 'Assessment')).map(item));
+            const plan = planMedicines(session.clinicalNote).map(medicineLine);
+            if (!medications && plan.length > 0) medications = plan.map(item);
+            if (now - session.startedAt <= RECENT_LAB_DAYS * DAY_MS) {
+                for (const lab of extractFindings(noteSection(session.clinicalNote, 'Lab Results'), 'record').labs) {
+                    if (!labs.has(lab.analyte)) labs.set(lab.analyte, { ...lab, origin, recordedAt: session.startedAt });
+                }
+            }
+        } else {
+            const chat = chart.chats.find(c => c.id === encounter.chatId);
+            if (!chat || now - chat.updatedAt > RECENT_LAB_DAYS * DAY_MS) continue;
+            const origin = `chat, ${formatDate(chat.createdAt)}`;
+            // Later messages supersede earlier ones within a chat.
+            const chatLabs = new Map<string, PatientRecordLab>();
+            for (const message of chat.messages.filter(m => m.sender === 'USER')) {
+                for (const lab of extractFindings(message.text, 'record').labs) {
+                    chatLabs.set(lab.analyte, { ...lab, origin, recordedAt: chat.updatedAt });
+                }
+            }
+            chatLabs.forEach((lab, analyte) => { if (!labs.has(analyte)) labs.set(analyte, lab); });
+        }
+    }
+
+    const age = parseInt(patientAge(patient), 10);
+    return {
+        patientId: patient.id,
+        age: Number.isNaN(age) ? undefined : age,
+        sex: patient.sex || undefined,
+        diagnoses: diagnoses.filter((d, i) => diagnoses.findIndex(o => o.text.toLowerCase() === d.text.toLowerCase()) === i),
+        medications: medications || [],
+        allergies: patient.allergies.map(registry),
+        labs: [...labs.values()],
+    };
+};
+
+// Null when the patient is not in the registry (e.g. deleted since the chat was linked).
+export const loadPatientContext = async (patientId: string, exclude: PatientContextExclusion = {}): Promise<PatientContext | null> => {
+    const chart = await loadPatientChart(patientId);
+    return chart ? buildPatientContext(chart, exclude) : null;
+};
+
+export const hasPatientHistory = (context: PatientContext): boolean =>
+    context.diagnoses.length + context.medications.length + context.allergies.length + context.labs.length > 0;
+
+const describeItems = (items: PatientRecordItem[]) =>
+    items.map(item => `- ${item.text} (${item.origin})`).join('\n');
+
+// The patient record as a prompt block, one fact per line with where it was recorded.
+export const describePatientContext = (context: PatientContext): string => {
+    const parts: string[] = [];
+    const demographics = [context.age !== undefined ? `${context.age}y` : '', context.sex || ''].filter(Boolean).join(' ');
+    if (demographics) parts.push(`Demographics: ${demographics}`);
+    parts.push(`Allergies:\n${context.allergies.length > 0 ? describeItems(context.allergies) : '- None recorded'}`);
+    if (context.diagnoses.length > 0) parts.push(`Prior diagnoses:\n${describeItems(context.diagnoses)}`);
+    if (context.medications.length > 0) parts.push(`Active medications:\n${describeItems(context.medications)}`);
+    if (context.labs.length > 0) {
+        parts.push(`Recent labs:\n${context.labs.map(l =>
+            `- ${l.analyte} ${l.value}${l.unit ? ` ${l.unit}` : ''}${l.flag && l.flag !== 'Normal' ? ` [${l.flag}]` : ''} (${l.origin})`
+        ).join('\n')}`);
+    }
+    return parts.join('\n');
+};
+
+// One line for the audit trail: each fact used, grouped by kind.
+export const summarizePatientContext = (context: PatientContext): string => {
+    const group = (label: string, items: string[]) => items.length > 0 ? `${label}: ${items.join(', ')}` : '';
+    return [
+        group('allergies', context.allergies.map(a => a.text)),
+        group('diagnoses', context.diagnoses.map(d => `${d.text} (${d.origin})`)),
+        group('medications', context.medications.map(m => `${m.text} (${m.origin})`)),
+        group('labs', context.labs.map(l => `${l.analyte} ${l.value}${l.unit ? ` ${l.unit}` : ''} (${l.origin})`)),
+    ].filter(Boolean).join('; ') || 'no recorded history';
+};
@@ -0,0 +1,166 @@
+import { DoctorProfile, PrescriberScopePolicy, PrescriberScopeResult } from '../types';
+import { DRUG_MASTER } from '../drugMaster';
+import { CLINICAL_ONTOLOGY } from '../clinicalOntology';
+import { CLINICAL_PROTOCOLS } from '../knowledgeBase';
+import { SCOPE_POLICIES, DEFAULT_SCOPE_POLICY } from '../prescriberScopePolicy';
+
+// Prescriber scope enforcement.
+// BAMS/BHMS practitioners may only prescribe allopathic drugs where their state allows it
+// (see prescriberScopePolicy.ts). Allopathic drugs are detected by generic name, synonym or
+// Indian brand, using the drug master, the terminology table and the protocol dosing
+// tables. Out-of-scope drugs are then suppressed, annotated or moved into a referral
+// note, as the state policy prescribes. Used by the NEXUS guardrails for chat answers and by
+// `generatePrescription` for the scribe Plan.
+
+const WITHHELD = '[allopathic drug withheld]';
+
+// Terms shorter than this ("pcm", "mox") are too ambiguous to match in free text.
+const MIN_TERM_LENGTH = 4;
+
+let lexicon: { pattern: RegExp; canonical: Map<string, string> } | null = null;
+
+// Lowercase term -> canonical drug name. Later sources win, so brands resolve to the
+// terminology table's generic names.
+const getLexicon = () => {
+    if (lexicon) return lexicon;
+    const canonical = new Map<string, string>();
+    for (const entry of DRUG_MASTER) {
+        for (const name of [entry.generic, ...(entry.synonyms || []), ...entry.brands]) canonical.set(name.toLowerCase(), entry.generic);
+    }
+    for (const concept of CLINICAL_ONTOLOGY.filter(c => c.category === 'drug')) {
+        for (const synonym of [concept.name, ...concept.synonyms]) canonical.set(synonym.toLowerCase(), concept.name);
+    }
+    for (const drug of CLINICAL_PROTOCOLS.flatMap(p => p.dosing_table)) {
+        const generic = drug.drug_name.split('(')[0].trim();
+        for (const alias of [...drug.drug_name.split(/[()]/), ...drug.brand_names_india]) {
+            if (alias.trim()) canonical.set(alias.trim().toLowerCase(), generic);
+        }
+    }
+    const terms = [...canonical.keys()]
+        .filter(t => t.length >= MIN_TERM_LENGTH)
+        .sort((a, b) => b.length - a.length)
+        .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    lexicon = { pattern: new RegExp(`(?<![a-z])(?:${terms.join('|')})(?![a-z])`, 'gi'), canonical };
+    return lexicon;
+};
+
+// Every mention of an allopathic drug in the text: its canonical name and where it starts.
+export const locateAllopathicDrugs = (text: string): { drug: string; index: number }[] => {
+    const { pattern, canonical } = getLexicon();
+    return [...text.matchAll(pattern)].map(match => ({ drug: canonical.get(match[0].toLowerCase())!, index: match.index ?? 0 }));
+};
+
+// Canonical names of the allopathic drugs mentioned in the text, in order of appearance.
+export const detectAllopathicDrugs = (text: string): string[] =>
+    [...new Set(locateAllopathicDrugs(text).map(m => m.drug))];
+
+export const getScopePolicy = (practiceState?: string): PrescriberScopePolicy =>
+    SCOPE_POLICIES.find(p => p.state === practiceState) || DEFAULT_SCOPE_POLICY;
+
+// The practitioner's own attestation (`canPrescribeAllopathic`) is capped by the state policy.
+export const resolvePrescriberScope = (profile: DoctorProfile): { scope: DoctorProfile['canPrescribeAllopathic']; policy: PrescriberScopePolicy } => {
+    const policy = getScopePolicy(profile.practiceState);
+    if (profile.qualification === 'MBBS') return { scope: 'yes', policy };
+    if (policy.ayushScope === 'no') return { scope: 'no', policy };
+    // A limited scope that does not extend to this system falls back to the default policy.
+    if (!policy.qualifications.includes(profile.qualification)) {
+        return { scope: 'no', policy: { ...DEFAULT_SCOPE_POLICY, state: policy.state, basis: `${policy.basis} This does not extend to ${profile.qualification} practitioners.` } };
+    }
+    if (profile.canPrescribeAllopathic === 'no') {
+        return { scope: 'no', policy: { ...policy, basis: `${policy.basis} The required certification is not recorded on this profile.` } };
+    }
+    return { scope: 'limited', policy };
+};
+
+const practitioner = (qualification: string, practiceState?: string) =>
+    `a ${qualification} practitioner${practiceState && practiceState !== DEFAULT_SCOPE_POLICY.state ? ` in ${practiceState}` : ''}`;
+
+const buildReferralNote = (profile: DoctorProfile, drugs: string[]): string =>
+    `Referral required: ${drugs.join(', ')} ${drugs.length === 1 ? 'is' : 'are'} outside the prescribing scope of ${practitioner(profile.qualification, profile.practiceState)}. ` +
+    `Refer the patient to a registered allopathic (MBBS) practitioner for initiation and review of ${drugs.length === 1 ? 'this medicine' : 'these medicines'}.`;
+
+const outOfScope = (drugs: string[], scope: DoctorProfile['canPrescribeAllopathic'], policy: PrescriberScopePolicy): string[] => {
+    const permitted = new Set(scope === 'limited' ? policy.permittedDrugs.map(d => d.toLowerCase()) : []);
+    return drugs.filter(d => !permitted.has(d.toLowerCase()));
+};
+
+// Null when the clinician may prescribe everything the text mentions.
+export const checkPrescriberScope = (text: string, profile: DoctorProfile): PrescriberScopeResult | null => {
+    const { scope, policy } = resolvePrescriberScope(profile);
+    if (scope === 'yes') return null;
+
+    const outOfScopeDrugs = outOfScope(detectAllopathicDrugs(text), scope, policy);
+    if (outOfScopeDrugs.length === 0) return null;
+
+    return {
+        qualification: profile.qualification,
+        practiceState: profile.practiceState || policy.state,
+        scope,
+        enforcement: policy.enforcement,
+        basis: policy.basis,
+        outOfScopeDrugs,
+        referralNote: policy.enforcement === 'referral' ? buildReferralNote(profile, outOfScopeDrugs) : undefined,
+    };
+};
+
+const mentionsAny = (line: string, drugs: Set<string>): boolean =>
+    detectAllopathicDrugs(line).some(d => drugs.has(d));
+
+const isListLine = (line: string) => /^\s*(?:[-*•]|\d+[.)]|\|)/.test(line);
+
+// One line with the given drugs removed: list items and table rows are dropped whole (null),
+// names in prose are replaced.
+const suppressLine = (line: string, drugs: Set<string>): string | null => {
+    if (!mentionsAny(line, drugs)) return line;
+    if (isListLine(line)) return null;
+    const { pattern, canonical } = getLexicon();
+    return line.replace(pattern, term => (drugs.has(canonical.get(term.toLowerCase())!) ? WITHHELD : term));
+};
+
+// Removes out-of-scope drugs from free text.
+export const suppressOutOfScopeDrugs = (text: string, result: PrescriberScopeResult): string => {
+    const drugs = new Set(result.outOfScopeDrugs);
+    let withheld = 0;
+    const lines = text.split('\n').flatMap(line => {
+        const suppressed = suppressLine(line, drugs);
+        if (suppressed !== line) withheld++;
+        return suppressed === null ? [] : [suppressed];
+    });
+    if (withheld === 0) return text;
+    return `${lines.join('\n')}\n\n_${withheld} allopathic recommendation(s) withheld: outside the prescribing scope of ${practitioner(result.qualification, result.practiceState)}._`;
+};
+
+// The same suppression one line at a time, for answers that are shown while they stream:
+// null unless the clinician's policy suppresses, since annotation and referral show the drug.
+export const createScopeLineSuppressor = (profile: DoctorProfile): ((line: string) => string | null) | null => {
+    const { scope, policy } = resolvePrescriberScope(profile);
+    if (scope === 'yes' || policy.enforcement !== 'suppress') return null;
+    return line => suppressLine(line, new Set(outOfScope(detectAllopathicDrugs(line), scope, policy)));
+};
+
+// Applies the policy to a scribe "## Plan" (one "- Medicine | Dosage | Frequency | Route" line per drug).
+export const applyScopeToPrescription = (plan: string, profile: DoctorProfile): { plan: string; result: PrescriberScopeResult | null } => {
+    const result = checkPrescriberScope(plan, profile);
+    if (!result) return { plan, result };
+
+    const drugs = new Set(result.outOfScopeDrugs);
+    const lines = plan.split('\n');
+    const isOutOfScopeMedicine = (line: string) => isListLine(line) && line.includes('|') && mentionsAny(line, drugs);
+
+    switch (result.enforcement) {
+        case 'annotate':
+            return {
+                plan: lines.map(line => (isOutOfScopeMedicine(line) ? `${line} | ⚠ Outside ${result.qualification} prescribing scope (${result.practiceState})` : line)).join('\n'),
+                result,
+            };
+        case 'referral': {
+            const referred = lines.filter(isOutOfScopeMedicine);
+            return {
+                plan: [...lines.filter(line => !isOutOfScopeMedicine(line)), '', '## Referral', result.referralNote!, ...referred].join('\n'),
+                result,
+            };
+        }
+        case 'suppress':
+            return { plan: suppressOutOfScopeDrugs(plan, result), result };
+    }
+};
@@ -0,0 +1,336 @@
+import { Chat, Encounter, Message, Patient, PatientChart, ScribeSession, StorageEstimate } from '../types';
+
+// Local persistence for chats, scribe sessions, patients and their encounters.
+// Everything is kept in one IndexedDB database whose schema is versioned by MIGRATIONS: each
+// entry upgrades the previous version, and DB_VERSION is their count, so a schema change is a
+// new migration appended to the list, never an edit to an old one. Chats are stored without
+// their messages; messages have their own store, keyed by [chatId, id] and ordered by position.
+// Writes are debounced: `queueChatSave` keeps only the latest copy of each chat and writes them
+// together WRITE_DEBOUNCE_MS after the last change, so a streamed answer is not written once
+// per chunk. Pending writes are flushed when the page is hidden.
+
+const DB_NAME = 'nexus-store';
+const CHATS = 'chats';
+const MESSAGES = 'messages';
+const SCRIBE_SESSIONS = 'scribeSessions';
+const PATIENTS = 'patients';
+const ENCOUNTERS = 'encounters';
+
+export const WRITE_DEBOUNCE_MS = 800;
+
+type StoredChat = Omit<Chat, 'messages'>;
+type StoredMessage = Message & { chatId: string; position: number };
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Patient demographics as stored by v1, before the patient registry.
+interface V1PatientRecord {
+    id: string; name: string; age: string; sex: string; mobile: string;
+    weight: string; height: string; bmi: string; updatedAt: number;
+}
+
+// The encounter that links a scribe session to its patient; one per session.
+export const scribeEncounter = (session: ScribeSession): Encounter | undefined =>
+    session.patientId
+        ? {
+            id: `encounter-${session.id}`,
+            patientId: session.patientId,
+            kind: 'scribe',
+            scribeSessionId: session.id,
+            title: 'Veda session',
+            startedAt: session.startedAt,
+            updatedAt: session.updatedAt,
+        }
+        : undefined;
+
+const MIGRATIONS: Migration[] = [
+    // v1: chats, their messages, scribe sessions and patient demographics
+    (db) => {
+        db.createObjectStore(CHATS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        db.createObjectStore(MESSAGES, { keyPath: ['chatId', 'id'] });
+        db.createObjectStore(SCRIBE_SESSIONS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        db.createObjectStore(PATIENTS, { keyPath: 'id' });
+    },
+    // v2: patient registry and encounters. v1 patient records become Patients; their weight,
+    // height and BMI move to the scribe sessions they were measured in, and every session
+    // with a patient gets its encounter.
+    (db, tx) => {
+        const encounters = db.createObjectStore(ENCOUNTERS, { keyPath: 'id' });
+        encounters.createIndex('patientId', 'patientId');
+        const patients = tx.objectStore(PATIENTS);
+        const sessions = tx.objectStore(SCRIBE_SESSIONS);
+        const readPatients = patients.getAll();
+        readPatients.onsuccess = () => {
+            const v1 = new Map((readPatients.result as V1PatientRecord[]).map(p => [p.id, p]));
+            for (const { id, name, age, sex, mobile, updatedAt } of v1.values()) {
+                const patient: Patient = { id, name, age, sex, mobile, allergies: [], chronicConditions: [], createdAt: updatedAt, updatedAt };
+                patients.put(patient);
+            }
+            const readSessions = sessions.getAll();
+            readSessions.onsuccess = () => {
+                for (const stored of readSessions.result as Omit<ScribeSession, 'measurements'>[]) {
+                    const v1Patient = stored.patientId ? v1.get(stored.patientId) : undefined;
+                    const session: ScribeSession = {
+                        ...stored,
+                        measurements: { weight: v1Patient?.weight || '', height: v1Patient?.height || '', bmi: v1Patient?.bmi || '' },
+                    };
+                    sessions.put(session);
+                    const encounter = scribeEncounter(session);
+                    if (encounter) encounters.put(encounter);
+                }
+            };
+        };
+    },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                MIGRATIONS[version](request.result, request.transaction!);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The local store is open in another tab with an older version.'));
+    });
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+const withDb = async <T>(fallback: T, run: (db: IDBDatabase) => Promise<T>): Promise<T> => {
+    if (!isIndexedDbAvailable()) return fallback;
+    const db = await openDb();
+    try {
+        return await run(db);
+    } finally {
+        db.close();
+    }
+};
+
+// All messages of a chat: [chatId] sorts before every [chatId, id], and arrays after strings.
+const messageRange = (chatId: string) => IDBKeyRange.bound([chatId], [chatId, []]);
+
+// --- Chats ---
+
+// A placeholder still streaming when the page closed will never be completed.
+const INTERRUPTED_TEXT = '_This response was interrupted before it finished._';
+
+export const loadChats = (): Promise<Chat[]> =>
+    withDb<Chat[]>([], async (db) => {
+        const tx = db.transaction([CHATS, MESSAGES], 'readonly');
+        const [chats, messages] = await Promise.all([
+            promisify(tx.objectStore(CHATS).getAll()) as Promise<StoredChat[]>,
+            promisify(tx.objectStore(MESSAGES).getAll()) as Promise<StoredMessage[]>,
+        ]);
+        const byChat = new Map<string, StoredMessage[]>();
+        for (const message of messages) {
+            byChat.set(message.chatId, [...(byChat.get(message.chatId) || []), message]);
+        }
+        return chats
+            .map(chat => ({
+                ...chat,
+                messages: (byChat.get(chat.id) || [])
+                    .sort((a, b) => a.position - b.position)
+                    .map(({ chatId, position, ...message }) => (message.text === '...' ? { ...message, text: INTERRUPTED_TEXT } : message)),
+            }))
+            .sort((a, b) => b.createdAt - a.createdAt); // Newest first, as the sidebar lists them
+    });
+
+const writeChats = (chats: Chat[]): Promise<void> =>
+    withDb(undefined, async (db) => {
+        const tx = db.transaction([CHATS, MESSAGES], 'readwrite');
+        const chatStore = tx.objectStore(CHATS);
+        const messageStore = tx.objectStore(MESSAGES);
+        for (const { messages, ...chat } of chats) {
+            chatStore.put(chat);
+            // Messages are replaced as a set, so edits and removals are both picked up.
+            messageStore.delete(messageRange(chat.id));
+            messages.forEach((message, position) => messageStore.put({ ...message, chatId: chat.id, position }));
+        }
+        await completion(tx);
+    });
+
+export const deleteChat = (chatId: string): Promise<void> =>
+    withDb(undefined, async (db) => {
+        pendingChats.delete(chatId);
+        const tx = db.transaction([CHATS, MESSAGES], 'readwrite');
+        tx.objectStore(CHATS).delete(chatId);
+        tx.objectStore(MESSAGES).delete(messageRange(chatId));
+        await completion(tx);
+    });
+
+// --- Scribe sessions ---
+
+export const loadScribeSessions = (): Promise<ScribeSession[]> =>
+    withDb<ScribeSession[]>([], async (db) => {
+        const sessions = await promisify(db.transaction(SCRIBE_SESSIONS, 'readonly').objectStore(SCRIBE_SESSIONS).getAll()) as ScribeSession[];
+        return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    });
+
+// A session is written with its patient and encounter, so the registry never points at a
+// session that was not saved.
+const writeScribeSession = (session: ScribeSession, patient?: Patient): Promise<void> =>
+    withDb(undefined, async (db) => {
+        const tx = db.transaction([SCRIBE_SESSIONS, PATIENTS, ENCOUNTERS], 'readwrite');
+        tx.objectStore(SCRIBE_SESSIONS).put(session);
+        if (patient) tx.objectStore(PATIENTS).put(patient);
+        const encounter = scribeEncounter(session);
+        if (encounter) tx.objectStore(ENCOUNTERS).put(encounter);
+        await completion(tx);
+    });
+
+// --- Patients and encounters ---
+
+export const loadPatients = (): Promise<Patient[]> =>
+    withDb<Patient[]>([], async (db) => {
+        const patients = await promisify(db.transaction(PATIENTS, 'readonly').objectStore(PATIENTS).getAll()) as Patient[];
+        return patients.sort((a, b) => a.name.localeCompare(b.name));
+    });
+
+export const loadEncounters = (): Promise<Encounter[]> =>
+    withDb<Encounter[]>([], async (db) => {
+        const encounters = await promisify(db.transaction(ENCOUNTERS, 'readonly').objectStore(ENCOUNTERS).getAll()) as Encounter[];
+        return encounters.sort((a, b) => b.startedAt - a.startedAt);
+    });
+
+// Read in two transactions, each issuing all of its requests up front, so neither is left
+// waiting on a promise callback and committed early.
+export const loadPatientChart = (patientId: string): Promise<PatientChart | null> =>
+    withDb<PatientChart | null>(null, async (db) => {
+        const registry = db.transaction([PATIENTS, ENCOUNTERS], 'readonly');
+        const [patient, encounters] = await Promise.all([
+            promisify(registry.objectStore(PATIENTS).get(patientId)) as Promise<Patient | undefined>,
+            promisify(registry.objectStore(ENCOUNTERS).index('patientId').getAll(patientId)) as Promise<Encounter[]>,
+        ]);
+        if (!patient) return null;
+
+        const chatIds = encounters.filter(e => e.chatId).map(e => e.chatId!);
+        const sessionIds = encounters.filter(e => e.scribeSessionId).map(e => e.scribeSessionId!);
+        const tx = db.transaction([CHATS, MESSAGES, SCRIBE_SESSIONS], 'readonly');
+        const [chats, messages, sessions] = await Promise.all([
+            Promise.all(chatIds.map(id => promisify(tx.objectStore(CHATS).get(id)) as Promise<StoredChat | undefined>)),
+            Promise.all(chatIds.map(id => promisify(tx.objectStore(MESSAGES).getAll(messageRange(id))) as Promise<StoredMessage[]>)),
+            Promise.all(sessionIds.map(id => promisify(tx.objectStore(SCRIBE_SESSIONS).get(id)) as Promise<ScribeSession | undefined>)),
+        ]);
+        return {
+            patient,
+            encounters: encounters.sort((a, b) => b.startedAt - a.startedAt),
+            chats: chats.flatMap((chat, i) => chat
+                ? [{ ...chat, messages: messages[i].sort((a, b) => a.position - b.position).map(({ chatId, position, ...message }) => message) }]
+                : []),
+            sessions: sessions.filter((session): session is ScribeSession => !!session),
+        };
+    });
+
+// Registry edits are infrequent and deliberate, so they are written straight away.
+const writeRecord = (store: string, record: Patient | Encounter): Promise<void> =>
+    withDb(undefined, async (db) => {
+        const tx = db.transaction(store, 'readwrite');
+        tx.objectStore(store).put(record);
+        await completion(tx);
+    }).then(notifyWrite);
+
+export const savePatient = (patient: Patient): Promise<void> => writeRecord(PATIENTS, patient);
+
+export const saveEncounter = (encounter: Encounter): Promise<void> => writeRecord(ENCOUNTERS, encounter);
+
+export const deleteEncounter = (encounterId: string): Promise<void> =>
+    withDb(undefined, async (db) => {
+        const tx = db.transaction(ENCOUNTERS, 'readwrite');
+        tx.objectStore(ENCOUNTERS).delete(encounterId);
+        await completion(tx);
+    }).then(notifyWrite);
+
+// --- Debounced writes ---
+
+const pendingChats = new Map<string, Chat>();
+// Settles once the pending chats have been written, so a caller can retry a failed write.
+let pendingChatWrite: { promise: Promise<void>; resolve: () => void; reject: (error: unknown) => void } | null = null;
+let pendingScribe: { session: ScribeSession; patient?: Patient } | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const writeListeners = new Set<() => void>();
+
+const notifyWrite = () => {
+    writeListeners.forEach(listener => listener());
+};
+
+export const flushPendingWrites = async (): Promise<void> => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    const chats = [...pendingChats.values()];
+    const chatWrite = pendingChatWrite;
+    const scribe = pendingScribe;
+    pendingChats.clear();
+    pendingChatWrite = null;
+    pendingScribe = null;
+    if (chats.length === 0 && !scribe) return;
+
+    try {
+        if (chats.length > 0) await writeChats(chats);
+        chatWrite?.resolve();
+        if (scribe) await writeScribeSession(scribe.session, scribe.patient);
+    } catch (error) {
+        // The in-memory state is still intact, so the next change retries the write.
+        console.error('[STORAGE] Failed to persist local data:', error);
+        chatWrite?.reject(error);
+    }
+    notifyWrite();
+};
+
+const scheduleFlush = () => {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(flushPendingWrites, WRITE_DEBOUNCE_MS);
+};
+
+// Resolves when the chat has been written; rejects when the write fails.
+export const queueChatSave = (chat: Chat): Promise<void> => {
+    pendingChats.set(chat.id, chat);
+    if (!pendingChatWrite) {
+        let resolve!: () => void;
+        let reject!: (error: unknown) => void;
+        const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+        pendingChatWrite = { promise, resolve, reject };
+    }
+    scheduleFlush();
+    return pendingChatWrite.promise;
+};
+
+export const queueScribeSessionSave = (session: ScribeSession, patient?: Patient) => {
+    pendingScribe = { session, patient };
+    scheduleFlush();
+};
+
+// Called after each batch of writes, e.g. to refresh the storage estimate or the registry.
+export const onStorageWrite = (listener: () => void): (() => void) => {
+    writeListeners.add(listener);
+    return () => writeListeners.delete(listener);
+};
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => { flushPendingWrites(); });
+}
+
+// --- Quota ---
+
+// Null where the browser does not report it.
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : null;
+};
@@ -15,6 +15,93 @@ export interface Citation {
 export interface DoctorProfile {
     qualification: 'MBBS' | 'BAMS' | 'BHMS';
     canPrescribeAllopathic: 'yes' | 'limited' | 'no';
+    practiceState?: string;         // Indian state of registration; selects the prescriber scope policy
+}
+
+// --- Prescriber Scope (services/prescriberScope.ts) ---
+
+// What happens to allopathic drugs outside an AYUSH practitioner's scope:
+// removed from the answer, flagged in place, or moved into a referral note.
+export type ScopeEnforcement = 'suppress' | 'annotate' | 'referral';
+
+export interface PrescriberScopePolicy {
+    state: string;
+    ayushScope: 'no' | 'limited';   // Ceiling for BAMS/BHMS practitioners in this state
+    qualifications: ('BAMS' | 'BHMS')[]; // Systems the limited scope applies to
+    permittedDrugs: string[];       // Generic names allowed under a limited scope
+    enforcement: ScopeEnforcement;
+    basis: string;                  // Legal basis or condition, shown to the clinician
+}
+
+export interface PrescriberScopeResult {
+    qualification: DoctorProfile['qualification'];
+    practiceState: string;
+    scope: 'no' | 'limited';
+    enforcement: ScopeEnforcement;
+    basis: string;
+    outOfScopeDrugs: string[];      // Canonical drug names found in the text
+    referralNote?: string;
+}
+
+// --- License Verification (services/licenseVerification.ts) ---
+
+// A registering council and the shape of the registration numbers it issues.
+export interface MedicalCouncil {
+    id: string;                     // e.g. "NMC", "MH-MC", "NCISM"
+    name: string;
+    qualifications: DoctorProfile['qualification'][];   // Systems of medicine it registers
+    format: RegExp;                 // Matched against the normalized (uppercase, no spaces) number
+    example: string;
+}
+
+// An entry as returned by a council registry lookup.
+export interface RegistryRecord {
+    councilId: string;
+    registrationNumber: string;     // Normalized
+    name: string;
+    qualification: DoctorProfile['qualification'];
+    status: 'active' | 'suspended' | 'removed';
+    validUntil?: string;            // ISO date the registration must be renewed by
+}
+
+export type LicenseVerificationFailure =
+    | 'invalid-format'              // Number does not match the council's format
+    | 'qualification-mismatch'      // Council or registry entry is for another system of medicine
+    | 'not-found'                   // No such registration with the council
+    | 'inactive'                    // Registration suspended, removed or lapsed
+    | 'registry-unavailable';       // The registry lookup failed
+
+// A successful verification, persisted until `expiresAt`.
+export interface LicenseVerification {
+    councilId: string;
+    registrationNumber: string;     // Normalized
+    registrantName: string;
+    qualification: DoctorProfile['qualification'];
+    verifiedAt: string;             // ISO timestamp
+    expiresAt: string;              // ISO timestamp
+    source: string;                 // Registry adapter that confirmed it
+}
+
+export type LicenseVerificationResult =
+    | { status: 'verified'; verification: LicenseVerification }
+    | { status: 'failed'; failure: LicenseVerificationFailure; message: string };
+
+// --- Controlled Substances (services/controlledSubstances.ts) ---
+
+// NDPS Act narcotic/psychotropic substances, and Schedules H1 and X of the Drugs and Cosmetics Rules.
+export type DrugSchedule = 'NDPS' | 'H1' | 'X';
+
+export interface ScheduledDrugMention {
+    drug: string;                   // Canonical drug name
+    schedule: DrugSchedule;
+}
+
+// Dosing for scheduled drugs was withheld because the clinician's license is not verified.
+// The UI opens the license verification modal and replays the message once verified.
+export interface VerificationRequirement {
+    reason: 'controlled-substance';
+    drugs: ScheduledDrugMention[];
+    withheldDoses: number;
 }
 
 // Types for Structured AI Responses
@@ -22,6 +109,10 @@ export interface DdxItem {
   diagnosis: string;
   rationale: string;
   confidence: 'High' | 'Medium' | 'Low';
+  // Set by the local DDx engine (engine/layers/08_ddxEngine.ts); absent on model output.
+  probability?: number;         // Post-test probability [0-1]
+  mustNotMiss?: boolean;
+  icd10?: string;
 }
 
 // Doctor-specific types
@@ -65,6 +156,33 @@ export interface RiskAssessmentResult {
     riskFactors: string[];
     recommendations: string[];
     summary: string;
+    scores?: ClinicalScoreResult[]; // Computed locally from the triage form (utils/clinicalScores.ts)
+}
+
+export type ClinicalScoreId = 'qsofa' | 'news2' | 'curb65' | 'heart' | 'timi' | 'grace' | 'wells-pe';
+
+export interface ClinicalScoreResult {
+    id: ClinicalScoreId;
+    name: string;
+    points: number;
+    maxPoints: number;
+    band: string;                   // e.g. "Medium (5-6)"
+    risk: RiskAssessmentResult['riskLevel'];
+    interpretation: string;
+    components: { label: string; points: number }[];
+    missing: string[];              // Inputs not entered; they score 0, so `points` is a minimum
+}
+
+// A lab value converted to SI by utils/unitConversion, alongside what was entered.
+export interface NormalizedLabValue {
+    analyte: string;
+    siValue: number;
+    siUnit: string;
+    originalValue: number;
+    originalUnit: string;
+    unitAssumed: boolean;
+    siReferenceRange?: string;
+    flag?: 'Low' | 'Normal' | 'High';
 }
 
 export type LabParameterInput = {
@@ -72,6 +190,7 @@ export type LabParameterInput = {
     value: string;
     units: string;
     referenceRange: string;
+    normalized?: NormalizedLabValue;
 };
 
 
@@ -82,6 +201,19 @@ export type StructuredDataType =
   | { type: 'handout'; data: PatientHandout; summary: string }
   | { type: 'risk-assessment'; data: RiskAssessmentResult; summary: string };
 
+// A problem found while validating a structured payload (utils/structuredData.ts).
+export interface StructuredDataIssue {
+  path: string;                 // e.g. "data.results[2].urgency"
+  message: string;
+}
+
+// A structured payload that could not be shown, reported instead of rendering a broken card.
+export interface StructuredDataError {
+  stage: 'json' | 'schema';     // The block was not readable JSON, or the JSON was not a valid payload
+  type?: string;                // The declared payload type, when there was one
+  issues: StructuredDataIssue[];
+}
+
 
 export interface Message {
   id: string;
@@ -95,6 +227,112 @@ export interface Message {
   source_protocol_last_reviewed?: string;
   action_type?: 'Informational' | 'Requires Clinician Confirmation';
   is_confirmed?: boolean;
+  engineDdx?: DdxItem[];        // Ranking computed by the local DDx engine for this turn
+  guardrailViolations?: GuardrailViolation[];
+  contraindicationWarnings?: ContraindicationWarning[];
+  prescriberScope?: PrescriberScopeResult;
+  verificationRequired?: VerificationRequirement;
+  escalationAlerts?: EscalationAlert[];
+  interactionWarnings?: InteractionWarning[];
+  structuredDataError?: StructuredDataError;
+}
+
+// A protocol escalation or monitoring trigger whose condition is met by the vitals and labs
+// documented in the conversation (engine/layers/10_guardrails.ts).
+export interface EscalationAlert {
+  protocolId: string;
+  source: 'escalation' | 'monitoring';
+  condition: string;            // The trigger's condition, as written in the protocol
+  action: string;               // The prescribed action
+  evidence: string;             // e.g. "SBP 84 mmHg < 90"
+  requiresConfirmation: boolean;
+}
+
+// A dose, route or unit in the model's response that contradicts the active protocol's
+// dosing table (engine/layers/10_guardrails.ts).
+export interface GuardrailViolation {
+  kind: 'overdose' | 'wrong-route' | 'unit-mismatch';
+  protocolId: string;
+  drug: string;
+  found: string;                // What the response said, e.g. "5 mg IV"
+  expected: string;             // What the protocol allows, e.g. "0.5 mg IM (Anterolateral Thigh)"
+  message: string;
+}
+
+// A drug the response recommends that is contraindicated by a known patient fact
+// (engine/layers/10_guardrails.ts).
+export interface ContraindicationWarning {
+  protocolId?: string;          // Unset for allergies checked against the patient record alone
+  drug?: string;                // Unset for protocol-wide contraindications
+  contraindication: string;     // Cited verbatim from the protocol
+  source: 'drug' | 'protocol' | 'record'; // DosingInfo.contraindications, ClinicalProtocol.contraindications_general or the patient's recorded allergies
+  severity: 'contraindicated' | 'caution';
+  patientFact: string;          // e.g. "Penicillin allergy"
+  evidence: string;             // Where the fact came from, e.g. "allergic to penicillin" or "HR 44 bpm"
+}
+
+// --- Drug master (drugMaster.ts, services/drugMaster.ts) ---
+
+export type DosageForm =
+  | 'Tablet' | 'Capsule' | 'Syrup' | 'Suspension' | 'Drops' | 'Sachet' | 'Injection' | 'Inhaler'
+  | 'Respules' | 'Nasal Spray' | 'Cream' | 'Ointment' | 'Gel' | 'Lotion' | 'Suppository' | 'Patch' | 'Pessary';
+
+// US FDA letter categories, still printed on Indian labels; newer drugs may have none.
+export type PregnancyCategory = 'A' | 'B' | 'C' | 'D' | 'X';
+
+// 'OTC': no prescription schedule; 'H': Schedule H; otherwise the controlled schedules.
+export type DrugMasterSchedule = 'OTC' | 'H' | DrugSchedule;
+
+export interface DrugMasterEntry {
+  generic: string;                      // Canonical generic name, as written on the prescription
+  synonyms?: string[];                  // Other generic names, e.g. "Acetaminophen" for Paracetamol
+  brands: string[];                     // Indian brand names
+  strengths: string[];                  // e.g. ["500mg", "650mg", "125mg/5ml"]
+  forms: DosageForm[];
+  route: string;                        // Default route, e.g. "Oral"
+  adultDose: string;                    // Usual adult range, e.g. "500-1000mg q6h (max 4g/day)"
+  paediatricDose?: string;              // Omitted where the drug is not used in children
+  renalAdjustment: boolean;             // Dose reduction or avoidance in renal impairment
+  hepaticAdjustment: boolean;           // Dose reduction or avoidance in hepatic impairment
+  pregnancyCategory?: PregnancyCategory;
+  schedule: DrugMasterSchedule;
+}
+
+// A problem found by the drug master validation (scripts/validateDrugMaster.ts).
+export interface DrugMasterIssue {
+  kind: 'duplicate' | 'unknown-name' | 'incomplete';
+  name: string;
+  message: string;
+}
+
+// --- Drug–drug interactions (drugInteractions.ts, services/drugInteractions.ts) ---
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate';
+
+export interface DrugInteraction {
+  id: string;
+  between: [string, string];    // Drug names or INTERACTION_CLASSES keys, e.g. ["Macrolides", "QT-prolonging drugs"]
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string;
+}
+
+// Two drugs of a prescription or answer (or one of them and an active medication) that interact.
+export interface InteractionWarning {
+  interactionId: string;
+  drugs: [string, string];      // As found, in the table's order, e.g. ["Clopidogrel", "Omeprazole"]
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string;
+  onRecord?: string;            // Set when one drug is an active medication from the patient record, e.g. "Sildenafil 50mg (Veda session, 12 Mar 2026)"
+}
+
+// A protocol kept active across turns by conversation-aware retrieval (engine/layers/09_knowledge.ts).
+export interface ChatProtocolState {
+  protocolId: string;
+  weight: number;               // Relevance in BM25 score units; decays on turns without a fresh match
+  turnsSinceMatch: number;      // 0 when the latest message matched the protocol directly
+  matchedTerms: string[];       // Terms from the turn that last matched it
 }
 
 export interface Chat {
@@ -103,6 +341,9 @@ export interface Chat {
   messages: Message[];
   userRole: UserRole;
   gptId?: string;
+  activeProtocols?: ChatProtocolState[];
+  createdAt: number;            // Epoch ms
+  updatedAt: number;            // Epoch ms, last change to the chat or its messages
 }
 
 export interface PreCodedGpt {
@@ -112,6 +353,7 @@ export interface PreCodedGpt {
   icon: ReactElement;
   roles: UserRole[];
   customComponentId?: 'PregnancyRiskAssessment' | 'LabResultAnalysis' | 'DifferentialDiagnosis';
+  disabledLayers?: string[];    // NEXUS layer names to skip for this GPT (see engine/layerRegistry.ts)
 }
 
 // Types for Scribe Session
@@ -129,6 +371,79 @@ export interface TranscriptEntry {
     segmentIndex?: number;
 }
 
+// Patient details entered in a scribe session and printed on the prescription.
+export interface PatientDemographics {
+    name: string;
+    age: string;
+    sex: string;
+    mobile: string;
+    weight: string;
+    height: string;
+    bmi: string;
+}
+
+export interface PrescriptionHeader {
+    date: string;
+    hospitalName: string;
+    hospitalAddress: string;
+    hospitalPhone: string;
+}
+
+// --- Patient registry (services/storage.ts) ---
+
+// Age is kept for patients whose date of birth is not known.
+export interface Patient {
+    id: string;
+    name: string;
+    dateOfBirth?: string;       // ISO date, e.g. "1978-04-21"
+    age?: string;               // Years, when there is no date of birth
+    sex: string;
+    mobile: string;
+    abhaId?: string;            // 14-digit Ayushman Bharat Health Account number
+    allergies: string[];
+    chronicConditions: string[];
+    createdAt: number;          // Epoch ms
+    updatedAt: number;
+}
+
+// One contact with a patient: a consultation chat, or a scribe session with its transcript,
+// clinical note and prescription.
+export interface Encounter {
+    id: string;
+    patientId: string;
+    kind: 'chat' | 'scribe';
+    chatId?: string;
+    scribeSessionId?: string;
+    title: string;
+    startedAt: number;          // Epoch ms
+    updatedAt: number;
+}
+
+export interface ScribeSession {
+    id: string;
+    startedAt: number;          // Epoch ms
+    updatedAt: number;
+    language: string;
+    patientId?: string;
+    transcript: TranscriptEntry[];
+    clinicalNote: string;       // SOAP note followed by the "## Plan" prescription
+    header: PrescriptionHeader;
+    measurements: { weight: string; height: string; bmi: string };
+}
+
+// A patient with their encounters and the chats and scribe sessions those link to.
+export interface PatientChart {
+    patient: Patient;
+    encounters: Encounter[];    // Newest first
+    chats: Chat[];
+    sessions: ScribeSession[];
+}
+
+export interface StorageEstimate {
+    usage: number;              // Bytes used by this origin
+    quota: number;              // Bytes the browser allows this origin
+}
+
 export interface PromptInsight {
     keyTerms: string[];
     suggestions: string[];
@@ -184,6 +499,10 @@ export interface EscalationTrigger {
   condition: string;
   action: string;
   requires_confirmation: boolean;
+  // Evaluable form of `condition`, e.g. "SBP < 90" (utils/alertConditions.ts). Only set when the
+  // whole condition can be read from vitals and labs: "refractory" or "despite fluids" depends on
+  // treatment history, so such triggers stay unevaluated rather than fire on first presentation.
+  when?: string;
 }
 
 export interface MonitoringParameter {
@@ -195,7 +514,7 @@ export interface MonitoringParameter {
 export interface MonitoringTemplate {
     title: string;
     parameters: MonitoringParameter[];
-    alert_triggers: { condition: string, action: string }[];
+    alert_triggers: { condition: string, action: string, when?: string }[];
 }
 
 
@@ -212,3 +531,83 @@ export interface ClinicalProtocol {
   escalation_triggers: EscalationTrigger[];
   references: { citation: string; url?: string }[];
 }
+
+// --- Clinical Terminology Schema ---
+
+export type OntologyCategory = 'symptom' | 'diagnosis' | 'drug';
+
+export interface OntologyConcept {
+  id: string;
+  name: string;                 // Canonical concept name
+  category: OntologyCategory;
+  icd10?: string;               // WHO ICD-10 code (symptoms & diagnoses)
+  snomedCt?: string;            // SNOMED CT concept id, for reference
+  atc?: string;                 // WHO ATC code (drugs)
+  synonyms: string[];           // English, Hinglish and regional surface forms (lowercase)
+}
+
+// --- Differential Diagnosis Knowledge Schema ---
+
+// Likelihood ratios for one finding. Keys are either canonical Signal Horizon symptom terms
+// (e.g. "chest pain") or derived findings evaluated by the DDx engine (e.g. "hypotension").
+export interface DdxFindingLikelihood {
+  finding: string;
+  lrPositive: number;           // Multiplies the odds when the finding is present
+  lrNegative: number;           // Multiplies the odds when the finding is documented absent
+}
+
+export interface DdxDiseaseProfile {
+  conceptId: string;            // Links to CLINICAL_ONTOLOGY for name and ICD-10
+  prior: number;                // Prevalence among undifferentiated acute adult presentations
+  mustNotMiss: boolean;
+  ageMin?: number;
+  ageMax?: number;
+  sex?: 'Male' | 'Female';
+  findings: DdxFindingLikelihood[];
+}
+
+// --- Audit Log Schema ---
+
+// One record per NEXUS workflow run, persisted append-only by services/auditLog.ts.
+export interface AuditRecordContent {
+  requestId: string;
+  timestamp: string;            // ISO 8601, when the request started
+  doctorProfile: DoctorProfile;
+  isDoctorVerified: boolean;
+  gptId?: string;
+  patientId?: string;           // Set when the chat was attached to a registered patient
+  protocolIds: string[];
+  actionType: 'Informational' | 'Requires Clinician Confirmation' | 'Error';
+  redactionCounts: Record<string, number>; // PHI placeholders issued, by identifier type
+  model?: string;
+  latencyMs: number;
+  tokens: { prompt?: number; completion?: number; total?: number };
+  layerTimings: { name: string; status: string; durationMs: number; error?: string }[];
+  trail: string[];              // The human-readable audit trail of the run
+  structuredDataError?: StructuredDataError;
+  error?: string;
+}
+
+// A stored record, sealed into the hash chain (see services/auditIntegrity.ts).
+export interface AuditRecord extends AuditRecordContent {
+  sequence: number;             // 1-based position in the chain
+  previousHash: string;         // Hash of the record before; 64 zeros for the first record
+  hash: string;                 // SHA-256 (hex) of this record's contents plus previousHash
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: { sequence: number; requestId: string; reason: string };
+}
+
+// A self-contained export that an auditor can verify offline.
+export interface AuditExportBundle {
+  format: 'nexus-audit-bundle/v1';
+  exportedAt: string;
+  records: AuditRecord[];
+  headHash: string;             // Hash of the last record in the bundle
+  publicKeyJwk: JsonWebKey;     // ECDSA P-256 verification key of the exporting installation
+  keyFingerprint: string;       // SHA-256 of the public key, to compare with the registered one
+  signature: string;            // Base64 ECDSA-SHA256 signature over the bundle manifest
+}
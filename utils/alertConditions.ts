@@ -0,0 +1,63 @@
+// Evaluable alert conditions for protocol escalation and monitoring triggers.
+// A condition is written in the protocol as comparisons on a measure, joined with "and" /
+// "or" ("and" binds tighter): "SBP < 90", "MAP < 65 and Lactate > 2", "SpO2 < 90 or RR > 30".
+// Measures are vital-sign kinds (SBP, DBP, MAP, HR, RR, SpO2, Temp) or lab analyte names,
+// compared in SI units. A comparison whose measure has no value is not met, so a condition
+// only fires on documented values.
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=';
+
+export interface AlertComparison {
+  measure: string;
+  operator: ComparisonOperator;
+  threshold: number;
+}
+
+// Disjunction of conjunctions: any group fires if all its comparisons hold.
+export type AlertCondition = AlertComparison[][];
+
+export interface MeasuredValue {
+  value: number;
+  evidence: string;             // How the value is shown, e.g. "SBP 84 mmHg"
+}
+
+const COMPARISON_PATTERN = /^([a-z][a-z0-9 ]*?)\s*(<=|>=|≤|≥|<|>)\s*(-?\d+(?:\.\d+)?)$/i;
+
+const OPERATOR_ALIASES: Record<string, ComparisonOperator> = { '<': '<', '<=': '<=', '≤': '<=', '>': '>', '>=': '>=', '≥': '>=' };
+
+// Throws on text it cannot read, so a malformed protocol entry is caught rather than ignored.
+export const parseAlertCondition = (text: string): AlertCondition =>
+  text.split(/\s+or\s+/i).map(group =>
+    group.split(/\s+and\s+/i).map(part => {
+      const match = COMPARISON_PATTERN.exec(part.trim());
+      if (!match) throw new Error(`Unreadable alert condition "${part.trim()}" in "${text}".`);
+      return { measure: match[1].trim(), operator: OPERATOR_ALIASES[match[2]], threshold: parseFloat(match[3]) };
+    })
+  );
+
+const compare = (value: number, operator: ComparisonOperator, threshold: number): boolean => {
+  switch (operator) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+  }
+};
+
+// The evidence for the first group that holds ("MAP 60 mmHg < 65; Lactate 4.5 mmol/L > 2"),
+// or null when none does.
+export const evaluateAlertCondition = (
+  condition: AlertCondition,
+  measure: (name: string) => MeasuredValue | undefined,
+): string | null => {
+  for (const group of condition) {
+    const evidence: string[] = [];
+    for (const { measure: name, operator, threshold } of group) {
+      const measured = measure(name);
+      if (!measured || !compare(measured.value, operator, threshold)) break;
+      evidence.push(`${measured.evidence} ${operator} ${threshold}`);
+    }
+    if (evidence.length === group.length) return evidence.join('; ');
+  }
+  return null;
+};
@@ -0,0 +1,29 @@
+// Helpers for reading the scribe's clinical note: "## Header" sections, their list items and
+// the Plan's "Name | Dose | Frequency | Route" medicine lines.
+
+export const NOT_RECORDED = /^(none|nil|n\/a|not (?:specified|mentioned|recorded))\.?$/i;
+
+// The body of a "## Header" section of a scribe note, up to the next header.
+export const noteSection = (note: string, header: string): string => {
+    const match = new RegExp(`^##\\s*${header}\\b.*$`, 'im').exec(note);
+    if (!match) return '';
+    const body = note.slice(match.index + match[0].length);
+    const next = body.search(/^##\s/m);
+    return next === -1 ? body : body.slice(0, next);
+};
+
+export const listItems = (section: string): string[] =>
+    section.split('\n')
+        .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+        .filter(line => line && !NOT_RECORDED.test(line));
+
+// The columns of a Plan medicine line, or null for free-text advice lines.
+export const medicineColumns = (line: string): string[] | null => {
+    if (!line.includes('|')) return null;
+    const columns = line.split('|').map(part => part.trim());
+    return columns[0] ? columns : null;
+};
+
+// The medicine lines of the note's Plan, as written.
+export const planMedicines = (note: string): string[] =>
+    listItems(noteSection(note, 'Plan')).filter(line => medicineColumns(line) !== null);
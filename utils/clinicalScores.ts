@@ -0,0 +1,218 @@
+import { ClinicalScoreId, ClinicalScoreResult } from '../types';
+
+// Deterministic clinical scores for triage and risk stratification.
+// Each score lists its inputs, the points each input earns and the interpretation bands,
+// so the result can be shown and audited without the model. Inputs that were not entered
+// score 0 and are listed in `missing`; the total is then a minimum. Lab inputs use the units
+// the original scores were published in (urea mmol/L, creatinine mg/dL).
+
+export type Consciousness = 'Alert' | 'New confusion' | 'Voice' | 'Pain' | 'Unresponsive';
+export type TroponinResult = 'normal' | '1-3x' | '>3x';           // Relative to the upper reference limit
+export type EcgFinding = 'normal' | 'nonspecific' | 'st-deviation';
+export type HistorySuspicion = 'slight' | 'moderate' | 'high';    // HEART "History"
+
+export interface ScoreInputs {
+  age?: number;
+  sbp?: number;
+  dbp?: number;
+  hr?: number;
+  rr?: number;
+  temp?: number;                // °C
+  spo2?: number;
+  supplementalOxygen?: boolean;
+  consciousness?: Consciousness;
+  ureaMmolL?: number;
+  creatinineMgDl?: number;
+  troponin?: TroponinResult;
+  ecg?: EcgFinding;
+  historySuspicion?: HistorySuspicion;
+  cadRiskFactors?: number;      // Hypertension, diabetes, hyperlipidaemia, smoking, family history, obesity
+  knownAtherosclerosis?: boolean; // Prior MI, PCI/CABG, stenosis ≥ 50%, stroke or PAD
+  aspirinLast7Days?: boolean;
+  severeAngina24h?: boolean;    // ≥ 2 anginal episodes in 24 h
+  killipClass?: 1 | 2 | 3 | 4;
+  cardiacArrestAtAdmission?: boolean;
+  dvtSigns?: boolean;
+  peMostLikely?: boolean;
+  immobilizationOrSurgery?: boolean; // ≥ 3 days immobilization or surgery in the last 4 weeks
+  previousVte?: boolean;
+  hemoptysis?: boolean;
+  malignancy?: boolean;
+}
+
+interface Band {
+  upTo: number;                 // Inclusive upper bound of the band
+  label: string;
+  risk: ClinicalScoreResult['risk'];
+  interpretation: string;
+}
+
+// Points for a value from ascending (upper bound, points) steps; values above the last bound get `above`.
+const stepPoints = (value: number, steps: [number, number][], above: number): number => {
+  for (const [upTo, points] of steps) if (value <= upTo) return points;
+  return above;
+};
+
+const buildScore = (
+  id: ClinicalScoreId,
+  name: string,
+  maxPoints: number,
+  bands: Band[],
+  parts: { label: string; points?: number; input?: string }[],
+): ClinicalScoreResult => {
+  const components = parts.filter(p => p.points !== undefined).map(p => ({ label: p.label, points: p.points! }));
+  const missing = parts.filter(p => p.points === undefined).map(p => p.input || p.label);
+  const points = components.reduce((sum, c) => sum + c.points, 0);
+  const band = bands.find(b => points <= b.upTo) || bands[bands.length - 1];
+  return {
+    id,
+    name,
+    points,
+    maxPoints,
+    band: band.label,
+    risk: band.risk,
+    interpretation: missing.length > 0 ? `${band.interpretation} Minimum score: ${missing.join(', ')} not entered.` : band.interpretation,
+    components,
+    missing,
+  };
+};
+
+// An input that is present scores `points(value)`, otherwise it is reported as missing.
+const part = <T>(label: string, value: T | undefined, points: (v: T) => number, input?: string) =>
+  ({ label, points: value === undefined || (typeof value === 'number' && isNaN(value)) ? undefined : points(value), input });
+
+const flag = (label: string, present: boolean | undefined, points: number) => ({ label, points: present ? points : 0 });
+
+const isAltered = (c: Consciousness) => c !== 'Alert';
+
+export const computeQsofa = (i: ScoreInputs): ClinicalScoreResult =>
+  buildScore('qsofa', 'qSOFA', 3, [
+    { upTo: 1, label: 'Low (0-1)', risk: 'Low', interpretation: 'Not high risk by qSOFA; reassess if the patient deteriorates. qSOFA does not exclude sepsis.' },
+    { upTo: 3, label: 'High (≥2)', risk: 'High', interpretation: 'High risk of poor outcome in suspected infection: assess for organ dysfunction (SOFA, lactate) and escalate care.' },
+  ], [
+    part('RR ≥ 22/min', i.rr, v => (v >= 22 ? 1 : 0), 'RR'),
+    part('Altered mentation', i.consciousness, v => (isAltered(v) ? 1 : 0), 'consciousness'),
+    part('SBP ≤ 100 mmHg', i.sbp, v => (v <= 100 ? 1 : 0), 'SBP'),
+  ]);
+
+export const computeNews2 = (i: ScoreInputs): ClinicalScoreResult => {
+  const parts = [
+    part('Respiration rate', i.rr, v => stepPoints(v, [[8, 3], [11, 1], [20, 0], [24, 2]], 3), 'RR'),
+    part('SpO2 (scale 1)', i.spo2, v => stepPoints(v, [[91, 3], [93, 2], [95, 1]], 0), 'SpO2'),
+    flag('Supplemental oxygen', i.supplementalOxygen, 2),
+    part('Systolic BP', i.sbp, v => stepPoints(v, [[90, 3], [100, 2], [110, 1], [219, 0]], 3), 'SBP'),
+    part('Pulse', i.hr, v => stepPoints(v, [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2]], 3), 'HR'),
+    part('Consciousness (ACVPU)', i.consciousness, v => (isAltered(v) ? 3 : 0), 'consciousness'),
+    part('Temperature', i.temp, v => stepPoints(v, [[35.0, 3], [36.0, 1], [38.0, 0], [39.0, 1]], 2), 'temperature'),
+  ];
+  const result = buildScore('news2', 'NEWS2', 20, [
+    { upTo: 4, label: 'Low (0-4)', risk: 'Low', interpretation: 'Ward-based response: minimum 4-12 hourly observations, assessed by a competent nurse.' },
+    { upTo: 6, label: 'Medium (5-6)', risk: 'Medium', interpretation: 'Urgent response: urgent review by a clinician competent in assessing acutely ill patients; at least hourly observations.' },
+    { upTo: 20, label: 'High (≥7)', risk: 'High', interpretation: 'Emergency response: immediate assessment by a critical-care-competent team; continuous monitoring; consider transfer to higher-level care.' },
+  ], parts);
+  // A 3 in any single parameter is a low-medium score that needs urgent ward-based review.
+  if (result.risk === 'Low' && result.components.some(c => c.points === 3)) {
+    const missing = result.missing.length > 0 ? ` Minimum score: ${result.missing.join(', ')} not entered.` : '';
+    return { ...result, band: 'Low-medium (3 in one parameter)', risk: 'Medium', interpretation: `Urgent ward-based response: a single parameter scores 3; review by a clinician to decide on escalation; at least hourly observations.${missing}` };
+  }
+  return result;
+};
+
+export const computeCurb65 = (i: ScoreInputs): ClinicalScoreResult =>
+  buildScore('curb65', 'CURB-65', 5, [
+    { upTo: 1, label: 'Low (0-1)', risk: 'Low', interpretation: '30-day mortality < 3%: consider home treatment.' },
+    { upTo: 2, label: 'Moderate (2)', risk: 'Medium', interpretation: '30-day mortality about 9%: consider short inpatient stay or supervised outpatient treatment.' },
+    { upTo: 5, label: 'High (3-5)', risk: 'High', interpretation: '30-day mortality 15-40%: manage in hospital as severe pneumonia; assess for ICU at 4-5.' },
+  ], [
+    part('Confusion', i.consciousness, v => (isAltered(v) ? 1 : 0), 'consciousness'),
+    part('Urea > 7 mmol/L', i.ureaMmolL, v => (v > 7 ? 1 : 0), 'urea'),
+    part('RR ≥ 30/min', i.rr, v => (v >= 30 ? 1 : 0), 'RR'),
+    { label: 'SBP < 90 or DBP ≤ 60 mmHg', points: i.sbp === undefined && i.dbp === undefined ? undefined : ((i.sbp ?? Infinity) < 90 || (i.dbp ?? Infinity) <= 60 ? 1 : 0), input: 'BP' },
+    part('Age ≥ 65', i.age, v => (v >= 65 ? 1 : 0), 'age'),
+  ]);
+
+const riskFactorPoints = (i: ScoreInputs): number | undefined => {
+  if (i.knownAtherosclerosis) return 2;
+  if (i.cadRiskFactors === undefined) return undefined;
+  return i.cadRiskFactors >= 3 ? 2 : i.cadRiskFactors >= 1 ? 1 : 0;
+};
+
+export const computeHeart = (i: ScoreInputs): ClinicalScoreResult =>
+  buildScore('heart', 'HEART', 10, [
+    { upTo: 3, label: 'Low (0-3)', risk: 'Low', interpretation: '6-week MACE risk about 1.7%: candidate for early discharge with follow-up.' },
+    { upTo: 6, label: 'Moderate (4-6)', risk: 'Medium', interpretation: '6-week MACE risk about 16.6%: admit for observation, serial troponins and non-invasive testing.' },
+    { upTo: 10, label: 'High (7-10)', risk: 'High', interpretation: '6-week MACE risk about 50%: early invasive strategy; cardiology review.' },
+  ], [
+    part('History', i.historySuspicion, v => ({ slight: 0, moderate: 1, high: 2 }[v]), 'history suspicion'),
+    part('ECG', i.ecg, v => ({ normal: 0, nonspecific: 1, 'st-deviation': 2 }[v]), 'ECG'),
+    part('Age', i.age, v => stepPoints(v, [[44, 0], [64, 1]], 2), 'age'),
+    { label: 'Risk factors', points: riskFactorPoints(i), input: 'risk factors' },
+    part('Troponin', i.troponin, v => ({ normal: 0, '1-3x': 1, '>3x': 2 }[v]), 'troponin'),
+  ]);
+
+const TIMI_14_DAY_RISK = ['4.7%', '4.7%', '8.3%', '13.2%', '19.9%', '26.2%', '40.9%', '40.9%'];
+
+export const computeTimi = (i: ScoreInputs): ClinicalScoreResult => {
+  const result = buildScore('timi', 'TIMI (UA/NSTEMI)', 7, [
+    { upTo: 2, label: 'Low (0-2)', risk: 'Low', interpretation: 'Low 14-day risk of death, MI or urgent revascularization.' },
+    { upTo: 4, label: 'Intermediate (3-4)', risk: 'Medium', interpretation: 'Intermediate 14-day risk: favour an early invasive strategy and full anticoagulation.' },
+    { upTo: 7, label: 'High (5-7)', risk: 'High', interpretation: 'High 14-day risk: early invasive strategy.' },
+  ], [
+    part('Age ≥ 65', i.age, v => (v >= 65 ? 1 : 0), 'age'),
+    part('≥ 3 CAD risk factors', i.cadRiskFactors, v => (v >= 3 ? 1 : 0), 'risk factors'),
+    flag('Known CAD (stenosis ≥ 50%)', i.knownAtherosclerosis, 1),
+    flag('Aspirin in last 7 days', i.aspirinLast7Days, 1),
+    flag('≥ 2 anginal episodes in 24 h', i.severeAngina24h, 1),
+    part('ST deviation ≥ 0.5 mm', i.ecg, v => (v === 'st-deviation' ? 1 : 0), 'ECG'),
+    part('Positive cardiac marker', i.troponin, v => (v !== 'normal' ? 1 : 0), 'troponin'),
+  ]);
+  return { ...result, interpretation: `14-day event rate ${TIMI_14_DAY_RISK[result.points]}. ${result.interpretation}` };
+};
+
+// In-hospital mortality model (GRACE 2003), as used for NSTE-ACS risk stratification.
+export const computeGrace = (i: ScoreInputs): ClinicalScoreResult =>
+  buildScore('grace', 'GRACE (in-hospital)', 372, [
+    { upTo: 108, label: 'Low (≤108)', risk: 'Low', interpretation: 'In-hospital mortality < 1%.' },
+    { upTo: 140, label: 'Intermediate (109-140)', risk: 'Medium', interpretation: 'In-hospital mortality 1-3%: invasive strategy within 72 hours.' },
+    { upTo: 372, label: 'High (>140)', risk: 'High', interpretation: 'In-hospital mortality > 3%: early invasive strategy within 24 hours.' },
+  ], [
+    part('Age', i.age, v => stepPoints(v, [[29, 0], [39, 8], [49, 25], [59, 41], [69, 58], [79, 75], [89, 91]], 100), 'age'),
+    part('Heart rate', i.hr, v => stepPoints(v, [[49, 0], [69, 3], [89, 9], [109, 15], [149, 24], [199, 38]], 46), 'HR'),
+    part('Systolic BP', i.sbp, v => stepPoints(v, [[79, 58], [99, 53], [119, 43], [139, 34], [159, 24], [199, 10]], 0), 'SBP'),
+    part('Creatinine', i.creatinineMgDl, v => stepPoints(v, [[0.39, 1], [0.79, 4], [1.19, 7], [1.59, 10], [1.99, 13], [3.99, 21]], 28), 'creatinine'),
+    part('Killip class', i.killipClass, v => [0, 20, 39, 59][v - 1], 'Killip class'),
+    flag('Cardiac arrest at admission', i.cardiacArrestAtAdmission, 39),
+    part('ST-segment deviation', i.ecg, v => (v === 'st-deviation' ? 28 : 0), 'ECG'),
+    part('Elevated cardiac enzymes', i.troponin, v => (v !== 'normal' ? 14 : 0), 'troponin'),
+  ]);
+
+export const computeWellsPe = (i: ScoreInputs): ClinicalScoreResult =>
+  buildScore('wells-pe', 'Wells (PE)', 12.5, [
+    { upTo: 4, label: 'PE unlikely (≤4)', risk: 'Low', interpretation: 'PE unlikely: check D-dimer; a normal D-dimer excludes PE.' },
+    { upTo: 12.5, label: 'PE likely (>4)', risk: 'High', interpretation: 'PE likely: CT pulmonary angiography; start anticoagulation while waiting unless contraindicated.' },
+  ], [
+    flag('Clinical signs of DVT', i.dvtSigns, 3),
+    flag('PE the most likely diagnosis', i.peMostLikely, 3),
+    part('Heart rate > 100', i.hr, v => (v > 100 ? 1.5 : 0), 'HR'),
+    flag('Immobilization ≥ 3 days or surgery in 4 weeks', i.immobilizationOrSurgery, 1.5),
+    flag('Previous DVT/PE', i.previousVte, 1.5),
+    flag('Haemoptysis', i.hemoptysis, 1),
+    flag('Malignancy', i.malignancy, 1),
+  ]);
+
+export const CLINICAL_SCORES: { id: ClinicalScoreId; name: string; compute: (inputs: ScoreInputs) => ClinicalScoreResult }[] = [
+  { id: 'news2', name: 'NEWS2', compute: computeNews2 },
+  { id: 'qsofa', name: 'qSOFA', compute: computeQsofa },
+  { id: 'curb65', name: 'CURB-65', compute: computeCurb65 },
+  { id: 'heart', name: 'HEART', compute: computeHeart },
+  { id: 'timi', name: 'TIMI', compute: computeTimi },
+  { id: 'grace', name: 'GRACE', compute: computeGrace },
+  { id: 'wells-pe', name: 'Wells (PE)', compute: computeWellsPe },
+];
+
+export const computeScores = (ids: ClinicalScoreId[], inputs: ScoreInputs): ClinicalScoreResult[] =>
+  CLINICAL_SCORES.filter(s => ids.includes(s.id)).map(s => s.compute(inputs));
+
+// One line per score, for prompts and notes.
+export const describeScore = (score: ClinicalScoreResult): string =>
+  `${score.name}: ${score.points}/${score.maxPoints} — ${score.band}. ${score.interpretation} [${score.components.map(c => `${c.label} ${c.points}`).join(', ')}]`;
@@ -0,0 +1,116 @@
+// Dose, route and frequency parsing for free-text drug orders.
+// Used to compare doses written by the model ("Adrenaline 0.5 mg IM", "Pip-Taz 4.5 g IV q6h")
+// with protocol dosing tables. Mass units are normalized to mg so mg/mcg/g confusions can be
+// detected instead of silently compared.
+
+export type MassUnit = 'mcg' | 'mg' | 'g';
+export type DoseTimeBasis = 'min' | 'h' | 'day';
+export type Route = 'oral' | 'sublingual' | 'iv' | 'im' | 'sc' | 'inhaled' | 'intranasal' | 'topical' | 'rectal';
+
+export interface ParsedDose {
+  text: string;                 // The matched text, e.g. "0.01-3 mcg/kg/min"
+  index: number;                // Offset of the match in the parsed text
+  low: number;
+  high: number;                 // Equal to `low` for a single value
+  unit: MassUnit;
+  perKg: boolean;
+  perTime?: DoseTimeBasis;
+  isLimit: boolean;             // Introduced by "max", "up to", "total" etc. rather than a single dose
+}
+
+const MG_PER_UNIT: Record<MassUnit, number> = { mcg: 0.001, mg: 1, g: 1000 };
+
+const UNIT_ALIASES: Record<string, MassUnit> = {
+  mcg: 'mcg', 'µg': 'mcg', 'μg': 'mcg', ug: 'mcg', microgram: 'mcg', micrograms: 'mcg',
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  g: 'g', gm: 'g', gram: 'g', grams: 'g',
+};
+
+const TIME_ALIASES: Record<string, DoseTimeBasis> = {
+  min: 'min', mins: 'min', minute: 'min',
+  h: 'h', hr: 'h', hrs: 'h', hour: 'h',
+  d: 'day', day: 'day', '24h': 'day', '24hours': 'day',
+};
+
+// Number or range, a mass unit, then optional "/kg" and "/min|h|day" (or "per kg", "per day").
+// A trailing "/mL" marks a concentration (e.g. "4mg/2mL"), which is not a dose.
+const DOSE_PATTERN = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(mcg|µg|μg|ug|micrograms?|mg|milligrams?|grams?|gm|g)(?![a-z])(\s*(?:\/|per)\s*kg)?(?:\s*(?:\/|per)\s*(24\s*h(?:ours)?|mins?|minute|hrs?|hour|h|day|d)(?![a-z]))?(\s*\/\s*\d*\s*ml)?/gi;
+
+const LIMIT_CUE = /(max(?:imum)?|up to|total|cumulative|not (?:to )?exceed|ceiling)\W*(?:\w+\W+){0,2}$/i;
+
+export const parseDoses = (text: string): ParsedDose[] => {
+  const doses: ParsedDose[] = [];
+  for (const match of text.matchAll(DOSE_PATTERN)) {
+    const [matched, low, high, unit, perKg, perTime, concentration] = match;
+    if (concentration) continue;
+    const index = match.index ?? 0;
+    doses.push({
+      text: matched.trim(),
+      index,
+      low: parseFloat(low),
+      high: parseFloat(high ?? low),
+      unit: UNIT_ALIASES[unit.toLowerCase()],
+      perKg: !!perKg,
+      perTime: perTime ? TIME_ALIASES[perTime.toLowerCase().replace(/\s+/g, '')] : undefined,
+      isLimit: LIMIT_CUE.test(text.slice(Math.max(0, index - 30), index)),
+    });
+  }
+  return doses;
+};
+
+export const toMg = (value: number, unit: MassUnit): number => value * MG_PER_UNIT[unit];
+
+// Alternatives per route; matched case-insensitively and not inside a longer word. Dosage forms
+// and how they are taken ("tablet", "chewed") are not routes: a sublingual tablet is not oral.
+const ROUTE_TERMS: [Route, string][] = [
+  ['sublingual', 'sl|sublingual(?:ly)?|under the tongue'],
+  ['iv', 'iv|i\\.v\\.|intravenous(?:ly)?'],
+  ['im', 'im|i\\.m\\.|intramuscular(?:ly)?'],
+  ['sc', 'sc|s\\.c\\.|subcut(?:aneous(?:ly)?)?|sq'],
+  ['inhaled', 'inhaled|nebuli[sz]ed|neb|via inhaler|mdi'],
+  ['intranasal', 'intranasal(?:ly)?|nasal spray'],
+  ['topical', 'topical(?:ly)?'],
+  ['rectal', 'rectal(?:ly)?|per rectum|suppository'],
+  ['oral', 'oral(?:ly)?|po|p\\.o\\.|per os|by mouth'],
+];
+
+const ROUTE_PATTERNS: [Route, RegExp][] = ROUTE_TERMS.map(([route, terms]) => [route, new RegExp(`(?<![a-z])(?:${terms})(?![a-z])`, 'gi')]);
+
+const NEGATION = /\b(not|never|avoid|no|don't|do not|instead of)\W+(?:\w+\W+){0,2}$/i;
+
+// True when the term starting at `index` is negated by the words just before it
+// ("do not give IV", "avoid NSAIDs").
+export const isNegatedAt = (text: string, index: number): boolean =>
+  NEGATION.test(text.slice(Math.max(0, index - 25), index));
+
+// Routes stated in the text. Routes that are negated ("do not give IV") are ignored.
+export const parseRoutes = (text: string): Route[] => {
+  const routes = new Set<Route>();
+  for (const [route, pattern] of ROUTE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!isNegatedAt(text, match.index ?? 0)) routes.add(route);
+    }
+  }
+  return [...routes];
+};
+
+const FREQUENCY_PATTERNS: [RegExp, (m: RegExpMatchArray) => number][] = [
+  [/\bq\s?(\d+)\s?h(?:rs?|ourly)?\b/i, m => 24 / parseInt(m[1], 10)],
+  [/\bevery\s+(\d+)\s*(?:hours?|hrs?|h)\b/i, m => 24 / parseInt(m[1], 10)],
+  [/\b(qid|qds|four times (?:a|per) day)\b/i, () => 4],
+  [/\b(tid|tds|three times (?:a|per) day|thrice daily)\b/i, () => 3],
+  [/\b(bid|bd|twice (?:a |per )?day|twice daily)\b/i, () => 2],
+  [/\b(od|qd|once (?:a |per )?day|once daily|daily)\b/i, () => 1],
+];
+
+// Doses per day, when the text states a regular frequency.
+export const parseDosesPerDay = (text: string): number | undefined => {
+  for (const [pattern, toPerDay] of FREQUENCY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return toPerDay(match);
+  }
+  return undefined;
+};
+
+export const formatDose = (dose: Pick<ParsedDose, 'low' | 'high' | 'unit' | 'perKg' | 'perTime'>): string =>
+  `${dose.low === dose.high ? dose.low : `${dose.low}-${dose.high}`} ${dose.unit}${dose.perKg ? '/kg' : ''}${dose.perTime ? `/${dose.perTime}` : ''}`;
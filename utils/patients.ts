@@ -0,0 +1,44 @@
+import { Patient } from '../types';
+
+// Helpers for the patient registry: age from the date of birth, display labels and search.
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+// Whole years from the date of birth when there is one, otherwise the recorded age.
+export const patientAge = (patient: Patient, now: Date = new Date()): string => {
+    if (patient.dateOfBirth) {
+        const born = new Date(patient.dateOfBirth).getTime();
+        if (!Number.isNaN(born)) return String(Math.floor((now.getTime() - born) / YEAR_MS));
+    }
+    return patient.age || '';
+};
+
+// e.g. "Asha Patil, 54 F"
+export const describePatient = (patient: Patient): string => {
+    const age = patientAge(patient);
+    const details = [age, patient.sex && patient.sex.charAt(0).toUpperCase()].filter(Boolean).join(' ');
+    return details ? `${patient.name}, ${details}` : patient.name;
+};
+
+// ABHA numbers are 14 digits, written 12-3456-7890-1234.
+export const formatAbhaId = (value: string): string => {
+    const digits = value.replace(/\D/g, '').slice(0, 14);
+    return [digits.slice(0, 2), digits.slice(2, 6), digits.slice(6, 10), digits.slice(10, 14)].filter(Boolean).join('-');
+};
+
+export const isValidAbhaId = (value: string): boolean => value.replace(/\D/g, '').length === 14;
+
+// Matches the name by words, and the mobile and ABHA number by digits.
+export const matchesPatientQuery = (patient: Patient, query: string): boolean => {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    const digits = q.replace(/\D/g, '');
+    if (digits.length >= 3 && digits.length === q.replace(/[\s-]/g, '').length) {
+        return patient.mobile.replace(/\D/g, '').includes(digits) || (patient.abhaId || '').replace(/\D/g, '').includes(digits);
+    }
+    return q.split(/\s+/).every(word => patient.name.toLowerCase().includes(word));
+};
+
+// Comma- or newline-separated entry, as typed in the patient form.
+export const parseList = (value: string): string[] =>
+    value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
@@ -0,0 +1,355 @@
+import {
+  DdxItem, LabParameter, LabResultAnalysis, MedicalCodeResult, PatientHandout, RiskAssessmentResult,
+  StructuredDataError, StructuredDataIssue, StructuredDataType,
+} from '../types';
+
+// Runtime validation for the structured payloads GPT modes return in a ```json block.
+// Each StructuredDataType variant has a validator that repairs what can be repaired without
+// changing its meaning (enum spellings such as "moderate" or "high", numbers sent as strings,
+// a single string where a list is expected, a missing summary or disclaimer) and rejects the
+// rest. Clinical content is never invented or dropped: a DDx item without a confidence or a
+// lab value without an urgency rejects the whole payload, and the error is reported rather
+// than rendered as a broken card.
+
+export type StructuredDataValidation =
+  | { status: 'valid'; value: StructuredDataType; repairs: StructuredDataIssue[] }
+  | { status: 'invalid'; error: StructuredDataError };
+
+type StructuredType = StructuredDataType['type'];
+
+interface Issues {
+  repairs: StructuredDataIssue[];
+  errors: StructuredDataIssue[];
+}
+
+const DEFAULT_DISCLAIMER = 'This handout is for general information and does not replace advice from your doctor.';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+// --- Field readers: each returns the repaired value, or undefined after recording an error ---
+
+const readString = (value: unknown, path: string, issues: Issues, fallback?: string): string | undefined => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    issues.repairs.push({ path, message: `Converted ${typeof value} ${value} to text.` });
+    return String(value);
+  }
+  if (fallback !== undefined) {
+    if (value !== undefined && value !== null && value !== '') {
+      issues.repairs.push({ path, message: 'Replaced a non-text value with the default.' });
+    } else if (fallback) {
+      issues.repairs.push({ path, message: 'Filled in the missing value with the default.' });
+    }
+    return fallback;
+  }
+  issues.errors.push({ path, message: value === undefined || value === null || value === '' ? 'Missing required text.' : `Expected text, got ${Array.isArray(value) ? 'a list' : typeof value}.` });
+  return undefined;
+};
+
+const readStringList = (value: unknown, path: string, issues: Issues): string[] | undefined => {
+  if (value === undefined || value === null) {
+    issues.repairs.push({ path, message: 'Missing list treated as empty.' });
+    return [];
+  }
+  if (typeof value === 'string') {
+    issues.repairs.push({ path, message: 'Wrapped a single text value in a list.' });
+    return value.trim() ? [value.trim()] : [];
+  }
+  if (!Array.isArray(value)) {
+    issues.errors.push({ path, message: `Expected a list of text, got ${typeof value}.` });
+    return undefined;
+  }
+  const items = value.map((item, i) => readString(item, `${path}[${i}]`, issues));
+  return items.every(item => item !== undefined) ? items : undefined;
+};
+
+// A list of objects; a lone object is wrapped. Each item is validated in turn.
+const readList = <T>(
+  value: unknown,
+  path: string,
+  issues: Issues,
+  readItem: (item: Record<string, unknown>, path: string) => T | undefined,
+  options: { allowEmpty: boolean },
+): T[] | undefined => {
+  let list: unknown[];
+  if (Array.isArray(value)) {
+    list = value;
+  } else if (isObject(value)) {
+    issues.repairs.push({ path, message: 'Wrapped a single entry in a list.' });
+    list = [value];
+  } else {
+    issues.errors.push({ path, message: value === undefined ? 'Missing required list.' : `Expected a list, got ${typeof value}.` });
+    return undefined;
+  }
+  if (list.length === 0 && !options.allowEmpty) {
+    issues.errors.push({ path, message: 'The list is empty.' });
+    return undefined;
+  }
+  const items = list.map((item, i) => {
+    if (isObject(item)) return readItem(item, `${path}[${i}]`);
+    issues.errors.push({ path: `${path}[${i}]`, message: `Expected an object, got ${Array.isArray(item) ? 'a list' : typeof item}.` });
+    return undefined;
+  });
+  return items.every(item => item !== undefined) ? items : undefined;
+};
+
+const readEnum = <T extends string>(
+  value: unknown,
+  path: string,
+  issues: Issues,
+  aliases: Record<string, T>,
+  fromNumber?: (n: number) => T,
+): T | undefined => {
+  if (typeof value === 'number' && fromNumber) {
+    const coerced = fromNumber(value);
+    issues.repairs.push({ path, message: `Mapped ${value} to "${coerced}".` });
+    return coerced;
+  }
+  if (typeof value === 'string') {
+    const coerced = aliases[normalizeKey(value)];
+    if (coerced) {
+      if (coerced !== value) issues.repairs.push({ path, message: `Mapped "${value}" to "${coerced}".` });
+      return coerced;
+    }
+  }
+  const allowed = [...new Set(Object.values(aliases))].join(', ');
+  issues.errors.push({ path, message: value === undefined ? `Missing; expected one of ${allowed}.` : `Unrecognized value ${JSON.stringify(value)}; expected one of ${allowed}.` });
+  return undefined;
+};
+
+// --- Enum vocabularies ---
+
+const CONFIDENCE_ALIASES: Record<string, DdxItem['confidence']> = {
+  'high': 'High', 'very high': 'High', 'likely': 'High', 'most likely': 'High', 'probable': 'High',
+  'medium': 'Medium', 'moderate': 'Medium', 'intermediate': 'Medium', 'med': 'Medium', 'possible': 'Medium',
+  'low': 'Low', 'very low': 'Low', 'unlikely': 'Low', 'less likely': 'Low',
+};
+
+const URGENCY_ALIASES: Record<string, LabParameter['urgency']> = {
+  'normal': 'Normal', 'within normal limits': 'Normal', 'wnl': 'Normal', 'within range': 'Normal',
+  'abnormal': 'Abnormal', 'high': 'Abnormal', 'low': 'Abnormal', 'elevated': 'Abnormal', 'raised': 'Abnormal',
+  'decreased': 'Abnormal', 'borderline': 'Abnormal', 'mildly abnormal': 'Abnormal', 'out of range': 'Abnormal',
+  'critical': 'Critical', 'critically high': 'Critical', 'critically low': 'Critical', 'panic': 'Critical', 'urgent': 'Critical',
+};
+
+const RISK_ALIASES: Record<string, RiskAssessmentResult['riskLevel']> = {
+  'low': 'Low', 'very low': 'Low',
+  'medium': 'Medium', 'moderate': 'Medium', 'intermediate': 'Medium',
+  'high': 'High', 'very high': 'High', 'severe': 'High', 'critical': 'High',
+};
+
+const TYPE_ALIASES: Record<string, StructuredType> = {
+  'ddx': 'ddx', 'differential': 'ddx', 'differential diagnosis': 'ddx',
+  'lab': 'lab', 'labs': 'lab', 'lab analysis': 'lab',
+  'billing': 'billing', 'codes': 'billing', 'medical codes': 'billing',
+  'handout': 'handout', 'patient handout': 'handout',
+  'risk assessment': 'risk-assessment', 'risk': 'risk-assessment', 'triage': 'risk-assessment',
+};
+
+// Probabilities as 0-1 or as percentages.
+const confidenceFromNumber = (n: number): DdxItem['confidence'] => {
+  const p = n > 1 ? n / 100 : n;
+  return p >= 0.6 ? 'High' : p >= 0.3 ? 'Medium' : 'Low';
+};
+
+// --- Variant validators ---
+
+const readDdxItem = (item: Record<string, unknown>, path: string, issues: Issues): DdxItem | undefined => {
+  const diagnosis = readString(item.diagnosis, `${path}.diagnosis`, issues);
+  const rationale = readString(item.rationale, `${path}.rationale`, issues, '');
+  const confidence = readEnum(item.confidence, `${path}.confidence`, issues, CONFIDENCE_ALIASES, confidenceFromNumber);
+  if (diagnosis === undefined || confidence === undefined) return undefined;
+  // Probability, must-not-miss and ICD-10 belong to the local DDx engine and are not taken from the model.
+  return { diagnosis, rationale, confidence };
+};
+
+const readLabParameter = (item: Record<string, unknown>, path: string, issues: Issues): LabParameter | undefined => {
+  const parameter = readString(item.parameter, `${path}.parameter`, issues);
+  const value = readString(item.value, `${path}.value`, issues);
+  const referenceRange = readString(item.referenceRange, `${path}.referenceRange`, issues, '');
+  const interpretation = readString(item.interpretation, `${path}.interpretation`, issues, '');
+  const urgency = readEnum(item.urgency, `${path}.urgency`, issues, URGENCY_ALIASES);
+  if (parameter === undefined || value === undefined || urgency === undefined) return undefined;
+  return { parameter, value, referenceRange, interpretation, urgency };
+};
+
+const validateDdx = (data: unknown, issues: Issues): DdxItem[] | undefined =>
+  readList(data, 'data', issues, (item, path) => readDdxItem(item, path, issues), { allowEmpty: false });
+
+const validateLab = (data: unknown, issues: Issues, summary?: string): LabResultAnalysis | undefined => {
+  if (!isObject(data)) {
+    issues.errors.push({ path: 'data', message: 'Expected an object with overallInterpretation and results.' });
+    return undefined;
+  }
+  const overallInterpretation = readString(data.overallInterpretation, 'data.overallInterpretation', issues, summary);
+  const results = readList(data.results, 'data.results', issues, (item, path) => readLabParameter(item, path, issues), { allowEmpty: false });
+  if (overallInterpretation === undefined || results === undefined) return undefined;
+  return { overallInterpretation, results };
+};
+
+const validateBilling = (data: unknown, issues: Issues): MedicalCodeResult | undefined => {
+  if (!isObject(data)) {
+    issues.errors.push({ path: 'data', message: 'Expected an object with query and codes.' });
+    return undefined;
+  }
+  const query = readString(data.query, 'data.query', issues);
+  // An empty list is a valid answer: no codes matched the query.
+  const codes = readList(data.codes, 'data.codes', issues, (item, path) => {
+    const code = readString(item.code, `${path}.code`, issues);
+    const description = readString(item.description, `${path}.description`, issues, '');
+    return code === undefined ? undefined : { code: code.toUpperCase(), description };
+  }, { allowEmpty: true });
+  if (query === undefined || codes === undefined) return undefined;
+  return { query, codes };
+};
+
+const validateHandout = (data: unknown, issues: Issues): PatientHandout | undefined => {
+  if (!isObject(data)) {
+    issues.errors.push({ path: 'data', message: 'Expected an object with title, introduction, sections and disclaimer.' });
+    return undefined;
+  }
+  const title = readString(data.title, 'data.title', issues);
+  const introduction = readString(data.introduction, 'data.introduction', issues, '');
+  const sections = readList(data.sections, 'data.sections', issues, (item, path) => {
+    const heading = readString(item.heading, `${path}.heading`, issues);
+    const content = readString(item.content, `${path}.content`, issues);
+    return heading === undefined || content === undefined ? undefined : { heading, content };
+  }, { allowEmpty: false });
+  const disclaimer = readString(data.disclaimer, 'data.disclaimer', issues, DEFAULT_DISCLAIMER);
+  if (title === undefined || sections === undefined) return undefined;
+  return { title, introduction, sections, disclaimer };
+};
+
+const validateRiskAssessment = (data: unknown, issues: Issues, summary?: string): RiskAssessmentResult | undefined => {
+  if (!isObject(data)) {
+    issues.errors.push({ path: 'data', message: 'Expected an object with riskLevel, riskFactors, recommendations and summary.' });
+    return undefined;
+  }
+  const riskLevel = readEnum(data.riskLevel, 'data.riskLevel', issues, RISK_ALIASES);
+  const riskFactors = readStringList(data.riskFactors, 'data.riskFactors', issues);
+  const recommendations = readStringList(data.recommendations, 'data.recommendations', issues);
+  const dataSummary = readString(data.summary, 'data.summary', issues, summary);
+  if (riskLevel === undefined || riskFactors === undefined || recommendations === undefined || dataSummary === undefined) return undefined;
+  // Scores are computed locally by the triage form and attached by the chat, never taken from the model.
+  return { riskLevel, riskFactors, recommendations, summary: dataSummary };
+};
+
+// The type is inferred from the shape of the data when the model leaves it out.
+const inferType = (data: unknown): StructuredType | undefined => {
+  if (Array.isArray(data)) return 'ddx';
+  if (!isObject(data)) return undefined;
+  if ('results' in data) return 'lab';
+  if ('codes' in data) return 'billing';
+  if ('sections' in data) return 'handout';
+  if ('riskLevel' in data) return 'risk-assessment';
+  return undefined;
+};
+
+const defaultSummary = (value: StructuredDataType): string => {
+  switch (value.type) {
+    case 'ddx': return `Differential diagnosis: ${value.data.map(d => d.diagnosis).join(', ')}.`;
+    case 'lab': return value.data.overallInterpretation;
+    case 'billing': return `Medical codes for ${value.data.query}.`;
+    case 'handout': return value.data.title;
+    case 'risk-assessment': return value.data.summary;
+  }
+};
+
+export const validateStructuredData = (payload: unknown): StructuredDataValidation => {
+  const issues: Issues = { repairs: [], errors: [] };
+  const invalid = (type?: string): StructuredDataValidation => ({ status: 'invalid', error: { stage: 'schema', type, issues: issues.errors } });
+
+  if (!isObject(payload)) {
+    issues.errors.push({ path: '', message: `Expected an object with type, data and summary, got ${Array.isArray(payload) ? 'a list' : typeof payload}.` });
+    return invalid();
+  }
+  const declaredType = typeof payload.type === 'string' ? payload.type : undefined;
+
+  let type: StructuredType | undefined;
+  if (declaredType !== undefined) {
+    type = TYPE_ALIASES[normalizeKey(declaredType)];
+    if (type && type !== declaredType) issues.repairs.push({ path: 'type', message: `Mapped "${declaredType}" to "${type}".` });
+  } else {
+    type = inferType(payload.data);
+    if (type) issues.repairs.push({ path: 'type', message: `Missing type inferred as "${type}" from the data.` });
+  }
+  if (!type) {
+    issues.errors.push({ path: 'type', message: declaredType === undefined ? 'Missing type, and the data does not match any known payload.' : `Unknown type "${declaredType}".` });
+    return invalid(declaredType);
+  }
+  if (payload.data === undefined || payload.data === null) {
+    issues.errors.push({ path: 'data', message: 'Missing data.' });
+    return invalid(type);
+  }
+
+  const summary = typeof payload.summary === 'string' && payload.summary.trim() ? payload.summary.trim() : undefined;
+  let value: StructuredDataType | undefined;
+  switch (type) {
+    case 'ddx': {
+      const data = validateDdx(payload.data, issues);
+      if (!data) break;
+      const questions = payload.questions === undefined ? undefined : readStringList(payload.questions, 'questions', issues);
+      value = questions && questions.length > 0 ? { type, data, summary, questions } : { type, data, summary };
+      break;
+    }
+    case 'lab': {
+      const data = validateLab(payload.data, issues, summary);
+      if (data) value = { type, data, summary };
+      break;
+    }
+    case 'billing': {
+      const data = validateBilling(payload.data, issues);
+      if (data) value = { type, data, summary };
+      break;
+    }
+    case 'handout': {
+      const data = validateHandout(payload.data, issues);
+      if (data) value = { type, data, summary };
+      break;
+    }
+    case 'risk-assessment': {
+      const data = validateRiskAssessment(payload.data, issues, summary);
+      if (data) value = { type, data, summary };
+      break;
+    }
+  }
+  if (!value || issues.errors.length > 0) return invalid(type);
+
+  if (!summary) {
+    value.summary = defaultSummary(value);
+    issues.repairs.push({ path: 'summary', message: 'Missing summary derived from the data.' });
+  }
+  return { status: 'valid', value, repairs: issues.repairs };
+};
+
+// Reads the first ```json block of a response. Null when there is none. A block whose JSON
+// does not parse is retried once without trailing commas, the most common model slip.
+export const readStructuredData = (text: string): StructuredDataValidation | null => {
+  const fence = text.indexOf('```json');
+  if (fence === -1) return null;
+  const start = fence + '```json'.length;
+  const end = text.indexOf('```', start);
+  const json = text.substring(start, end === -1 ? undefined : end).trim();
+
+  let payload: unknown;
+  let repaired = false;
+  try {
+    payload = JSON.parse(json);
+  } catch (error) {
+    try {
+      payload = JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+      repaired = true;
+    } catch {
+      const issues: StructuredDataIssue[] = [{ path: '', message: error instanceof Error ? error.message : String(error) }];
+      if (end === -1) issues.push({ path: '', message: 'The ```json block is not closed.' });
+      return { status: 'invalid', error: { stage: 'json', issues } };
+    }
+  }
+
+  const result = validateStructuredData(payload);
+  if (repaired && result.status === 'valid') result.repairs.unshift({ path: '', message: 'Removed trailing commas from the JSON.' });
+  return result;
+};
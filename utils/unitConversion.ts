@@ -0,0 +1,207 @@
+import { LabParameterInput } from '../types';
+
+// Unit normalization for common lab analytes and vitals.
+// Values are converted to SI units (mmol/L, µmol/L, g/L, °C, kg, cm) while the original
+// value and unit are kept, so reference-range comparisons can be made deterministically
+// regardless of how a lab or clinician reported them.
+
+export interface AnalyteDefinition {
+  name: string;                         // Canonical analyte name
+  aliases: string[];                    // Lowercase names as written on Indian lab reports
+  siUnit: string;
+  defaultUnit: string;                  // Unit assumed when none is given (conventional Indian reporting)
+  toSi: Record<string, number>;         // Canonical unit -> multiplication factor to SI
+  referenceRange: { low?: number; high?: number }; // Adult reference range in SI units
+}
+
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+}
+
+export type RangeFlag = 'Low' | 'Normal' | 'High';
+
+export interface NormalizedQuantity {
+  value: number;
+  unit: string;
+  originalValue: number;
+  originalUnit: string;
+  unitAssumed: boolean;                 // True when no unit was given and the default was used
+}
+
+export const ANALYTES: AnalyteDefinition[] = [
+  { name: 'Glucose', aliases: ['glucose', 'blood sugar', 'sugar', 'rbs', 'fbs', 'ppbs', 'grbs', 'blood glucose', 'fasting blood sugar', 'random blood sugar'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.0555, 'mmol/L': 1 }, referenceRange: { low: 3.9, high: 7.8 } },
+  { name: 'Creatinine', aliases: ['creatinine', 'creat', 's. creatinine', 'serum creatinine', 's.cr', 'scr'], siUnit: 'µmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 88.42, 'µmol/L': 1, 'mmol/L': 1000 }, referenceRange: { low: 53, high: 115 } },
+  { name: 'Urea', aliases: ['urea', 'blood urea', 'serum urea'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.1665, 'mmol/L': 1 }, referenceRange: { low: 2.5, high: 7.8 } },
+  // BUN is reported as urea nitrogen; converting to mmol/L yields urea in mmol/L.
+  { name: 'BUN', aliases: ['bun', 'blood urea nitrogen'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.357, 'mmol/L': 1 }, referenceRange: { low: 2.5, high: 7.8 } },
+  { name: 'Cholesterol', aliases: ['cholesterol', 'total cholesterol', 'tc', 's. cholesterol'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.02586, 'mmol/L': 1 }, referenceRange: { high: 5.2 } },
+  { name: 'LDL Cholesterol', aliases: ['ldl', 'ldl cholesterol', 'ldl-c'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.02586, 'mmol/L': 1 }, referenceRange: { high: 2.6 } },
+  { name: 'HDL Cholesterol', aliases: ['hdl', 'hdl cholesterol', 'hdl-c'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.02586, 'mmol/L': 1 }, referenceRange: { low: 1.0 } },
+  { name: 'Triglycerides', aliases: ['triglycerides', 'tg', 'triglyceride'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.01129, 'mmol/L': 1 }, referenceRange: { high: 1.7 } },
+  { name: 'Hemoglobin', aliases: ['hemoglobin', 'haemoglobin', 'hb', 'hgb'], siUnit: 'g/L', defaultUnit: 'g/dL', toSi: { 'g/dL': 10, 'g/L': 1, 'mmol/L': 16.11 }, referenceRange: { low: 120, high: 170 } },
+  { name: 'Bilirubin', aliases: ['bilirubin', 'total bilirubin', 's. bilirubin', 't. bil', 'tbil'], siUnit: 'µmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 17.1, 'µmol/L': 1 }, referenceRange: { low: 3, high: 21 } },
+  { name: 'Sodium', aliases: ['sodium', 'na', 'na+', 's. sodium', 'serum sodium'], siUnit: 'mmol/L', defaultUnit: 'mEq/L', toSi: { 'mEq/L': 1, 'mmol/L': 1 }, referenceRange: { low: 135, high: 145 } },
+  { name: 'Potassium', aliases: ['potassium', 'k', 'k+', 's. potassium', 'serum potassium'], siUnit: 'mmol/L', defaultUnit: 'mEq/L', toSi: { 'mEq/L': 1, 'mmol/L': 1 }, referenceRange: { low: 3.5, high: 5.1 } },
+  { name: 'Chloride', aliases: ['chloride', 'cl', 'cl-', 's. chloride'], siUnit: 'mmol/L', defaultUnit: 'mEq/L', toSi: { 'mEq/L': 1, 'mmol/L': 1 }, referenceRange: { low: 98, high: 107 } },
+  { name: 'Bicarbonate', aliases: ['bicarbonate', 'hco3', 'hco3-', 'tco2'], siUnit: 'mmol/L', defaultUnit: 'mEq/L', toSi: { 'mEq/L': 1, 'mmol/L': 1 }, referenceRange: { low: 22, high: 29 } },
+  { name: 'Calcium', aliases: ['calcium', 'ca', 's. calcium', 'serum calcium'], siUnit: 'mmol/L', defaultUnit: 'mg/dL', toSi: { 'mg/dL': 0.2495, 'mmol/L': 1, 'mEq/L': 0.5 }, referenceRange: { low: 2.15, high: 2.55 } },
+  { name: 'Lactate', aliases: ['lactate', 'lactic acid', 'serum lactate'], siUnit: 'mmol/L', defaultUnit: 'mmol/L', toSi: { 'mmol/L': 1, 'mg/dL': 0.111 }, referenceRange: { low: 0.5, high: 2.2 } },
+];
+
+// Maps the many spellings of a unit to one canonical form.
+const UNIT_ALIASES: Record<string, string> = {
+  'mg/dl': 'mg/dL', 'mg%': 'mg/dL', 'mgs/dl': 'mg/dL', 'mg/100ml': 'mg/dL',
+  'mmol/l': 'mmol/L', 'mm/l': 'mmol/L',
+  'meq/l': 'mEq/L',
+  'g/dl': 'g/dL', 'gm/dl': 'g/dL', 'gm%': 'g/dL', 'g%': 'g/dL', 'gms/dl': 'g/dL',
+  'g/l': 'g/L', 'gm/l': 'g/L',
+  'µmol/l': 'µmol/L', 'umol/l': 'µmol/L', 'micromol/l': 'µmol/L', 'μmol/l': 'µmol/L',
+  '°c': '°C', 'c': '°C', 'degc': '°C', 'celsius': '°C',
+  '°f': '°F', 'f': '°F', 'degf': '°F', 'fahrenheit': '°F',
+  'kg': 'kg', 'kgs': 'kg',
+  'lb': 'lb', 'lbs': 'lb', 'pound': 'lb', 'pounds': 'lb',
+  'cm': 'cm', 'cms': 'cm',
+  'in': 'in', 'inch': 'in', 'inches': 'in',
+};
+
+export const normalizeUnit = (unit: string): string => {
+  const key = unit.trim().toLowerCase().replace(/\s+/g, '');
+  return UNIT_ALIASES[key] || unit.trim();
+};
+
+const round = (value: number, places: number = 2): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+export const findAnalyte = (name: string): AnalyteDefinition | undefined => {
+  const key = name.trim().toLowerCase();
+  return ANALYTES.find(a => a.name.toLowerCase() === key || a.aliases.includes(key))
+    // Fall back to whole-word alias matching for names like "Fasting Blood Sugar (FBS)"
+    || ANALYTES.find(a => a.aliases.some(alias => alias.length > 2 && new RegExp(`\\b${alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(key)));
+};
+
+// Converts a lab value to the analyte's SI unit. Returns null for unknown analytes or units.
+export const convertLabValue = (analyteName: string, value: number, unit?: string): NormalizedQuantity | null => {
+  const analyte = findAnalyte(analyteName);
+  if (!analyte || isNaN(value)) return null;
+
+  const originalUnit = unit && unit.trim() ? normalizeUnit(unit) : analyte.defaultUnit;
+  const factor = analyte.toSi[originalUnit];
+  if (factor === undefined) return null;
+
+  return {
+    value: round(value * factor),
+    unit: analyte.siUnit,
+    originalValue: value,
+    originalUnit,
+    unitAssumed: !(unit && unit.trim()),
+  };
+};
+
+// --- Vitals ---
+
+export const fahrenheitToCelsius = (f: number): number => round((f - 32) * 5 / 9, 1);
+export const poundsToKilograms = (lb: number): number => round(lb * 0.45359237, 1);
+export const inchesToCentimeters = (inches: number): number => round(inches * 2.54, 1);
+
+export const toCelsius = (value: number, unit?: string): NormalizedQuantity => {
+  const canonical = unit ? normalizeUnit(unit) : value > 45 ? '°F' : '°C';
+  return {
+    value: canonical === '°F' ? fahrenheitToCelsius(value) : value,
+    unit: '°C',
+    originalValue: value,
+    originalUnit: canonical,
+    unitAssumed: !unit,
+  };
+};
+
+export const toKilograms = (value: number, unit: string = 'kg'): NormalizedQuantity => {
+  const canonical = normalizeUnit(unit);
+  return {
+    value: canonical === 'lb' ? poundsToKilograms(value) : value,
+    unit: 'kg',
+    originalValue: value,
+    originalUnit: canonical,
+    unitAssumed: false,
+  };
+};
+
+// Parses heights such as "5'7\"", "5 ft 7 in", "5 feet", "170 cm" or "67 in" into centimetres.
+export const parseHeightToCm = (text: string): number | null => {
+  const t = text.trim().toLowerCase();
+  const feetInches = /^(\d+(?:\.\d+)?)\s*(?:'|ft|feet|foot)\s*(?:(\d+(?:\.\d+)?)\s*(?:"|''|in|inch|inches)?)?$/.exec(t);
+  if (feetInches) {
+    const inches = parseFloat(feetInches[1]) * 12 + (feetInches[2] ? parseFloat(feetInches[2]) : 0);
+    return inchesToCentimeters(inches);
+  }
+  const single = /^(\d+(?:\.\d+)?)\s*(cm|cms|in|inch|inches|")?$/.exec(t);
+  if (single) {
+    const value = parseFloat(single[1]);
+    return single[2] && single[2] !== 'cm' && single[2] !== 'cms' ? inchesToCentimeters(value) : value;
+  }
+  return null;
+};
+
+// --- Reference ranges ---
+
+// Parses "70-110", "3.5 – 5.1", "< 200", ">60", "up to 1.2".
+export const parseReferenceRange = (text: string): ReferenceRange | null => {
+  if (!text) return null;
+  const t = text.trim().toLowerCase();
+  const between = /(-?\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(-?\d+(?:\.\d+)?)/.exec(t);
+  if (between) return { low: parseFloat(between[1]), high: parseFloat(between[2]) };
+  const upper = /(?:<|≤|<=|up\s*to|below|less than)\s*(\d+(?:\.\d+)?)/.exec(t);
+  if (upper) return { high: parseFloat(upper[1]) };
+  const lower = /(?:>|≥|>=|above|more than)\s*(\d+(?:\.\d+)?)/.exec(t);
+  if (lower) return { low: parseFloat(lower[1]) };
+  return null;
+};
+
+export const classifyAgainstRange = (value: number, range: ReferenceRange): RangeFlag => {
+  if (range.low !== undefined && value < range.low) return 'Low';
+  if (range.high !== undefined && value > range.high) return 'High';
+  return 'Normal';
+};
+
+// Converts a reference range written in the lab's own unit to SI.
+export const convertRangeToSi = (analyteName: string, range: ReferenceRange, unit?: string): ReferenceRange | null => {
+  const low = range.low !== undefined ? convertLabValue(analyteName, range.low, unit) : null;
+  const high = range.high !== undefined ? convertLabValue(analyteName, range.high, unit) : null;
+  if ((range.low !== undefined && !low) || (range.high !== undefined && !high)) return null;
+  return { low: low?.value, high: high?.value };
+};
+
+export const formatRange = (range: ReferenceRange, unit: string): string => {
+  if (range.low !== undefined && range.high !== undefined) return `${range.low}–${range.high} ${unit}`;
+  if (range.high !== undefined) return `< ${range.high} ${unit}`;
+  if (range.low !== undefined) return `> ${range.low} ${unit}`;
+  return 'N/A';
+};
+
+// Attaches the SI value, SI reference range and range flag to a lab parameter entered in
+// the Lab Analyzer form. The entered reference range wins over the built-in adult range.
+export const normalizeLabParameter = (param: LabParameterInput): LabParameterInput => {
+  const value = parseFloat(param.value);
+  const converted = convertLabValue(param.name, value, param.units);
+  const analyte = findAnalyte(param.name);
+  if (!converted || !analyte) return { ...param, normalized: undefined };
+
+  const entered = parseReferenceRange(param.referenceRange);
+  const siRange = (entered && convertRangeToSi(analyte.name, entered, converted.originalUnit)) || analyte.referenceRange;
+
+  return {
+    ...param,
+    normalized: {
+      analyte: analyte.name,
+      siValue: converted.value,
+      siUnit: converted.unit,
+      originalValue: converted.originalValue,
+      originalUnit: converted.originalUnit,
+      unitAssumed: converted.unitAssumed,
+      siReferenceRange: formatRange(siRange, converted.unit),
+      flag: classifyAgainstRange(converted.value, siRange),
+    },
+  };
+};